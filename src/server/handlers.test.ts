@@ -4,6 +4,7 @@ import {
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import { handleToolCall } from '../tools/index.js';
 import { registerHandlers } from './handlers.js';
 
 // Mock server type for testing - simplified for test compatibility
@@ -227,7 +228,7 @@ describe('Server Handlers', () => {
 
   describe('CallToolRequestSchema handler', () => {
     let callToolHandler: jest.MockedFunction<
-      (args: unknown) => Promise<unknown>
+      (request: unknown, extra: unknown) => Promise<unknown>
     >;
 
     beforeEach(() => {
@@ -244,7 +245,7 @@ describe('Server Handlers', () => {
           ).CallToolRequestSchema;
           if (schema === (CallToolRequestSchema as unknown)) {
             callToolHandler = handler as jest.MockedFunction<
-              (args: unknown) => Promise<unknown>
+              (request: unknown, extra: unknown) => Promise<unknown>
             >;
           }
           return originalSetRequestHandler.call(
@@ -270,8 +271,22 @@ describe('Server Handlers', () => {
         },
       };
 
-      const result = await callToolHandler(request);
+      const result = await callToolHandler(request, {});
       expect(result).toBeDefined();
     });
+
+    it('should pass the transport session to the tool call', async () => {
+      const request = {
+        params: { name: 'reminders_tasks', arguments: { action: 'read' } },
+      };
+
+      await callToolHandler(request, { sessionId: 'session-1' });
+
+      expect(handleToolCall).toHaveBeenCalledWith(
+        'reminders_tasks',
+        { action: 'read' },
+        { client: undefined, sessionId: 'session-1' },
+      );
+    });
   });
 });
@@ -3,6 +3,7 @@
  * Request handlers for the MCP server
  */
 
+import crypto from 'node:crypto';
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
@@ -27,21 +28,32 @@ import {
  * @param server - The MCP server instance
  */
 export function registerHandlers(server: Server): void {
+  // Stdio connections have no transport session, so audit entries share one
+  // per server instance
+  const serverSessionId = crypto.randomUUID();
+
   // Handler for listing available tools
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
     tools: TOOLS,
   }));
 
   // Handler for calling a tool
-  server.setRequestHandler(CallToolRequestSchema, async (request) =>
-    handleToolCall(
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const clientInfo = server.getClientVersion();
+    return handleToolCall(
       request.params.name,
       (request.params.arguments as unknown as
         | RemindersToolArgs
         | ListsToolArgs
         | CalendarToolArgs) ?? {},
-    ),
-  );
+      {
+        client: clientInfo
+          ? `${clientInfo.name}/${clientInfo.version}`
+          : undefined,
+        sessionId: extra.sessionId ?? serverSessionId,
+      },
+    );
+  });
 
   // Handler for listing available prompts
   server.setRequestHandler(ListPromptsRequestSchema, async () => ({
@@ -164,6 +164,7 @@ const buildDailyTaskOrganizerPrompt = (
             `Current time context: ${timeContext.timeDescription} (${timeContext.currentDate}), fuzzy window later today (${fuzzyTimes.laterToday}).`,
           ],
           process: [
+            "Start from the agenda tool (period 'day') to see today's events, dated reminders, overdue carry-overs, and free gaps in one timeline.",
             'Audit all reminders, keep only items due today, and list every other reminder under Out-of-scope notes without editing them.',
             'Classify in-scope tasks: Deep Work blocks follow the shared guidelines (minimum 60 minutes, aim for 90-120) while Shallow tasks stay 15-60 minutes with automatic ~20% buffer; split anything longer than 120 minutes into multiple blocks or reminders.',
             'Create calendar blocks for in-scope tasks lasting ≥60 minutes (title format "Deep Work — [Project]") and align them to today’s due windows.',
@@ -432,7 +433,7 @@ const buildWeeklyPlanningWorkflowPrompt = (
           process: [
             'Analyze user ideas to identify key priorities, themes, and desired outcomes for the week.',
             'Audit all existing reminders: categorize by list, urgency signals (due dates, list assignments), dependencies, and current due date status.',
-            'Map fixed anchor events (existing due dates, calendar commitments) to create immovable time blocks.',
+            "Map fixed anchor events (existing due dates, calendar commitments) to create immovable time blocks, using the agenda tool (period 'week') for the merged timeline and free gaps.",
             'Match reminders to user priorities: assign fuzzy due dates to reminders that align with user ideas.',
             'Distribute remaining reminders across the week using intelligent scheduling: balance workload, avoid overloaded days, group similar tasks.',
             'Apply the confidence-gating policy before executing scheduling updates, recommending changes, or asking for confirmation.',
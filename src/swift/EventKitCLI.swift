@@ -1,6 +1,7 @@
 import Foundation
 import Dispatch
 import EventKit
+import CoreLocation
 
 // MARK: - Output Structures & JSON Models
 struct StandardOutput<T: Codable>: Codable { let status = "success"; let result: T }
@@ -8,9 +9,14 @@ struct ErrorOutput: Codable { let status = "error"; let message: String }
 struct ReadResult: Codable { let lists: [ListJSON]; let reminders: [ReminderJSON] }
 struct DeleteResult: Codable { let id: String; let deleted = true }
 struct DeleteListResult: Codable { let title: String; let deleted = true }
-struct ReminderJSON: Codable { let id: String, title: String, isCompleted: Bool, list: String, notes: String?, url: String?, dueDate: String? }
+struct BatchItemResult: Codable { let index: Int; let action: String; let status: String; let reminder: ReminderJSON?; let deletedId: String?; let message: String? }
+struct ReminderJSON: Codable { let id: String, title: String, isCompleted: Bool, list: String, notes: String?, url: String?, dueDate: String?, priority: Int, recurrence: RecurrenceJSON?, alarms: [AlarmJSON], locationTrigger: LocationTriggerJSON?, parentId: String?, tags: [String], creationDate: String?, lastModifiedDate: String?, completionDate: String? }
+struct AlarmJSON: Codable { let date: String?; let relativeOffset: Int? }
+struct LocationTriggerJSON: Codable { let title: String; let latitude: Double; let longitude: Double; let radius: Double?; let proximity: String }
+struct RecurrenceJSON: Codable { let frequency: String; let interval: Int?; let byWeekday: [String]?; let byMonthDay: [Int]?; let endCount: Int?; let endDate: String? }
 struct ListJSON: Codable { let id: String, title: String }
-struct EventJSON: Codable { let id: String, title: String, calendar: String, startDate: String, endDate: String, notes: String?, location: String?, url: String?, isAllDay: Bool }
+struct EventJSON: Codable { let id: String, title: String, calendar: String, startDate: String, endDate: String, notes: String?, location: String?, url: String?, isAllDay: Bool, isRecurring: Bool, recurrence: RecurrenceJSON?, occurrenceDate: String?, alarms: [AlarmJSON], creationDate: String?, lastModifiedDate: String?, organizer: AttendeeJSON?, attendees: [AttendeeJSON], participationStatus: String?, availability: String, status: String, timeZone: String? }
+struct AttendeeJSON: Codable { let name: String?; let email: String?; let role: String; let status: String; let isCurrentUser: Bool }
 struct CalendarJSON: Codable { let id: String, title: String }
 struct EventsReadResult: Codable { let calendars: [CalendarJSON]; let events: [EventJSON] }
 
@@ -156,6 +162,52 @@ private func parseDateComponents(from dateString: String) -> DateComponents? {
     return nil
 }
 
+// MARK: - Structured Argument Helpers
+private let weekdayNames = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+
+private func decodeJSONArgument<T: Decodable>(_ value: String, as type: T.Type, name: String) throws -> T {
+    guard let data = value.data(using: .utf8), let decoded = try? JSONDecoder().decode(type, from: data) else {
+        throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Invalid JSON for --\(name)."])
+    }
+    return decoded
+}
+
+// MARK: - Reminder Notes Metadata
+// EventKit has no public API for subtasks or tags, so they are kept in a trailing
+// metadata line of the notes, e.g. "[mcp parent=ABC-123 tags=errand,waiting]", hidden from output.
+private let metadataLinePrefix = "[mcp "
+
+private func splitNotesMetadata(_ notes: String?) -> (notes: String?, metadata: [String: String]) {
+    guard let notes = notes else { return (nil, [:]) }
+    var lines = notes.components(separatedBy: "\n")
+    guard let last = lines.last, last.hasPrefix(metadataLinePrefix), last.hasSuffix("]") else { return (notes, [:]) }
+    lines.removeLast()
+    var metadata: [String: String] = [:]
+    for pair in last.dropFirst(metadataLinePrefix.count).dropLast().split(separator: " ") {
+        let parts = pair.split(separator: "=", maxSplits: 1)
+        if parts.count == 2 { metadata[String(parts[0])] = String(parts[1]) }
+    }
+    let visibleNotes = lines.joined(separator: "\n").trimmingCharacters(in: .newlines)
+    return (visibleNotes.isEmpty ? nil : visibleNotes, metadata)
+}
+
+private func metadataTags(_ metadata: [String: String]) -> [String] {
+    return metadata["tags"]?.split(separator: ",").map(String.init) ?? []
+}
+
+/// Stores tags sorted and de-duplicated, dropping the key when no tags remain.
+private func setMetadataTags(_ tags: [String], in metadata: inout [String: String]) {
+    let unique = Array(Set(tags)).sorted()
+    metadata["tags"] = unique.isEmpty ? nil : unique.joined(separator: ",")
+}
+
+private func joinNotesMetadata(_ notes: String?, metadata: [String: String]) -> String? {
+    guard !metadata.isEmpty else { return notes }
+    let line = metadataLinePrefix + metadata.keys.sorted().map { "\($0)=\(metadata[$0] ?? "")" }.joined(separator: " ") + "]"
+    guard let notes = notes, !notes.isEmpty else { return line }
+    return notes + "\n\n" + line
+}
+
 // MARK: - RemindersManager Class
 class RemindersManager {
     private let eventStore = EKEventStore()
@@ -192,6 +244,98 @@ class RemindersManager {
         return list
     }
 
+    private func validatedPriority(_ priority: Int) throws -> Int {
+        guard (0...9).contains(priority) else {
+            throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Priority must be between 0 and 9."])
+        }
+        return priority
+    }
+
+    private func makeRecurrenceRule(from json: RecurrenceJSON) throws -> EKRecurrenceRule {
+        let frequency: EKRecurrenceFrequency
+        switch json.frequency {
+        case "daily": frequency = .daily
+        case "weekly": frequency = .weekly
+        case "monthly": frequency = .monthly
+        case "yearly": frequency = .yearly
+        default: throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Unsupported recurrence frequency '\(json.frequency)'."])
+        }
+
+        let daysOfTheWeek = try json.byWeekday?.map { name -> EKRecurrenceDayOfWeek in
+            guard let index = weekdayNames.firstIndex(of: name.lowercased()), let weekday = EKWeekday(rawValue: index + 1) else {
+                throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Unsupported weekday '\(name)'."])
+            }
+            return EKRecurrenceDayOfWeek(weekday)
+        }
+
+        var end: EKRecurrenceEnd?
+        if let count = json.endCount {
+            end = EKRecurrenceEnd(occurrenceCount: count)
+        } else if let endDateString = json.endDate {
+            guard let endDate = parseDate(from: endDateString) else {
+                throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Invalid recurrence end date format."])
+            }
+            end = EKRecurrenceEnd(end: endDate)
+        }
+
+        return EKRecurrenceRule(
+            recurrenceWith: frequency,
+            interval: max(json.interval ?? 1, 1),
+            daysOfTheWeek: daysOfTheWeek,
+            daysOfTheMonth: json.byMonthDay?.map { NSNumber(value: $0) },
+            monthsOfTheYear: nil,
+            weeksOfTheYear: nil,
+            daysOfTheYear: nil,
+            setPositions: nil,
+            end: end
+        )
+    }
+
+    private func makeAlarm(from json: AlarmJSON) throws -> EKAlarm {
+        if let dateStr = json.date {
+            guard let date = parseDate(from: dateStr) else {
+                throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Invalid alarm date format."])
+            }
+            return EKAlarm(absoluteDate: date)
+        }
+        guard let minutes = json.relativeOffset else {
+            throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Alarm must specify date or relativeOffset."])
+        }
+        return EKAlarm(relativeOffset: TimeInterval(minutes * 60))
+    }
+
+    /// Applies alarm changes: `replace` swaps all time-based alarms, `add` appends, `clear` removes them.
+    private func applyAlarms(to item: EKCalendarItem, replace: [AlarmJSON]?, add: [AlarmJSON]?, clear: Bool) throws {
+        if clear || replace != nil {
+            item.alarms?.filter { $0.structuredLocation == nil }.forEach { item.removeAlarm($0) }
+        }
+        for alarm in (replace ?? []) + (add ?? []) {
+            item.addAlarm(try makeAlarm(from: alarm))
+        }
+    }
+
+    private func makeLocationAlarm(from json: LocationTriggerJSON) throws -> EKAlarm {
+        let location = EKStructuredLocation(title: json.title)
+        location.geoLocation = CLLocation(latitude: json.latitude, longitude: json.longitude)
+        if let radius = json.radius { location.radius = radius }
+        let alarm = EKAlarm()
+        alarm.structuredLocation = location
+        switch json.proximity {
+        case "enter": alarm.proximity = .enter
+        case "leave": alarm.proximity = .leave
+        default: throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Invalid proximity '\(json.proximity)'. Use 'enter' or 'leave'."])
+        }
+        return alarm
+    }
+
+    /// Replaces or removes the location-based alarm while leaving time-based alarms untouched.
+    private func applyLocationTrigger(to reminder: EKReminder, trigger: LocationTriggerJSON?, clear: Bool) throws {
+        if clear || trigger != nil {
+            reminder.alarms?.filter { $0.structuredLocation != nil }.forEach { reminder.removeAlarm($0) }
+        }
+        if let trigger = trigger { reminder.addAlarm(try makeLocationAlarm(from: trigger)) }
+    }
+
     // MARK: Actions
     func getLists() -> [ListJSON] {
         return eventStore.calendars(for: .reminder).map { $0.toJSON() }
@@ -232,9 +376,26 @@ class RemindersManager {
         return filtered.map { $0.toJSON() }
     }
 
-    func createReminder(title: String, listName: String?, notes: String?, urlString: String?, dueDateString: String?) throws -> ReminderJSON {
+    /// Looks up reminders by identifier without fetching every reminder; unknown IDs are left out.
+    func getReminders(ids: [String]) -> [ReminderJSON] {
+        return ids.compactMap { findReminder(withId: $0)?.toJSON() }
+    }
+
+    func createReminder(title: String, listName: String?, notes: String?, urlString: String?, dueDateString: String?, priority: Int?, recurrence: RecurrenceJSON?, alarms: [AlarmJSON]?, locationTrigger: LocationTriggerJSON?, parentId: String?, tags: [String]?) throws -> ReminderJSON {
+        var parent: EKReminder?
+        if let parentId = parentId {
+            guard let found = findReminder(withId: parentId) else {
+                throw NSError(domain: "", code: 404, userInfo: [NSLocalizedDescriptionKey: "Parent reminder with ID '\(parentId)' not found."])
+            }
+            parent = found
+        }
         let reminder = EKReminder(eventStore: eventStore)
-        reminder.calendar = try findList(named: listName)
+        // Subtasks default to their parent's list
+        if let parent = parent, listName == nil {
+            reminder.calendar = parent.calendar
+        } else {
+            reminder.calendar = try findList(named: listName)
+        }
         reminder.title = title
         
         // Handle URL: store in both URL field and append to notes
@@ -251,7 +412,10 @@ class RemindersManager {
                 }
             }
         }
-        if let finalNotes = finalNotes { reminder.notes = finalNotes }
+        var metadata: [String: String] = [:]
+        if let parentId = parentId { metadata["parent"] = parentId }
+        setMetadataTags(tags ?? [], in: &metadata)
+        reminder.notes = joinNotesMetadata(finalNotes, metadata: metadata)
         
         if let dateStr = dueDateString {
             if let parsedComponents = parseDateComponents(from: dateStr) {
@@ -262,13 +426,34 @@ class RemindersManager {
                 reminder.timeZone = nil
             }
         }
+        if let priority = priority { reminder.priority = try validatedPriority(priority) }
+        if let recurrence = recurrence { reminder.recurrenceRules = [try makeRecurrenceRule(from: recurrence)] }
+        try applyAlarms(to: reminder, replace: alarms, add: nil, clear: false)
+        try applyLocationTrigger(to: reminder, trigger: locationTrigger, clear: false)
         try eventStore.save(reminder, commit: true)
         return reminder.toJSON()
     }
 
-    func updateReminder(id: String, newTitle: String?, listName: String?, notes: String?, urlString: String?, isCompleted: Bool?, dueDateString: String?) throws -> ReminderJSON {
+    func updateReminder(id: String, newTitle: String?, listName: String?, notes: String?, urlString: String?, isCompleted: Bool?, dueDateString: String?, priority: Int?, recurrence: RecurrenceJSON?, clearRecurrence: Bool, alarms: [AlarmJSON]?, addAlarms: [AlarmJSON]?, clearAlarms: Bool, locationTrigger: LocationTriggerJSON?, clearLocationTrigger: Bool, tags: [String]?, addTags: [String]?, removeTags: [String]?, parentId: String? = nil) throws -> ReminderJSON {
         guard let reminder = findReminder(withId: id) else { throw NSError(domain: "", code: 404, userInfo: [NSLocalizedDescriptionKey: "ID '\(id)' not found."]) }
         if let newTitle = newTitle { reminder.title = newTitle }
+        let (existingNotes, storedMetadata) = splitNotesMetadata(reminder.notes)
+        var metadata = storedMetadata
+        let tagsChanged = tags != nil || addTags != nil || removeTags != nil
+        if tagsChanged {
+            let removed = Set(removeTags ?? [])
+            let updatedTags = (tags ?? metadataTags(metadata)) + (addTags ?? [])
+            setMetadataTags(updatedTags.filter { !removed.contains($0) }, in: &metadata)
+        }
+        // An empty parent ID makes the reminder a top-level one
+        if let parentId = parentId, !parentId.isEmpty {
+            guard findReminder(withId: parentId) != nil else {
+                throw NSError(domain: "", code: 404, userInfo: [NSLocalizedDescriptionKey: "Parent reminder with ID '\(parentId)' not found."])
+            }
+            metadata["parent"] = parentId
+        } else if parentId != nil {
+            metadata["parent"] = nil
+        }
         
         // Handle URL: store in both URL field and append to notes
         var finalNotes: String?
@@ -286,15 +471,15 @@ class RemindersManager {
                 }
             } else {
                 // No new notes provided, check if URL exists in existing notes
-                let urlInOriginalNotes = reminder.notes?.contains(urlStr) ?? false
+                let urlInOriginalNotes = existingNotes?.contains(urlStr) ?? false
                 if !urlInOriginalNotes {
-                    if let existingNotes = reminder.notes, !existingNotes.isEmpty {
+                    if let existingNotes = existingNotes, !existingNotes.isEmpty {
                         finalNotes = existingNotes + "\n\nURLs:\n- " + urlStr
                     } else {
                         finalNotes = "URLs:\n- " + urlStr
                     }
                 } else {
-                    finalNotes = reminder.notes
+                    finalNotes = existingNotes
                 }
             }
         } else if let newNotes = notes {
@@ -302,10 +487,11 @@ class RemindersManager {
             finalNotes = newNotes
         } else {
             // No URL and no new notes, keep existing notes
-            finalNotes = reminder.notes
+            finalNotes = existingNotes
         }
         
-        if let finalNotes = finalNotes { reminder.notes = finalNotes }
+        // Rewrite on any tag or parent change, so removing the last one also drops a metadata-only note
+        if finalNotes != nil || !metadata.isEmpty || tagsChanged || parentId != nil { reminder.notes = joinNotesMetadata(finalNotes, metadata: metadata) }
         
         if let isCompleted = isCompleted { reminder.isCompleted = isCompleted }
         if let listName = listName { reminder.calendar = try findList(named: listName) }
@@ -318,6 +504,11 @@ class RemindersManager {
                 reminder.timeZone = nil
             }
         }
+        if let priority = priority { reminder.priority = try validatedPriority(priority) }
+        if clearRecurrence { reminder.recurrenceRules = nil }
+        if let recurrence = recurrence { reminder.recurrenceRules = [try makeRecurrenceRule(from: recurrence)] }
+        try applyAlarms(to: reminder, replace: alarms, add: addAlarms, clear: clearAlarms)
+        try applyLocationTrigger(to: reminder, trigger: locationTrigger, clear: clearLocationTrigger)
         try eventStore.save(reminder, commit: true)
         return reminder.toJSON()
     }
@@ -368,29 +559,40 @@ class RemindersManager {
         return filtered.map { $0.toJSON() }
     }
     
-    func createEvent(title: String, calendarName: String?, startDateString: String, endDateString: String, notes: String?, location: String?, urlString: String?, isAllDay: Bool?) throws -> EventJSON {
+    /// Looks up one event by identifier, or its occurrence nearest the occurrence date.
+    func getEvent(id: String, occurrenceDateString: String?) throws -> EventJSON {
+        return try findEventOccurrence(withId: id, occurrenceDateString: occurrenceDateString).toJSON()
+    }
+    
+    func createEvent(title: String, calendarName: String?, startDateString: String, endDateString: String, notes: String?, location: String?, urlString: String?, isAllDay: Bool?, availability: String?, timeZoneIdentifier: String?, recurrence: RecurrenceJSON?, alarms: [AlarmJSON]?) throws -> EventJSON {
         let event = EKEvent(eventStore: eventStore)
         event.calendar = try findCalendar(named: calendarName)
         event.title = title
+        let explicitTimeZone = try timeZoneIdentifier.map { try resolveTimeZone($0) }
         
-        guard let startDate = parseDate(from: startDateString),
-              let endDate = parseDate(from: endDateString) else {
+        guard let startDate = parseEventDate(from: startDateString, timeZone: explicitTimeZone),
+              let endDate = parseEventDate(from: endDateString, timeZone: explicitTimeZone) else {
             throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Invalid date format. Use 'YYYY-MM-DD HH:mm:ss' or ISO 8601 format."])
         }
         
-        if let startComponents = parseDateComponents(from: startDateString) {
+        if let zone = explicitTimeZone {
+            event.timeZone = zone
+        } else if let startComponents = parseDateComponents(from: startDateString) {
             event.timeZone = startComponents.timeZone
         }
         
         event.startDate = startDate
         event.endDate = endDate
         event.isAllDay = isAllDay ?? false
+        if let availability = availability { event.availability = try eventAvailability(from: availability) }
         
         if let notesStr = notes { event.notes = notesStr }
         if let locationStr = location { event.location = locationStr }
         if let urlStr = urlString, !urlStr.isEmpty, let url = URL(string: urlStr) {
             event.url = url
         }
+        if let recurrence = recurrence { event.recurrenceRules = [try makeRecurrenceRule(from: recurrence)] }
+        try applyAlarms(to: event, replace: alarms, add: nil, clear: false)
         
         do {
             try eventStore.save(event, span: .thisEvent, commit: true)
@@ -407,16 +609,76 @@ class RemindersManager {
         return eventStore.event(withIdentifier: id)
     }
     
-    func updateEvent(id: String, title: String?, calendarName: String?, startDateString: String?, endDateString: String?, notes: String?, location: String?, urlString: String?, isAllDay: Bool?) throws -> EventJSON {
-        guard let event = findEvent(withId: id) else {
-            throw NSError(domain: "", code: 404, userInfo: [NSLocalizedDescriptionKey: "Event with ID '\(id)' not found."])
+    /// Resolves a specific occurrence of a (possibly recurring) event.
+    /// Without an occurrence date, EventKit returns the first occurrence.
+    private func findEventOccurrence(withId id: String, occurrenceDateString: String?) throws -> EKEvent {
+        guard let dateStr = occurrenceDateString else {
+            guard let event = findEvent(withId: id) else {
+                throw NSError(domain: "", code: 404, userInfo: [NSLocalizedDescriptionKey: "Event with ID '\(id)' not found."])
+            }
+            return event
+        }
+        guard let occurrenceDate = parseDate(from: dateStr) else {
+            throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Invalid occurrence date format."])
         }
+        let windowStart = occurrenceDate.addingTimeInterval(-86400)
+        let windowEnd = occurrenceDate.addingTimeInterval(86400)
+        let predicate = eventStore.predicateForEvents(withStart: windowStart, end: windowEnd, calendars: nil)
+        let candidates = eventStore.events(matching: predicate).filter { $0.eventIdentifier == id }
+        guard let match = candidates.min(by: {
+            abs(($0.occurrenceDate ?? $0.startDate).timeIntervalSince(occurrenceDate)) < abs(($1.occurrenceDate ?? $1.startDate).timeIntervalSince(occurrenceDate))
+        }) else {
+            throw NSError(domain: "", code: 404, userInfo: [NSLocalizedDescriptionKey: "No occurrence of event '\(id)' found near \(dateStr)."])
+        }
+        return match
+    }
+    
+    private func eventAvailability(from value: String) throws -> EKEventAvailability {
+        switch value {
+        case "busy": return .busy
+        case "free": return .free
+        case "tentative": return .tentative
+        case "unavailable": return .unavailable
+        default: throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Invalid availability '\(value)'. Use 'busy', 'free', 'tentative', or 'unavailable'."])
+        }
+    }
+    
+    private func resolveTimeZone(_ identifier: String) throws -> TimeZone {
+        guard let timeZone = TimeZone(identifier: identifier) else {
+            throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Unknown time zone '\(identifier)'."])
+        }
+        return timeZone
+    }
+    
+    /// Parses an event date; strings without an explicit offset are read in `timeZone` when one is given.
+    private func parseEventDate(from dateString: String, timeZone: TimeZone?) -> Date? {
+        guard let zone = timeZone, detectExplicitTimezone(in: dateString) == nil,
+              var components = parseDateComponents(from: dateString) else { return parseDate(from: dateString) }
+        var calendar = Calendar(identifier: .gregorian)
+        calendar.timeZone = zone
+        components.calendar = calendar
+        components.timeZone = zone
+        return calendar.date(from: components)
+    }
+    
+    private func eventSpan(from value: String?) throws -> EKSpan {
+        switch value {
+        case nil, "this-event": return .thisEvent
+        case "future-events": return .futureEvents
+        default: throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Invalid span '\(value ?? "")'. Use 'this-event' or 'future-events'."])
+        }
+    }
+    
+    func updateEvent(id: String, title: String?, calendarName: String?, startDateString: String?, endDateString: String?, notes: String?, location: String?, urlString: String?, isAllDay: Bool?, availability: String?, timeZoneIdentifier: String?, recurrence: RecurrenceJSON?, clearRecurrence: Bool, alarms: [AlarmJSON]?, addAlarms: [AlarmJSON]?, clearAlarms: Bool, span: String?, occurrenceDateString: String?) throws -> EventJSON {
+        let event = try findEventOccurrence(withId: id, occurrenceDateString: occurrenceDateString)
+        let saveSpan = try eventSpan(from: span)
+        let explicitTimeZone = try timeZoneIdentifier.map { try resolveTimeZone($0) }
         
         if let newTitle = title { event.title = newTitle }
         if let newCalendar = calendarName { event.calendar = try findCalendar(named: newCalendar) }
         
         if let startStr = startDateString {
-            guard let startDate = parseDate(from: startStr) else {
+            guard let startDate = parseEventDate(from: startStr, timeZone: explicitTimeZone) else {
                 throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Invalid start date format."])
             }
             // Update timezone from start date components if provided
@@ -427,7 +689,7 @@ class RemindersManager {
         }
         
         if let endStr = endDateString {
-            guard let endDate = parseDate(from: endStr) else {
+            guard let endDate = parseEventDate(from: endStr, timeZone: explicitTimeZone) else {
                 throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Invalid end date format."])
             }
             event.endDate = endDate
@@ -456,16 +718,20 @@ class RemindersManager {
             }
         }
         if let allDay = isAllDay { event.isAllDay = allDay }
+        // An explicit zone wins over zones inferred from the date strings
+        if let zone = explicitTimeZone { event.timeZone = zone }
+        if let availability = availability { event.availability = try eventAvailability(from: availability) }
+        if clearRecurrence { event.recurrenceRules = nil }
+        if let recurrence = recurrence { event.recurrenceRules = [try makeRecurrenceRule(from: recurrence)] }
+        try applyAlarms(to: event, replace: alarms, add: addAlarms, clear: clearAlarms)
         
-        try eventStore.save(event, span: .thisEvent, commit: true)
+        try eventStore.save(event, span: saveSpan, commit: true)
         return event.toJSON()
     }
     
-    func deleteEvent(id: String) throws {
-        guard let event = findEvent(withId: id) else {
-            throw NSError(domain: "", code: 404, userInfo: [NSLocalizedDescriptionKey: "Event with ID '\(id)' not found."])
-        }
-        try eventStore.remove(event, span: .thisEvent, commit: true)
+    func deleteEvent(id: String, span: String?, occurrenceDateString: String?) throws {
+        let event = try findEventOccurrence(withId: id, occurrenceDateString: occurrenceDateString)
+        try eventStore.remove(event, span: try eventSpan(from: span), commit: true)
     }
     
     func parseDate(from dateString: String) -> Date? {
@@ -516,14 +782,68 @@ private func formatDueDateWithTimezone(from dateComponents: DateComponents?, tim
 // MARK: - Extensions & Main
 extension EKReminder {
     func toJSON() -> ReminderJSON {
-        ReminderJSON(
+        let (visibleNotes, metadata) = splitNotesMetadata(self.notes)
+        return ReminderJSON(
             id: self.calendarItemIdentifier,
             title: self.title,
             isCompleted: self.isCompleted,
             list: self.calendar.title,
-            notes: self.notes,
+            notes: visibleNotes,
             url: self.url?.absoluteString,
-            dueDate: formatDueDateWithTimezone(from: self.dueDateComponents, timeZoneHint: self.timeZone)
+            dueDate: formatDueDateWithTimezone(from: self.dueDateComponents, timeZoneHint: self.timeZone),
+            priority: self.priority,
+            recurrence: self.recurrenceRules?.first?.toJSON(),
+            alarms: timeBasedAlarmsJSON(for: self),
+            locationTrigger: locationTriggerJSON(for: self),
+            parentId: metadata["parent"],
+            tags: metadataTags(metadata),
+            creationDate: self.creationDate.map(formatTimestamp),
+            lastModifiedDate: self.lastModifiedDate.map(formatTimestamp),
+            completionDate: self.completionDate.map(formatTimestamp)
+        )
+    }
+}
+/// Serializes the first location-based alarm as a geofence trigger.
+private func locationTriggerJSON(for reminder: EKReminder) -> LocationTriggerJSON? {
+    guard let alarm = reminder.alarms?.first(where: { $0.structuredLocation != nil }),
+          let location = alarm.structuredLocation,
+          let geo = location.geoLocation else { return nil }
+    return LocationTriggerJSON(
+        title: location.title ?? "",
+        latitude: geo.coordinate.latitude,
+        longitude: geo.coordinate.longitude,
+        radius: location.radius > 0 ? location.radius : nil,
+        proximity: alarm.proximity == .leave ? "leave" : "enter"
+    )
+}
+/// Serializes absolute and relative alarms; location-based alarms are reported separately.
+private func timeBasedAlarmsJSON(for item: EKCalendarItem) -> [AlarmJSON] {
+    return (item.alarms ?? []).filter { $0.structuredLocation == nil }.map { alarm in
+        if let date = alarm.absoluteDate {
+            return AlarmJSON(date: formatEventDate(date, preferredTimeZone: item.timeZone ?? TimeZone.current, includeTime: true), relativeOffset: nil)
+        }
+        return AlarmJSON(date: nil, relativeOffset: Int(alarm.relativeOffset / 60))
+    }
+}
+
+extension EKRecurrenceRule {
+    func toJSON() -> RecurrenceJSON {
+        let frequencyName: String
+        switch self.frequency {
+        case .daily: frequencyName = "daily"
+        case .weekly: frequencyName = "weekly"
+        case .monthly: frequencyName = "monthly"
+        case .yearly: frequencyName = "yearly"
+        @unknown default: frequencyName = "daily"
+        }
+        let endCount = self.recurrenceEnd?.occurrenceCount ?? 0
+        return RecurrenceJSON(
+            frequency: frequencyName,
+            interval: self.interval,
+            byWeekday: self.daysOfTheWeek?.map { weekdayNames[$0.dayOfTheWeek.rawValue - 1] },
+            byMonthDay: self.daysOfTheMonth?.map { $0.intValue },
+            endCount: endCount > 0 ? endCount : nil,
+            endDate: self.recurrenceEnd?.endDate.map { formatEventDate($0, preferredTimeZone: TimeZone.current, includeTime: true) }
         )
     }
 }
@@ -541,10 +861,72 @@ private func formatEventDate(_ date: Date, preferredTimeZone: TimeZone, includeT
     return formatter.string(from: date)
 }
 
+/// Formats bookkeeping timestamps (creation, modification, completion) in the local time zone.
+private func formatTimestamp(_ date: Date) -> String {
+    return formatEventDate(date, preferredTimeZone: TimeZone.current, includeTime: true)
+}
+
+extension EKParticipant {
+    func toJSON() -> AttendeeJSON {
+        let address = self.url.absoluteString
+        let email = address.lowercased().hasPrefix("mailto:") ? String(address.dropFirst("mailto:".count)) : nil
+        return AttendeeJSON(name: self.name, email: email, role: participantRoleName(self.participantRole), status: participationStatusName(self.participantStatus), isCurrentUser: self.isCurrentUser)
+    }
+}
+
+private func participantRoleName(_ role: EKParticipantRole) -> String {
+    switch role {
+    case .required: return "required"
+    case .optional: return "optional"
+    case .chair: return "chair"
+    case .nonParticipant: return "non-participant"
+    case .unknown: return "unknown"
+    @unknown default: return "unknown"
+    }
+}
+
+private func participationStatusName(_ status: EKParticipantStatus) -> String {
+    switch status {
+    case .pending: return "pending"
+    case .accepted: return "accepted"
+    case .declined: return "declined"
+    case .tentative: return "tentative"
+    case .delegated: return "delegated"
+    case .completed: return "completed"
+    case .inProcess: return "in-process"
+    case .unknown: return "unknown"
+    @unknown default: return "unknown"
+    }
+}
+
+private func availabilityName(_ availability: EKEventAvailability) -> String {
+    switch availability {
+    case .busy: return "busy"
+    case .free: return "free"
+    case .tentative: return "tentative"
+    case .unavailable: return "unavailable"
+    case .notSupported: return "not-supported"
+    @unknown default: return "not-supported"
+    }
+}
+
+/// Event status is set by the organizer's server and cannot be changed through EventKit.
+private func eventStatusName(_ status: EKEventStatus) -> String {
+    switch status {
+    case .confirmed: return "confirmed"
+    case .tentative: return "tentative"
+    case .canceled: return "cancelled"
+    case .none: return "none"
+    @unknown default: return "none"
+    }
+}
+
 extension EKEvent {
     func toJSON() -> EventJSON {
         let eventTimeZone = self.timeZone ?? TimeZone.current
         let includeTime = !self.isAllDay
+        // The user's own status comes from their attendee entry, or from the organizer entry when they organized it
+        let selfParticipant = self.attendees?.first { $0.isCurrentUser } ?? (self.organizer?.isCurrentUser == true ? self.organizer : nil)
 
         return EventJSON(
             id: self.eventIdentifier,
@@ -555,12 +937,75 @@ extension EKEvent {
             notes: self.notes,
             location: self.location,
             url: self.url?.absoluteString,
-            isAllDay: self.isAllDay
+            isAllDay: self.isAllDay,
+            isRecurring: self.hasRecurrenceRules,
+            recurrence: self.recurrenceRules?.first?.toJSON(),
+            occurrenceDate: self.occurrenceDate.map { formatEventDate($0, preferredTimeZone: eventTimeZone, includeTime: includeTime) },
+            alarms: timeBasedAlarmsJSON(for: self),
+            creationDate: self.creationDate.map(formatTimestamp),
+            lastModifiedDate: self.lastModifiedDate.map(formatTimestamp),
+            organizer: self.organizer?.toJSON(),
+            attendees: (self.attendees ?? []).map { $0.toJSON() },
+            participationStatus: selfParticipant.map { participationStatusName($0.participantStatus) },
+            availability: availabilityName(self.availability),
+            status: eventStatusName(self.status),
+            timeZone: self.timeZone?.identifier
         )
     }
 }
 
-struct ArgumentParser { private let args: [String: String]; init() { var dict = [String: String](); var i=0; let arguments=Array(CommandLine.arguments.dropFirst()); while i<arguments.count { let key=arguments[i].replacingOccurrences(of:"--",with:""); if i+1<arguments.count && !arguments[i+1].hasPrefix("--") { dict[key]=arguments[i+1]; i+=2 } else { dict[key]="true"; i+=1 } }; self.args=dict }; func get(_ key: String)->String?{return args[key]} }
+struct ArgumentParser { private let args: [String: String]; init() { var dict = [String: String](); var i=0; let arguments=Array(CommandLine.arguments.dropFirst()); while i<arguments.count { let key=arguments[i].replacingOccurrences(of:"--",with:""); if i+1<arguments.count && !arguments[i+1].hasPrefix("--") { dict[key]=arguments[i+1]; i+=2 } else { dict[key]="true"; i+=1 } }; self.args=dict }; init(values: [String: String]) { self.args = values }; func get(_ key: String)->String?{return args[key]} }
+
+// MARK: - Reminder Mutations From Arguments
+// Shared by the single-item actions and the batch action so both accept identical arguments.
+extension RemindersManager {
+    func createReminder(from parser: ArgumentParser) throws -> ReminderJSON {
+        guard let title = parser.get("title") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--title required."]) }
+        return try createReminder(title: title, listName: parser.get("targetList"), notes: parser.get("note"), urlString: parser.get("url"), dueDateString: parser.get("dueDate"), priority: parser.get("priority").flatMap { Int($0) }, recurrence: try parser.get("recurrence").map { try decodeJSONArgument($0, as: RecurrenceJSON.self, name: "recurrence") }, alarms: try parser.get("alarms").map { try decodeJSONArgument($0, as: [AlarmJSON].self, name: "alarms") }, locationTrigger: try parser.get("locationTrigger").map { try decodeJSONArgument($0, as: LocationTriggerJSON.self, name: "locationTrigger") }, parentId: parser.get("parentId"), tags: try parser.get("tags").map { try decodeJSONArgument($0, as: [String].self, name: "tags") })
+    }
+
+    func updateReminder(from parser: ArgumentParser) throws -> ReminderJSON {
+        guard let id = parser.get("id") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--id required."]) }
+        return try updateReminder(id: id, newTitle: parser.get("title"), listName: parser.get("targetList"), notes: parser.get("note"), urlString: parser.get("url"), isCompleted: parser.get("isCompleted").map { $0 == "true" }, dueDateString: parser.get("dueDate"), priority: parser.get("priority").flatMap { Int($0) }, recurrence: try parser.get("recurrence").map { try decodeJSONArgument($0, as: RecurrenceJSON.self, name: "recurrence") }, clearRecurrence: parser.get("clearRecurrence") == "true", alarms: try parser.get("alarms").map { try decodeJSONArgument($0, as: [AlarmJSON].self, name: "alarms") }, addAlarms: try parser.get("addAlarms").map { try decodeJSONArgument($0, as: [AlarmJSON].self, name: "addAlarms") }, clearAlarms: parser.get("clearAlarms") == "true", locationTrigger: try parser.get("locationTrigger").map { try decodeJSONArgument($0, as: LocationTriggerJSON.self, name: "locationTrigger") }, clearLocationTrigger: parser.get("clearLocationTrigger") == "true", tags: try parser.get("tags").map { try decodeJSONArgument($0, as: [String].self, name: "tags") }, addTags: try parser.get("addTags").map { try decodeJSONArgument($0, as: [String].self, name: "addTags") }, removeTags: try parser.get("removeTags").map { try decodeJSONArgument($0, as: [String].self, name: "removeTags") }, parentId: parser.get("parentId"))
+    }
+
+    func deleteReminder(from parser: ArgumentParser) throws -> String {
+        guard let id = parser.get("id") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--id required."]) }
+        try deleteReminder(id: id)
+        return id
+    }
+
+    /// Applies create/update/delete operations in order, reporting a result per operation.
+    /// With stopOnError, the first failure marks every remaining operation as skipped.
+    func runBatch(operations: [[String: String]], stopOnError: Bool) -> [BatchItemResult] {
+        var results: [BatchItemResult] = []
+        var halted = false
+        for (index, values) in operations.enumerated() {
+            let op = ArgumentParser(values: values)
+            let action = op.get("action") ?? ""
+            if halted {
+                results.append(BatchItemResult(index: index, action: action, status: "skipped", reminder: nil, deletedId: nil, message: nil))
+                continue
+            }
+            do {
+                switch action {
+                case "create":
+                    results.append(BatchItemResult(index: index, action: action, status: "success", reminder: try createReminder(from: op), deletedId: nil, message: nil))
+                case "update":
+                    results.append(BatchItemResult(index: index, action: action, status: "success", reminder: try updateReminder(from: op), deletedId: nil, message: nil))
+                case "delete":
+                    results.append(BatchItemResult(index: index, action: action, status: "success", reminder: nil, deletedId: try deleteReminder(from: op), message: nil))
+                default:
+                    throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Unsupported batch action: \(action)"])
+                }
+            } catch {
+                results.append(BatchItemResult(index: index, action: action, status: "error", reminder: nil, deletedId: nil, message: error.localizedDescription))
+                halted = stopOnError
+            }
+        }
+        return results
+    }
+}
 
 func main() {
     let parser = ArgumentParser()
@@ -570,7 +1015,7 @@ func main() {
     
     let action = parser.get("action") ?? ""
 
-    let isCalendarAction = action == "read-events" || action == "read-calendars" || action == "create-event" || action == "update-event" || action == "delete-event"
+    let isCalendarAction = action == "read-events" || action == "read-event" || action == "read-calendars" || action == "create-event" || action == "update-event" || action == "delete-event"
     
     // Check permission status first (Best Practice)
     let checkAndRequestPermission: () -> Void = {
@@ -633,19 +1078,22 @@ func main() {
             case "read":
                 let reminders = try manager.getReminders(showCompleted: parser.get("showCompleted") == "true", filterList: parser.get("filterList"), search: parser.get("search"), dueWithin: parser.get("dueWithin"))
                 print(String(data: try encoder.encode(StandardOutput(result: ReadResult(lists: manager.getLists(), reminders: reminders))), encoding: .utf8)!)
+            case "read-by-ids":
+                guard let idsJSON = parser.get("ids") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--ids required."]) }
+                let ids = try decodeJSONArgument(idsJSON, as: [String].self, name: "ids")
+                print(String(data: try encoder.encode(StandardOutput(result: manager.getReminders(ids: ids))), encoding: .utf8)!)
             case "read-lists":
                 print(String(data: try encoder.encode(StandardOutput(result: manager.getLists())), encoding: .utf8)!)
             case "create":
-                guard let title = parser.get("title") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--title required."]) }
-                let reminder = try manager.createReminder(title: title, listName: parser.get("targetList"), notes: parser.get("note"), urlString: parser.get("url"), dueDateString: parser.get("dueDate"))
-                print(String(data: try encoder.encode(StandardOutput(result: reminder)), encoding: .utf8)!)
+                print(String(data: try encoder.encode(StandardOutput(result: try manager.createReminder(from: parser))), encoding: .utf8)!)
             case "update":
-                guard let id = parser.get("id") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--id required."]) }
-                let reminder = try manager.updateReminder(id: id, newTitle: parser.get("title"), listName: parser.get("targetList"), notes: parser.get("note"), urlString: parser.get("url"), isCompleted: parser.get("isCompleted").map { $0 == "true" }, dueDateString: parser.get("dueDate"))
-                print(String(data: try encoder.encode(StandardOutput(result: reminder)), encoding: .utf8)!)
+                print(String(data: try encoder.encode(StandardOutput(result: try manager.updateReminder(from: parser))), encoding: .utf8)!)
             case "delete":
-                guard let id = parser.get("id") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--id required."]) }
-                try manager.deleteReminder(id: id); print(String(data: try encoder.encode(StandardOutput(result: DeleteResult(id: id))), encoding: .utf8)!)
+                print(String(data: try encoder.encode(StandardOutput(result: DeleteResult(id: try manager.deleteReminder(from: parser)))), encoding: .utf8)!)
+            case "batch":
+                guard let operationsJSON = parser.get("operations") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--operations required."]) }
+                let operations = try decodeJSONArgument(operationsJSON, as: [[String: String]].self, name: "operations")
+                print(String(data: try encoder.encode(StandardOutput(result: manager.runBatch(operations: operations, stopOnError: parser.get("stopOnError") == "true"))), encoding: .utf8)!)
             case "create-list":
                 guard let title = parser.get("name") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--name required."]) }
                 print(String(data: try encoder.encode(StandardOutput(result: try manager.createList(title: title))), encoding: .utf8)!)
@@ -662,21 +1110,24 @@ func main() {
                 let endDate = endDateStr != nil ? manager.parseDate(from: endDateStr!) : nil
                 let events = try manager.getEvents(startDate: startDate, endDate: endDate, calendarName: parser.get("filterCalendar"), search: parser.get("search"))
                 print(String(data: try encoder.encode(StandardOutput(result: EventsReadResult(calendars: manager.getCalendars(), events: events))), encoding: .utf8)!)
+            case "read-event":
+                guard let id = parser.get("id") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--id required."]) }
+                print(String(data: try encoder.encode(StandardOutput(result: try manager.getEvent(id: id, occurrenceDateString: parser.get("occurrenceDate")))), encoding: .utf8)!)
             case "read-calendars":
                 print(String(data: try encoder.encode(StandardOutput(result: manager.getCalendars())), encoding: .utf8)!)
             case "create-event":
                 guard let title = parser.get("title") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--title required."]) }
                 guard let startDate = parser.get("startDate") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--startDate required."]) }
                 guard let endDate = parser.get("endDate") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--endDate required."]) }
-                let event = try manager.createEvent(title: title, calendarName: parser.get("targetCalendar"), startDateString: startDate, endDateString: endDate, notes: parser.get("note"), location: parser.get("location"), urlString: parser.get("url"), isAllDay: parser.get("isAllDay").map { $0 == "true" })
+                let event = try manager.createEvent(title: title, calendarName: parser.get("targetCalendar"), startDateString: startDate, endDateString: endDate, notes: parser.get("note"), location: parser.get("location"), urlString: parser.get("url"), isAllDay: parser.get("isAllDay").map { $0 == "true" }, availability: parser.get("availability"), timeZoneIdentifier: parser.get("timeZone"), recurrence: try parser.get("recurrence").map { try decodeJSONArgument($0, as: RecurrenceJSON.self, name: "recurrence") }, alarms: try parser.get("alarms").map { try decodeJSONArgument($0, as: [AlarmJSON].self, name: "alarms") })
                 print(String(data: try encoder.encode(StandardOutput(result: event)), encoding: .utf8)!)
             case "update-event":
                 guard let id = parser.get("id") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--id required."]) }
-                let event = try manager.updateEvent(id: id, title: parser.get("title"), calendarName: parser.get("targetCalendar"), startDateString: parser.get("startDate"), endDateString: parser.get("endDate"), notes: parser.get("note"), location: parser.get("location"), urlString: parser.get("url"), isAllDay: parser.get("isAllDay").map { $0 == "true" })
+                let event = try manager.updateEvent(id: id, title: parser.get("title"), calendarName: parser.get("targetCalendar"), startDateString: parser.get("startDate"), endDateString: parser.get("endDate"), notes: parser.get("note"), location: parser.get("location"), urlString: parser.get("url"), isAllDay: parser.get("isAllDay").map { $0 == "true" }, availability: parser.get("availability"), timeZoneIdentifier: parser.get("timeZone"), recurrence: try parser.get("recurrence").map { try decodeJSONArgument($0, as: RecurrenceJSON.self, name: "recurrence") }, clearRecurrence: parser.get("clearRecurrence") == "true", alarms: try parser.get("alarms").map { try decodeJSONArgument($0, as: [AlarmJSON].self, name: "alarms") }, addAlarms: try parser.get("addAlarms").map { try decodeJSONArgument($0, as: [AlarmJSON].self, name: "addAlarms") }, clearAlarms: parser.get("clearAlarms") == "true", span: parser.get("span"), occurrenceDateString: parser.get("occurrenceDate"))
                 print(String(data: try encoder.encode(StandardOutput(result: event)), encoding: .utf8)!)
             case "delete-event":
                 guard let id = parser.get("id") else { throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "--id required."]) }
-                try manager.deleteEvent(id: id); print(String(data: try encoder.encode(StandardOutput(result: DeleteResult(id: id))), encoding: .utf8)!)
+                try manager.deleteEvent(id: id, span: parser.get("span"), occurrenceDateString: parser.get("occurrenceDate")); print(String(data: try encoder.encode(StandardOutput(result: DeleteResult(id: id))), encoding: .utf8)!)
             default: throw NSError(domain: "", code: 400, userInfo: [NSLocalizedDescriptionKey: "Invalid or missing --action."])
             }
         } catch { outputError(error.localizedDescription) }
@@ -14,6 +14,11 @@ global.console = {
 // Set test environment variables
 process.env.NODE_ENV = 'test';
 process.env.DEBUG = 'true';
+// Keep tests from writing an undo journal to the home directory
+process.env.UNDO_JOURNAL = 'off';
+process.env.AUDIT_LOG = 'off';
+// Tests that cover dry runs set DRY_RUN themselves
+delete process.env.DRY_RUN;
 
 // Mock import.meta.url for Jest - provide a valid file path
 const mockImportMeta = {
@@ -10,7 +10,17 @@ describe('Tools Definitions', () => {
       {
         name: 'reminders_tasks',
         description: 'Manages reminder tasks',
-        actions: ['read', 'create', 'update', 'delete'],
+        actions: [
+          'read',
+          'create',
+          'update',
+          'delete',
+          'batch',
+          'bulk-update',
+          'find-duplicates',
+          'restore',
+          'purge-trash',
+        ],
       },
       {
         name: 'reminders_lists',
@@ -20,13 +30,43 @@ describe('Tools Definitions', () => {
       {
         name: 'calendar_events',
         description: 'Manages calendar events',
-        actions: ['read', 'create', 'update', 'delete'],
+        actions: ['read', 'create', 'update', 'delete', 'find-duplicates'],
       },
       {
         name: 'calendar_calendars',
         description: 'Reads calendar collections',
         actions: ['read'],
       },
+      {
+        name: 'reminders_tags',
+        description: 'Reads reminder tags',
+        actions: ['read'],
+      },
+      {
+        name: 'calendar_availability',
+        description: 'Finds free time slots',
+        actions: ['read'],
+      },
+      {
+        name: 'search_all',
+        description: 'Searches reminders and calendar events together',
+        actions: ['read'],
+      },
+      {
+        name: 'agenda',
+        description: 'Shows a day or week agenda',
+        actions: ['read'],
+      },
+      {
+        name: 'undo',
+        description: 'Reverts reminder and event changes',
+        actions: ['read', 'revert'],
+      },
+      {
+        name: 'audit_log',
+        description: 'Reads the audit log of changes',
+        actions: ['read'],
+      },
     ])(
       'should define $name tool with correct schema and actions',
       ({ name, description, actions }) => {
@@ -58,6 +98,9 @@ describe('Tools Definitions', () => {
         'today',
         'tomorrow',
         'this-week',
+        'next-week',
+        'this-month',
+        'next-7-days',
         'overdue',
         'no-date',
       ]);
@@ -5,10 +5,29 @@
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import {
+  AGENDA_PERIODS,
+  AUDIT_OUTCOMES,
+  BATCH_OPERATION_ACTIONS,
   CALENDAR_ACTIONS,
+  CONFLICT_POLICIES,
   DUE_WITHIN_OPTIONS,
+  EVENT_AVAILABILITIES,
+  EVENT_SORT_FIELDS,
+  EVENT_SPANS,
+  EVENT_STATUSES,
+  JOURNAL_ACTIONS,
   LIST_ACTIONS,
+  LOCATION_PROXIMITIES,
+  OUTPUT_FORMATS,
+  RECURRENCE_FREQUENCIES,
   REMINDER_ACTIONS,
+  REMINDER_PRIORITIES,
+  REMINDER_SORT_FIELDS,
+  SEARCH_ITEM_TYPES,
+  SORT_ORDERS,
+  TAG_MATCH_MODES,
+  UNDO_ACTIONS,
+  WEEKDAYS,
 } from '../types/index.js';
 
 /**
@@ -33,13 +52,273 @@ interface ExtendedTool {
   name: string;
   description?: string;
   inputSchema: ExtendedJSONSchema;
+  outputSchema: ExtendedJSONSchema;
 }
 
+/**
+ * Structured recurrence rule shared by reminders and calendar events
+ */
+const RECURRENCE_SCHEMA = {
+  type: 'object',
+  properties: {
+    frequency: {
+      type: 'string',
+      enum: RECURRENCE_FREQUENCIES,
+      description: 'How often the item repeats.',
+    },
+    interval: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Repeat every N periods (default: 1).',
+    },
+    byWeekday: {
+      type: 'array',
+      items: { type: 'string', enum: WEEKDAYS },
+      description: "Days of the week to repeat on (e.g., ['monday']).",
+    },
+    byMonthDay: {
+      type: 'array',
+      items: { type: 'integer', minimum: -31, maximum: 31 },
+      description:
+        'Days of the month to repeat on (monthly or yearly only). Negative values count from the end of the month (-1 = last day).',
+    },
+    endCount: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Stop after this many occurrences.',
+    },
+    endDate: {
+      type: 'string',
+      description:
+        "Stop repeating after this date (format: 'YYYY-MM-DD' or 'YYYY-MM-DD HH:mm:ss'). Use either endCount or endDate.",
+    },
+  },
+  required: ['frequency'],
+};
+
+/**
+ * Alarm list shared by reminders and calendar events
+ */
+const ALARMS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      date: {
+        type: 'string',
+        description:
+          "Absolute alarm time (format: 'YYYY-MM-DD HH:mm:ss', local time).",
+      },
+      relativeOffset: {
+        type: 'integer',
+        description:
+          'Minutes relative to the due/start date. Negative values fire before (e.g., -30 = 30 minutes before).',
+      },
+    },
+  },
+};
+
+/**
+ * Tag list; a leading '#' is optional and tags are stored in lowercase
+ */
+const TAGS_SCHEMA = {
+  type: 'array',
+  items: { type: 'string' },
+};
+
+/**
+ * Alarm properties for create/update operations
+ */
+const buildAlarmProperties = (itemType: string) => ({
+  alarms: {
+    ...ALARMS_SCHEMA,
+    description: `Alarms for the ${itemType} (for create, update). Each alarm sets exactly one of date or relativeOffset. On update, replaces all existing alarms.`,
+  },
+  addAlarms: {
+    ...ALARMS_SCHEMA,
+    description: `Alarms to add to the ${itemType}'s existing alarms (for update).`,
+  },
+  clearAlarms: {
+    type: 'boolean',
+    description: `Set to true to remove all alarms from the ${itemType} (for update).`,
+  },
+});
+
+const buildPaginationProperties = (
+  itemType: string,
+  sortFields: readonly string[],
+) => ({
+  sortBy: {
+    type: 'string',
+    enum: sortFields,
+    description: `Sort ${itemType} by this field (for read). Items without a value come last. Without sortBy, results keep the order EventKit returns them in.`,
+  },
+  sortOrder: {
+    type: 'string',
+    enum: SORT_ORDERS,
+    description: "Sort direction: 'asc' (default) or 'desc'.",
+    default: 'asc',
+  },
+  limit: {
+    type: 'integer',
+    minimum: 1,
+    maximum: 200,
+    description: `Return at most this many ${itemType} (for read). The result reports the total and a nextCursor when more remain.`,
+  },
+  cursor: {
+    type: 'string',
+    description:
+      'Opaque nextCursor from a previous read to fetch the following page. Repeat the same filters and sort.',
+  },
+});
+
+const buildDuplicateProperties = (itemType: string, scope: string) => ({
+  similarity: {
+    type: 'number',
+    minimum: 0.5,
+    maximum: 1,
+    description: `Minimum title similarity from 0.5 to 1 for ${itemType}s to count as duplicates (for find-duplicates, default: 0.8). Titles are compared ignoring case, accents and punctuation; 1 requires identical titles.`,
+    default: 0.8,
+  },
+  maxDaysApart: {
+    type: 'integer',
+    minimum: 0,
+    maximum: 30,
+    description: `Largest difference in days between the dates of duplicate ${itemType}s (for find-duplicates, default: 0 = same day). Duplicates must also share a ${scope}.`,
+    default: 0,
+  },
+  merge: {
+    type: 'boolean',
+    description: `Merge the duplicates found (for find-duplicates). Each group keeps its first listed ${itemType}, usually the earliest created, adds the others' notes to it and deletes them. Without it, only the groups and a previewToken are returned.`,
+    default: false,
+  },
+});
+
+const DRY_RUN_PROPERTY = {
+  type: 'boolean',
+  description:
+    'Validate the call, look up the items it would change and return a before/after diff without changing anything (for every action that creates, updates or deletes). The DRY_RUN environment setting turns this on for every call.',
+  default: false,
+};
+
+const FORMAT_PROPERTY = {
+  type: 'string',
+  enum: OUTPUT_FORMATS,
+  description:
+    "Text content to return: 'markdown' (default), 'json' (the structuredContent as JSON text), or 'both'. structuredContent is always included on success.",
+  default: 'markdown',
+};
+
+/**
+ * Output item schemas. They list the main fields; results may carry more.
+ */
+const REMINDER_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    list: { type: 'string' },
+    isCompleted: { type: 'boolean' },
+    dueDate: { type: 'string' },
+    priority: { type: 'string', enum: REMINDER_PRIORITIES },
+    notes: { type: 'string' },
+    url: { type: 'string' },
+    tags: TAGS_SCHEMA,
+    parentId: { type: 'string' },
+    recurrence: { type: 'object' },
+    alarms: { type: 'array' },
+    creationDate: { type: 'string' },
+    lastModifiedDate: { type: 'string' },
+    completionDate: { type: 'string' },
+  },
+  required: ['id', 'title'],
+};
+
+const EVENT_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    calendar: { type: 'string' },
+    startDate: { type: 'string' },
+    endDate: { type: 'string' },
+    isAllDay: { type: 'boolean' },
+    location: { type: 'string' },
+    notes: { type: 'string' },
+    url: { type: 'string' },
+    availability: { type: 'string', enum: EVENT_AVAILABILITIES },
+    status: { type: 'string', enum: EVENT_STATUSES },
+    isRecurring: { type: 'boolean' },
+    recurrence: { type: 'object' },
+    occurrenceDate: { type: 'string' },
+    alarms: { type: 'array' },
+  },
+  required: ['id', 'title', 'startDate', 'endDate'],
+};
+
+/**
+ * Dry-run output: the fields an action would change
+ */
+const FIELD_CHANGES_OUTPUT_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      field: { type: 'string' },
+      before: { description: 'Current value; absent for creates.' },
+      after: { description: 'New value; absent for deletes.' },
+    },
+    required: ['field'],
+  },
+};
+
+const DRY_RUN_OUTPUT_PROPERTIES = {
+  dryRun: {
+    type: 'boolean',
+    description: 'True when nothing was changed and the result is a diff.',
+  },
+  changes: FIELD_CHANGES_OUTPUT_SCHEMA,
+};
+
+const NAMED_ITEM_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: { id: { type: 'string' }, title: { type: 'string' } },
+  required: ['id', 'title'],
+};
+
+const BATCH_RESULTS_OUTPUT_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      index: { type: 'integer' },
+      action: { type: 'string', enum: BATCH_OPERATION_ACTIONS },
+      status: { type: 'string', enum: ['success', 'error', 'skipped'] },
+      reminder: REMINDER_OUTPUT_SCHEMA,
+      deletedId: { type: 'string' },
+      message: { type: 'string' },
+    },
+    required: ['index', 'action', 'status'],
+  },
+};
+
+/**
+ * Paging fields reported by read actions
+ */
+const PAGE_OUTPUT_PROPERTIES = {
+  total: { type: 'integer', description: 'Number of matching items.' },
+  returned: { type: 'integer', description: 'Number of items returned.' },
+  nextCursor: {
+    type: 'string',
+    description: 'Cursor for the next page, when more items remain.',
+  },
+};
+
 const _EXTENDED_TOOLS: ExtendedTool[] = [
   {
     name: 'reminders_tasks',
     description:
-      'Manages reminder tasks. Supports reading, creating, updating, and deleting reminders.',
+      'Manages reminder tasks. Supports reading, creating, updating, and deleting reminders, running several create/update/delete operations in one batch, bulk updating every reminder that matches the read filters, and finding and merging duplicate reminders. Deleting moves a reminder to the Trash list (set by TRASH_LIST), from where restore puts it back and purge-trash removes it for good. Pass dryRun: true to see what a change would do without making it.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -52,7 +331,7 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
         id: {
           type: 'string',
           description:
-            'The unique identifier of the reminder (REQUIRED for update, delete; optional for read to get single reminder).',
+            'The unique identifier of the reminder (REQUIRED for update, delete, restore; optional for read to get single reminder).',
         },
         // Creation/Update properties
         title: {
@@ -63,7 +342,7 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
         dueDate: {
           type: 'string',
           description:
-            "Due date. RECOMMENDED format: 'YYYY-MM-DD HH:mm:ss' (local time without timezone, e.g., '2025-11-04 18:00:00'). Also supports: 'YYYY-MM-DD', 'YYYY-MM-DDTHH:mm:ss', or ISO 8601 with timezone (e.g., '2025-10-30T04:00:00Z'). When no timezone is specified, the time is interpreted as local time.",
+            "Due date. RECOMMENDED format: 'YYYY-MM-DD HH:mm:ss' (local time without timezone, e.g., '2025-11-04 18:00:00'). Also supports: 'YYYY-MM-DD', 'YYYY-MM-DDTHH:mm:ss', or ISO 8601 with timezone (e.g., '2025-10-30T04:00:00Z'). When no timezone is specified, the time is interpreted as local time. Natural language such as 'tomorrow 9am', 'next Friday 3pm', 'in 2 hours' or 'end of month' is also accepted and resolved against the current local time; the response echoes the resolved date.",
         },
         note: {
           type: 'string',
@@ -80,7 +359,72 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
         },
         targetList: {
           type: 'string',
-          description: 'The name of the list for create or update operations.',
+          description:
+            'The name of the list for create or update operations, or to restore into (defaults to the list the reminder was deleted from).',
+        },
+        priority: {
+          type: 'string',
+          enum: REMINDER_PRIORITIES,
+          description:
+            "The priority of the reminder (for create, update). Use 'none' to clear an existing priority.",
+        },
+        recurrence: {
+          ...RECURRENCE_SCHEMA,
+          description:
+            'Repeat rule for the reminder (for create, update). Replaces any existing rule. A due date is required for recurring reminders.',
+        },
+        clearRecurrence: {
+          type: 'boolean',
+          description:
+            'Set to true to stop the reminder from repeating (for update).',
+        },
+        tags: {
+          ...TAGS_SCHEMA,
+          description:
+            "Tags for the reminder, e.g. ['waiting', 'errand'] (for create, update). On update, replaces all existing tags.",
+        },
+        addTags: {
+          ...TAGS_SCHEMA,
+          description: 'Tags to add to the reminder (for update).',
+        },
+        removeTags: {
+          ...TAGS_SCHEMA,
+          description: 'Tags to remove from the reminder (for update).',
+        },
+        parentId: {
+          type: 'string',
+          description:
+            "ID of an existing reminder to nest this one under as a subtask (for create). Defaults to the parent's list.",
+        },
+        ...buildAlarmProperties('reminder'),
+        locationTrigger: {
+          type: 'object',
+          properties: {
+            title: {
+              type: 'string',
+              description: "Name of the place (e.g., 'Home', 'Office').",
+            },
+            latitude: { type: 'number', minimum: -90, maximum: 90 },
+            longitude: { type: 'number', minimum: -180, maximum: 180 },
+            radius: {
+              type: 'number',
+              description: 'Geofence radius in meters (50-100000).',
+            },
+            proximity: {
+              type: 'string',
+              enum: LOCATION_PROXIMITIES,
+              description:
+                "'enter' fires when arriving, 'leave' fires when departing.",
+            },
+          },
+          required: ['title', 'latitude', 'longitude', 'proximity'],
+          description:
+            'Location-based trigger for the reminder (for create, update). On update, replaces any existing location trigger.',
+        },
+        clearLocationTrigger: {
+          type: 'boolean',
+          description:
+            'Set to true to remove the location trigger from the reminder (for update).',
         },
         // Read filters
         filterList: {
@@ -99,8 +443,118 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
         dueWithin: {
           type: 'string',
           enum: DUE_WITHIN_OPTIONS,
-          description: 'Filter reminders by a due date range.',
+          description:
+            "Filter reminders by a due date range. 'this-week' and 'next-7-days' start today, 'next-week' is Monday to Sunday of next week, 'this-month' is the current calendar month.",
+        },
+        dueAfter: {
+          type: 'string',
+          description:
+            "Only reminders due on or after this date (local time). Accepts the same formats as dueDate, including natural language such as 'today'.",
+        },
+        dueBefore: {
+          type: 'string',
+          description:
+            "Only reminders due before this date and time (local time); a date without a time includes that whole day. Combine with dueAfter for ranges, e.g. dueBefore 'in 30 days'.",
+        },
+        filterPriority: {
+          type: 'string',
+          enum: REMINDER_PRIORITIES,
+          description: 'Filter reminders by priority level.',
+        },
+        filterTags: {
+          ...TAGS_SCHEMA,
+          description: 'Filter reminders by tags.',
+        },
+        tagMatch: {
+          type: 'string',
+          enum: TAG_MATCH_MODES,
+          description:
+            "Whether reminders must have 'any' (default) or 'all' of filterTags.",
+        },
+        completedAfter: {
+          type: 'string',
+          description:
+            'Only reminders completed on or after this date. Completed reminders are included automatically.',
+        },
+        completedBefore: {
+          type: 'string',
+          description:
+            'Only reminders completed before this date (exclusive). Completed reminders are included automatically.',
+        },
+        modifiedSince: {
+          type: 'string',
+          description:
+            'Only reminders last modified on or after this date (useful for spotting stale tasks).',
+        },
+        ...buildPaginationProperties('reminders', REMINDER_SORT_FIELDS),
+        hasLocationTrigger: {
+          type: 'boolean',
+          description:
+            'Filter reminders with (true) or without (false) a location trigger.',
         },
+        // Batch properties
+        operations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              action: { type: 'string', enum: BATCH_OPERATION_ACTIONS },
+            },
+            required: ['action'],
+          },
+          description:
+            "Operations to run in order (REQUIRED for batch). Each item takes an action ('create', 'update' or 'delete') plus the same parameters as that action on its own.",
+        },
+        stopOnError: {
+          type: 'boolean',
+          description:
+            'Stop at the first failed operation and skip the rest (for batch). By default every operation is attempted.',
+          default: false,
+        },
+        // Bulk update properties
+        patch: {
+          type: 'object',
+          properties: {
+            completed: { type: 'boolean' },
+            targetList: { type: 'string' },
+            dueDate: { type: 'string' },
+            priority: { type: 'string', enum: REMINDER_PRIORITIES },
+            addTags: TAGS_SCHEMA,
+            removeTags: TAGS_SCHEMA,
+          },
+          description:
+            'Changes to apply to every reminder matched by the read filters (REQUIRED for bulk-update).',
+        },
+        confirm: {
+          type: 'boolean',
+          description:
+            'Apply the bulk update (for bulk-update). Without it, only a preview of the matching reminders and a previewToken are returned.',
+          default: false,
+        },
+        previewToken: {
+          type: 'string',
+          description:
+            'Token from the bulk-update preview (REQUIRED with confirm) or from find-duplicates (REQUIRED with merge). Rejected if the matches changed since then.',
+        },
+        // Duplicate detection properties (read filters select the reminders)
+        ...buildDuplicateProperties('reminder', 'list'),
+        // Trash properties
+        permanent: {
+          type: 'boolean',
+          description:
+            'Delete for good instead of moving to the Trash list (for delete, each delete operation in a batch, and find-duplicates merges).',
+          default: false,
+        },
+        olderThanDays: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 3650,
+          description:
+            'Only purge reminders that have been in the Trash list for at least this many days (for purge-trash; 0 empties it).',
+          default: 30,
+        },
+        dryRun: DRY_RUN_PROPERTY,
+        format: FORMAT_PROPERTY,
       },
       required: ['action'],
       dependentSchemas: {
@@ -113,15 +567,75 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
             },
             { properties: { action: { const: 'update' } }, required: ['id'] },
             { properties: { action: { const: 'delete' } }, required: ['id'] },
+            {
+              properties: { action: { const: 'batch' } },
+              required: ['operations'],
+            },
+            {
+              properties: { action: { const: 'bulk-update' } },
+              required: ['patch'],
+            },
+            { properties: { action: { const: 'find-duplicates' } } },
+            { properties: { action: { const: 'restore' } }, required: ['id'] },
+            { properties: { action: { const: 'purge-trash' } } },
           ],
         },
       },
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        reminder: REMINDER_OUTPUT_SCHEMA,
+        reminders: { type: 'array', items: REMINDER_OUTPUT_SCHEMA },
+        ...PAGE_OUTPUT_PROPERTIES,
+        openSubtasks: { type: 'array', items: REMINDER_OUTPUT_SCHEMA },
+        deletedId: { type: 'string' },
+        results: BATCH_RESULTS_OUTPUT_SCHEMA,
+        succeeded: { type: 'integer' },
+        failed: { type: 'integer' },
+        skipped: { type: 'integer' },
+        updated: { type: 'integer' },
+        patch: { type: 'object' },
+        previewToken: { type: 'string' },
+        groups: {
+          type: 'array',
+          items: { type: 'array', items: REMINDER_OUTPUT_SCHEMA },
+          description:
+            'Duplicate groups; the first reminder of each is the one merging keeps.',
+        },
+        duplicates: { type: 'integer' },
+        trashList: { type: 'string' },
+        purged: { type: 'integer' },
+        remaining: {
+          type: 'integer',
+          description:
+            'Expired reminders left in the trash because one purge removes at most a batch.',
+        },
+        ...DRY_RUN_OUTPUT_PROPERTIES,
+        plan: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: { type: 'integer' },
+              action: { type: 'string', enum: BATCH_OPERATION_ACTIONS },
+              status: { type: 'string', enum: ['success', 'error', 'skipped'] },
+              reminder: REMINDER_OUTPUT_SCHEMA,
+              changes: FIELD_CHANGES_OUTPUT_SCHEMA,
+              message: { type: 'string' },
+            },
+            required: ['index', 'action', 'status', 'changes'],
+          },
+          description:
+            'Dry run of a batch, bulk update, merge or purge: what each operation would change.',
+        },
+      },
+    },
   },
   {
     name: 'reminders_lists',
     description:
-      'Manages reminder lists. Supports reading, creating, updating, and deleting reminder lists.',
+      'Manages reminder lists. Supports reading, creating, updating, and deleting reminder lists. Pass dryRun: true to see what a change would do without making it.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -139,6 +653,8 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
           type: 'string',
           description: 'The new name for the list (for update).',
         },
+        dryRun: DRY_RUN_PROPERTY,
+        format: FORMAT_PROPERTY,
       },
       required: ['action'],
       dependentSchemas: {
@@ -155,11 +671,25 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
         },
       },
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        list: NAMED_ITEM_OUTPUT_SCHEMA,
+        lists: { type: 'array', items: NAMED_ITEM_OUTPUT_SCHEMA },
+        deletedName: { type: 'string' },
+        ...DRY_RUN_OUTPUT_PROPERTIES,
+        reminderCount: {
+          type: 'integer',
+          description:
+            'Dry run of a delete: reminders that would be deleted with the list.',
+        },
+      },
+    },
   },
   {
     name: 'calendar_events',
     description:
-      'Manages calendar events (time blocks). Supports reading, creating, updating, and deleting calendar events.',
+      'Manages calendar events (time blocks). Supports reading, creating, updating, and deleting calendar events, and finding and merging duplicate events. Pass dryRun: true to see what a change would do without making it.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -183,12 +713,12 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
         startDate: {
           type: 'string',
           description:
-            "Start date and time. RECOMMENDED format: 'YYYY-MM-DD HH:mm:ss' (local time without timezone, e.g., '2025-11-04 09:00:00'). Also supports: 'YYYY-MM-DD', 'YYYY-MM-DDTHH:mm:ss', or ISO 8601 with timezone. When no timezone is specified, the time is interpreted as local time.",
+            "Start date and time. RECOMMENDED format: 'YYYY-MM-DD HH:mm:ss' (local time without timezone, e.g., '2025-11-04 09:00:00'). Also supports: 'YYYY-MM-DD', 'YYYY-MM-DDTHH:mm:ss', or ISO 8601 with timezone. When no timezone is specified, the time is interpreted as local time. Natural language such as 'tomorrow 9am', 'next Friday 3pm', 'in 2 hours' or 'end of month' is also accepted and resolved against the current local time; the response echoes the resolved date.",
         },
         endDate: {
           type: 'string',
           description:
-            "End date and time. RECOMMENDED format: 'YYYY-MM-DD HH:mm:ss' (local time without timezone, e.g., '2025-11-04 10:00:00'). Also supports: 'YYYY-MM-DD', 'YYYY-MM-DDTHH:mm:ss', or ISO 8601 with timezone. When no timezone is specified, the time is interpreted as local time.",
+            "End date and time. RECOMMENDED format: 'YYYY-MM-DD HH:mm:ss' (local time without timezone, e.g., '2025-11-04 10:00:00'). Also supports: 'YYYY-MM-DD', 'YYYY-MM-DDTHH:mm:ss', or ISO 8601 with timezone. When no timezone is specified, the time is interpreted as local time. Natural language such as 'tomorrow 9am', 'next Friday 3pm', 'in 2 hours' or 'end of month' is also accepted and resolved against the current local time; the response echoes the resolved date.",
         },
         note: {
           type: 'string',
@@ -207,6 +737,47 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
           type: 'boolean',
           description: 'Whether the event is an all-day event.',
         },
+        availability: {
+          type: 'string',
+          enum: EVENT_AVAILABILITIES.filter(
+            (availability) => availability !== 'not-supported',
+          ),
+          description:
+            "How the event blocks time (for create, update). 'free' events do not block scheduling.",
+        },
+        timeZone: {
+          type: 'string',
+          description:
+            "IANA time zone for the event, e.g. 'Europe/Berlin' (for create, update). Dates without an explicit offset are interpreted in this zone. Event status (confirmed/cancelled) is read-only and cannot be set.",
+        },
+        onConflict: {
+          type: 'string',
+          enum: CONFLICT_POLICIES,
+          description:
+            "What to do when the event overlaps existing busy events (for create, and update when the time changes or the event starts blocking time): 'warn' (default) saves and lists the overlaps, 'reject' refuses to save, 'allow' skips the check.",
+        },
+        recurrence: {
+          ...RECURRENCE_SCHEMA,
+          description:
+            'Repeat rule for the event (for create, update). Replaces any existing rule.',
+        },
+        clearRecurrence: {
+          type: 'boolean',
+          description:
+            'Set to true to stop the event from repeating (for update).',
+        },
+        ...buildAlarmProperties('event'),
+        span: {
+          type: 'string',
+          enum: EVENT_SPANS,
+          description:
+            "Which occurrences of a recurring event an update or delete affects: 'this-event' (default) or 'future-events' (this and all following occurrences).",
+        },
+        occurrenceDate: {
+          type: 'string',
+          description:
+            'The occurrence date of a recurring event instance to update or delete (as returned in read results). Defaults to the first occurrence.',
+        },
         targetCalendar: {
           type: 'string',
           description:
@@ -222,6 +793,33 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
           description:
             'A search term to filter events by title, notes, or location.',
         },
+        attendee: {
+          type: 'string',
+          description:
+            'Filter events by organizer or attendee name or email (partial match).',
+        },
+        excludeAvailability: {
+          type: 'array',
+          items: { type: 'string', enum: EVENT_AVAILABILITIES },
+          description:
+            "Exclude events with these availabilities (e.g., ['free']).",
+        },
+        excludeStatus: {
+          type: 'array',
+          items: { type: 'string', enum: EVENT_STATUSES },
+          description:
+            "Exclude events with these statuses (e.g., ['cancelled']).",
+        },
+        ...buildPaginationProperties('events', EVENT_SORT_FIELDS),
+        // Duplicate detection properties (read filters select the events; recurring events are skipped)
+        ...buildDuplicateProperties('event', 'calendar'),
+        previewToken: {
+          type: 'string',
+          description:
+            'Token from find-duplicates (REQUIRED with merge). Rejected if the duplicates changed since then.',
+        },
+        dryRun: DRY_RUN_PROPERTY,
+        format: FORMAT_PROPERTY,
       },
       required: ['action'],
       dependentSchemas: {
@@ -234,10 +832,64 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
             },
             { properties: { action: { const: 'update' } }, required: ['id'] },
             { properties: { action: { const: 'delete' } }, required: ['id'] },
+            { properties: { action: { const: 'find-duplicates' } } },
           ],
         },
       },
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        event: EVENT_OUTPUT_SCHEMA,
+        events: { type: 'array', items: EVENT_OUTPUT_SCHEMA },
+        ...PAGE_OUTPUT_PROPERTIES,
+        conflicts: { type: 'array', items: EVENT_OUTPUT_SCHEMA },
+        deletedId: { type: 'string' },
+        groups: {
+          type: 'array',
+          items: { type: 'array', items: EVENT_OUTPUT_SCHEMA },
+          description:
+            'Duplicate groups; the first event of each is the one merging keeps.',
+        },
+        duplicates: { type: 'integer' },
+        previewToken: { type: 'string' },
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: { type: 'integer' },
+              action: { type: 'string', enum: ['update', 'delete'] },
+              status: { type: 'string', enum: ['success', 'error', 'skipped'] },
+              event: EVENT_OUTPUT_SCHEMA,
+              message: { type: 'string' },
+            },
+            required: ['index', 'action', 'status', 'event'],
+          },
+          description:
+            'Outcome of each merge step; steps after a failure are skipped.',
+        },
+        succeeded: { type: 'integer' },
+        failed: { type: 'integer' },
+        skipped: { type: 'integer' },
+        deletedIds: { type: 'array', items: { type: 'string' } },
+        deleted: { type: 'integer' },
+        ...DRY_RUN_OUTPUT_PROPERTIES,
+        plan: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              action: { type: 'string', enum: ['update', 'delete'] },
+              event: EVENT_OUTPUT_SCHEMA,
+              changes: FIELD_CHANGES_OUTPUT_SCHEMA,
+            },
+            required: ['action', 'event', 'changes'],
+          },
+          description: 'Dry run of a merge: what each step would change.',
+        },
+      },
+    },
   },
   {
     name: 'calendar_calendars',
@@ -251,6 +903,497 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
           enum: ['read'],
           description: 'The operation to perform on calendars.',
         },
+        format: FORMAT_PROPERTY,
+      },
+      required: ['action'],
+      dependentSchemas: {
+        action: {
+          oneOf: [{ properties: { action: { const: 'read' } } }],
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        calendars: { type: 'array', items: NAMED_ITEM_OUTPUT_SCHEMA },
+      },
+      required: ['calendars'],
+    },
+  },
+  {
+    name: 'reminders_tags',
+    description:
+      'Reads reminder tags. Lists every tag in use with the number of reminders carrying it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['read'],
+          description: 'The operation to perform on tags.',
+        },
+        format: FORMAT_PROPERTY,
+      },
+      required: ['action'],
+      dependentSchemas: {
+        action: {
+          oneOf: [{ properties: { action: { const: 'read' } } }],
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        tags: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              count: { type: 'integer' },
+            },
+            required: ['name', 'count'],
+          },
+        },
+      },
+      required: ['tags'],
+    },
+  },
+  {
+    name: 'calendar_availability',
+    description:
+      'Finds free time slots within working hours and summarizes busy events. Events marked free and cancelled events do not block time.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['read'],
+          description: 'The operation to perform.',
+        },
+        startDate: {
+          type: 'string',
+          description:
+            "Start of the range to search (format: 'YYYY-MM-DD' or 'YYYY-MM-DD HH:mm:ss', local time, or natural language such as 'tomorrow').",
+        },
+        endDate: {
+          type: 'string',
+          description:
+            "End of the range to search (format: 'YYYY-MM-DD' or 'YYYY-MM-DD HH:mm:ss', or natural language such as 'next Friday'). A date without a time includes that whole day. At most 31 days after startDate.",
+        },
+        workingHoursStart: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 23,
+          description: 'Hour the working day starts (default: 9).',
+        },
+        workingHoursEnd: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 24,
+          description: 'Hour the working day ends (default: 18).',
+        },
+        minSlotMinutes: {
+          type: 'integer',
+          minimum: 5,
+          description: 'Shortest free slot to report in minutes (default: 30).',
+        },
+        calendars: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Names of the calendars whose events count as busy (default: all calendars).',
+        },
+        bufferBeforeMinutes: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Minutes to keep free before each busy event.',
+        },
+        bufferAfterMinutes: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Minutes to keep free after each busy event.',
+        },
+        format: FORMAT_PROPERTY,
+      },
+      required: ['action', 'startDate', 'endDate'],
+      dependentSchemas: {
+        action: {
+          oneOf: [{ properties: { action: { const: 'read' } } }],
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        startDate: { type: 'string' },
+        endDate: { type: 'string' },
+        freeMinutes: { type: 'integer' },
+        freeSlots: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              start: { type: 'string' },
+              end: { type: 'string' },
+              minutes: { type: 'integer' },
+            },
+            required: ['start', 'end', 'minutes'],
+          },
+        },
+        busy: { type: 'array', items: EVENT_OUTPUT_SCHEMA },
+      },
+      required: ['startDate', 'endDate', 'freeMinutes', 'freeSlots', 'busy'],
+    },
+  },
+  {
+    name: 'agenda',
+    description:
+      'Shows a day or week agenda: calendar events and dated reminders merged into one chronological timeline per day, with all-day items, overdue reminders carried over to today, and free gaps within working hours.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['read'],
+          description: 'The operation to perform.',
+        },
+        date: {
+          type: 'string',
+          description:
+            "Day to show, or any day of the week to show (format: 'YYYY-MM-DD', or natural language such as 'tomorrow'). Defaults to today.",
+        },
+        period: {
+          type: 'string',
+          enum: AGENDA_PERIODS,
+          description:
+            "'day' (default) or 'week'. Weeks run from Monday to Sunday.",
+          default: 'day',
+        },
+        calendars: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Names of the calendars to include (default: all).',
+        },
+        lists: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Names of the reminder lists to include (default: all).',
+        },
+        showCompleted: {
+          type: 'boolean',
+          description: 'Include completed reminders (default: false).',
+          default: false,
+        },
+        workingHoursStart: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 23,
+          description:
+            'Hour the working day starts, for free gaps (default: 9).',
+        },
+        workingHoursEnd: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 24,
+          description:
+            'Hour the working day ends, for free gaps (default: 18).',
+        },
+        minSlotMinutes: {
+          type: 'integer',
+          minimum: 5,
+          description: 'Shortest free gap to show in minutes (default: 30).',
+        },
+        format: FORMAT_PROPERTY,
+      },
+      required: ['action'],
+      dependentSchemas: {
+        action: {
+          oneOf: [{ properties: { action: { const: 'read' } } }],
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        startDate: { type: 'string' },
+        endDate: { type: 'string' },
+        freeMinutes: { type: 'integer' },
+        days: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string' },
+              overdue: { type: 'array', items: REMINDER_OUTPUT_SCHEMA },
+              allDay: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    type: { type: 'string', enum: ['event', 'reminder'] },
+                    item: { type: 'object' },
+                  },
+                  required: ['type', 'item'],
+                },
+              },
+              timeline: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    type: {
+                      type: 'string',
+                      enum: ['event', 'reminder', 'free'],
+                    },
+                    start: { type: 'string' },
+                    end: { type: 'string' },
+                    minutes: { type: 'integer' },
+                    item: { type: 'object' },
+                  },
+                  required: ['type', 'start'],
+                },
+              },
+            },
+            required: ['date', 'overdue', 'allDay', 'timeline'],
+          },
+        },
+      },
+      required: ['startDate', 'endDate', 'freeMinutes', 'days'],
+    },
+  },
+  {
+    name: 'search_all',
+    description:
+      'Searches reminders and calendar events together. Matches every query word against titles, notes, locations, URLs and reminder tags, and returns one list ranked by relevance with each result labelled as a reminder or an event.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['read'],
+          description: 'The operation to perform.',
+        },
+        query: {
+          type: 'string',
+          description:
+            'Words to search for, e.g. "Q3 budget". Every word must appear in some field; title matches rank highest.',
+        },
+        types: {
+          type: 'array',
+          items: { type: 'string', enum: SEARCH_ITEM_TYPES },
+          description: 'Item types to search (default: reminders and events).',
+        },
+        filterList: {
+          type: 'string',
+          description: 'Only search reminders in this list.',
+        },
+        filterCalendar: {
+          type: 'string',
+          description: 'Only search events in this calendar.',
+        },
+        showCompleted: {
+          type: 'boolean',
+          description: 'Include completed reminders (default: false).',
+          default: false,
+        },
+        startDate: {
+          type: 'string',
+          description:
+            "Only reminders due and events happening on or after this date (format: 'YYYY-MM-DD' or 'YYYY-MM-DD HH:mm:ss', or natural language such as 'today'). Reminders without a due date are skipped when a range is given.",
+        },
+        endDate: {
+          type: 'string',
+          description:
+            "Only reminders due and events happening before this date (format: 'YYYY-MM-DD' or 'YYYY-MM-DD HH:mm:ss', or natural language). A date without a time includes that whole day.",
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 200,
+          description:
+            'Return at most this many results. The result reports the total and a nextCursor when more remain.',
+        },
+        cursor: {
+          type: 'string',
+          description:
+            'Opaque nextCursor from a previous search to fetch the following page. Repeat the same query and filters.',
+        },
+        format: FORMAT_PROPERTY,
+      },
+      required: ['action', 'query'],
+      dependentSchemas: {
+        action: {
+          oneOf: [{ properties: { action: { const: 'read' } } }],
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: SEARCH_ITEM_TYPES },
+              score: { type: 'number' },
+              matchedFields: { type: 'array', items: { type: 'string' } },
+              item: {
+                type: 'object',
+                description:
+                  'The matching reminder or event, shaped as in reminders_tasks and calendar_events results.',
+                properties: {
+                  id: { type: 'string' },
+                  title: { type: 'string' },
+                },
+                required: ['id', 'title'],
+              },
+            },
+            required: ['type', 'score', 'matchedFields', 'item'],
+          },
+        },
+        ...PAGE_OUTPUT_PROPERTIES,
+      },
+      required: ['query', 'results', 'returned', 'total'],
+    },
+  },
+  {
+    name: 'undo',
+    description:
+      'Reverts reminder and event changes recorded in the local undo journal. Every create, update and delete is journaled with the item as it was before, so deleted items can be created again with their original fields.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: UNDO_ACTIONS,
+          description:
+            "'read' lists journaled operations, newest first; 'revert' undoes them.",
+        },
+        count: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 50,
+          description:
+            'Undo this many of the most recent operations that have not been undone, newest first (for revert, default: 1).',
+        },
+        operationId: {
+          type: 'string',
+          description:
+            'Undo only this operation, as listed by read (for revert). Cannot be combined with count.',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 200,
+          description:
+            'Number of journal entries to list (for read, default: 20).',
+          default: 20,
+        },
+        format: FORMAT_PROPERTY,
+      },
+      required: ['action'],
+      dependentSchemas: {
+        action: {
+          oneOf: [
+            { properties: { action: { const: 'read' } } },
+            { properties: { action: { const: 'revert' } } },
+          ],
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        entries: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              timestamp: { type: 'string' },
+              type: { type: 'string', enum: SEARCH_ITEM_TYPES },
+              action: { type: 'string', enum: JOURNAL_ACTIONS },
+              itemId: { type: 'string' },
+              title: { type: 'string' },
+              before: {
+                type: 'object',
+                description: 'The item before the change; absent for creates.',
+              },
+              undone: { type: 'boolean' },
+            },
+            required: ['id', 'timestamp', 'type', 'action', 'itemId'],
+          },
+        },
+        ...PAGE_OUTPUT_PROPERTIES,
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              operationId: { type: 'string' },
+              description: { type: 'string' },
+              status: { type: 'string', enum: ['success', 'error', 'skipped'] },
+              recreatedId: { type: 'string' },
+              message: { type: 'string' },
+            },
+            required: ['operationId', 'description', 'status'],
+          },
+        },
+        reverted: { type: 'integer' },
+        failed: { type: 'integer' },
+        skipped: { type: 'integer' },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'True when DRY_RUN is set; entries lists what revert would undo.',
+        },
+      },
+    },
+  },
+  {
+    name: 'audit_log',
+    description:
+      'Reads the audit log of changes made through this server. Every call that creates, updates or deletes reminders, lists or events is recorded with its arguments, the IDs it affected, its outcome and the client and session that made it. Dry runs and previews are not recorded.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['read'],
+          description: 'The operation to perform.',
+        },
+        startDate: {
+          type: 'string',
+          description:
+            "Only entries recorded on or after this date (format: 'YYYY-MM-DD' or 'YYYY-MM-DD HH:mm:ss', or natural language such as 'yesterday').",
+        },
+        endDate: {
+          type: 'string',
+          description:
+            'Only entries recorded before this date. A date without a time includes that whole day.',
+        },
+        tool: {
+          type: 'string',
+          description:
+            "Only entries for this tool, e.g. 'reminders_tasks' or 'calendar_events'.",
+        },
+        id: {
+          type: 'string',
+          description:
+            'Only entries that affected this reminder, event or list ID.',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 200,
+          description:
+            'Number of entries to return, newest first (default: 20).',
+          default: 20,
+        },
+        format: FORMAT_PROPERTY,
       },
       required: ['action'],
       dependentSchemas: {
@@ -259,6 +1402,36 @@ const _EXTENDED_TOOLS: ExtendedTool[] = [
         },
       },
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        entries: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              timestamp: { type: 'string' },
+              tool: { type: 'string' },
+              action: { type: 'string' },
+              arguments: { type: 'object' },
+              affectedIds: { type: 'array', items: { type: 'string' } },
+              outcome: { type: 'string', enum: AUDIT_OUTCOMES },
+              error: { type: 'string' },
+              client: { type: 'string' },
+              sessionId: { type: 'string' },
+            },
+            required: [
+              'timestamp',
+              'tool',
+              'arguments',
+              'affectedIds',
+              'outcome',
+            ],
+          },
+        },
+        ...PAGE_OUTPUT_PROPERTIES,
+      },
+    },
   },
 ];
 
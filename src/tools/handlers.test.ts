@@ -4,23 +4,39 @@
  */
 
 import {
+  handleBatchReminders,
+  handleBulkUpdateReminders,
   handleCreateCalendarEvent,
   handleCreateReminder,
   handleCreateReminderList,
   handleDeleteCalendarEvent,
   handleDeleteReminder,
   handleDeleteReminderList,
+  handleFindAvailability,
+  handleFindDuplicateEvents,
+  handleFindDuplicateReminders,
+  handlePurgeTrash,
+  handleReadAgenda,
+  handleReadAuditLog,
   handleReadCalendarEvents,
   handleReadCalendars,
   handleReadReminderLists,
   handleReadReminders,
+  handleReadReminderTags,
+  handleReadUndoJournal,
+  handleRestoreReminder,
+  handleRevertOperations,
+  handleSearchAll,
   handleUpdateCalendarEvent,
   handleUpdateReminder,
   handleUpdateReminderList,
 } from '../tools/handlers/index.js';
+import { auditLog } from '../utils/auditLog.js';
 import { calendarRepository } from '../utils/calendarRepository.js';
+import { toLocalDateTimeString } from '../utils/dateUtils.js';
 import { handleAsyncOperation } from '../utils/errorHandling.js';
 import { reminderRepository } from '../utils/reminderRepository.js';
+import { undoJournal } from '../utils/undoJournal.js';
 
 // Mock the cliExecutor to avoid import.meta issues
 jest.mock('../utils/cliExecutor.js', () => ({
@@ -31,6 +47,8 @@ jest.mock('../utils/cliExecutor.js', () => ({
 jest.mock('../utils/reminderRepository.js');
 jest.mock('../utils/calendarRepository.js');
 jest.mock('../utils/errorHandling.js');
+jest.mock('../utils/undoJournal.js');
+jest.mock('../utils/auditLog.js');
 
 const mockReminderRepository = reminderRepository as jest.Mocked<
   typeof reminderRepository
@@ -39,6 +57,8 @@ const mockCalendarRepository = calendarRepository as jest.Mocked<
   typeof calendarRepository
 >;
 const mockHandleAsyncOperation = handleAsyncOperation as jest.Mock;
+const mockUndoJournal = undoJournal as jest.Mocked<typeof undoJournal>;
+const mockAuditLog = auditLog as jest.Mocked<typeof auditLog>;
 
 /**
  * Type guard helper to extract text content from CallToolResult
@@ -57,6 +77,13 @@ function _getTextContent(
 mockHandleAsyncOperation.mockImplementation(async (operation) => {
   try {
     const result = await operation();
+    if (typeof result !== 'string') {
+      return {
+        content: [{ type: 'text', text: result.markdown }],
+        structuredContent: result.data,
+        isError: false,
+      };
+    }
     return { content: [{ type: 'text', text: result }], isError: false };
   } catch (error) {
     return {
@@ -101,6 +128,12 @@ describe('Tool Handlers', () => {
       const content = _getTextContent(result.content);
 
       expect(content).toContain('### Reminders (Total: 2)');
+      expect(result.structuredContent).toEqual({
+        reminders: mockReminders,
+        returned: 2,
+        total: 2,
+        nextCursor: undefined,
+      });
       expect(content).toContain('- [ ] Basic Reminder');
       expect(content).toContain('- [x] Full Reminder');
       expect(content).toContain('- List: Personal');
@@ -110,6 +143,61 @@ describe('Tool Handlers', () => {
       expect(content).toContain('Notes: Line 1\n    Line 2');
     });
 
+    it('sorts and pages results, reporting the next cursor', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue([
+        {
+          id: '1',
+          title: 'Low',
+          isCompleted: false,
+          list: 'Work',
+          priority: 'low',
+        },
+        { id: '2', title: 'None', isCompleted: false, list: 'Work' },
+        {
+          id: '3',
+          title: 'High',
+          isCompleted: false,
+          list: 'Work',
+          priority: 'high',
+        },
+      ]);
+
+      const first = _getTextContent(
+        (
+          await handleReadReminders({
+            action: 'read',
+            sortBy: 'priority',
+            sortOrder: 'desc',
+            limit: 2,
+          })
+        ).content,
+      );
+      const cursor = first.match(/nextCursor: "([^"]+)"/)?.[1];
+
+      expect(first).toContain('### Reminders (Total: 3, Returned: 2)');
+      expect(first.indexOf('- [ ] High')).toBeLessThan(
+        first.indexOf('- [ ] Low'),
+      );
+      expect(first).not.toContain('- [ ] None');
+      expect(cursor).toBeDefined();
+
+      const second = _getTextContent(
+        (
+          await handleReadReminders({
+            action: 'read',
+            sortBy: 'priority',
+            sortOrder: 'desc',
+            limit: 2,
+            cursor,
+          })
+        ).content,
+      );
+
+      expect(second).toContain('### Reminders (Total: 3, Returned: 1)');
+      expect(second).toContain('- [ ] None');
+      expect(second).not.toContain('nextCursor');
+    });
+
     it('renders single reminder details including metadata and completion state', async () => {
       const mockReminder = {
         id: '456',
@@ -137,6 +225,103 @@ describe('Tool Handlers', () => {
       expect(content).toContain('- URL: https://example.com');
     });
 
+    it('renders priority and forwards the priority filter', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue([
+        {
+          id: '7',
+          title: 'Urgent Task',
+          isCompleted: false,
+          list: 'Work',
+          priority: 'high',
+        },
+        {
+          id: '8',
+          title: 'Someday Task',
+          isCompleted: false,
+          list: 'Work',
+          priority: 'none',
+        },
+      ]);
+
+      const result = await handleReadReminders({
+        action: 'read',
+        filterPriority: 'high',
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.findReminders).toHaveBeenCalledWith(
+        expect.objectContaining({ priority: 'high' }),
+      );
+      expect(content).toContain('- Priority: high');
+      expect(content).not.toContain('- Priority: none');
+    });
+
+    it('renders recurrence rules in human-readable form', async () => {
+      mockReminderRepository.findReminderById.mockResolvedValue({
+        id: '9',
+        title: 'Monthly report',
+        isCompleted: false,
+        list: 'Work',
+        dueDate: '2025-01-01',
+        recurrence: { frequency: 'monthly', byMonthDay: [1], endCount: 12 },
+      });
+
+      const result = await handleReadReminders({ action: 'read', id: '9' });
+      const content = _getTextContent(result.content);
+
+      expect(content).toContain(
+        '- Repeats: Every month on day 1 for 12 occurrences',
+      );
+    });
+
+    it('renders reminder alarms', async () => {
+      mockReminderRepository.findReminderById.mockResolvedValue({
+        id: '10',
+        title: 'Call dentist',
+        isCompleted: false,
+        list: 'Personal',
+        dueDate: '2025-11-04 15:00:00',
+        alarms: [{ relativeOffset: -30 }, { date: '2025-11-04 09:00:00' }],
+      });
+
+      const result = await handleReadReminders({ action: 'read', id: '10' });
+      const content = _getTextContent(result.content);
+
+      expect(content).toContain(
+        '- Alarms: 30 minutes before, at 2025-11-04 09:00:00',
+      );
+    });
+
+    it('renders location triggers and forwards the read filter', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue([
+        {
+          id: '11',
+          title: 'Buy milk',
+          isCompleted: false,
+          list: 'Personal',
+          locationTrigger: {
+            title: 'Grocery',
+            latitude: 37.33,
+            longitude: -122.03,
+            radius: 100,
+            proximity: 'enter',
+          },
+        },
+      ]);
+
+      const result = await handleReadReminders({
+        action: 'read',
+        hasLocationTrigger: true,
+      });
+
+      expect(_getTextContent(result.content)).toContain(
+        '- Location: Arriving at Grocery (37.33, -122.03, 100 m)',
+      );
+      expect(mockReminderRepository.findReminders).toHaveBeenCalledWith(
+        expect.objectContaining({ hasLocationTrigger: true }),
+      );
+    });
+
     it('returns empty state messaging when no reminders match', async () => {
       mockReminderRepository.findReminders.mockResolvedValue([]);
 
@@ -155,9 +340,8 @@ describe('Tool Handlers', () => {
         title: 'New Task',
         isCompleted: false,
         list: 'Inbox',
-        notes: null,
-        url: null,
-        dueDate: null,
+        priority: 'none' as const,
+        alarms: [],
       };
       mockReminderRepository.createReminder.mockResolvedValue(newReminder);
       const result = await handleCreateReminder({
@@ -167,6 +351,76 @@ describe('Tool Handlers', () => {
       const content = _getTextContent(result.content);
       expect(content).toContain('Successfully created reminder "New Task"');
       expect(content).toContain('- ID: rem-123');
+      expect(content).not.toContain('- Due:');
+    });
+
+    it('returns the created reminder as structured content', async () => {
+      const newReminder = {
+        id: 'rem-123',
+        title: 'New Task',
+        isCompleted: false,
+        list: 'Inbox',
+        priority: 'none' as const,
+      };
+      mockReminderRepository.createReminder.mockResolvedValue(newReminder);
+
+      const result = await handleCreateReminder({
+        action: 'create',
+        title: 'New Task',
+      });
+
+      expect(result.structuredContent).toEqual({ reminder: newReminder });
+    });
+
+    describe('natural-language due dates', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date(2025, 2, 12, 10, 30));
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('resolves the due date before saving and echoes it', async () => {
+        mockReminderRepository.createReminder.mockResolvedValue({
+          id: 'rem-123',
+          title: 'Call Bob',
+          isCompleted: false,
+          list: 'Inbox',
+          dueDate: '2025-03-14 15:00:00',
+          priority: 'none',
+          alarms: [],
+        });
+
+        const result = await handleCreateReminder({
+          action: 'create',
+          title: 'Call Bob',
+          dueDate: 'next Friday 3pm',
+        });
+        const content = _getTextContent(result.content);
+
+        expect(mockReminderRepository.createReminder).toHaveBeenCalledWith(
+          expect.objectContaining({ dueDate: '2025-03-14 15:00:00' }),
+        );
+        expect(content).toContain(
+          '- Due: 2025-03-14 15:00:00 (from "next Friday 3pm")',
+        );
+      });
+
+      it('rejects expressions it cannot resolve', async () => {
+        mockReminderRepository.createReminder.mockClear();
+
+        const result = await handleCreateReminder({
+          action: 'create',
+          title: 'Call Bob',
+          dueDate: 'someday soon',
+        });
+
+        expect(result.isError).toBe(true);
+        expect(_getTextContent(result.content)).toContain('Date must be');
+        expect(mockReminderRepository.createReminder).not.toHaveBeenCalled();
+      });
     });
   });
 
@@ -177,9 +431,8 @@ describe('Tool Handlers', () => {
         title: 'Updated Task',
         isCompleted: true,
         list: 'Inbox',
-        notes: null,
-        url: null,
-        dueDate: null,
+        priority: 'none' as const,
+        alarms: [],
       };
       mockReminderRepository.updateReminder.mockResolvedValue(updatedReminder);
       const result = await handleUpdateReminder({
@@ -193,106 +446,1607 @@ describe('Tool Handlers', () => {
     });
   });
 
-  describe('handleDeleteReminder', () => {
-    it('should return a Markdown success message', async () => {
-      mockReminderRepository.deleteReminder.mockResolvedValue(undefined);
-      const result = await handleDeleteReminder({
-        action: 'delete',
-        id: 'rem-789',
+  describe('handleUpdateReminder recurrence', () => {
+    it('forwards recurrence changes to the repository', async () => {
+      mockReminderRepository.updateReminder.mockResolvedValue({
+        id: 'rem-1',
+        title: 'Chores',
+        isCompleted: false,
+        list: 'Home',
+        priority: 'none',
+        alarms: [],
       });
-      const content = _getTextContent(result.content);
-      expect(content).toBe('Successfully deleted reminder with ID: rem-789');
+
+      await handleUpdateReminder({
+        action: 'update',
+        id: 'rem-1',
+        clearRecurrence: true,
+      });
+
+      expect(mockReminderRepository.updateReminder).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'rem-1', clearRecurrence: true }),
+      );
+    });
+
+    it('rejects setting and clearing recurrence together', async () => {
+      const result = await handleUpdateReminder({
+        action: 'update',
+        id: 'rem-1',
+        recurrence: { frequency: 'daily' },
+        clearRecurrence: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(mockReminderRepository.updateReminder).not.toHaveBeenCalled();
+    });
+
+    it('needs a due date for a new recurrence', async () => {
+      const undated = {
+        id: 'rem-1',
+        title: 'Chores',
+        isCompleted: false,
+        list: 'Home',
+      };
+      mockReminderRepository.findReminderById.mockResolvedValue(undated);
+      mockReminderRepository.updateReminder.mockResolvedValue(undated);
+
+      const result = await handleUpdateReminder({
+        action: 'update',
+        id: 'rem-1',
+        recurrence: { frequency: 'weekly' },
+      });
+      await handleUpdateReminder({
+        action: 'update',
+        id: 'rem-1',
+        recurrence: { frequency: 'weekly' },
+        dueDate: '2025-03-10',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(_getTextContent(result.content)).toContain(
+        'Recurring reminders need a due date',
+      );
+      expect(mockReminderRepository.updateReminder).toHaveBeenCalledTimes(1);
+      expect(mockReminderRepository.findReminderById).toHaveBeenCalledTimes(1);
     });
   });
 
-  // --- List Handlers ---
+  describe('handleFindAvailability', () => {
+    it('reports free slots around busy events in selected calendars', async () => {
+      mockCalendarRepository.findEvents.mockResolvedValue([
+        {
+          id: 'e1',
+          title: 'Standup',
+          calendar: 'Work',
+          startDate: '2025-03-10 10:00:00',
+          endDate: '2025-03-10 10:30:00',
+          isAllDay: false,
+          availability: 'tentative',
+        },
+        {
+          id: 'e2',
+          title: 'Gym',
+          calendar: 'Personal',
+          startDate: '2025-03-10 12:00:00',
+          endDate: '2025-03-10 13:00:00',
+          isAllDay: false,
+        },
+        {
+          id: 'e3',
+          title: 'Holiday',
+          calendar: 'Work',
+          startDate: '2025-03-10',
+          endDate: '2025-03-10',
+          isAllDay: true,
+          availability: 'not-supported',
+        },
+      ]);
 
-  describe('handleReadReminderLists', () => {
-    it('should return lists formatted as Markdown', async () => {
-      const mockLists = [{ id: 'list-1', title: 'Inbox' }];
-      mockReminderRepository.findAllLists.mockResolvedValue(mockLists);
-      const result = await handleReadReminderLists();
+      const result = await handleFindAvailability({
+        action: 'read',
+        startDate: '2025-03-10',
+        endDate: '2025-03-10',
+        calendars: ['Work'],
+        bufferAfterMinutes: 15,
+      });
       const content = _getTextContent(result.content);
-      expect(content).toContain('### Reminder Lists (Total: 1)');
-      expect(content).toContain('- Inbox (ID: list-1)');
+
+      expect(mockCalendarRepository.findEvents).toHaveBeenCalledWith({
+        startDate: '2025-03-10 00:00:00',
+        endDate: '2025-03-11 00:00:00',
+        excludeAvailability: ['free'],
+        excludeStatus: ['cancelled'],
+      });
+      expect(content).toContain(
+        'Working hours: 09:00-18:00, minimum slot: 30 minutes',
+      );
+      expect(content).toContain('### Free Slots (Total: 2)');
+      expect(content).toContain('- 2025-03-10 09:00-10:00 (1 hour)');
+      expect(content).toContain(
+        '- 2025-03-10 10:45-18:00 (7 hours 15 minutes)',
+      );
+      expect(content).toContain('### Busy (Total: 1)');
+      expect(content).toContain(
+        '- 2025-03-10 10:00-10:30 Standup (Work, tentative)',
+      );
+      expect(content).not.toContain('Gym');
+      expect(content).not.toContain('Holiday');
     });
 
-    it('should return empty list message when no lists found', async () => {
-      mockReminderRepository.findAllLists.mockResolvedValue([]);
-      const result = await handleReadReminderLists();
-      const content = _getTextContent(result.content);
-      expect(content).toContain('### Reminder Lists (Total: 0)');
-      expect(content).toContain('No reminder lists found.');
+    it('rejects ranges longer than the limit', async () => {
+      const result = await handleFindAvailability({
+        action: 'read',
+        startDate: '2025-03-01',
+        endDate: '2025-04-15',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(mockCalendarRepository.findEvents).not.toHaveBeenCalled();
     });
   });
 
-  describe('handleCreateReminderList', () => {
-    it('should return a Markdown success message with ID', async () => {
-      const newList = { id: 'list-abc', title: 'New List' };
-      mockReminderRepository.createReminderList.mockResolvedValue(newList);
-      const result = await handleCreateReminderList({
-        action: 'create',
-        name: 'New List',
+  describe('handleReadAgenda', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date(2025, 2, 12, 10, 30));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('groups a week of events and reminders by day', async () => {
+      mockCalendarRepository.findEvents.mockResolvedValue([
+        {
+          id: 'e1',
+          title: 'Standup',
+          calendar: 'Work',
+          startDate: '2025-03-12 11:00:00',
+          endDate: '2025-03-12 11:30:00',
+          isAllDay: false,
+        },
+        {
+          id: 'e2',
+          title: 'Gym',
+          calendar: 'Personal',
+          startDate: '2025-03-12 12:00:00',
+          endDate: '2025-03-12 13:00:00',
+          isAllDay: false,
+        },
+      ]);
+      mockReminderRepository.findReminders.mockResolvedValue([
+        {
+          id: 'r1',
+          title: 'Pay invoice',
+          isCompleted: false,
+          list: 'Finance',
+          dueDate: '2025-03-07',
+        },
+        {
+          id: 'r2',
+          title: 'Call dentist',
+          isCompleted: false,
+          list: 'Personal',
+          dueDate: '2025-03-13 16:00:00',
+        },
+      ]);
+
+      const result = await handleReadAgenda({
+        action: 'read',
+        period: 'week',
+        calendars: ['Work'],
       });
       const content = _getTextContent(result.content);
-      expect(content).toContain('Successfully created list "New List"');
-      expect(content).toContain('- ID: list-abc');
+
+      expect(mockCalendarRepository.findEvents).toHaveBeenCalledWith({
+        startDate: '2025-03-10 00:00:00',
+        endDate: '2025-03-17 00:00:00',
+        excludeStatus: ['cancelled'],
+      });
+      expect(mockReminderRepository.findReminders).toHaveBeenCalledWith({
+        showCompleted: false,
+        dueBefore: '2025-03-17 00:00:00',
+      });
+      expect(content).toContain('### Agenda for 2025-03-10 to 2025-03-16');
+      expect(content).toContain('Events: 1, reminders: 1, overdue: 1');
+      expect(content).toContain(
+        [
+          '#### Wednesday, 2025-03-12',
+          '- Overdue:',
+          '  - [Reminder] [ ] Pay invoice (Finance), due 2025-03-07',
+          '- 10:30-11:00 Free (30 minutes)',
+          '- 11:00-11:30 [Event] Standup (Work)',
+          '- 11:30-18:00 Free (6 hours 30 minutes)',
+        ].join('\n'),
+      );
+      expect(content).toContain(
+        '- 16:00 [Reminder] [ ] Call dentist (Personal)',
+      );
+      expect(content).toContain(
+        '#### Monday, 2025-03-10\n- Nothing scheduled.',
+      );
+      expect(content).not.toContain('Gym');
+      expect(result.structuredContent).toMatchObject({
+        startDate: '2025-03-10',
+        endDate: '2025-03-16',
+      });
+    });
+
+    it('shows a single day for a natural-language date', async () => {
+      mockCalendarRepository.findEvents.mockResolvedValue([]);
+      mockReminderRepository.findReminders.mockResolvedValue([]);
+
+      const result = await handleReadAgenda({
+        action: 'read',
+        date: 'tomorrow',
+      });
+      const content = _getTextContent(result.content);
+
+      expect(content).toContain('### Agenda for Thursday, 2025-03-13');
+      expect(content).toContain('- Date: 2025-03-13 (from "tomorrow")');
+      expect(content).toContain('- 09:00-18:00 Free (9 hours)');
     });
   });
 
-  describe('handleUpdateReminderList', () => {
-    it('should return a Markdown success message with ID', async () => {
-      const updatedList = { id: 'list-def', title: 'Updated Name' };
-      mockReminderRepository.updateReminderList.mockResolvedValue(updatedList);
-      const result = await handleUpdateReminderList({
-        action: 'update',
-        name: 'Old Name',
-        newName: 'Updated Name',
+  describe('handleSearchAll', () => {
+    it('returns ranked reminders and events with type labels', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue([
+        {
+          id: 'r1',
+          title: 'Send slides',
+          isCompleted: false,
+          list: 'Work',
+          notes: 'Numbers for the Q3 budget',
+        },
+        {
+          id: 'r2',
+          title: 'Groceries',
+          isCompleted: false,
+          list: 'Home',
+        },
+      ]);
+      mockCalendarRepository.findEvents.mockResolvedValue([
+        {
+          id: 'e1',
+          title: 'Q3 budget review',
+          calendar: 'Work',
+          startDate: '2025-03-10 10:00:00',
+          endDate: '2025-03-10 11:00:00',
+          isAllDay: false,
+          location: 'Room 4',
+        },
+      ]);
+
+      const result = await handleSearchAll({
+        action: 'read',
+        query: 'Q3 budget',
+        filterList: 'Work',
+        filterCalendar: 'Work',
+        startDate: '2025-03-10',
+        endDate: '2025-03-14',
       });
       const content = _getTextContent(result.content);
-      expect(content).toContain('Successfully updated list to "Updated Name"');
-      expect(content).toContain('- ID: list-def');
+
+      expect(mockReminderRepository.findReminders).toHaveBeenCalledWith({
+        list: 'Work',
+        showCompleted: false,
+        dueAfter: '2025-03-10',
+        dueBefore: '2025-03-14',
+      });
+      expect(mockCalendarRepository.findEvents).toHaveBeenCalledWith({
+        startDate: '2025-03-10',
+        endDate: '2025-03-15 00:00:00',
+        calendarName: 'Work',
+      });
+      expect(content).toContain(
+        '### Search Results for "Q3 budget" (Total: 2)',
+      );
+      expect(content.indexOf('- [Event] Q3 budget review')).toBeLessThan(
+        content.indexOf('- [Reminder] [ ] Send slides'),
+      );
+      expect(content).toContain('  - Location: Room 4');
+      expect(content).toContain('  - Matched: notes');
+      expect(content).not.toContain('Groceries');
+      expect(result.structuredContent).toMatchObject({
+        query: 'Q3 budget',
+        results: [
+          { type: 'event', item: { id: 'e1' } },
+          { type: 'reminder', item: { id: 'r1' }, matchedFields: ['notes'] },
+        ],
+        returned: 2,
+        total: 2,
+      });
+    });
+
+    it('only queries the requested item types', async () => {
+      mockCalendarRepository.findEvents.mockResolvedValue([]);
+
+      const result = await handleSearchAll({
+        action: 'read',
+        query: 'dentist',
+        types: ['event'],
+      });
+
+      expect(mockReminderRepository.findReminders).not.toHaveBeenCalled();
+      expect(_getTextContent(result.content)).toContain(
+        'No reminders or events match the query.',
+      );
+    });
+
+    it('requires a query', async () => {
+      const result = await handleSearchAll({ action: 'read' });
+
+      expect(result.isError).toBe(true);
+      expect(mockCalendarRepository.findEvents).not.toHaveBeenCalled();
     });
   });
 
-  describe('handleDeleteReminderList', () => {
-    it('should return a Markdown success message', async () => {
-      mockReminderRepository.deleteReminderList.mockResolvedValue(undefined);
-      const result = await handleDeleteReminderList({
-        action: 'delete',
-        name: 'Old List',
+  describe('event availability, status and time zone', () => {
+    it('renders the fields and forwards them on create', async () => {
+      mockCalendarRepository.findEventById.mockResolvedValue({
+        id: 'evt-z',
+        title: 'Offsite',
+        calendar: 'Work',
+        startDate: '2025-11-15T09:00:00+01:00',
+        endDate: '2025-11-15T17:00:00+01:00',
+        isAllDay: false,
+        availability: 'tentative',
+        status: 'cancelled',
+        timeZone: 'Europe/Berlin',
+      });
+
+      const result = await handleReadCalendarEvents({
+        action: 'read',
+        id: 'evt-z',
       });
       const content = _getTextContent(result.content);
-      expect(content).toBe('Successfully deleted list "Old List".');
+
+      expect(content).toContain('  - Time Zone: Europe/Berlin');
+      expect(content).toContain('  - Availability: tentative');
+      expect(content).toContain('  - Status: cancelled');
+
+      mockCalendarRepository.createEvent.mockResolvedValue({
+        id: 'evt-n',
+        title: 'Focus',
+        calendar: 'Work',
+        startDate: '2025-11-16T09:00:00+01:00',
+        endDate: '2025-11-16T11:00:00+01:00',
+        isAllDay: false,
+        isRecurring: false,
+        alarms: [],
+      });
+      await handleCreateCalendarEvent({
+        action: 'create',
+        title: 'Focus',
+        startDate: '2025-11-16 09:00:00',
+        endDate: '2025-11-16 11:00:00',
+        availability: 'free',
+        timeZone: 'Europe/Berlin',
+      });
+      expect(mockCalendarRepository.createEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          availability: 'free',
+          timeZone: 'Europe/Berlin',
+        }),
+      );
     });
   });
 
-  // --- Calendar Event Handlers ---
+  describe('event participants', () => {
+    it('renders organizer, own status and attendees', async () => {
+      mockCalendarRepository.findEvents.mockResolvedValue([
+        {
+          id: 'evt-p',
+          title: 'Design review',
+          calendar: 'Work',
+          startDate: '2025-11-15T08:00:00Z',
+          endDate: '2025-11-15T09:00:00Z',
+          isAllDay: false,
+          organizer: {
+            name: 'Dana Lee',
+            email: 'dana@example.com',
+            role: 'chair',
+            status: 'accepted',
+          },
+          participationStatus: 'tentative',
+          attendees: [
+            {
+              name: 'Sam Park',
+              email: 'sam@example.com',
+              role: 'required',
+              status: 'accepted',
+            },
+            { email: 'ops@example.com', role: 'optional', status: 'pending' },
+          ],
+        },
+      ]);
+
+      const result = await handleReadCalendarEvents({
+        action: 'read',
+        attendee: 'sam',
+      });
+      const content = _getTextContent(result.content);
+
+      expect(content).toContain('  - Organizer: Dana Lee <dana@example.com>');
+      expect(content).toContain('  - Your Status: tentative');
+      expect(content).toContain(
+        [
+          '  - Attendees (2):',
+          '    - Sam Park <sam@example.com> (required, accepted)',
+          '    - ops@example.com (optional, pending)',
+        ].join('\n'),
+      );
+      expect(mockCalendarRepository.findEvents).toHaveBeenCalledWith(
+        expect.objectContaining({ attendee: 'sam' }),
+      );
+    });
+  });
+
+  describe('timestamps', () => {
+    it('renders timestamps and includes completed reminders for completion filters', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue([
+        {
+          id: 'done',
+          title: 'File taxes',
+          isCompleted: true,
+          list: 'Personal',
+          creationDate: '2025-10-01T08:00:00+02:00',
+          lastModifiedDate: '2025-11-03T17:30:00+01:00',
+          completionDate: '2025-11-03T17:30:00+01:00',
+        },
+      ]);
+
+      const result = await handleReadReminders({
+        action: 'read',
+        completedAfter: '2025-11-01',
+        completedBefore: '2025-11-08',
+      });
+      const content = _getTextContent(result.content);
+
+      expect(content).toContain('  - Completed: 2025-11-03T17:30:00+01:00');
+      expect(content).toContain('  - Created: 2025-10-01T08:00:00+02:00');
+      expect(content).toContain('  - Modified: 2025-11-03T17:30:00+01:00');
+      expect(mockReminderRepository.findReminders).toHaveBeenCalledWith(
+        expect.objectContaining({
+          showCompleted: true,
+          completedAfter: '2025-11-01',
+          completedBefore: '2025-11-08',
+        }),
+      );
+    });
+
+    it('renders event creation and modification dates', async () => {
+      mockCalendarRepository.findEventById.mockResolvedValue({
+        id: 'evt-t',
+        title: 'Review',
+        calendar: 'Work',
+        startDate: '2025-11-15T08:00:00Z',
+        endDate: '2025-11-15T09:00:00Z',
+        isAllDay: false,
+        creationDate: '2025-11-01T10:00:00Z',
+        lastModifiedDate: '2025-11-02T10:00:00Z',
+      });
+
+      const result = await handleReadCalendarEvents({
+        action: 'read',
+        id: 'evt-t',
+      });
+      const content = _getTextContent(result.content);
+
+      expect(content).toContain('  - Created: 2025-11-01T10:00:00Z');
+      expect(content).toContain('  - Modified: 2025-11-02T10:00:00Z');
+    });
+  });
+
+  describe('tags', () => {
+    it('renders reminder tags and forwards tag filters', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue([
+        {
+          id: 't1',
+          title: 'Pick up parcel',
+          isCompleted: false,
+          list: 'Personal',
+          tags: ['errand', 'waiting'],
+        },
+      ]);
+
+      const result = await handleReadReminders({
+        action: 'read',
+        filterTags: ['#Errand'],
+        tagMatch: 'all',
+      });
+
+      expect(_getTextContent(result.content)).toContain(
+        '- Tags: #errand #waiting',
+      );
+      expect(mockReminderRepository.findReminders).toHaveBeenCalledWith(
+        expect.objectContaining({ tags: ['errand'], tagMatch: 'all' }),
+      );
+    });
+
+    it('lists tags with usage counts', async () => {
+      mockReminderRepository.findAllTags.mockResolvedValue([
+        { name: 'errand', count: 2 },
+        { name: 'waiting', count: 1 },
+      ]);
+
+      const result = await handleReadReminderTags({ action: 'read' });
+      const content = _getTextContent(result.content);
+
+      expect(content).toContain('### Reminder Tags (Total: 2)');
+      expect(content).toContain('- #errand (2 reminders)');
+      expect(content).toContain('- #waiting (1 reminder)');
+    });
+  });
+
+  describe('subtasks', () => {
+    it('renders subtasks as nested checkboxes', async () => {
+      mockReminderRepository.findReminderById.mockResolvedValue({
+        id: 'p',
+        title: 'Plan trip',
+        isCompleted: false,
+        list: 'Travel',
+        subtasks: [
+          {
+            id: 'c1',
+            title: 'Book flights',
+            isCompleted: true,
+            list: 'Travel',
+            parentId: 'p',
+          },
+          {
+            id: 'c2',
+            title: 'Book hotel',
+            isCompleted: false,
+            list: 'Travel',
+            parentId: 'p',
+            subtasks: [
+              {
+                id: 'g1',
+                title: 'Compare prices',
+                isCompleted: false,
+                list: 'Travel',
+                parentId: 'c2',
+              },
+            ],
+          },
+        ],
+      });
+
+      const result = await handleReadReminders({ action: 'read', id: 'p' });
+
+      expect(_getTextContent(result.content)).toContain(
+        [
+          '  - Subtasks:',
+          '    - [x] Book flights (ID: c1)',
+          '    - [ ] Book hotel (ID: c2)',
+          '      - [ ] Compare prices (ID: g1)',
+        ].join('\n'),
+      );
+    });
+
+    it('forwards parentId on create', async () => {
+      mockReminderRepository.createReminder.mockResolvedValue({
+        id: 'c3',
+        title: 'Pack',
+        isCompleted: false,
+        list: 'Travel',
+        priority: 'none',
+        alarms: [],
+        parentId: 'p',
+      });
+
+      await handleCreateReminder({
+        action: 'create',
+        title: 'Pack',
+        parentId: 'p',
+      });
+
+      expect(mockReminderRepository.createReminder).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Pack', parentId: 'p' }),
+      );
+    });
+
+    it('reports open subtasks when completing a parent', async () => {
+      mockReminderRepository.updateReminder.mockResolvedValue({
+        id: 'p',
+        title: 'Plan trip',
+        isCompleted: true,
+        list: 'Travel',
+        priority: 'none',
+        alarms: [],
+      });
+      mockReminderRepository.findOpenSubtasks.mockResolvedValue([
+        { id: 'c2', title: 'Book hotel', isCompleted: false, list: 'Travel' },
+      ]);
+
+      const result = await handleUpdateReminder({
+        action: 'update',
+        id: 'p',
+        completed: true,
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.findOpenSubtasks).toHaveBeenCalledWith('p');
+      expect(content).toContain('- Open subtasks: 1');
+      expect(content).toContain('  - [ ] Book hotel (ID: c2)');
+    });
+  });
+
+  describe('handleBatchReminders', () => {
+    const created = {
+      id: 'new-1',
+      title: 'Buy milk',
+      isCompleted: false,
+      list: 'Inbox',
+      priority: 'none' as const,
+      alarms: [],
+    };
+
+    it('sends all valid operations in one batch and reports each result', async () => {
+      mockReminderRepository.runBatch.mockResolvedValue([
+        { index: 0, action: 'create', status: 'success', reminder: created },
+        {
+          index: 1,
+          action: 'update',
+          status: 'error',
+          message: "Reminder with ID 'gone' not found.",
+        },
+        { index: 2, action: 'delete', status: 'success', deletedId: 'old-1' },
+      ]);
+
+      const result = await handleBatchReminders({
+        action: 'batch',
+        operations: [
+          { action: 'create', title: 'Buy milk' },
+          { action: 'update', id: 'gone', completed: true },
+          { action: 'delete', id: 'old-1', permanent: true },
+        ],
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.runBatch).toHaveBeenCalledTimes(1);
+      expect(mockReminderRepository.runBatch).toHaveBeenCalledWith(
+        [
+          {
+            action: 'create',
+            data: expect.objectContaining({ title: 'Buy milk' }),
+          },
+          {
+            action: 'update',
+            data: expect.objectContaining({ id: 'gone', isCompleted: true }),
+          },
+          { action: 'delete', id: 'old-1' },
+        ],
+        false,
+      );
+      expect(content).toContain('### Batch Results (Total: 3)');
+      expect(content).toContain(
+        '- 1. create succeeded: "Buy milk" (ID: new-1)',
+      );
+      expect(content).toContain(
+        "- 2. update failed: Reminder with ID 'gone' not found.",
+      );
+      expect(content).toContain('- 3. delete succeeded: ID old-1');
+      expect(content).toContain('Succeeded: 2, failed: 1, skipped: 0');
+    });
+
+    it('reports invalid operations without sending them', async () => {
+      mockReminderRepository.runBatch.mockResolvedValue([
+        { index: 0, action: 'delete', status: 'success', deletedId: 'old-1' },
+      ]);
+
+      const result = await handleBatchReminders({
+        action: 'batch',
+        operations: [
+          { action: 'create' },
+          { action: 'delete', id: 'old-1', permanent: true },
+        ],
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.runBatch).toHaveBeenCalledWith(
+        [{ action: 'delete', id: 'old-1' }],
+        false,
+      );
+      expect(content).toMatch(/- 1\. create failed: .*title/);
+      expect(content).toContain('- 2. delete succeeded: ID old-1');
+    });
+
+    it('skips everything after an invalid operation with stopOnError', async () => {
+      mockReminderRepository.runBatch.mockResolvedValue([
+        { index: 0, action: 'create', status: 'success', reminder: created },
+      ]);
+
+      const result = await handleBatchReminders({
+        action: 'batch',
+        stopOnError: true,
+        operations: [
+          { action: 'create', title: 'Buy milk' },
+          { action: 'update' },
+          { action: 'delete', id: 'old-1', permanent: true },
+        ],
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.runBatch).toHaveBeenCalledWith(
+        [expect.objectContaining({ action: 'create' })],
+        true,
+      );
+      expect(content).toMatch(/- 2\. update failed: /);
+      expect(content).toContain('- 3. delete skipped');
+      expect(content).toContain('Succeeded: 1, failed: 1, skipped: 1');
+    });
+
+    it('rejects an empty batch', async () => {
+      const result = await handleBatchReminders({
+        action: 'batch',
+        operations: [],
+      });
+
+      expect(result.isError).toBe(true);
+      expect(mockReminderRepository.runBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleBulkUpdateReminders', () => {
+    const matches = [
+      { id: 'g1', title: 'Milk', isCompleted: false, list: 'Groceries' },
+      { id: 'g2', title: 'Eggs', isCompleted: false, list: 'Groceries' },
+    ];
+    const previewToken = (content: string): string =>
+      content.match(/previewToken: "([0-9a-f]+)"/)?.[1] ?? '';
+
+    it('previews matches without changing anything', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue(matches);
+
+      const result = await handleBulkUpdateReminders({
+        action: 'bulk-update',
+        filterList: 'Groceries',
+        patch: { completed: true },
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.findReminders).toHaveBeenCalledWith(
+        expect.objectContaining({ list: 'Groceries', showCompleted: false }),
+      );
+      expect(content).toContain('### Bulk Update Preview (Total: 2)');
+      expect(content).toContain('- [ ] Milk (ID: g1)');
+      expect(content).toContain('Changes: completed: true');
+      expect(previewToken(content)).not.toBe('');
+      expect(mockReminderRepository.runBatch).not.toHaveBeenCalled();
+    });
+
+    it('applies the patch in one batch once confirmed', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue(matches);
+      const args = {
+        action: 'bulk-update' as const,
+        dueWithin: 'overdue' as const,
+        patch: { dueDate: '2025-01-02 09:00:00', addTags: ['moved'] },
+      };
+      const preview = await handleBulkUpdateReminders(args);
+      mockReminderRepository.runBatch.mockResolvedValue([
+        { index: 0, action: 'update', status: 'success' },
+        { index: 1, action: 'update', status: 'success' },
+      ]);
+
+      const result = await handleBulkUpdateReminders({
+        ...args,
+        confirm: true,
+        previewToken: previewToken(_getTextContent(preview.content)),
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.runBatch).toHaveBeenCalledWith(
+        [
+          {
+            action: 'update',
+            data: expect.objectContaining({
+              id: 'g1',
+              dueDate: '2025-01-02 09:00:00',
+              addTags: ['moved'],
+            }),
+          },
+          {
+            action: 'update',
+            data: expect.objectContaining({ id: 'g2' }),
+          },
+        ],
+        false,
+      );
+      expect(content).toContain('Updated: 2, failed: 0');
+    });
+
+    it('accepts a relative dueDate confirmed in a later minute', async () => {
+      jest.useFakeTimers().setSystemTime(new Date(2025, 2, 10, 10, 59, 50));
+      mockReminderRepository.findReminders.mockResolvedValue(matches);
+      const args = {
+        action: 'bulk-update' as const,
+        filterList: 'Groceries',
+        patch: { dueDate: 'in 2 hours' },
+      };
+      const preview = await handleBulkUpdateReminders(args);
+      jest.setSystemTime(new Date(2025, 2, 10, 11, 0, 10));
+      mockReminderRepository.runBatch.mockResolvedValue([
+        { index: 0, action: 'update', status: 'success' },
+        { index: 1, action: 'update', status: 'success' },
+      ]);
+
+      const result = await handleBulkUpdateReminders({
+        ...args,
+        confirm: true,
+        previewToken: previewToken(_getTextContent(preview.content)),
+      });
+      jest.useRealTimers();
+
+      expect(result.isError).toBeFalsy();
+      expect(mockReminderRepository.runBatch).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a confirmation whose matches changed since the preview', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue(matches);
+      const args = {
+        action: 'bulk-update' as const,
+        filterList: 'Groceries',
+        patch: { completed: true },
+      };
+      const preview = await handleBulkUpdateReminders(args);
+      mockReminderRepository.findReminders.mockResolvedValue([matches[0]]);
+
+      const result = await handleBulkUpdateReminders({
+        ...args,
+        confirm: true,
+        previewToken: previewToken(_getTextContent(preview.content)),
+      });
+
+      expect(result.isError).toBe(true);
+      expect(_getTextContent(result.content)).toContain('Preview again');
+      expect(mockReminderRepository.runBatch).not.toHaveBeenCalled();
+    });
+
+    it('refuses to touch more reminders than the cap', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue(
+        Array.from({ length: 51 }, (_, index) => ({
+          id: `r${index}`,
+          title: `Task ${index}`,
+          isCompleted: false,
+          list: 'Work',
+        })),
+      );
+
+      const result = await handleBulkUpdateReminders({
+        action: 'bulk-update',
+        filterList: 'Work',
+        patch: { priority: 'low' },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(_getTextContent(result.content)).toContain(
+        'matches 51 reminders, more than the limit of 50',
+      );
+    });
+
+    it('requires a previewToken to confirm', async () => {
+      const result = await handleBulkUpdateReminders({
+        action: 'bulk-update',
+        patch: { completed: true },
+        confirm: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(mockReminderRepository.findReminders).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleFindDuplicateReminders', () => {
+    const reminders = [
+      {
+        id: 'r2',
+        title: 'call dentist!',
+        isCompleted: false,
+        list: 'Personal',
+        notes: 'Ask about X',
+        creationDate: '2025-03-05 10:00:00',
+      },
+      {
+        id: 'r1',
+        title: 'Call dentist',
+        isCompleted: false,
+        list: 'Personal',
+        notes: 'Bring card',
+        creationDate: '2025-03-01 10:00:00',
+      },
+      { id: 'r3', title: 'Buy milk', isCompleted: false, list: 'Personal' },
+    ];
+    const previewToken = (content: string): string =>
+      content.match(/previewToken: "([0-9a-f]+)"/)?.[1] ?? '';
+
+    it('lists duplicate groups without changing anything', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue(reminders);
+
+      const result = await handleFindDuplicateReminders({
+        action: 'find-duplicates',
+        filterList: 'Personal',
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.findReminders).toHaveBeenCalledWith(
+        expect.objectContaining({ list: 'Personal', showCompleted: false }),
+      );
+      expect(content).toContain('### Duplicate Reminders (Total: 1)');
+      expect(content).toContain('- "Call dentist" in Personal (2 reminders)');
+      expect(content).toContain('  - Keep: [ ] Call dentist (ID: r1)');
+      expect(content).toContain('  - Merge: [ ] call dentist! (ID: r2)');
+      expect(previewToken(content)).not.toBe('');
+      expect(result.structuredContent).toMatchObject({
+        total: 1,
+        duplicates: 1,
+      });
+      expect(mockReminderRepository.runBatch).not.toHaveBeenCalled();
+    });
+
+    it('keeps the first reminder with combined notes and trashes the rest', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue(reminders);
+      mockReminderRepository.findAllLists.mockResolvedValue([
+        { id: 'l1', title: 'Personal' },
+      ]);
+      const preview = await handleFindDuplicateReminders({
+        action: 'find-duplicates',
+      });
+      mockReminderRepository.runBatch.mockResolvedValue([
+        { index: 0, action: 'update', status: 'success' },
+        { index: 1, action: 'update', status: 'success' },
+      ]);
+
+      const result = await handleFindDuplicateReminders({
+        action: 'find-duplicates',
+        merge: true,
+        previewToken: previewToken(_getTextContent(preview.content)),
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.createReminderList).toHaveBeenCalledWith(
+        'Trash',
+      );
+      expect(mockReminderRepository.runBatch).toHaveBeenCalledWith(
+        [
+          {
+            action: 'update',
+            data: { id: 'r1', notes: 'Bring card\n\nAsk about X' },
+          },
+          {
+            action: 'update',
+            data: {
+              id: 'r2',
+              list: 'Trash',
+              addTags: [
+                'trashed-from-personal',
+                expect.stringMatching(/^trashed-on-\d{4}-\d{2}-\d{2}$/),
+              ],
+            },
+          },
+        ],
+        true,
+      );
+      expect(mockReminderRepository.deleteReminder).not.toHaveBeenCalled();
+      expect(content).toContain('- 2. delete succeeded');
+      expect(content).toContain(
+        'Groups: 1, succeeded: 2, failed: 0, skipped: 0',
+      );
+    });
+
+    it('deletes the duplicates for good with permanent', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue(reminders);
+      const preview = await handleFindDuplicateReminders({
+        action: 'find-duplicates',
+      });
+      mockReminderRepository.runBatch.mockResolvedValue([
+        { index: 0, action: 'update', status: 'success' },
+        { index: 1, action: 'delete', status: 'success', deletedId: 'r2' },
+      ]);
+
+      await handleFindDuplicateReminders({
+        action: 'find-duplicates',
+        merge: true,
+        permanent: true,
+        previewToken: previewToken(_getTextContent(preview.content)),
+      });
+
+      expect(mockReminderRepository.createReminderList).not.toHaveBeenCalled();
+      expect(mockReminderRepository.runBatch).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ action: 'update' }),
+          { action: 'delete', id: 'r2' },
+        ],
+        true,
+      );
+    });
+
+    it('rejects a merge whose duplicates changed since they were listed', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue(reminders);
+      const preview = await handleFindDuplicateReminders({
+        action: 'find-duplicates',
+      });
+      mockReminderRepository.findReminders.mockResolvedValue([
+        ...reminders,
+        {
+          id: 'r4',
+          title: 'Call dentist',
+          isCompleted: false,
+          list: 'Personal',
+        },
+      ]);
+
+      const result = await handleFindDuplicateReminders({
+        action: 'find-duplicates',
+        merge: true,
+        previewToken: previewToken(_getTextContent(preview.content)),
+      });
+
+      expect(result.isError).toBe(true);
+      expect(_getTextContent(result.content)).toContain(
+        'Run it again to get a new previewToken',
+      );
+      expect(mockReminderRepository.runBatch).not.toHaveBeenCalled();
+    });
+
+    it('requires a previewToken to merge', async () => {
+      const result = await handleFindDuplicateReminders({
+        action: 'find-duplicates',
+        merge: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(mockReminderRepository.findReminders).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleDeleteReminder', () => {
+    it('should return a Markdown success message', async () => {
+      mockReminderRepository.deleteReminder.mockResolvedValue(undefined);
+      const result = await handleDeleteReminder({
+        action: 'delete',
+        id: 'rem-789',
+        permanent: true,
+      });
+      const content = _getTextContent(result.content);
+      expect(content).toBe('Successfully deleted reminder with ID: rem-789');
+    });
+  });
+
+  describe('trash', () => {
+    const reminder = {
+      id: 'r1',
+      title: 'Call dentist',
+      isCompleted: false,
+      list: 'Work Projects',
+      tags: ['health'],
+    };
+    const trashed = {
+      ...reminder,
+      list: 'Trash',
+      tags: ['health', 'trashed-from-work-projects', 'trashed-on-2025-03-10'],
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date(2025, 2, 10, 12));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('moves a deleted reminder to the trash, creating the list if needed', async () => {
+      mockReminderRepository.findReminderById.mockResolvedValue(reminder);
+      mockReminderRepository.findAllLists.mockResolvedValue([
+        { id: 'l1', title: 'Work Projects' },
+      ]);
+      mockReminderRepository.updateReminder.mockResolvedValue(trashed);
+
+      const result = await handleDeleteReminder({ action: 'delete', id: 'r1' });
+
+      expect(mockReminderRepository.deleteReminder).not.toHaveBeenCalled();
+      expect(mockReminderRepository.createReminderList).toHaveBeenCalledWith(
+        'Trash',
+      );
+      expect(mockReminderRepository.updateReminder).toHaveBeenCalledWith({
+        id: 'r1',
+        list: 'Trash',
+        addTags: ['trashed-from-work-projects', 'trashed-on-2025-03-10'],
+      });
+      expect(_getTextContent(result.content)).toContain(
+        'Moved reminder "Call dentist" to Trash.',
+      );
+    });
+
+    it('moves batch deletes to the trash unless they are permanent', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue([reminder]);
+      mockReminderRepository.findAllLists.mockResolvedValue([
+        { id: 'l2', title: 'Trash' },
+      ]);
+      mockReminderRepository.runBatch.mockResolvedValue([
+        { index: 0, action: 'update', status: 'success', reminder: trashed },
+        { index: 1, action: 'delete', status: 'success', deletedId: 'r9' },
+      ]);
+
+      const result = await handleBatchReminders({
+        action: 'batch',
+        operations: [
+          { action: 'delete', id: 'r1' },
+          { action: 'delete', id: 'r9', permanent: true },
+          { action: 'delete', id: 'gone' },
+        ],
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.findReminders).toHaveBeenCalledWith({
+        showCompleted: true,
+      });
+      expect(mockReminderRepository.createReminderList).not.toHaveBeenCalled();
+      expect(mockReminderRepository.runBatch).toHaveBeenCalledWith(
+        [
+          {
+            action: 'update',
+            data: {
+              id: 'r1',
+              list: 'Trash',
+              addTags: ['trashed-from-work-projects', 'trashed-on-2025-03-10'],
+            },
+          },
+          { action: 'delete', id: 'r9' },
+        ],
+        false,
+      );
+      expect(content).toContain(
+        '- 1. delete succeeded: "Call dentist" (ID: r1)',
+      );
+      expect(content).toContain(
+        "- 3. delete failed: Reminder with ID 'gone' not found or already in the Trash list.",
+      );
+    });
+
+    it('refuses to trash a reminder twice', async () => {
+      mockReminderRepository.findReminderById.mockResolvedValue(trashed);
+
+      const result = await handleDeleteReminder({ action: 'delete', id: 'r1' });
+
+      expect(result.isError).toBe(true);
+      expect(_getTextContent(result.content)).toContain('permanent: true');
+      expect(mockReminderRepository.updateReminder).not.toHaveBeenCalled();
+    });
+
+    it('restores a reminder to the list it was deleted from', async () => {
+      mockReminderRepository.findReminderById.mockResolvedValue(trashed);
+      mockReminderRepository.findAllLists.mockResolvedValue([
+        { id: 'l1', title: 'Work Projects' },
+        { id: 'l2', title: 'Trash' },
+      ]);
+      mockReminderRepository.updateReminder.mockResolvedValue(reminder);
+
+      const result = await handleRestoreReminder({
+        action: 'restore',
+        id: 'r1',
+      });
+
+      expect(mockReminderRepository.updateReminder).toHaveBeenCalledWith({
+        id: 'r1',
+        list: 'Work Projects',
+        removeTags: ['trashed-from-work-projects', 'trashed-on-2025-03-10'],
+      });
+      expect(_getTextContent(result.content)).toContain(
+        'Restored reminder "Call dentist" to Work Projects.',
+      );
+    });
+
+    it('clears the trash tags of a reminder with no notes or other tags', async () => {
+      const onlyTrashTags = {
+        ...trashed,
+        notes: undefined,
+        tags: ['trashed-from-work-projects', 'trashed-on-2025-03-10'],
+      };
+      mockReminderRepository.findReminderById.mockResolvedValue(onlyTrashTags);
+      mockReminderRepository.findAllLists.mockResolvedValue([
+        { id: 'l1', title: 'Work Projects' },
+      ]);
+      mockReminderRepository.updateReminder.mockResolvedValue({
+        ...reminder,
+        list: 'Work Projects',
+        tags: [],
+      });
+
+      const preview = await handleRestoreReminder({
+        action: 'restore',
+        id: 'r1',
+        dryRun: true,
+      });
+      await handleRestoreReminder({ action: 'restore', id: 'r1' });
+
+      expect(preview.structuredContent).toMatchObject({
+        changes: expect.arrayContaining([
+          { field: 'tags', before: onlyTrashTags.tags, after: [] },
+        ]),
+      });
+      expect(mockReminderRepository.updateReminder).toHaveBeenCalledTimes(1);
+      expect(mockReminderRepository.updateReminder).toHaveBeenCalledWith({
+        id: 'r1',
+        list: 'Work Projects',
+        removeTags: onlyTrashTags.tags,
+      });
+    });
+
+    it('refuses to restore a reminder delete did not trash', async () => {
+      mockReminderRepository.findReminderById.mockResolvedValue({
+        ...reminder,
+        list: 'Trash',
+      });
+
+      const result = await handleRestoreReminder({
+        action: 'restore',
+        id: 'r1',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(mockReminderRepository.updateReminder).not.toHaveBeenCalled();
+    });
+
+    it('asks for a targetList when the original list is gone', async () => {
+      mockReminderRepository.findReminderById.mockResolvedValue(trashed);
+      mockReminderRepository.findAllLists.mockResolvedValue([
+        { id: 'l2', title: 'Trash' },
+      ]);
+
+      const result = await handleRestoreReminder({
+        action: 'restore',
+        id: 'r1',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(_getTextContent(result.content)).toContain('targetList');
+      expect(mockReminderRepository.updateReminder).not.toHaveBeenCalled();
+    });
+
+    it('purges only reminders trashed at least olderThanDays ago', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue([
+        trashed,
+        {
+          ...trashed,
+          id: 'r2',
+          title: 'Old task',
+          tags: ['trashed-from-work-projects', 'trashed-on-2025-02-01'],
+        },
+        // Filed in a user-made "Trash" list, not deleted
+        { ...reminder, id: 'r3', list: 'Trash', tags: [] },
+      ]);
+      mockReminderRepository.runBatch.mockResolvedValue([
+        { index: 0, action: 'delete', status: 'success', deletedId: 'r2' },
+      ]);
+
+      const result = await handlePurgeTrash({
+        action: 'purge-trash',
+        olderThanDays: 7,
+      });
+
+      expect(mockReminderRepository.findReminders).toHaveBeenCalledWith({
+        list: 'Trash',
+        showCompleted: true,
+      });
+      expect(mockReminderRepository.runBatch).toHaveBeenCalledWith(
+        [{ action: 'delete', id: 'r2' }],
+        false,
+      );
+      expect(_getTextContent(result.content)).toContain('Purged: 1, failed: 0');
+    });
+
+    it('reports when nothing is old enough to purge', async () => {
+      mockReminderRepository.findReminders.mockResolvedValue([trashed]);
+
+      const result = await handlePurgeTrash({ action: 'purge-trash' });
+
+      expect(mockReminderRepository.runBatch).not.toHaveBeenCalled();
+      expect(_getTextContent(result.content)).toBe(
+        'No reminders in Trash are 30 or more days old. Nothing was changed.',
+      );
+    });
+  });
+
+  // --- List Handlers ---
+
+  describe('handleReadReminderLists', () => {
+    it('should return lists formatted as Markdown', async () => {
+      const mockLists = [{ id: 'list-1', title: 'Inbox' }];
+      mockReminderRepository.findAllLists.mockResolvedValue(mockLists);
+      const result = await handleReadReminderLists();
+      const content = _getTextContent(result.content);
+      expect(content).toContain('### Reminder Lists (Total: 1)');
+      expect(content).toContain('- Inbox (ID: list-1)');
+    });
+
+    it('should return empty list message when no lists found', async () => {
+      mockReminderRepository.findAllLists.mockResolvedValue([]);
+      const result = await handleReadReminderLists();
+      const content = _getTextContent(result.content);
+      expect(content).toContain('### Reminder Lists (Total: 0)');
+      expect(content).toContain('No reminder lists found.');
+    });
+  });
+
+  describe('handleCreateReminderList', () => {
+    it('should return a Markdown success message with ID', async () => {
+      const newList = { id: 'list-abc', title: 'New List' };
+      mockReminderRepository.createReminderList.mockResolvedValue(newList);
+      const result = await handleCreateReminderList({
+        action: 'create',
+        name: 'New List',
+      });
+      const content = _getTextContent(result.content);
+      expect(content).toContain('Successfully created list "New List"');
+      expect(content).toContain('- ID: list-abc');
+    });
+  });
+
+  describe('handleUpdateReminderList', () => {
+    it('should return a Markdown success message with ID', async () => {
+      const updatedList = { id: 'list-def', title: 'Updated Name' };
+      mockReminderRepository.updateReminderList.mockResolvedValue(updatedList);
+      const result = await handleUpdateReminderList({
+        action: 'update',
+        name: 'Old Name',
+        newName: 'Updated Name',
+      });
+      const content = _getTextContent(result.content);
+      expect(content).toContain('Successfully updated list to "Updated Name"');
+      expect(content).toContain('- ID: list-def');
+    });
+  });
+
+  describe('handleDeleteReminderList', () => {
+    it('should return a Markdown success message', async () => {
+      mockReminderRepository.deleteReminderList.mockResolvedValue(undefined);
+      const result = await handleDeleteReminderList({
+        action: 'delete',
+        name: 'Old List',
+      });
+      const content = _getTextContent(result.content);
+      expect(content).toBe('Successfully deleted list "Old List".');
+    });
+  });
+
+  // --- Calendar Event Handlers ---
+
+  describe('handleCreateCalendarEvent', () => {
+    it('should return a success message with event ID', async () => {
+      const mockEvent = {
+        id: 'event-123',
+        title: 'New Event',
+        startDate: '2025-11-04T14:00:00+08:00',
+        endDate: '2025-11-04T16:00:00+08:00',
+        calendar: 'Work',
+        isAllDay: false,
+        isRecurring: false,
+        alarms: [],
+      };
+      mockCalendarRepository.findEvents.mockResolvedValue([]);
+      mockCalendarRepository.createEvent.mockResolvedValue(mockEvent);
+      const result = await handleCreateCalendarEvent({
+        action: 'create',
+        title: 'New Event',
+        startDate: '2025-11-04 14:00:00',
+        endDate: '2025-11-04 16:00:00',
+        targetCalendar: 'Work',
+      });
+      const content = _getTextContent(result.content);
+      expect(content).toContain('Successfully created event "New Event"');
+      expect(content).toContain('- ID: event-123');
+      expect(content).not.toContain('Warning');
+    });
+  });
+
+  describe('event conflicts', () => {
+    const standup = {
+      id: 'e1',
+      title: 'Standup',
+      calendar: 'Work',
+      startDate: '2025-03-10 10:00:00',
+      endDate: '2025-03-10 10:30:00',
+      isAllDay: false,
+    };
+    const created = {
+      id: 'new-1',
+      title: 'Review',
+      calendar: 'Work',
+      startDate: '2025-03-10 10:15:00',
+      endDate: '2025-03-10 11:00:00',
+      isAllDay: false,
+      isRecurring: false,
+      alarms: [],
+    };
+    const review = {
+      action: 'create' as const,
+      title: 'Review',
+      startDate: '2025-03-10 10:15:00',
+      endDate: '2025-03-10 11:00:00',
+    };
+
+    beforeEach(() => {
+      mockCalendarRepository.findEvents.mockResolvedValue([
+        standup,
+        {
+          ...standup,
+          id: 'e2',
+          title: 'Lunch',
+          startDate: '2025-03-10 11:00:00',
+          endDate: '2025-03-10 12:00:00',
+        },
+      ]);
+      mockCalendarRepository.createEvent.mockResolvedValue(created);
+      mockCalendarRepository.updateEvent.mockResolvedValue(created);
+    });
+
+    it('warns about overlapping events by default', async () => {
+      const result = await handleCreateCalendarEvent(review);
+      const content = _getTextContent(result.content);
+
+      expect(mockCalendarRepository.findEvents).toHaveBeenCalledWith({
+        startDate: '2025-03-10 10:15:00',
+        endDate: '2025-03-10 11:00:00',
+        excludeAvailability: ['free'],
+        excludeStatus: ['cancelled'],
+      });
+      expect(mockCalendarRepository.createEvent).toHaveBeenCalled();
+      expect(content).toContain('- Warning: overlaps 1 existing event:');
+      expect(content).toContain(
+        '  - Standup: 2025-03-10 10:00-10:30 (Work, ID: e1)',
+      );
+      expect(content).not.toContain('Lunch');
+    });
+
+    it('reads the new times in the time zone passed with them', async () => {
+      await handleCreateCalendarEvent({
+        ...review,
+        startDate: '2025-03-10 19:15:00',
+        endDate: '2025-03-10 20:00:00',
+        timeZone: 'Asia/Tokyo',
+      });
+
+      expect(mockCalendarRepository.findEvents).toHaveBeenCalledWith(
+        expect.objectContaining({
+          startDate: toLocalDateTimeString(new Date('2025-03-10T10:15:00Z')),
+          endDate: toLocalDateTimeString(new Date('2025-03-10T11:00:00Z')),
+        }),
+      );
+      expect(mockCalendarRepository.createEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          startDate: '2025-03-10 19:15:00',
+          timeZone: 'Asia/Tokyo',
+        }),
+      );
+    });
+
+    it('does not write when onConflict is reject', async () => {
+      const result = await handleCreateCalendarEvent({
+        ...review,
+        onConflict: 'reject',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(_getTextContent(result.content)).toContain(
+        'Event not saved: it overlaps 1 existing event:',
+      );
+      expect(mockCalendarRepository.createEvent).not.toHaveBeenCalled();
+    });
+
+    it('skips detection when onConflict is allow or the event is free', async () => {
+      await handleCreateCalendarEvent({ ...review, onConflict: 'allow' });
+      await handleCreateCalendarEvent({ ...review, availability: 'free' });
+
+      expect(mockCalendarRepository.findEvents).not.toHaveBeenCalled();
+      expect(mockCalendarRepository.createEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it('checks the moved time on update, ignoring the event itself', async () => {
+      mockCalendarRepository.findEventOccurrence.mockResolvedValue(standup);
+
+      const result = await handleUpdateCalendarEvent({
+        action: 'update',
+        id: 'e1',
+        endDate: '2025-03-10 11:30:00',
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockCalendarRepository.findEvents).toHaveBeenCalledWith(
+        expect.objectContaining({
+          startDate: '2025-03-10 10:00:00',
+          endDate: '2025-03-10 11:30:00',
+        }),
+      );
+      expect(content).toContain('- Warning: overlaps 1 existing event:');
+      expect(content).toContain('  - Lunch: 2025-03-10 11:00-12:00');
+      expect(content).not.toContain('Standup');
+    });
+
+    it('checks an update that makes a free event busy', async () => {
+      mockCalendarRepository.findEventOccurrence.mockResolvedValue({
+        ...standup,
+        id: 'e3',
+        startDate: '2025-03-10 11:30:00',
+        endDate: '2025-03-10 12:30:00',
+        availability: 'free',
+      });
+
+      const result = await handleUpdateCalendarEvent({
+        action: 'update',
+        id: 'e3',
+        availability: 'busy',
+        onConflict: 'reject',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(_getTextContent(result.content)).toContain('  - Lunch:');
+      expect(mockCalendarRepository.updateEvent).not.toHaveBeenCalled();
+    });
+
+    it('checks an update that turns an event into an all-day one', async () => {
+      mockCalendarRepository.findEventOccurrence.mockResolvedValue({
+        ...standup,
+        id: 'e3',
+        startDate: '2025-03-10 07:00:00',
+        endDate: '2025-03-10 08:00:00',
+        availability: 'busy',
+      });
+
+      const result = await handleUpdateCalendarEvent({
+        action: 'update',
+        id: 'e3',
+        isAllDay: true,
+      });
+
+      expect(mockCalendarRepository.findEvents).toHaveBeenCalledWith(
+        expect.objectContaining({ startDate: '2025-03-10 00:00:00' }),
+      );
+      expect(_getTextContent(result.content)).toContain(
+        '- Warning: overlaps 2 existing events:',
+      );
+    });
+
+    it('checks the window of the occurrence being updated', async () => {
+      mockCalendarRepository.findEventOccurrence.mockResolvedValue({
+        ...standup,
+        startDate: '2025-03-17 10:00:00',
+        endDate: '2025-03-17 10:30:00',
+        isRecurring: true,
+        occurrenceDate: '2025-03-17 10:00:00',
+      });
+
+      await handleUpdateCalendarEvent({
+        action: 'update',
+        id: 'e1',
+        endDate: '2025-03-17 11:30:00',
+        span: 'this-event',
+        occurrenceDate: '2025-03-17 10:00:00',
+      });
+
+      expect(mockCalendarRepository.findEventOccurrence).toHaveBeenCalledWith(
+        'e1',
+        { occurrenceDate: '2025-03-17 10:00:00' },
+      );
+      expect(mockCalendarRepository.findEvents).toHaveBeenCalledWith(
+        expect.objectContaining({
+          startDate: '2025-03-17 10:00:00',
+          endDate: '2025-03-17 11:30:00',
+        }),
+      );
+    });
 
-  describe('handleCreateCalendarEvent', () => {
-    it('should return a success message with event ID', async () => {
-      const mockEvent = {
-        id: 'event-123',
-        title: 'New Event',
-        startDate: '2025-11-04T14:00:00+08:00',
-        endDate: '2025-11-04T16:00:00+08:00',
-        calendar: 'Work',
-        notes: null,
-        location: null,
-        url: null,
-        isAllDay: false,
-      };
-      mockCalendarRepository.createEvent.mockResolvedValue(mockEvent);
-      const result = await handleCreateCalendarEvent({
-        action: 'create',
-        title: 'New Event',
-        startDate: '2025-11-04 14:00:00',
-        endDate: '2025-11-04 16:00:00',
-        targetCalendar: 'Work',
+    it('does not check updates that keep the time', async () => {
+      await handleUpdateCalendarEvent({
+        action: 'update',
+        id: 'e1',
+        title: 'Renamed',
+        onConflict: 'reject',
       });
-      const content = _getTextContent(result.content);
-      expect(content).toContain('Successfully created event "New Event"');
-      expect(content).toContain('- ID: event-123');
+
+      expect(mockCalendarRepository.findEvents).not.toHaveBeenCalled();
+      expect(mockCalendarRepository.updateEvent).toHaveBeenCalled();
     });
   });
 
@@ -304,10 +2058,9 @@ describe('Tool Handlers', () => {
         startDate: '2025-11-04T15:00:00+08:00',
         endDate: '2025-11-04T17:00:00+08:00',
         calendar: 'Work',
-        notes: null,
-        location: null,
-        url: null,
         isAllDay: false,
+        isRecurring: false,
+        alarms: [],
       };
       mockCalendarRepository.updateEvent.mockResolvedValue(mockEvent);
       const result = await handleUpdateCalendarEvent({
@@ -331,6 +2084,30 @@ describe('Tool Handlers', () => {
       const content = _getTextContent(result.content);
       expect(content).toBe('Successfully deleted event with ID "event-789".');
     });
+
+    it('forwards span and occurrence date for recurring events', async () => {
+      mockCalendarRepository.deleteEvent.mockResolvedValue(undefined);
+      await handleDeleteCalendarEvent({
+        action: 'delete',
+        id: 'event-789',
+        span: 'future-events',
+        occurrenceDate: '2025-11-11 09:00:00',
+      });
+      expect(mockCalendarRepository.deleteEvent).toHaveBeenCalledWith(
+        'event-789',
+        { span: 'future-events', occurrenceDate: '2025-11-11 09:00:00' },
+      );
+    });
+
+    it('rejects unknown spans', async () => {
+      const result = await handleDeleteCalendarEvent({
+        action: 'delete',
+        id: 'event-789',
+        span: 'all-events' as never,
+      });
+      expect(result.isError).toBe(true);
+      expect(mockCalendarRepository.deleteEvent).not.toHaveBeenCalled();
+    });
   });
 
   describe('formatDeleteMessage', () => {
@@ -396,6 +2173,21 @@ describe('Tool Handlers', () => {
     });
   });
 
+  describe('formatAlarm', () => {
+    it.each([
+      [{ relativeOffset: -30 }, '30 minutes before'],
+      [{ relativeOffset: -90 }, '1 hour 30 minutes before'],
+      [{ relativeOffset: -1440 }, '1 day before'],
+      [{ relativeOffset: 15 }, '15 minutes after'],
+      [{ relativeOffset: 0 }, 'at time of item'],
+      [{ date: '2025-11-04 09:00:00' }, 'at 2025-11-04 09:00:00'],
+    ])('formats %j as "%s"', (alarm, expected) => {
+      const { formatAlarm } = require('./handlers/shared.js');
+
+      expect(formatAlarm(alarm)).toBe(expected);
+    });
+  });
+
   describe('handleReadCalendarEvents', () => {
     it('formats event collections with optional metadata', async () => {
       const mockEvents = [
@@ -463,6 +2255,70 @@ describe('Tool Handlers', () => {
       expect(content).toContain('- URL: https://example.com');
     });
 
+    it('renders recurrence details for recurring occurrences', async () => {
+      mockCalendarRepository.findEvents.mockResolvedValue([
+        {
+          id: 'evt-r',
+          title: 'Standup',
+          calendar: 'Work',
+          startDate: '2025-11-11T09:00:00Z',
+          endDate: '2025-11-11T09:15:00Z',
+          isAllDay: false,
+          isRecurring: true,
+          recurrence: {
+            frequency: 'weekly',
+            byWeekday: ['monday', 'tuesday'],
+          },
+          occurrenceDate: '2025-11-11T09:00:00Z',
+        },
+      ]);
+
+      const result = await handleReadCalendarEvents({ action: 'read' });
+      const content = _getTextContent(result.content);
+
+      expect(content).toContain('- Repeats: Every week on Monday, Tuesday');
+      expect(content).toContain('- Occurrence: 2025-11-11T09:00:00Z');
+    });
+
+    it('renders event alarms and forwards alarm changes on update', async () => {
+      mockCalendarRepository.findEventById.mockResolvedValue({
+        id: 'evt-a',
+        title: 'Flight',
+        calendar: 'Travel',
+        startDate: '2025-11-15T08:00:00Z',
+        endDate: '2025-11-15T10:00:00Z',
+        isAllDay: false,
+        alarms: [{ relativeOffset: -120 }],
+      });
+
+      const result = await handleReadCalendarEvents({
+        action: 'read',
+        id: 'evt-a',
+      });
+      expect(_getTextContent(result.content)).toContain(
+        '- Alarms: 2 hours before',
+      );
+
+      mockCalendarRepository.updateEvent.mockResolvedValue({
+        id: 'evt-a',
+        title: 'Flight',
+        calendar: 'Travel',
+        startDate: '2025-11-15T08:00:00Z',
+        endDate: '2025-11-15T10:00:00Z',
+        isAllDay: false,
+        isRecurring: false,
+        alarms: [{ relativeOffset: -120 }, { relativeOffset: -15 }],
+      });
+      await handleUpdateCalendarEvent({
+        action: 'update',
+        id: 'evt-a',
+        addAlarms: [{ relativeOffset: -15 }],
+      });
+      expect(mockCalendarRepository.updateEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ addAlarms: [{ relativeOffset: -15 }] }),
+      );
+    });
+
     it('should return empty message when no events found', async () => {
       mockCalendarRepository.findEvents.mockResolvedValue([]);
       const result = await handleReadCalendarEvents({ action: 'read' });
@@ -473,6 +2329,668 @@ describe('Tool Handlers', () => {
     });
   });
 
+  describe('handleFindDuplicateEvents', () => {
+    const event = {
+      id: 'e1',
+      title: 'Team sync',
+      calendar: 'Work',
+      startDate: '2025-03-10 10:00:00',
+      endDate: '2025-03-10 11:00:00',
+      isAllDay: false,
+    };
+    const previewToken = (content: string): string =>
+      content.match(/previewToken: "([0-9a-f]+)"/)?.[1] ?? '';
+
+    it('groups duplicates and skips recurring events', async () => {
+      mockCalendarRepository.findEvents.mockResolvedValue([
+        event,
+        { ...event, id: 'e2', title: 'Team Sync', notes: 'Agenda link' },
+        { ...event, id: 'e3', isRecurring: true },
+      ]);
+
+      const result = await handleFindDuplicateEvents({
+        action: 'find-duplicates',
+        filterCalendar: 'Work',
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockCalendarRepository.findEvents).toHaveBeenCalledWith(
+        expect.objectContaining({ calendarName: 'Work' }),
+      );
+      expect(content).toContain('### Duplicate Calendar Events (Total: 1)');
+      expect(content).toContain('- "Team sync" in Work (2 events)');
+      expect(content).toContain('  - Merge: Team Sync (ID: e2');
+      expect(content).not.toContain('e3');
+    });
+
+    it('saves combined notes before deleting duplicates', async () => {
+      mockCalendarRepository.findEvents.mockResolvedValue([
+        event,
+        { ...event, id: 'e2', notes: 'Agenda link' },
+      ]);
+      mockCalendarRepository.updateEvent.mockResolvedValue({
+        ...event,
+        notes: 'Agenda link',
+      });
+      mockCalendarRepository.deleteEvent.mockResolvedValue(undefined);
+      const preview = await handleFindDuplicateEvents({
+        action: 'find-duplicates',
+      });
+
+      const result = await handleFindDuplicateEvents({
+        action: 'find-duplicates',
+        merge: true,
+        previewToken: previewToken(_getTextContent(preview.content)),
+      });
+
+      expect(mockCalendarRepository.updateEvent).toHaveBeenCalledWith({
+        id: 'e1',
+        notes: 'Agenda link',
+      });
+      expect(mockCalendarRepository.deleteEvent).toHaveBeenCalledWith('e2');
+      expect(_getTextContent(result.content)).toContain(
+        '- 2. delete succeeded: "Team sync" (ID: e2)',
+      );
+      expect(result.structuredContent).toMatchObject({
+        deletedIds: ['e2'],
+        succeeded: 2,
+      });
+    });
+
+    it('stops at the first failed step and reports the rest as skipped', async () => {
+      mockCalendarRepository.findEvents.mockResolvedValue([
+        event,
+        { ...event, id: 'e2', notes: 'Agenda link' },
+        { ...event, id: 'e3' },
+      ]);
+      mockCalendarRepository.updateEvent.mockResolvedValue(event);
+      mockCalendarRepository.deleteEvent.mockRejectedValueOnce(
+        new Error("Event with ID 'e2' not found."),
+      );
+      const preview = await handleFindDuplicateEvents({
+        action: 'find-duplicates',
+      });
+
+      const result = await handleFindDuplicateEvents({
+        action: 'find-duplicates',
+        merge: true,
+        previewToken: previewToken(_getTextContent(preview.content)),
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockCalendarRepository.deleteEvent).toHaveBeenCalledTimes(1);
+      expect(content).toContain('- 1. update succeeded: "Team sync" (ID: e1)');
+      expect(content).toContain(
+        `- 2. delete failed: "Team sync" (ID: e2): Event with ID 'e2' not found.`,
+      );
+      expect(content).toContain('- 3. delete skipped: "Team sync" (ID: e3)');
+      expect(content).toContain(
+        'Groups: 1, succeeded: 1, failed: 1, skipped: 1',
+      );
+      expect(result.structuredContent).toMatchObject({ deletedIds: [] });
+    });
+
+    it('reports when there is nothing to merge', async () => {
+      mockCalendarRepository.findEvents.mockResolvedValue([event]);
+
+      const result = await handleFindDuplicateEvents({
+        action: 'find-duplicates',
+      });
+
+      expect(_getTextContent(result.content)).toBe(
+        'No duplicate calendar events found. Nothing was changed.',
+      );
+    });
+  });
+
+  describe('dry run', () => {
+    const reminder = {
+      id: 'r1',
+      title: 'Call dentist',
+      isCompleted: false,
+      list: 'Personal',
+    };
+    const originalDryRun = process.env.DRY_RUN;
+
+    afterEach(() => {
+      if (originalDryRun === undefined) delete process.env.DRY_RUN;
+      else process.env.DRY_RUN = originalDryRun;
+    });
+
+    it('diffs a reminder update without saving it', async () => {
+      mockReminderRepository.findReminderById.mockResolvedValue(reminder);
+
+      const result = await handleUpdateReminder({
+        action: 'update',
+        id: 'r1',
+        title: 'Call the dentist',
+        completed: true,
+        dryRun: true,
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.updateReminder).not.toHaveBeenCalled();
+      expect(content).toContain(
+        'Would update reminder "Call dentist" (ID: r1):',
+      );
+      expect(content).toContain(
+        '- title: "Call dentist" -> "Call the dentist"',
+      );
+      expect(content).toContain('- isCompleted: false -> true');
+      expect(content).toContain('Dry run: nothing was changed.');
+      expect(result.structuredContent).toMatchObject({
+        dryRun: true,
+        reminder,
+      });
+    });
+
+    it('is forced on by the DRY_RUN setting', async () => {
+      process.env.DRY_RUN = 'true';
+      mockReminderRepository.findReminderById.mockResolvedValue(reminder);
+
+      const result = await handleDeleteReminder({
+        action: 'delete',
+        id: 'r1',
+        permanent: true,
+      });
+
+      expect(mockReminderRepository.deleteReminder).not.toHaveBeenCalled();
+      expect(_getTextContent(result.content)).toContain(
+        '- title: "Call dentist" -> (none)',
+      );
+    });
+
+    it('plans each batch operation and skips the rest after a failure', async () => {
+      mockReminderRepository.findReminderById.mockRejectedValue(
+        new Error("Reminder with ID 'missing' not found."),
+      );
+
+      const result = await handleBatchReminders({
+        action: 'batch',
+        operations: [
+          { action: 'create', title: 'Buy milk' },
+          { action: 'update', id: 'missing', completed: true },
+          { action: 'delete', id: 'r1', permanent: true },
+        ],
+        stopOnError: true,
+        dryRun: true,
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.runBatch).not.toHaveBeenCalled();
+      expect(content).toContain('### Dry Run: Batch (Total: 3)');
+      expect(content).toContain('- 1. create\n  - title: (none) -> "Buy milk"');
+      expect(content).toContain(
+        "- 2. update would fail: Reminder with ID 'missing' not found.",
+      );
+      expect(content).toContain('- 3. delete skipped');
+      expect(content).toContain('Would succeed: 1, fail: 1, skipped: 1');
+    });
+
+    it('shows the URL the CLI appends to the notes and checks the list', async () => {
+      mockReminderRepository.findAllLists.mockResolvedValue([
+        { id: 'l1', title: 'Personal' },
+      ]);
+
+      const result = await handleCreateReminder({
+        action: 'create',
+        title: 'Read article',
+        targetList: 'Personal',
+        url: 'https://example.com',
+        dryRun: true,
+      });
+      const missing = await handleCreateReminder({
+        action: 'create',
+        title: 'Read article',
+        targetList: 'Nope',
+        dryRun: true,
+      });
+
+      expect(mockReminderRepository.createReminder).not.toHaveBeenCalled();
+      expect(_getTextContent(result.content)).toContain(
+        '- notes: (none) -> "URLs:\\n- https://example.com"',
+      );
+      expect(_getTextContent(missing.content)).toContain(
+        "List 'Nope' not found.",
+      );
+    });
+
+    it('checks the calendar of an event create', async () => {
+      mockCalendarRepository.findAllCalendars.mockResolvedValue([
+        { id: 'c1', title: 'Work' },
+      ]);
+
+      const result = await handleCreateCalendarEvent({
+        action: 'create',
+        title: 'Standup',
+        startDate: '2025-03-10 10:00:00',
+        endDate: '2025-03-10 10:30:00',
+        targetCalendar: 'Nope',
+        dryRun: true,
+      });
+
+      expect(mockCalendarRepository.createEvent).not.toHaveBeenCalled();
+      expect(_getTextContent(result.content)).toContain(
+        "Calendar 'Nope' not found.",
+      );
+    });
+
+    it('diffs every reminder a bulk update matches', async () => {
+      mockReminderRepository.findAllLists.mockResolvedValue([
+        { id: 'l2', title: 'Home' },
+      ]);
+      mockReminderRepository.findReminders.mockResolvedValue([
+        reminder,
+        { ...reminder, id: 'r2', title: 'Pay rent', list: 'Home' },
+      ]);
+
+      const result = await handleBulkUpdateReminders({
+        action: 'bulk-update',
+        patch: { targetList: 'Home' },
+        dryRun: true,
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.runBatch).not.toHaveBeenCalled();
+      expect(content).toContain(
+        '- 1. update "Call dentist" (ID: r1)\n  - list: "Personal" -> "Home"\n- 2. update "Pay rent" (ID: r2)\n\n',
+      );
+    });
+
+    it('counts the reminders deleted with a list', async () => {
+      mockReminderRepository.findAllLists.mockResolvedValue([
+        { id: 'l1', title: 'Errands' },
+      ]);
+      mockReminderRepository.findReminders.mockResolvedValue([reminder]);
+
+      const result = await handleDeleteReminderList({
+        action: 'delete',
+        name: 'Errands',
+        dryRun: true,
+      });
+      const missing = await handleDeleteReminderList({
+        action: 'delete',
+        name: 'Nope',
+        dryRun: true,
+      });
+
+      expect(mockReminderRepository.deleteReminderList).not.toHaveBeenCalled();
+      expect(mockReminderRepository.findReminders).toHaveBeenCalledWith({
+        list: 'Errands',
+        showCompleted: true,
+      });
+      expect(_getTextContent(result.content)).toContain(
+        '- Reminders deleted with the list: 1',
+      );
+      expect(_getTextContent(missing.content)).toBe(
+        'Reminder list "Nope" not found.',
+      );
+    });
+
+    it('previews the occurrence a delete would remove', async () => {
+      mockCalendarRepository.findEventOccurrence.mockResolvedValue({
+        id: 'e1',
+        title: 'Standup',
+        calendar: 'Work',
+        startDate: '2025-03-17 10:00:00',
+        endDate: '2025-03-17 10:30:00',
+        isAllDay: false,
+        isRecurring: true,
+      });
+
+      const result = await handleDeleteCalendarEvent({
+        action: 'delete',
+        id: 'e1',
+        span: 'this-event',
+        occurrenceDate: '2025-03-17 10:00:00',
+        dryRun: true,
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockCalendarRepository.findEventOccurrence).toHaveBeenCalledWith(
+        'e1',
+        { span: 'this-event', occurrenceDate: '2025-03-17 10:00:00' },
+      );
+      expect(mockCalendarRepository.findEventById).not.toHaveBeenCalled();
+      expect(mockCalendarRepository.deleteEvent).not.toHaveBeenCalled();
+      expect(content).toContain('- startDate: "2025-03-17 10:00:00" -> (none)');
+    });
+
+    it('diffs an event occurrence update without saving it', async () => {
+      mockCalendarRepository.findEventOccurrence.mockResolvedValue({
+        id: 'e1',
+        title: 'Standup',
+        calendar: 'Work',
+        startDate: '2025-03-10 10:00:00',
+        endDate: '2025-03-10 10:30:00',
+        isAllDay: false,
+        isRecurring: true,
+      });
+
+      const result = await handleUpdateCalendarEvent({
+        action: 'update',
+        id: 'e1',
+        location: 'Room 4',
+        span: 'future-events',
+        occurrenceDate: '2025-03-10 10:00:00',
+        onConflict: 'allow',
+        dryRun: true,
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockCalendarRepository.findEventOccurrence).toHaveBeenCalledWith(
+        'e1',
+        { occurrenceDate: '2025-03-10 10:00:00' },
+      );
+      expect(mockCalendarRepository.updateEvent).not.toHaveBeenCalled();
+      expect(content).toContain('- location: (none) -> "Room 4"');
+      expect(content).toContain(
+        '- Occurrence: 2025-03-10 10:00:00 and all following',
+      );
+    });
+  });
+
+  describe('undo', () => {
+    const reminder = {
+      id: 'r1',
+      title: 'Call dentist',
+      isCompleted: false,
+      list: 'Personal',
+    };
+    const entries = [
+      {
+        id: 'aaaa0001',
+        timestamp: '2025-03-10T09:00:00.000Z',
+        type: 'reminder' as const,
+        action: 'create' as const,
+        itemId: 'r2',
+        title: 'Buy milk',
+      },
+      {
+        id: 'aaaa0002',
+        timestamp: '2025-03-10T09:05:00.000Z',
+        type: 'reminder' as const,
+        action: 'delete' as const,
+        itemId: 'r1',
+        title: 'Call dentist',
+        before: reminder,
+      },
+    ];
+
+    beforeEach(() => {
+      mockUndoJournal.isEnabled.mockReturnValue(true);
+      mockUndoJournal.readEntries.mockReturnValue(entries);
+    });
+
+    it('lists journaled operations newest first', async () => {
+      const result = await handleReadUndoJournal({ action: 'read', limit: 1 });
+      const content = _getTextContent(result.content);
+
+      expect(content).toContain('### Undo Journal (Total: 2, Returned: 1)');
+      expect(content).toContain(
+        '- aaaa0002 2025-03-10T09:05:00.000Z: deleted reminder "Call dentist" (ID: r1)',
+      );
+      expect(content).not.toContain('aaaa0001');
+      expect(result.structuredContent).toMatchObject({ returned: 1, total: 2 });
+    });
+
+    it('reverts the most recent operations, recreating deleted items', async () => {
+      mockReminderRepository.recreateReminder.mockResolvedValue({
+        ...reminder,
+        id: 'r9',
+      });
+      mockReminderRepository.discardReminder.mockResolvedValue(undefined);
+
+      const result = await handleRevertOperations({
+        action: 'revert',
+        count: 2,
+      });
+      const content = _getTextContent(result.content);
+
+      expect(mockReminderRepository.recreateReminder).toHaveBeenCalledWith(
+        reminder,
+      );
+      expect(mockReminderRepository.discardReminder).toHaveBeenCalledWith('r2');
+      expect(mockUndoJournal.markUndone).toHaveBeenNthCalledWith(
+        1,
+        'aaaa0002',
+        'r9',
+      );
+      expect(mockUndoJournal.markUndone).toHaveBeenNthCalledWith(
+        2,
+        'aaaa0001',
+        undefined,
+      );
+      expect(content).toContain(
+        '- aaaa0002: deleted reminder "Call dentist" (ID: r1) - restored as ID r9',
+      );
+      expect(content).toContain('Reverted: 2, failed: 0, skipped: 0');
+    });
+
+    it('skips older operations after a failure', async () => {
+      mockReminderRepository.recreateReminder.mockRejectedValue(
+        new Error('List not found'),
+      );
+
+      const result = await handleRevertOperations({
+        action: 'revert',
+        count: 2,
+      });
+
+      expect(mockReminderRepository.discardReminder).not.toHaveBeenCalled();
+      expect(mockUndoJournal.markUndone).not.toHaveBeenCalled();
+      expect(_getTextContent(result.content)).toContain(
+        'Reverted: 0, failed: 1, skipped: 1',
+      );
+    });
+
+    it('reverts a single operation by ID and rejects unknown IDs', async () => {
+      mockReminderRepository.discardReminder.mockResolvedValue(undefined);
+
+      await handleRevertOperations({
+        action: 'revert',
+        operationId: 'aaaa0001',
+      });
+      const missing = await handleRevertOperations({
+        action: 'revert',
+        operationId: 'ffffffff',
+      });
+
+      expect(mockReminderRepository.discardReminder).toHaveBeenCalledTimes(1);
+      expect(mockReminderRepository.recreateReminder).not.toHaveBeenCalled();
+      expect(missing.isError).toBe(true);
+      expect(_getTextContent(missing.content)).toContain(
+        "No journaled operation with ID 'ffffffff'.",
+      );
+    });
+
+    it('refuses to overwrite changes made after the operation', async () => {
+      const update = {
+        id: 'aaaa0003',
+        timestamp: '2025-03-10T09:10:00.000Z',
+        type: 'reminder' as const,
+        action: 'update' as const,
+        itemId: 'r1',
+        title: 'Call dentist',
+        before: reminder,
+        after: { ...reminder, isCompleted: true },
+      };
+      mockUndoJournal.readEntries.mockReturnValue([update]);
+      mockReminderRepository.findRemindersByIds.mockResolvedValueOnce([
+        { ...reminder, isCompleted: true, title: 'Call the dentist' },
+      ]);
+
+      const changed = await handleRevertOperations({ action: 'revert' });
+
+      expect(mockReminderRepository.findRemindersByIds).toHaveBeenCalledWith([
+        'r1',
+      ]);
+      expect(mockReminderRepository.restoreReminder).not.toHaveBeenCalled();
+      expect(_getTextContent(changed.content)).toContain(
+        'Operation aaaa0003 cannot be undone: the reminder has changed since (title).',
+      );
+
+      mockReminderRepository.findRemindersByIds.mockResolvedValueOnce([
+        { ...reminder, isCompleted: true, lastModifiedDate: '2025-03-10' },
+      ]);
+      await handleRevertOperations({ action: 'revert' });
+
+      expect(mockReminderRepository.restoreReminder).toHaveBeenCalledWith(
+        'r1',
+        reminder,
+      );
+    });
+
+    it('says when a subtask comes back without its deleted parent', async () => {
+      mockUndoJournal.readEntries.mockReturnValue([
+        { ...entries[1], before: { ...reminder, parentId: 'p1' } },
+      ]);
+      mockReminderRepository.recreateReminder.mockResolvedValue({
+        ...reminder,
+        id: 'r9',
+      });
+
+      const result = await handleRevertOperations({ action: 'revert' });
+
+      expect(_getTextContent(result.content)).toContain(
+        '- aaaa0002: deleted reminder "Call dentist" (ID: r1) - restored as ID r9 (parent reminder p1 no longer exists, so it is no longer a subtask)',
+      );
+    });
+
+    it('deletes the whole series when undoing a recurring event create', async () => {
+      const created = {
+        id: 'e1',
+        title: 'Standup',
+        calendar: 'Work',
+        startDate: '2025-03-10 10:00:00',
+        endDate: '2025-03-10 10:30:00',
+        isAllDay: false,
+        isRecurring: true,
+      };
+      mockUndoJournal.readEntries.mockReturnValue([
+        {
+          id: 'aaaa0004',
+          timestamp: '2025-03-10T09:15:00.000Z',
+          type: 'event' as const,
+          action: 'create' as const,
+          itemId: 'e1',
+          title: 'Standup',
+          after: created,
+        },
+      ]);
+      mockCalendarRepository.findEventOccurrence.mockResolvedValueOnce(created);
+      mockCalendarRepository.discardEvent.mockResolvedValue(undefined);
+
+      await handleRevertOperations({ action: 'revert' });
+
+      expect(mockCalendarRepository.discardEvent).toHaveBeenCalledWith('e1', {
+        span: 'future-events',
+      });
+      expect(mockUndoJournal.markUndone).toHaveBeenCalledWith(
+        'aaaa0004',
+        undefined,
+      );
+    });
+
+    it('only lists what it would revert when DRY_RUN is set', async () => {
+      process.env.DRY_RUN = '1';
+      try {
+        const result = await handleRevertOperations({ action: 'revert' });
+
+        expect(mockReminderRepository.recreateReminder).not.toHaveBeenCalled();
+        expect(mockUndoJournal.markUndone).not.toHaveBeenCalled();
+        expect(_getTextContent(result.content)).toContain(
+          '- aaaa0002: would revert deleted reminder "Call dentist" (ID: r1)',
+        );
+      } finally {
+        delete process.env.DRY_RUN;
+      }
+    });
+
+    it('refuses to revert when the journal is disabled', async () => {
+      mockUndoJournal.isEnabled.mockReturnValue(false);
+
+      const result = await handleRevertOperations({ action: 'revert' });
+
+      expect(result.isError).toBe(true);
+      expect(_getTextContent(result.content)).toContain('UNDO_JOURNAL=off');
+    });
+  });
+
+  describe('audit log', () => {
+    const entries = [
+      {
+        timestamp: '2025-03-09T09:00:00.000Z',
+        tool: 'calendar_events',
+        action: 'delete',
+        arguments: { action: 'delete', id: 'e1' },
+        affectedIds: ['e1'],
+        outcome: 'success' as const,
+      },
+      {
+        timestamp: '2025-03-10T09:00:00.000Z',
+        tool: 'reminders_tasks',
+        action: 'update',
+        arguments: { action: 'update', id: 'r1' },
+        affectedIds: ['r1'],
+        outcome: 'error' as const,
+        error: "Reminder with ID 'r1' not found.",
+        client: 'test-client/1.0.0',
+      },
+      {
+        timestamp: '2025-03-11T09:00:00.000Z',
+        tool: 'reminders_tasks',
+        action: 'delete',
+        arguments: { action: 'delete', id: 'r2' },
+        affectedIds: ['r2'],
+        outcome: 'success' as const,
+      },
+    ];
+
+    beforeEach(() => {
+      mockAuditLog.isEnabled.mockReturnValue(true);
+      mockAuditLog.readEntries.mockReturnValue(entries);
+    });
+
+    afterEach(() => {
+      mockAuditLog.isEnabled.mockReset();
+      mockAuditLog.readEntries.mockReset();
+    });
+
+    it('lists entries newest first, filtered by tool and date', async () => {
+      const result = await handleReadAuditLog({
+        action: 'read',
+        tool: 'reminders.tasks',
+        endDate: '2025-03-10',
+      });
+      const content = _getTextContent(result.content);
+
+      expect(content).toContain('### Audit Log (Total: 1)');
+      expect(content).toContain(
+        "- 2025-03-10T09:00:00.000Z reminders_tasks update: error - Reminder with ID 'r1' not found. (IDs: r1) by test-client/1.0.0",
+      );
+      expect(content).not.toContain('r2');
+    });
+
+    it('finds the entries that affected an ID', async () => {
+      const result = await handleReadAuditLog({ action: 'read', id: 'e1' });
+
+      expect(result.structuredContent).toMatchObject({
+        entries: [entries[0]],
+        total: 1,
+      });
+    });
+
+    it('reports when the audit log is disabled', async () => {
+      mockAuditLog.isEnabled.mockReturnValue(false);
+
+      const result = await handleReadAuditLog({ action: 'read' });
+
+      expect(_getTextContent(result.content)).toContain('AUDIT_LOG=off');
+      expect(mockAuditLog.readEntries).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleReadCalendars', () => {
     it('should return calendars formatted as Markdown', async () => {
       const mockCalendars = [
@@ -0,0 +1,185 @@
+/**
+ * handlers/agendaHandlers.ts
+ * Handlers for the combined day/week agenda of events and reminders
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  AgendaToolArgs,
+  CalendarEvent,
+  Reminder,
+} from '../../types/index.js';
+import {
+  type AgendaDay,
+  type AgendaEntry,
+  type AgendaItem,
+  buildAgenda,
+} from '../../utils/agenda.js';
+import { calendarRepository } from '../../utils/calendarRepository.js';
+import { getDateStart, toLocalDateTimeString } from '../../utils/dateUtils.js';
+import { handleAsyncOperation } from '../../utils/errorHandling.js';
+import { parseReminderDueDate } from '../../utils/reminderDateParser.js';
+import { reminderRepository } from '../../utils/reminderRepository.js';
+import { ReadAgendaSchema } from '../../validation/schemas.js';
+import {
+  extractAndValidateArgs,
+  formatMinutes,
+  formatResolvedDates,
+} from './shared.js';
+
+const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Formats a date key with its weekday, e.g. "Monday, 2025-03-10"
+ */
+const formatDayHeading = (date: string): string => {
+  const day = parseReminderDueDate(date);
+  return day ? `${WEEKDAY_NAMES[day.getDay()]}, ${date}` : date;
+};
+
+const formatTime = (value: string): string => value.slice(11, 16);
+
+/**
+ * Formats an entry's time range; ranges crossing midnight keep both dates
+ */
+const formatRange = (start: string, end: string): string =>
+  start.slice(0, 10) === end.slice(0, 10)
+    ? `${formatTime(start)}-${formatTime(end)}`
+    : `${start.slice(0, 16)} - ${end.slice(0, 16)}`;
+
+const formatEventLabel = (event: CalendarEvent): string => {
+  const details = [event.calendar];
+  if (event.location) details.push(event.location);
+  return `[Event] ${event.title} (${details.join(', ')})`;
+};
+
+const formatReminderLabel = (reminder: Reminder): string =>
+  `[Reminder] ${reminder.isCompleted ? '[x]' : '[ ]'} ${reminder.title} (${reminder.list})`;
+
+const formatAllDayItem = (entry: AgendaItem): string =>
+  entry.type === 'event'
+    ? formatEventLabel(entry.item)
+    : formatReminderLabel(entry.item);
+
+const formatEntry = (entry: AgendaEntry): string => {
+  switch (entry.type) {
+    case 'event':
+      return `- ${formatRange(entry.start, entry.end)} ${formatEventLabel(entry.item)}`;
+    case 'reminder':
+      return `- ${formatTime(entry.start)} ${formatReminderLabel(entry.item)}`;
+    default:
+      return `- ${formatRange(entry.start, entry.end)} Free (${formatMinutes(entry.minutes)})`;
+  }
+};
+
+const formatAgendaDay = (day: AgendaDay): string[] => {
+  const lines = [`#### ${formatDayHeading(day.date)}`];
+  if (day.overdue.length) {
+    lines.push('- Overdue:');
+    for (const reminder of day.overdue) {
+      lines.push(
+        `  - ${formatReminderLabel(reminder)}, due ${reminder.dueDate}`,
+      );
+    }
+  }
+  if (day.allDay.length) {
+    lines.push('- All day:');
+    for (const item of day.allDay) lines.push(`  - ${formatAllDayItem(item)}`);
+  }
+  lines.push(...day.timeline.map(formatEntry));
+  if (lines.length === 1) lines.push('- Nothing scheduled.');
+  return lines;
+};
+
+export const handleReadAgenda = async (
+  args?: AgendaToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const validatedArgs = extractAndValidateArgs(args, ReadAgendaSchema);
+    const now = new Date();
+    const day = getDateStart(parseReminderDueDate(validatedArgs.date) ?? now);
+    // Weeks start on Monday, like the next-week due date preset
+    const start =
+      validatedArgs.period === 'week'
+        ? addDays(day, -((day.getDay() + 6) % 7))
+        : day;
+    const end = addDays(start, validatedArgs.period === 'week' ? 7 : 1);
+
+    const { calendars, lists } = validatedArgs;
+    const events = (
+      await calendarRepository.findEvents({
+        startDate: toLocalDateTimeString(start),
+        endDate: toLocalDateTimeString(end),
+        excludeStatus: ['cancelled'],
+      })
+    ).filter(
+      (event) => !calendars?.length || calendars.includes(event.calendar),
+    );
+    // Earlier reminders are needed for overdue carry-overs
+    const reminders = (
+      await reminderRepository.findReminders({
+        showCompleted: validatedArgs.showCompleted,
+        dueBefore: toLocalDateTimeString(end),
+      })
+    ).filter((reminder) => !lists?.length || lists.includes(reminder.list));
+
+    const days = buildAgenda(events, reminders, {
+      start,
+      end,
+      now,
+      workingHoursStart: validatedArgs.workingHoursStart,
+      workingHoursEnd: validatedArgs.workingHoursEnd,
+      minSlotMinutes: validatedArgs.minSlotMinutes,
+    });
+    const entries = days.flatMap((agendaDay) => [
+      ...agendaDay.allDay,
+      ...agendaDay.timeline,
+    ]);
+    const freeMinutes = entries.reduce(
+      (total, entry) => total + (entry.type === 'free' ? entry.minutes : 0),
+      0,
+    );
+    const reminderCount = entries.filter(
+      (entry) => entry.type === 'reminder',
+    ).length;
+    const overdueCount = days.reduce(
+      (total, agendaDay) => total + agendaDay.overdue.length,
+      0,
+    );
+    const lastDay = days[days.length - 1].date;
+    const title =
+      validatedArgs.period === 'week'
+        ? `### Agenda for ${days[0].date} to ${lastDay}`
+        : `### Agenda for ${formatDayHeading(lastDay)}`;
+
+    const markdown = [
+      title,
+      '',
+      `Events: ${events.length}, reminders: ${reminderCount}, overdue: ${overdueCount}, free time: ${freeMinutes > 0 ? formatMinutes(freeMinutes) : 'none'}`,
+      ...formatResolvedDates([
+        { label: 'Date', input: args?.date, resolved: validatedArgs.date },
+      ]),
+      ...days.flatMap((agendaDay) => ['', ...formatAgendaDay(agendaDay)]),
+    ].join('\n');
+    return {
+      markdown,
+      data: {
+        startDate: days[0].date,
+        endDate: lastDay,
+        freeMinutes,
+        days,
+      },
+    };
+  }, 'read agenda');
+};
@@ -0,0 +1,77 @@
+/**
+ * handlers/auditHandlers.ts
+ * Handler for querying the audit log of changes made through the server
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { AuditEntry, AuditToolArgs } from '../../types/index.js';
+import { auditLog } from '../../utils/auditLog.js';
+import { TOOLS } from '../../utils/constants.js';
+import { resolveRangeEnd } from '../../utils/dateUtils.js';
+import { handleAsyncOperation } from '../../utils/errorHandling.js';
+import { parseReminderDueDate } from '../../utils/reminderDateParser.js';
+import { ReadAuditLogSchema } from '../../validation/schemas.js';
+import { extractAndValidateArgs, formatListMarkdown } from './shared.js';
+
+const TOOL_ALIASES: Record<string, string> = TOOLS.ALIASES;
+
+/**
+ * Formats an entry, e.g.
+ * '- 2025-03-10T09:00:00.000Z reminders_tasks delete: success (IDs: r1) by claude-desktop/1.0'
+ */
+const formatAuditEntry = (entry: AuditEntry): string[] => {
+  const call = [entry.tool, entry.action].filter(Boolean).join(' ');
+  const outcome =
+    entry.outcome === 'error' ? `error - ${entry.error}` : entry.outcome;
+  const ids =
+    entry.affectedIds.length > 0
+      ? ` (IDs: ${entry.affectedIds.join(', ')})`
+      : '';
+  const client = entry.client ? ` by ${entry.client}` : '';
+  return [`- ${entry.timestamp} ${call}: ${outcome}${ids}${client}`];
+};
+
+export const handleReadAuditLog = async (
+  args?: AuditToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const { startDate, endDate, tool, id, limit } = extractAndValidateArgs(
+      args,
+      ReadAuditLogSchema,
+    );
+    if (!auditLog.isEnabled()) {
+      return {
+        markdown: 'The audit log is disabled (AUDIT_LOG=off).',
+        data: { entries: [], returned: 0, total: 0 },
+      };
+    }
+
+    const start = startDate ? parseReminderDueDate(startDate) : undefined;
+    // Like dueBefore, a date-only endDate includes that whole day
+    const end = endDate ? resolveRangeEnd(endDate) : undefined;
+    const toolName = tool ? (TOOL_ALIASES[tool] ?? tool) : undefined;
+    const entries = auditLog
+      .readEntries()
+      .filter((entry) => {
+        const timestamp = new Date(entry.timestamp);
+        return (
+          (!start || timestamp >= start) &&
+          (!end || timestamp < end) &&
+          (!toolName || entry.tool === toolName) &&
+          (!id || entry.affectedIds.includes(id))
+        );
+      })
+      .reverse();
+    const items = entries.slice(0, limit);
+    return {
+      markdown: formatListMarkdown(
+        'Audit Log',
+        items,
+        formatAuditEntry,
+        'No audited changes match.',
+        { total: entries.length },
+      ),
+      data: { entries: items, returned: items.length, total: entries.length },
+    };
+  }, 'read audit log');
+};
@@ -0,0 +1,163 @@
+/**
+ * handlers/availabilityHandlers.ts
+ * Handlers for calendar free/busy searches
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { AvailabilityToolArgs, CalendarEvent } from '../../types/index.js';
+import type { TimeSlot } from '../../utils/availability.js';
+import {
+  blocksTime,
+  findFreeSlots,
+  formatSlotRange,
+  getEventSlot,
+} from '../../utils/availability.js';
+import { calendarRepository } from '../../utils/calendarRepository.js';
+import { VALIDATION } from '../../utils/constants.js';
+import {
+  resolveRangeEnd,
+  toLocalDateTimeString,
+} from '../../utils/dateUtils.js';
+import { handleAsyncOperation } from '../../utils/errorHandling.js';
+import { parseReminderDueDate } from '../../utils/reminderDateParser.js';
+import {
+  FindAvailabilitySchema,
+  ValidationError,
+} from '../../validation/schemas.js';
+import {
+  extractAndValidateArgs,
+  formatListMarkdown,
+  formatMinutes,
+  formatResolvedDates,
+} from './shared.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const slotMinutes = ({ start, end }: TimeSlot): number =>
+  Math.round((end.getTime() - start.getTime()) / 60_000);
+
+const formatHour = (hour: number): string =>
+  `${String(hour).padStart(2, '0')}:00`;
+
+/**
+ * Formats a busy event, e.g. "2025-03-10 10:30-11:00 Standup (Work, tentative)"
+ */
+const formatBusyEvent = ({
+  event,
+  slot,
+}: {
+  event: CalendarEvent;
+  slot: TimeSlot;
+}): string[] => {
+  const when = event.isAllDay
+    ? `${toLocalDateTimeString(slot.start).slice(0, 10)} all day`
+    : formatSlotRange(slot);
+  const details = [event.calendar];
+  if (event.availability && event.availability !== 'not-supported') {
+    details.push(event.availability);
+  }
+  return [`- ${when} ${event.title} (${details.join(', ')})`];
+};
+
+export const handleFindAvailability = async (
+  args?: AvailabilityToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const validatedArgs = extractAndValidateArgs(args, FindAvailabilitySchema);
+    const start = parseReminderDueDate(validatedArgs.startDate);
+    const end = resolveRangeEnd(validatedArgs.endDate);
+    if (!start || !end || end <= start) {
+      throw new ValidationError('endDate must be after startDate.');
+    }
+    if (
+      end.getTime() - start.getTime() >
+      VALIDATION.MAX_AVAILABILITY_RANGE_DAYS * DAY_MS
+    ) {
+      throw new ValidationError(
+        `Availability searches cannot cover more than ${VALIDATION.MAX_AVAILABILITY_RANGE_DAYS} days.`,
+      );
+    }
+
+    // Free time and cancelled events never block a slot
+    const events = await calendarRepository.findEvents({
+      startDate: toLocalDateTimeString(start),
+      endDate: toLocalDateTimeString(end),
+      excludeAvailability: ['free'],
+      excludeStatus: ['cancelled'],
+    });
+    const calendars = validatedArgs.calendars;
+    const busy = events
+      .filter(
+        (event) =>
+          blocksTime(event) &&
+          (!calendars?.length || calendars.includes(event.calendar)),
+      )
+      .flatMap((event) => {
+        const slot = getEventSlot(event);
+        return slot && slot.end > start && slot.start < end
+          ? [{ event, slot }]
+          : [];
+      })
+      .sort((a, b) => a.slot.start.getTime() - b.slot.start.getTime());
+
+    const freeSlots = findFreeSlots(
+      busy.map(({ slot }) => slot),
+      {
+        start,
+        end,
+        workingHoursStart: validatedArgs.workingHoursStart,
+        workingHoursEnd: validatedArgs.workingHoursEnd,
+        minSlotMinutes: validatedArgs.minSlotMinutes,
+        bufferBeforeMinutes: validatedArgs.bufferBeforeMinutes,
+        bufferAfterMinutes: validatedArgs.bufferAfterMinutes,
+      },
+    );
+    const freeMinutes = freeSlots.reduce(
+      (total, slot) => total + slotMinutes(slot),
+      0,
+    );
+
+    const markdown = [
+      `Working hours: ${formatHour(validatedArgs.workingHoursStart)}-${formatHour(validatedArgs.workingHoursEnd)}, minimum slot: ${formatMinutes(validatedArgs.minSlotMinutes)}, buffers: ${validatedArgs.bufferBeforeMinutes} min before / ${validatedArgs.bufferAfterMinutes} min after`,
+      `Free time: ${freeMinutes > 0 ? formatMinutes(freeMinutes) : 'none'}`,
+      ...formatResolvedDates([
+        {
+          label: 'Start',
+          input: args?.startDate,
+          resolved: validatedArgs.startDate,
+        },
+        { label: 'End', input: args?.endDate, resolved: validatedArgs.endDate },
+      ]),
+      '',
+      formatListMarkdown(
+        'Free Slots',
+        freeSlots,
+        (slot) => [
+          `- ${formatSlotRange(slot)} (${formatMinutes(slotMinutes(slot))})`,
+        ],
+        'No free slots found within working hours.',
+      ),
+      '',
+      formatListMarkdown(
+        'Busy',
+        busy,
+        formatBusyEvent,
+        'No busy events in this range.',
+      ),
+    ].join('\n');
+    return {
+      markdown,
+      data: {
+        startDate: toLocalDateTimeString(start),
+        endDate: toLocalDateTimeString(end),
+        freeMinutes,
+        freeSlots: freeSlots.map((slot) => ({
+          start: toLocalDateTimeString(slot.start),
+          end: toLocalDateTimeString(slot.end),
+          minutes: slotMinutes(slot),
+        })),
+        busy: busy.map(({ event }) => event),
+      },
+    };
+  }, 'find calendar availability');
+};
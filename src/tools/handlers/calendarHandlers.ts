@@ -4,24 +4,76 @@
  */
 
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import type { CalendarsToolArgs, CalendarToolArgs } from '../../types/index.js';
+import type {
+  Alarm,
+  Attendee,
+  CalendarEvent,
+  CalendarsToolArgs,
+  CalendarToolArgs,
+  ConflictPolicy,
+  EventAvailability,
+  EventMergeResult,
+  EventSortField,
+  EventStatus,
+  FieldChange,
+  ParticipationStatus,
+  RecurrenceRule,
+} from '../../types/index.js';
+import type { EventOccurrenceTarget } from '../../types/repository.js';
+import type { TimeSlot } from '../../utils/availability.js';
+import {
+  blocksTime,
+  formatSlotRange,
+  getEventSlot,
+} from '../../utils/availability.js';
 import { calendarRepository } from '../../utils/calendarRepository.js';
+import { VALIDATION } from '../../utils/constants.js';
+import {
+  parseDateInTimeZone,
+  toLocalDateTimeString,
+} from '../../utils/dateUtils.js';
+import { applyEventUpdate, diffFields, isDryRun } from '../../utils/dryRun.js';
+import { findDuplicateGroups, mergeNotes } from '../../utils/duplicates.js';
 import { handleAsyncOperation } from '../../utils/errorHandling.js';
 import { formatMultilineNotes } from '../../utils/helpers.js';
+import type { SortValue } from '../../utils/pagination.js';
+import {
+  paginate,
+  sortItems,
+  toDateSortValue,
+} from '../../utils/pagination.js';
+import { formatRecurrenceRule } from '../../utils/recurrence.js';
 import {
   CreateCalendarEventSchema,
   DeleteCalendarEventSchema,
+  FindDuplicateEventsSchema,
   ReadCalendarEventsSchema,
   ReadCalendarsSchema,
   UpdateCalendarEventSchema,
+  ValidationError,
 } from '../../validation/schemas.js';
 import {
+  createPreviewToken,
+  DRY_RUN_NOTE,
   extractAndValidateArgs,
+  formatAlarm,
   formatDeleteMessage,
+  formatDryRunMessage,
+  formatFieldChanges,
   formatListMarkdown,
+  formatResolvedDates,
   formatSuccessMessage,
 } from './shared.js';
 
+/**
+ * Formats a participant as "Name <email>", falling back to whichever is known
+ */
+const formatParticipant = (participant: Attendee): string => {
+  if (participant.name && participant.email)
+    return `${participant.name} <${participant.email}>`;
+  return participant.name ?? participant.email ?? 'Unknown';
+};
+
 /**
  * Formats a calendar event as a markdown list item
  */
@@ -35,6 +87,18 @@ const formatEventMarkdown = (event: {
   location?: string;
   url?: string;
   isAllDay?: boolean;
+  isRecurring?: boolean;
+  recurrence?: RecurrenceRule;
+  occurrenceDate?: string;
+  alarms?: Alarm[];
+  creationDate?: string;
+  lastModifiedDate?: string;
+  organizer?: Attendee;
+  attendees?: Attendee[];
+  participationStatus?: ParticipationStatus;
+  availability?: EventAvailability;
+  status?: EventStatus;
+  timeZone?: string;
 }): string[] => {
   const lines: string[] = [];
   lines.push(`- ${event.title}`);
@@ -43,13 +107,172 @@ const formatEventMarkdown = (event: {
   if (event.startDate) lines.push(`  - Start: ${event.startDate}`);
   if (event.endDate) lines.push(`  - End: ${event.endDate}`);
   if (event.isAllDay) lines.push(`  - All Day: ${event.isAllDay}`);
+  if (event.timeZone) lines.push(`  - Time Zone: ${event.timeZone}`);
+  if (event.availability && event.availability !== 'not-supported')
+    lines.push(`  - Availability: ${event.availability}`);
+  if (event.status && event.status !== 'none')
+    lines.push(`  - Status: ${event.status}`);
   if (event.location) lines.push(`  - Location: ${event.location}`);
   if (event.notes)
     lines.push(`  - Notes: ${formatMultilineNotes(event.notes)}`);
   if (event.url) lines.push(`  - URL: ${event.url}`);
+  if (event.organizer)
+    lines.push(`  - Organizer: ${formatParticipant(event.organizer)}`);
+  if (event.participationStatus)
+    lines.push(`  - Your Status: ${event.participationStatus}`);
+  if (event.attendees?.length) {
+    lines.push(`  - Attendees (${event.attendees.length}):`);
+    for (const attendee of event.attendees) {
+      lines.push(
+        `    - ${formatParticipant(attendee)} (${attendee.role}, ${attendee.status})`,
+      );
+    }
+  }
+  if (event.recurrence)
+    lines.push(`  - Repeats: ${formatRecurrenceRule(event.recurrence)}`);
+  if (event.isRecurring && event.occurrenceDate)
+    lines.push(`  - Occurrence: ${event.occurrenceDate}`);
+  if (event.alarms?.length)
+    lines.push(`  - Alarms: ${event.alarms.map(formatAlarm).join(', ')}`);
+  if (event.creationDate) lines.push(`  - Created: ${event.creationDate}`);
+  if (event.lastModifiedDate)
+    lines.push(`  - Modified: ${event.lastModifiedDate}`);
   return lines;
 };
 
+/**
+ * Finds existing events that block time within the slot, ignoring the event being moved
+ */
+const findConflictingEvents = async (
+  slot: TimeSlot,
+  excludeId?: string,
+): Promise<CalendarEvent[]> => {
+  const events = await calendarRepository.findEvents({
+    startDate: toLocalDateTimeString(slot.start),
+    endDate: toLocalDateTimeString(slot.end),
+    excludeAvailability: ['free'],
+    excludeStatus: ['cancelled'],
+  });
+  return events.filter((event) => {
+    if (event.id === excludeId || !blocksTime(event)) return false;
+    const eventSlot = getEventSlot(event);
+    return (
+      eventSlot !== undefined &&
+      eventSlot.start < slot.end &&
+      eventSlot.end > slot.start
+    );
+  });
+};
+
+/**
+ * Formats a clashing event, e.g. "  - Standup: 2025-03-10 10:00-10:30 (Work, ID: e1)"
+ */
+const formatConflict = (event: CalendarEvent): string => {
+  const slot = getEventSlot(event);
+  const when = slot ? formatSlotRange(slot) : event.startDate;
+  return `  - ${event.title}: ${when} (${event.calendar}, ID: ${event.id})`;
+};
+
+const formatConflictSummary = (conflicts: CalendarEvent[]): string =>
+  `${conflicts.length} existing event${conflicts.length === 1 ? '' : 's'}`;
+
+/**
+ * Whether an event counts when looking for clashes; free events never do
+ */
+const isBlocking = (
+  event: Pick<CalendarEvent, 'isAllDay' | 'availability'>,
+): boolean => event.availability !== 'free' && blocksTime(event);
+
+const isSameSlot = (a?: TimeSlot, b?: TimeSlot): boolean =>
+  a?.start.getTime() === b?.start.getTime() &&
+  a?.end.getTime() === b?.end.getTime();
+
+/**
+ * Applies the onConflict policy before an event is written. 'reject' throws when
+ * the target time overlaps existing events, 'warn' returns the overlapping events.
+ */
+const checkConflicts = async (
+  target: Pick<
+    CalendarEvent,
+    'startDate' | 'endDate' | 'isAllDay' | 'availability'
+  >,
+  policy: ConflictPolicy,
+  excludeId?: string,
+): Promise<CalendarEvent[]> => {
+  if (policy === 'allow') return [];
+  const slot = getEventSlot(target);
+  if (!slot || !isBlocking(target)) return [];
+
+  const conflicts = await findConflictingEvents(slot, excludeId);
+  if (conflicts.length > 0 && policy === 'reject') {
+    throw new ValidationError(
+      [
+        `Event not saved: it overlaps ${formatConflictSummary(conflicts)}:`,
+        ...conflicts.map(formatConflict),
+        "Choose another time or set onConflict to 'warn' or 'allow'.",
+      ].join('\n'),
+    );
+  }
+  return conflicts;
+};
+
+/**
+ * Converts a date passed with a time zone to local time, the time other
+ * events are compared in. All-day events keep their dates.
+ */
+const toLocalEventDate = (
+  date: string,
+  timeZone?: string,
+  isAllDay?: boolean,
+): string => {
+  if (!timeZone || isAllDay) return date;
+  const parsed = parseDateInTimeZone(date, timeZone);
+  return parsed ? toLocalDateTimeString(parsed) : date;
+};
+
+const formatConflictWarning = (conflicts: CalendarEvent[]): string[] =>
+  conflicts.length > 0
+    ? [
+        `- Warning: overlaps ${formatConflictSummary(conflicts)}:`,
+        ...conflicts.map(formatConflict),
+      ]
+    : [];
+
+/**
+ * Names the occurrences of a recurring event a change targets, e.g.
+ * '- Occurrence: 2025-03-10 09:00:00 and all following'
+ */
+const formatOccurrence = ({
+  span,
+  occurrenceDate,
+}: EventOccurrenceTarget): string[] =>
+  occurrenceDate
+    ? [
+        `- Occurrence: ${occurrenceDate}${span === 'future-events' ? ' and all following' : ''}`,
+      ]
+    : [];
+
+const formatEventDates = (
+  args: CalendarToolArgs,
+  resolved: { startDate?: string; endDate?: string },
+): string[] =>
+  formatResolvedDates([
+    { label: 'Start', input: args.startDate, resolved: resolved.startDate },
+    { label: 'End', input: args.endDate, resolved: resolved.endDate },
+  ]);
+
+/**
+ * Fails a dry run the way the CLI fails a save into a missing calendar.
+ * Without a calendar, events go to the default calendar.
+ */
+const requireCalendar = async (title?: string): Promise<void> => {
+  if (!title) return;
+  const calendars = await calendarRepository.findAllCalendars();
+  if (!calendars.some((calendar) => calendar.title === title)) {
+    throw new ValidationError(`Calendar '${title}' not found.`);
+  }
+};
+
 export const handleCreateCalendarEvent = async (
   args: CalendarToolArgs,
 ): Promise<CallToolResult> => {
@@ -58,7 +281,21 @@ export const handleCreateCalendarEvent = async (
       args,
       CreateCalendarEventSchema,
     );
-    const event = await calendarRepository.createEvent({
+    const { timeZone, isAllDay } = validatedArgs;
+    const conflicts = await checkConflicts(
+      {
+        startDate: toLocalEventDate(
+          validatedArgs.startDate,
+          timeZone,
+          isAllDay,
+        ),
+        endDate: toLocalEventDate(validatedArgs.endDate, timeZone, isAllDay),
+        isAllDay: Boolean(isAllDay),
+        availability: validatedArgs.availability,
+      },
+      validatedArgs.onConflict,
+    );
+    const data = {
       title: validatedArgs.title,
       startDate: validatedArgs.startDate,
       endDate: validatedArgs.endDate,
@@ -67,8 +304,35 @@ export const handleCreateCalendarEvent = async (
       location: validatedArgs.location,
       url: validatedArgs.url,
       isAllDay: validatedArgs.isAllDay,
-    });
-    return formatSuccessMessage('created', 'event', event.title, event.id);
+      availability: validatedArgs.availability,
+      timeZone: validatedArgs.timeZone,
+      recurrence: validatedArgs.recurrence,
+      alarms: validatedArgs.alarms,
+    };
+    const details = [
+      ...formatEventDates(args, validatedArgs),
+      ...formatConflictWarning(conflicts),
+    ];
+    if (isDryRun(validatedArgs.dryRun)) {
+      await requireCalendar(data.calendar);
+      const changes = diffFields(undefined, data);
+      return {
+        markdown: formatDryRunMessage(
+          `create event "${data.title}"`,
+          changes,
+          details,
+        ),
+        data: { dryRun: true, changes, conflicts },
+      };
+    }
+    const event = await calendarRepository.createEvent(data);
+    return {
+      markdown: [
+        formatSuccessMessage('created', 'event', event.title, event.id),
+        ...details,
+      ].join('\n'),
+      data: { event, conflicts },
+    };
   }, 'create calendar event');
 };
 
@@ -80,7 +344,51 @@ export const handleUpdateCalendarEvent = async (
       args,
       UpdateCalendarEventSchema,
     );
-    const event = await calendarRepository.updateEvent({
+    const dryRun = isDryRun(validatedArgs.dryRun);
+    // Only a change to when the event takes place, or to whether it blocks
+    // time, can create a new clash
+    const mayConflict =
+      validatedArgs.onConflict !== 'allow' &&
+      [
+        validatedArgs.startDate,
+        validatedArgs.endDate,
+        validatedArgs.isAllDay,
+        validatedArgs.availability,
+      ].some((value) => value !== undefined);
+    // The occurrence being changed, so missing times fall back to its own
+    const existing =
+      dryRun || mayConflict
+        ? await calendarRepository.findEventOccurrence(validatedArgs.id, {
+            occurrenceDate: validatedArgs.occurrenceDate,
+          })
+        : undefined;
+    let conflicts: CalendarEvent[] = [];
+    if (existing && mayConflict) {
+      const isAllDay = validatedArgs.isAllDay ?? existing.isAllDay;
+      // The time zone only applies to the dates passed with it
+      const { startDate, endDate, timeZone } = validatedArgs;
+      const target = {
+        startDate: startDate
+          ? toLocalEventDate(startDate, timeZone, isAllDay)
+          : existing.startDate,
+        endDate: endDate
+          ? toLocalEventDate(endDate, timeZone, isAllDay)
+          : existing.endDate,
+        isAllDay,
+        availability: validatedArgs.availability ?? existing.availability,
+      };
+      if (
+        !isSameSlot(getEventSlot(target), getEventSlot(existing)) ||
+        (isBlocking(target) && !isBlocking(existing))
+      ) {
+        conflicts = await checkConflicts(
+          target,
+          validatedArgs.onConflict,
+          validatedArgs.id,
+        );
+      }
+    }
+    const data = {
       id: validatedArgs.id,
       title: validatedArgs.title,
       startDate: validatedArgs.startDate,
@@ -90,8 +398,40 @@ export const handleUpdateCalendarEvent = async (
       location: validatedArgs.location,
       url: validatedArgs.url,
       isAllDay: validatedArgs.isAllDay,
-    });
-    return formatSuccessMessage('updated', 'event', event.title, event.id);
+      availability: validatedArgs.availability,
+      timeZone: validatedArgs.timeZone,
+      recurrence: validatedArgs.recurrence,
+      clearRecurrence: validatedArgs.clearRecurrence,
+      alarms: validatedArgs.alarms,
+      addAlarms: validatedArgs.addAlarms,
+      clearAlarms: validatedArgs.clearAlarms,
+      span: validatedArgs.span,
+      occurrenceDate: validatedArgs.occurrenceDate,
+    };
+    const details = [
+      ...formatEventDates(args, validatedArgs),
+      ...formatConflictWarning(conflicts),
+    ];
+    if (existing && dryRun) {
+      await requireCalendar(data.calendar);
+      const changes = diffFields(existing, applyEventUpdate(existing, data));
+      return {
+        markdown: formatDryRunMessage(
+          `update event "${existing.title}" (ID: ${existing.id})`,
+          changes,
+          [...formatOccurrence(data), ...details],
+        ),
+        data: { dryRun: true, event: existing, changes, conflicts },
+      };
+    }
+    const event = await calendarRepository.updateEvent(data);
+    return {
+      markdown: [
+        formatSuccessMessage('updated', 'event', event.title, event.id),
+        ...details,
+      ].join('\n'),
+      data: { event, conflicts },
+    };
   }, 'update calendar event');
 };
 
@@ -103,16 +443,47 @@ export const handleDeleteCalendarEvent = async (
       args,
       DeleteCalendarEventSchema,
     );
-    await calendarRepository.deleteEvent(validatedArgs.id);
-    return formatDeleteMessage('event', validatedArgs.id, {
-      useQuotes: true,
-      useIdPrefix: true,
-      usePeriod: true,
-      useColon: false,
-    });
+    const target = {
+      span: validatedArgs.span,
+      occurrenceDate: validatedArgs.occurrenceDate,
+    };
+    if (isDryRun(validatedArgs.dryRun)) {
+      const existing = await calendarRepository.findEventOccurrence(
+        validatedArgs.id,
+        target,
+      );
+      const changes = diffFields(existing);
+      return {
+        markdown: formatDryRunMessage(
+          `delete event "${existing.title}" (ID: ${existing.id})`,
+          changes,
+          formatOccurrence(target),
+        ),
+        data: { dryRun: true, event: existing, changes },
+      };
+    }
+    await calendarRepository.deleteEvent(validatedArgs.id, target);
+    return {
+      markdown: formatDeleteMessage('event', validatedArgs.id, {
+        useQuotes: true,
+        useIdPrefix: true,
+        usePeriod: true,
+        useColon: false,
+      }),
+      data: { deletedId: validatedArgs.id },
+    };
   }, 'delete calendar event');
 };
 
+const EVENT_SORT_KEYS: Record<
+  EventSortField,
+  (event: CalendarEvent) => SortValue
+> = {
+  startDate: (event) => toDateSortValue(event.startDate),
+  title: (event) => event.title,
+  created: (event) => toDateSortValue(event.creationDate),
+};
+
 export const handleReadCalendarEvents = async (
   args: CalendarToolArgs,
 ): Promise<CallToolResult> => {
@@ -124,7 +495,10 @@ export const handleReadCalendarEvents = async (
 
     if (validatedArgs.id) {
       const event = await calendarRepository.findEventById(validatedArgs.id);
-      return formatEventMarkdown(event).join('\n');
+      return {
+        markdown: formatEventMarkdown(event).join('\n'),
+        data: { event },
+      };
     }
 
     const events = await calendarRepository.findEvents({
@@ -132,28 +506,251 @@ export const handleReadCalendarEvents = async (
       endDate: validatedArgs.endDate,
       calendarName: validatedArgs.filterCalendar,
       search: validatedArgs.search,
+      attendee: validatedArgs.attendee,
+      excludeAvailability: validatedArgs.excludeAvailability,
+      excludeStatus: validatedArgs.excludeStatus,
     });
+    const sorted = validatedArgs.sortBy
+      ? sortItems(
+          events,
+          EVENT_SORT_KEYS[validatedArgs.sortBy],
+          validatedArgs.sortOrder,
+        )
+      : events;
+    const { items, ...page } = paginate(sorted, validatedArgs);
 
-    return formatListMarkdown(
-      'Calendar Events',
-      events,
-      formatEventMarkdown,
-      'No calendar events found.',
-    );
+    return {
+      markdown: formatListMarkdown(
+        'Calendar Events',
+        items,
+        formatEventMarkdown,
+        'No calendar events found.',
+        page,
+      ),
+      data: { events: items, returned: items.length, ...page },
+    };
   }, 'read calendar events');
 };
 
+/**
+ * Formats a duplicate group; the first event is the one merging keeps
+ */
+const formatDuplicateEventGroup = (group: CalendarEvent[]): string[] => [
+  `- "${group[0].title}" in ${group[0].calendar} (${group.length} events)`,
+  ...group.map(
+    (event, index) =>
+      `  - ${index === 0 ? 'Keep' : 'Merge'}: ${event.title} (ID: ${event.id}, ${event.startDate} - ${event.endDate})`,
+  ),
+];
+
+/**
+ * Formats a planned merge step with its changes indented below it
+ */
+const formatEventPlanItem = (item: {
+  action: string;
+  event: CalendarEvent;
+  changes: FieldChange[];
+}): string[] => [
+  `- ${item.action} "${item.event.title}" (ID: ${item.event.id})`,
+  ...formatFieldChanges(item.changes, '  '),
+];
+
+const MERGE_STATUS_LABELS: Record<EventMergeResult['status'], string> = {
+  success: 'succeeded',
+  error: 'failed',
+  skipped: 'skipped',
+};
+
+/**
+ * Formats a merge step, e.g. '- 2. delete failed: "Team sync" (ID: e2): Event not found'
+ */
+const formatEventMergeResult = (result: EventMergeResult): string[] => [
+  `- ${result.index + 1}. ${result.action} ${MERGE_STATUS_LABELS[result.status]}: "${result.event.title}" (ID: ${result.event.id})${result.message ? `: ${result.message}` : ''}`,
+];
+
+export const handleFindDuplicateEvents = async (
+  args: CalendarToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const validatedArgs = extractAndValidateArgs(
+      args,
+      FindDuplicateEventsSchema,
+    );
+    const events = await calendarRepository.findEvents({
+      startDate: validatedArgs.startDate,
+      endDate: validatedArgs.endDate,
+      calendarName: validatedArgs.filterCalendar,
+      search: validatedArgs.search,
+      attendee: validatedArgs.attendee,
+      excludeAvailability: validatedArgs.excludeAvailability,
+      excludeStatus: validatedArgs.excludeStatus,
+    });
+    // Merging deletes whole events, so recurring series are left alone
+    const groups = findDuplicateGroups(
+      events.filter((event) => !event.isRecurring),
+      (event) => ({
+        id: event.id,
+        title: event.title,
+        scope: event.calendar,
+        date: event.startDate,
+        created: event.creationDate,
+      }),
+      {
+        similarity: validatedArgs.similarity,
+        maxDaysApart: validatedArgs.maxDaysApart,
+      },
+    );
+    const duplicateCount = groups.reduce(
+      (total, group) => total + group.length - 1,
+      0,
+    );
+    const token = createPreviewToken(
+      groups.map((group) => group.map((event) => event.id)),
+    );
+
+    if (groups.length === 0) {
+      return {
+        markdown: 'No duplicate calendar events found. Nothing was changed.',
+        data: { groups, total: 0, duplicates: 0 },
+      };
+    }
+    if (!validatedArgs.merge) {
+      return {
+        markdown: [
+          formatListMarkdown(
+            'Duplicate Calendar Events',
+            groups,
+            formatDuplicateEventGroup,
+            '',
+          ),
+          '',
+          `Nothing has been changed yet. To merge, repeat this call with merge: true and previewToken: "${token}". Each group keeps its first event, adds the other events' notes to it and deletes them.`,
+        ].join('\n'),
+        data: {
+          groups,
+          total: groups.length,
+          duplicates: duplicateCount,
+          previewToken: token,
+        },
+      };
+    }
+
+    if (validatedArgs.previewToken !== token) {
+      throw new ValidationError(
+        'The duplicate events changed since find-duplicates ran. Run it again to get a new previewToken.',
+      );
+    }
+    if (duplicateCount > VALIDATION.MAX_BULK_UPDATE_ITEMS) {
+      throw new ValidationError(
+        `Merging would delete ${duplicateCount} events, more than the limit of ${VALIDATION.MAX_BULK_UPDATE_ITEMS}. Narrow the filters and run find-duplicates again.`,
+      );
+    }
+
+    // Each step changes one event; updates carry the notes to keep
+    const steps = groups.flatMap(([kept, ...duplicates]) => {
+      const notes = mergeNotes(
+        [kept, ...duplicates].map((event) => event.notes),
+      );
+      return [
+        ...(notes === kept.notes?.trim()
+          ? []
+          : [{ event: kept, after: { ...kept, notes } }]),
+        ...duplicates.map((event) => ({ event, after: undefined })),
+      ];
+    });
+    if (isDryRun(validatedArgs.dryRun)) {
+      const plan = steps.map(({ event, after }) => ({
+        action: after ? 'update' : 'delete',
+        event,
+        changes: diffFields(event, after),
+      }));
+      return {
+        markdown: [
+          formatListMarkdown('Dry Run: Merge', plan, formatEventPlanItem, ''),
+          '',
+          DRY_RUN_NOTE,
+        ].join('\n'),
+        data: { dryRun: true, groups, plan },
+      };
+    }
+
+    // Each event's notes are saved before its duplicates are deleted, so the
+    // first failure stops the merge and the remaining steps are skipped
+    const results: EventMergeResult[] = [];
+    for (const [index, { event, after }] of steps.entries()) {
+      const action = after ? 'update' : 'delete';
+      if (results.some(({ status }) => status === 'error')) {
+        results.push({ index, action, status: 'skipped', event });
+        continue;
+      }
+      try {
+        if (after) {
+          await calendarRepository.updateEvent({
+            id: event.id,
+            notes: after.notes,
+          });
+        } else {
+          await calendarRepository.deleteEvent(event.id);
+        }
+        results.push({ index, action, status: 'success', event });
+      } catch (error) {
+        results.push({
+          index,
+          action,
+          status: 'error',
+          event,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    const deletedIds = results
+      .filter(
+        ({ action, status }) => action === 'delete' && status === 'success',
+      )
+      .map(({ event }) => event.id);
+    const count = (status: EventMergeResult['status']) =>
+      results.filter((result) => result.status === status).length;
+    const summary = {
+      succeeded: count('success'),
+      failed: count('error'),
+      skipped: count('skipped'),
+    };
+    return {
+      markdown: [
+        formatListMarkdown(
+          'Merge Results',
+          results,
+          formatEventMergeResult,
+          '',
+        ),
+        '',
+        `Groups: ${groups.length}, succeeded: ${summary.succeeded}, failed: ${summary.failed}, skipped: ${summary.skipped}`,
+      ].join('\n'),
+      data: {
+        groups,
+        results,
+        ...summary,
+        deletedIds,
+        deleted: deletedIds.length,
+      },
+    };
+  }, 'find duplicate calendar events');
+};
+
 export const handleReadCalendars = async (
   args?: CalendarsToolArgs,
 ): Promise<CallToolResult> => {
   return handleAsyncOperation(async () => {
     extractAndValidateArgs(args, ReadCalendarsSchema);
     const calendars = await calendarRepository.findAllCalendars();
-    return formatListMarkdown(
-      'Calendars',
-      calendars,
-      (calendar) => [`- ${calendar.title} (ID: ${calendar.id})`],
-      'No calendars found.',
-    );
+    return {
+      markdown: formatListMarkdown(
+        'Calendars',
+        calendars,
+        (calendar) => [`- ${calendar.title} (ID: ${calendar.id})`],
+        'No calendars found.',
+      ),
+      data: { calendars },
+    };
   }, 'read calendars');
 };
@@ -3,9 +3,13 @@
  * Unified exports for all tool handlers
  */
 
+export { handleReadAgenda } from './agendaHandlers.js';
+export { handleReadAuditLog } from './auditHandlers.js';
+export { handleFindAvailability } from './availabilityHandlers.js';
 export {
   handleCreateCalendarEvent,
   handleDeleteCalendarEvent,
+  handleFindDuplicateEvents,
   handleReadCalendarEvents,
   handleReadCalendars,
   handleUpdateCalendarEvent,
@@ -18,8 +22,19 @@ export {
   handleUpdateReminderList,
 } from './listHandlers.js';
 export {
+  handleBatchReminders,
+  handleBulkUpdateReminders,
   handleCreateReminder,
   handleDeleteReminder,
+  handleFindDuplicateReminders,
+  handlePurgeTrash,
   handleReadReminders,
+  handleRestoreReminder,
   handleUpdateReminder,
 } from './reminderHandlers.js';
+export { handleSearchAll } from './searchHandlers.js';
+export { handleReadReminderTags } from './tagHandlers.js';
+export {
+  handleReadUndoJournal,
+  handleRevertOperations,
+} from './undoHandlers.js';
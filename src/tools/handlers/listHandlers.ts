@@ -4,30 +4,48 @@
  */
 
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import type { ListsToolArgs } from '../../types/index.js';
+import type { ListsToolArgs, ReminderList } from '../../types/index.js';
+import { diffFields, isDryRun } from '../../utils/dryRun.js';
 import { handleAsyncOperation } from '../../utils/errorHandling.js';
 import { reminderRepository } from '../../utils/reminderRepository.js';
 import {
   CreateReminderListSchema,
   DeleteReminderListSchema,
   UpdateReminderListSchema,
+  ValidationError,
 } from '../../validation/schemas.js';
 import {
   extractAndValidateArgs,
   formatDeleteMessage,
+  formatDryRunMessage,
   formatListMarkdown,
   formatSuccessMessage,
 } from './shared.js';
 
+/**
+ * Finds the list a dry run would change
+ */
+const findListByName = async (name: string): Promise<ReminderList> => {
+  const lists = await reminderRepository.findAllLists();
+  const list = lists.find((candidate) => candidate.title === name);
+  if (!list) {
+    throw new ValidationError(`Reminder list "${name}" not found.`);
+  }
+  return list;
+};
+
 export const handleReadReminderLists = async (): Promise<CallToolResult> => {
   return handleAsyncOperation(async () => {
     const lists = await reminderRepository.findAllLists();
-    return formatListMarkdown(
-      'Reminder Lists',
-      lists,
-      (list) => [`- ${list.title} (ID: ${list.id})`],
-      'No reminder lists found.',
-    );
+    return {
+      markdown: formatListMarkdown(
+        'Reminder Lists',
+        lists,
+        (list) => [`- ${list.title} (ID: ${list.id})`],
+        'No reminder lists found.',
+      ),
+      data: { lists },
+    };
   }, 'read reminder lists');
 };
 
@@ -39,10 +57,23 @@ export const handleCreateReminderList = async (
       args,
       CreateReminderListSchema,
     );
+    if (isDryRun(validatedArgs.dryRun)) {
+      const changes = diffFields(undefined, { title: validatedArgs.name });
+      return {
+        markdown: formatDryRunMessage(
+          `create list "${validatedArgs.name}"`,
+          changes,
+        ),
+        data: { dryRun: true, changes },
+      };
+    }
     const list = await reminderRepository.createReminderList(
       validatedArgs.name,
     );
-    return formatSuccessMessage('created', 'list', list.title, list.id);
+    return {
+      markdown: formatSuccessMessage('created', 'list', list.title, list.id),
+      data: { list },
+    };
   }, 'create reminder list');
 };
 
@@ -54,11 +85,28 @@ export const handleUpdateReminderList = async (
       args,
       UpdateReminderListSchema,
     );
+    if (isDryRun(validatedArgs.dryRun)) {
+      const existing = await findListByName(validatedArgs.name);
+      const changes = diffFields(existing, {
+        ...existing,
+        title: validatedArgs.newName,
+      });
+      return {
+        markdown: formatDryRunMessage(
+          `rename list "${existing.title}" (ID: ${existing.id})`,
+          changes,
+        ),
+        data: { dryRun: true, list: existing, changes },
+      };
+    }
     const list = await reminderRepository.updateReminderList(
       validatedArgs.name,
       validatedArgs.newName,
     );
-    return formatSuccessMessage('updated', 'list', list.title, list.id);
+    return {
+      markdown: formatSuccessMessage('updated', 'list', list.title, list.id),
+      data: { list },
+    };
   }, 'update reminder list');
 };
 
@@ -70,11 +118,36 @@ export const handleDeleteReminderList = async (
       args,
       DeleteReminderListSchema,
     );
+    if (isDryRun(validatedArgs.dryRun)) {
+      const existing = await findListByName(validatedArgs.name);
+      // Deleting a list also deletes every reminder in it
+      const reminders = await reminderRepository.findReminders({
+        list: existing.title,
+        showCompleted: true,
+      });
+      const changes = diffFields(existing);
+      return {
+        markdown: formatDryRunMessage(
+          `delete list "${existing.title}" (ID: ${existing.id})`,
+          changes,
+          [`- Reminders deleted with the list: ${reminders.length}`],
+        ),
+        data: {
+          dryRun: true,
+          list: existing,
+          changes,
+          reminderCount: reminders.length,
+        },
+      };
+    }
     await reminderRepository.deleteReminderList(validatedArgs.name);
-    return formatDeleteMessage('list', validatedArgs.name, {
-      useQuotes: true,
-      useIdPrefix: false,
-      usePeriod: true,
-    });
+    return {
+      markdown: formatDeleteMessage('list', validatedArgs.name, {
+        useQuotes: true,
+        useIdPrefix: false,
+        usePeriod: true,
+      }),
+      data: { deletedName: validatedArgs.name },
+    };
   }, 'delete reminder list');
 };
@@ -4,23 +4,98 @@
  */
 
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import type { RemindersToolArgs } from '../../types/index.js';
+import type {
+  Alarm,
+  BatchDryRunItem,
+  BatchItemResult,
+  BatchItemStatus,
+  BatchOperationAction,
+  LocationTrigger,
+  RecurrenceRule,
+  Reminder,
+  ReminderBatchOperationArgs,
+  ReminderPatch,
+  ReminderPriority,
+  ReminderSortField,
+  RemindersToolArgs,
+} from '../../types/index.js';
+import type {
+  CreateReminderData,
+  ReminderBatchOperation,
+  UpdateReminderData,
+} from '../../types/repository.js';
+import { VALIDATION } from '../../utils/constants.js';
+import type { ReminderFilters } from '../../utils/dateFiltering.js';
+import {
+  applyReminderCreate,
+  applyReminderUpdate,
+  diffFields,
+  isDryRun,
+} from '../../utils/dryRun.js';
+import { findDuplicateGroups, mergeNotes } from '../../utils/duplicates.js';
 import { handleAsyncOperation } from '../../utils/errorHandling.js';
 import { formatMultilineNotes } from '../../utils/helpers.js';
+import type { SortValue } from '../../utils/pagination.js';
+import {
+  paginate,
+  sortItems,
+  toDateSortValue,
+} from '../../utils/pagination.js';
+import { formatRecurrenceRule } from '../../utils/recurrence.js';
 import { reminderRepository } from '../../utils/reminderRepository.js';
 import {
+  createTrashTags,
+  findOriginalList,
+  getTrashListName,
+  isTrashExpired,
+  isTrashed,
+  readTrashInfo,
+} from '../../utils/trash.js';
+import {
+  BatchRemindersSchema,
+  BulkUpdateRemindersSchema,
   CreateReminderSchema,
   DeleteReminderSchema,
+  FindDuplicateRemindersSchema,
+  PurgeTrashSchema,
+  RECURRENCE_DUE_DATE_ERROR,
   ReadRemindersSchema,
+  RestoreReminderSchema,
   UpdateReminderSchema,
+  ValidationError,
 } from '../../validation/schemas.js';
 import {
+  createPreviewToken,
+  DRY_RUN_NOTE,
   extractAndValidateArgs,
+  formatAlarm,
   formatDeleteMessage,
+  formatDryRunMessage,
+  formatFieldChanges,
   formatListMarkdown,
+  formatResolvedDates,
   formatSuccessMessage,
 } from './shared.js';
 
+/**
+ * Formats a geofence trigger, e.g. "Arriving at Home (37.3349, -122.009, 100 m)"
+ */
+const formatLocationTrigger = (trigger: LocationTrigger): string => {
+  const verb = trigger.proximity === 'enter' ? 'Arriving at' : 'Leaving';
+  const details = [`${trigger.latitude}, ${trigger.longitude}`];
+  if (trigger.radius) details.push(`${trigger.radius} m`);
+  return `${verb} ${trigger.title} (${details.join(', ')})`;
+};
+
+/**
+ * Formats subtasks as nested checkboxes, indented one level per depth
+ */
+const formatSubtaskLines = (subtasks: Reminder[], depth = 2): string[] =>
+  subtasks.flatMap((subtask) => [
+    `${'  '.repeat(depth)}- ${subtask.isCompleted ? '[x]' : '[ ]'} ${subtask.title} (ID: ${subtask.id})`,
+    ...formatSubtaskLines(subtask.subtasks ?? [], depth + 1),
+  ]);
+
 /**
  * Formats a reminder object as markdown list items
  */
@@ -32,6 +107,16 @@ const formatReminderMarkdown = (reminder: {
   notes?: string;
   dueDate?: string;
   url?: string;
+  priority?: string;
+  recurrence?: RecurrenceRule;
+  alarms?: Alarm[];
+  locationTrigger?: LocationTrigger;
+  parentId?: string;
+  subtasks?: Reminder[];
+  tags?: string[];
+  creationDate?: string;
+  lastModifiedDate?: string;
+  completionDate?: string;
 }): string[] => {
   const lines: string[] = [];
   const checkbox = reminder.isCompleted ? '[x]' : '[ ]';
@@ -41,28 +126,166 @@ const formatReminderMarkdown = (reminder: {
   if (reminder.notes)
     lines.push(`  - Notes: ${formatMultilineNotes(reminder.notes)}`);
   if (reminder.dueDate) lines.push(`  - Due: ${reminder.dueDate}`);
+  if (reminder.priority && reminder.priority !== 'none')
+    lines.push(`  - Priority: ${reminder.priority}`);
+  if (reminder.recurrence)
+    lines.push(`  - Repeats: ${formatRecurrenceRule(reminder.recurrence)}`);
+  if (reminder.alarms?.length)
+    lines.push(`  - Alarms: ${reminder.alarms.map(formatAlarm).join(', ')}`);
+  if (reminder.locationTrigger)
+    lines.push(
+      `  - Location: ${formatLocationTrigger(reminder.locationTrigger)}`,
+    );
+  if (reminder.tags?.length)
+    lines.push(`  - Tags: ${reminder.tags.map((tag) => `#${tag}`).join(' ')}`);
   if (reminder.url) lines.push(`  - URL: ${reminder.url}`);
+  if (reminder.completionDate)
+    lines.push(`  - Completed: ${reminder.completionDate}`);
+  if (reminder.creationDate)
+    lines.push(`  - Created: ${reminder.creationDate}`);
+  if (reminder.lastModifiedDate)
+    lines.push(`  - Modified: ${reminder.lastModifiedDate}`);
+  if (reminder.parentId) lines.push(`  - Parent ID: ${reminder.parentId}`);
+  if (reminder.subtasks?.length) {
+    lines.push('  - Subtasks:', ...formatSubtaskLines(reminder.subtasks));
+  }
   return lines;
 };
 
+const toCreateReminderData = (args: RemindersToolArgs): CreateReminderData => {
+  const validatedArgs = extractAndValidateArgs(args, CreateReminderSchema);
+  return {
+    title: validatedArgs.title,
+    notes: validatedArgs.note,
+    url: validatedArgs.url,
+    list: validatedArgs.targetList,
+    dueDate: validatedArgs.dueDate,
+    priority: validatedArgs.priority,
+    recurrence: validatedArgs.recurrence,
+    alarms: validatedArgs.alarms,
+    locationTrigger: validatedArgs.locationTrigger,
+    parentId: validatedArgs.parentId,
+    tags: validatedArgs.tags,
+  };
+};
+
+const toUpdateReminderData = (args: RemindersToolArgs): UpdateReminderData => {
+  const validatedArgs = extractAndValidateArgs(args, UpdateReminderSchema);
+  return {
+    id: validatedArgs.id,
+    newTitle: validatedArgs.title,
+    notes: validatedArgs.note,
+    url: validatedArgs.url,
+    isCompleted: validatedArgs.completed,
+    list: validatedArgs.targetList,
+    dueDate: validatedArgs.dueDate,
+    priority: validatedArgs.priority,
+    recurrence: validatedArgs.recurrence,
+    clearRecurrence: validatedArgs.clearRecurrence,
+    alarms: validatedArgs.alarms,
+    addAlarms: validatedArgs.addAlarms,
+    clearAlarms: validatedArgs.clearAlarms,
+    locationTrigger: validatedArgs.locationTrigger,
+    clearLocationTrigger: validatedArgs.clearLocationTrigger,
+    tags: validatedArgs.tags,
+    addTags: validatedArgs.addTags,
+    removeTags: validatedArgs.removeTags,
+  };
+};
+
+const PRIORITY_RANKS: Record<ReminderPriority, number> = {
+  none: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+const REMINDER_SORT_KEYS: Record<
+  ReminderSortField,
+  (reminder: Reminder) => SortValue
+> = {
+  dueDate: (reminder) => toDateSortValue(reminder.dueDate),
+  title: (reminder) => reminder.title,
+  list: (reminder) => reminder.list,
+  priority: (reminder) => PRIORITY_RANKS[reminder.priority ?? 'none'],
+  created: (reminder) => toDateSortValue(reminder.creationDate),
+};
+
+/**
+ * Maps read filter arguments to repository filters
+ */
+const toReminderFilters = (
+  args: Omit<RemindersToolArgs, 'action'>,
+): ReminderFilters => {
+  // Completion date filters only make sense when completed reminders are included
+  const filtersByCompletion = Boolean(
+    args.completedAfter || args.completedBefore,
+  );
+  return {
+    list: args.filterList,
+    showCompleted: args.showCompleted || filtersByCompletion,
+    search: args.search,
+    dueWithin: args.dueWithin,
+    dueAfter: args.dueAfter,
+    dueBefore: args.dueBefore,
+    priority: args.filterPriority,
+    hasLocationTrigger: args.hasLocationTrigger,
+    tags: args.filterTags,
+    tagMatch: args.tagMatch,
+    completedAfter: args.completedAfter,
+    completedBefore: args.completedBefore,
+    modifiedSince: args.modifiedSince,
+  };
+};
+
+const hasReminderList = async (title: string): Promise<boolean> => {
+  const lists = await reminderRepository.findAllLists();
+  return lists.some((list) => list.title === title);
+};
+
+/**
+ * Fails a dry run the way the CLI fails a save into a missing list.
+ * Without a list, reminders go to the default list.
+ */
+const requireReminderList = async (title?: string): Promise<void> => {
+  if (title && !(await hasReminderList(title))) {
+    throw new ValidationError(`List '${title}' not found.`);
+  }
+};
+
 export const handleCreateReminder = async (
   args: RemindersToolArgs,
 ): Promise<CallToolResult> => {
   return handleAsyncOperation(async () => {
-    const validatedArgs = extractAndValidateArgs(args, CreateReminderSchema);
-    const reminder = await reminderRepository.createReminder({
-      title: validatedArgs.title,
-      notes: validatedArgs.note,
-      url: validatedArgs.url,
-      list: validatedArgs.targetList,
-      dueDate: validatedArgs.dueDate,
-    });
-    return formatSuccessMessage(
-      'created',
-      'reminder',
-      reminder.title,
-      reminder.id,
-    );
+    const data = toCreateReminderData(args);
+    const resolvedDates = formatResolvedDates([
+      { label: 'Due', input: args.dueDate, resolved: data.dueDate },
+    ]);
+    if (isDryRun(args.dryRun)) {
+      await requireReminderList(data.list);
+      const changes = diffFields(undefined, applyReminderCreate(data));
+      return {
+        markdown: formatDryRunMessage(
+          `create reminder "${data.title}"`,
+          changes,
+          resolvedDates,
+        ),
+        data: { dryRun: true, changes },
+      };
+    }
+    const reminder = await reminderRepository.createReminder(data);
+    return {
+      markdown: [
+        formatSuccessMessage(
+          'created',
+          'reminder',
+          reminder.title,
+          reminder.id,
+        ),
+        ...resolvedDates,
+      ].join('\n'),
+      data: { reminder },
+    };
   }, 'create reminder');
 };
 
@@ -70,39 +293,178 @@ export const handleUpdateReminder = async (
   args: RemindersToolArgs,
 ): Promise<CallToolResult> => {
   return handleAsyncOperation(async () => {
-    const validatedArgs = extractAndValidateArgs(args, UpdateReminderSchema);
-    const reminder = await reminderRepository.updateReminder({
-      id: validatedArgs.id,
-      newTitle: validatedArgs.title,
-      notes: validatedArgs.note,
-      url: validatedArgs.url,
-      isCompleted: validatedArgs.completed,
-      list: validatedArgs.targetList,
-      dueDate: validatedArgs.dueDate,
-    });
-    return formatSuccessMessage(
-      'updated',
-      'reminder',
-      reminder.title,
-      reminder.id,
-    );
+    const data = toUpdateReminderData(args);
+    const resolvedDates = formatResolvedDates([
+      { label: 'Due', input: args.dueDate, resolved: data.dueDate },
+    ]);
+    // Without a new due date, the rule repeats from the one already set
+    if (data.recurrence && !data.dueDate) {
+      const existing = await reminderRepository.findReminderById(data.id);
+      if (!existing.dueDate) {
+        throw new ValidationError(RECURRENCE_DUE_DATE_ERROR.message);
+      }
+    }
+    if (isDryRun(args.dryRun)) {
+      const existing = await reminderRepository.findReminderById(data.id);
+      await requireReminderList(data.list);
+      const changes = diffFields(existing, applyReminderUpdate(existing, data));
+      return {
+        markdown: formatDryRunMessage(
+          `update reminder "${existing.title}" (ID: ${existing.id})`,
+          changes,
+          resolvedDates,
+        ),
+        data: { dryRun: true, reminder: existing, changes },
+      };
+    }
+    const reminder = await reminderRepository.updateReminder(data);
+    const lines = [
+      formatSuccessMessage('updated', 'reminder', reminder.title, reminder.id),
+      ...resolvedDates,
+    ];
+
+    // Completing a parent leaves its subtasks untouched, so surface the open ones
+    const openSubtasks = data.isCompleted
+      ? await reminderRepository.findOpenSubtasks(reminder.id)
+      : [];
+    if (openSubtasks.length > 0) {
+      lines.push(
+        `- Open subtasks: ${openSubtasks.length}`,
+        ...openSubtasks.map(
+          (subtask) => `  - [ ] ${subtask.title} (ID: ${subtask.id})`,
+        ),
+      );
+    }
+    return { markdown: lines.join('\n'), data: { reminder, openSubtasks } };
   }, 'update reminder');
 };
 
+/**
+ * The update that moves a reminder to the trash, tagged with the list it
+ * came from and the day
+ */
+const toTrashUpdate = (
+  reminder: Reminder,
+  trashList: string,
+  trashedAt: Date,
+): UpdateReminderData => ({
+  id: reminder.id,
+  list: trashList,
+  addTags: createTrashTags(reminder.list, trashedAt),
+});
+
 export const handleDeleteReminder = async (
   args: RemindersToolArgs,
 ): Promise<CallToolResult> => {
   return handleAsyncOperation(async () => {
     const validatedArgs = extractAndValidateArgs(args, DeleteReminderSchema);
-    await reminderRepository.deleteReminder(validatedArgs.id);
-    return formatDeleteMessage('reminder', validatedArgs.id, {
-      useQuotes: false,
-      useIdPrefix: true,
-      usePeriod: false,
-    });
+    const dryRun = isDryRun(validatedArgs.dryRun);
+    if (validatedArgs.permanent) {
+      if (dryRun) {
+        const existing = await reminderRepository.findReminderById(
+          validatedArgs.id,
+        );
+        const changes = diffFields(existing);
+        return {
+          markdown: formatDryRunMessage(
+            `permanently delete reminder "${existing.title}" (ID: ${existing.id})`,
+            changes,
+          ),
+          data: { dryRun: true, reminder: existing, changes },
+        };
+      }
+      await reminderRepository.deleteReminder(validatedArgs.id);
+      return {
+        markdown: formatDeleteMessage('reminder', validatedArgs.id, {
+          useQuotes: false,
+          useIdPrefix: true,
+          usePeriod: false,
+        }),
+        data: { deletedId: validatedArgs.id },
+      };
+    }
+
+    // Without permanent, the reminder moves to the trash tagged with its list
+    const existing = await reminderRepository.findReminderById(
+      validatedArgs.id,
+    );
+    const trashList = getTrashListName();
+    if (isTrashed(existing)) {
+      throw new ValidationError(
+        `Reminder "${existing.title}" is already in the ${trashList} list. Restore it, or delete it with permanent: true.`,
+      );
+    }
+    const data = toTrashUpdate(existing, trashList, new Date());
+    const hasTrashList = await hasReminderList(trashList);
+    if (dryRun) {
+      const changes = diffFields(existing, applyReminderUpdate(existing, data));
+      return {
+        markdown: formatDryRunMessage(
+          `move reminder "${existing.title}" (ID: ${existing.id}) to ${trashList}`,
+          changes,
+          hasTrashList ? [] : [`- Creates the "${trashList}" list`],
+        ),
+        data: { dryRun: true, reminder: existing, changes, trashList },
+      };
+    }
+    if (!hasTrashList) await reminderRepository.createReminderList(trashList);
+    const reminder = await reminderRepository.updateReminder(data);
+    return {
+      markdown: [
+        `Moved reminder "${reminder.title}" to ${trashList}.`,
+        `- ID: ${reminder.id}`,
+        '- Restore it with the restore action, or delete it for good with permanent: true.',
+      ].join('\n'),
+      data: { reminder, trashList },
+    };
   }, 'delete reminder');
 };
 
+export const handleRestoreReminder = async (
+  args: RemindersToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const { id, targetList, dryRun } = extractAndValidateArgs(
+      args,
+      RestoreReminderSchema,
+    );
+    const existing = await reminderRepository.findReminderById(id);
+    if (!isTrashed(existing)) {
+      throw new ValidationError(
+        `Reminder "${existing.title}" was not moved to the ${getTrashListName()} list by delete, so there is nothing to restore.`,
+      );
+    }
+    const { tags, listKey } = readTrashInfo(existing);
+    const originalList =
+      !targetList && listKey
+        ? findOriginalList(await reminderRepository.findAllLists(), listKey)
+        : undefined;
+    const list = targetList ?? originalList?.title;
+    if (!list) {
+      throw new ValidationError(
+        `The list reminder "${existing.title}" was deleted from ${listKey ? 'no longer exists' : 'is unknown'}. Pass targetList to choose where to restore it.`,
+      );
+    }
+
+    const data: UpdateReminderData = { id, list, removeTags: tags };
+    if (isDryRun(dryRun)) {
+      const changes = diffFields(existing, applyReminderUpdate(existing, data));
+      return {
+        markdown: formatDryRunMessage(
+          `restore reminder "${existing.title}" (ID: ${existing.id}) to ${list}`,
+          changes,
+        ),
+        data: { dryRun: true, reminder: existing, changes },
+      };
+    }
+    const reminder = await reminderRepository.updateReminder(data);
+    return {
+      markdown: `Restored reminder "${reminder.title}" to ${list}.\n- ID: ${reminder.id}`,
+      data: { reminder },
+    };
+  }, 'restore reminder');
+};
+
 export const handleReadReminders = async (
   args: RemindersToolArgs,
 ): Promise<CallToolResult> => {
@@ -118,22 +480,697 @@ export const handleReadReminders = async (
         '',
         ...formatReminderMarkdown(reminder),
       ];
-      return markdownLines.join('\n');
+      return { markdown: markdownLines.join('\n'), data: { reminder } };
     }
 
     // Otherwise, return all matching reminders
-    const reminders = await reminderRepository.findReminders({
-      list: validatedArgs.filterList,
-      showCompleted: validatedArgs.showCompleted,
-      search: validatedArgs.search,
-      dueWithin: validatedArgs.dueWithin,
+    const reminders = await reminderRepository.findReminders(
+      toReminderFilters(validatedArgs),
+    );
+    const sorted = validatedArgs.sortBy
+      ? sortItems(
+          reminders,
+          REMINDER_SORT_KEYS[validatedArgs.sortBy],
+          validatedArgs.sortOrder,
+        )
+      : reminders;
+    const { items, ...page } = paginate(sorted, validatedArgs);
+
+    return {
+      markdown: formatListMarkdown(
+        'Reminders',
+        items,
+        formatReminderMarkdown,
+        'No reminders found matching the criteria.',
+        page,
+      ),
+      data: { reminders: items, returned: items.length, ...page },
+    };
+  }, 'read reminders');
+};
+
+const BATCH_STATUS_LABELS: Record<BatchItemStatus, string> = {
+  success: 'succeeded',
+  error: 'failed',
+  skipped: 'skipped',
+};
+
+/**
+ * A validated batch operation. Like the delete action, a delete without
+ * permanent moves the reminder to the trash; it becomes an update once the
+ * reminder's list is known.
+ */
+type PreparedBatchOperation =
+  | ReminderBatchOperation
+  | { action: 'trash'; id: string };
+
+/**
+ * Validates a batch operation with the schema of its action.
+ * Returns the validation message instead of throwing so it can be reported per item.
+ */
+const prepareBatchOperation = (
+  args: ReminderBatchOperationArgs,
+): PreparedBatchOperation | string => {
+  try {
+    switch (args.action) {
+      case 'create':
+        return { action: 'create', data: toCreateReminderData(args) };
+      case 'update':
+        return { action: 'update', data: toUpdateReminderData(args) };
+      case 'delete': {
+        const { id, permanent } = extractAndValidateArgs(
+          args,
+          DeleteReminderSchema,
+        );
+        return permanent ? { action: 'delete', id } : { action: 'trash', id };
+      }
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+/**
+ * Turns trash steps into updates moving each reminder to the trash, reading
+ * the reminders once. A reminder that is missing or already trashed is
+ * reported per item.
+ */
+const resolveTrashMoves = async (
+  prepared: (PreparedBatchOperation | string)[],
+  trashList: string,
+): Promise<(ReminderBatchOperation | string)[]> => {
+  if (
+    !prepared.some(
+      (item) => typeof item !== 'string' && item.action === 'trash',
+    )
+  ) {
+    return prepared as (ReminderBatchOperation | string)[];
+  }
+  const reminders = await reminderRepository.findReminders({
+    showCompleted: true,
+  });
+  const byId = new Map(reminders.map((reminder) => [reminder.id, reminder]));
+  const trashedAt = new Date();
+  return prepared.map((item) => {
+    if (typeof item === 'string' || item.action !== 'trash') return item;
+    const reminder = byId.get(item.id);
+    if (!reminder) {
+      return `Reminder with ID '${item.id}' not found or already in the ${trashList} list. Delete it with permanent: true to remove it for good.`;
+    }
+    return {
+      action: 'update',
+      data: toTrashUpdate(reminder, trashList, trashedAt),
+    };
+  });
+};
+
+/**
+ * Formats a batch item, e.g. '- 2. update failed: Reminder not found'
+ */
+const formatBatchResult = (result: BatchItemResult): string[] => {
+  const label = `- ${result.index + 1}. ${result.action} ${BATCH_STATUS_LABELS[result.status]}`;
+  if (result.reminder) {
+    return [`${label}: "${result.reminder.title}" (ID: ${result.reminder.id})`];
+  }
+  if (result.deletedId) return [`${label}: ID ${result.deletedId}`];
+  if (result.message) return [`${label}: ${result.message}`];
+  return [label];
+};
+
+/**
+ * Resolves the reminder a valid batch operation targets and the changes it
+ * would make
+ */
+const planBatchOperation = async (
+  operation: ReminderBatchOperation,
+): Promise<Pick<BatchDryRunItem, 'reminder' | 'changes'>> => {
+  if (operation.action === 'create') {
+    await requireReminderList(operation.data.list);
+    return {
+      changes: diffFields(undefined, applyReminderCreate(operation.data)),
+    };
+  }
+  const id = operation.action === 'update' ? operation.data.id : operation.id;
+  const reminder = await reminderRepository.findReminderById(id);
+  if (operation.action === 'update') {
+    await requireReminderList(operation.data.list);
+  }
+  return {
+    reminder,
+    changes: diffFields(
+      reminder,
+      operation.action === 'update'
+        ? applyReminderUpdate(reminder, operation.data)
+        : undefined,
+    ),
+  };
+};
+
+/**
+ * Formats a planned batch item with its changes indented below it
+ */
+const formatBatchPlanItem = (item: BatchDryRunItem): string[] => {
+  const label = `- ${item.index + 1}. ${item.action}`;
+  if (item.status === 'error') return [`${label} would fail: ${item.message}`];
+  if (item.status === 'skipped') return [`${label} skipped`];
+  const target = item.reminder
+    ? ` "${item.reminder.title}" (ID: ${item.reminder.id})`
+    : '';
+  return [`${label}${target}`, ...formatFieldChanges(item.changes, '  ')];
+};
+
+const formatBatchPlan = (title: string, plan: BatchDryRunItem[]): string => {
+  const count = (status: BatchItemStatus) =>
+    plan.filter((item) => item.status === status).length;
+  return [
+    formatListMarkdown(title, plan, formatBatchPlanItem, ''),
+    '',
+    `Would succeed: ${count('success')}, fail: ${count('error')}, skipped: ${count('skipped')}`,
+    DRY_RUN_NOTE,
+  ].join('\n');
+};
+
+export const handleBatchReminders = async (
+  args: RemindersToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const { operations, stopOnError, dryRun } = extractAndValidateArgs(
+      args,
+      BatchRemindersSchema,
+    );
+    const trashList = getTrashListName();
+    const validated = (operations as ReminderBatchOperationArgs[]).map(
+      prepareBatchOperation,
+    );
+    const prepared = await resolveTrashMoves(validated, trashList);
+    const movesToTrash = validated.some(
+      (item) => typeof item !== 'string' && item.action === 'trash',
+    );
+
+    if (isDryRun(dryRun)) {
+      // Mirrors a real run: with stopOnError, nothing after a failure runs
+      const plan: BatchDryRunItem[] = [];
+      for (const [index, item] of prepared.entries()) {
+        const { action } = operations[index];
+        if (stopOnError && plan.some(({ status }) => status === 'error')) {
+          plan.push({ index, action, status: 'skipped', changes: [] });
+          continue;
+        }
+        try {
+          if (typeof item === 'string') throw new Error(item);
+          const planned = await planBatchOperation(item);
+          plan.push({ index, action, status: 'success', ...planned });
+        } catch (error) {
+          plan.push({
+            index,
+            action,
+            status: 'error',
+            changes: [],
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      const createsTrashList =
+        movesToTrash && !(await hasReminderList(trashList));
+      return {
+        markdown: [
+          formatBatchPlan('Dry Run: Batch', plan),
+          ...(createsTrashList
+            ? ['', `Would create the "${trashList}" list.`]
+            : []),
+        ].join('\n'),
+        data: { dryRun: true, plan },
+      };
+    }
+
+    // With stopOnError, nothing after the first invalid operation is sent
+    const firstInvalid = prepared.findIndex((item) => typeof item === 'string');
+    const sendable =
+      stopOnError && firstInvalid !== -1
+        ? prepared.slice(0, firstInvalid)
+        : prepared;
+    const runnable = sendable.flatMap((item, index) =>
+      typeof item === 'string' ? [] : [{ index, operation: item }],
+    );
+
+    const results: BatchItemResult[] = operations.map(({ action }, index) => ({
+      index,
+      action,
+      status: 'skipped',
+    }));
+    if (runnable.length > 0) {
+      const sendsTrashMoves = runnable.some(
+        ({ index }) =>
+          typeof validated[index] !== 'string' &&
+          validated[index].action === 'trash',
+      );
+      if (sendsTrashMoves && !(await hasReminderList(trashList))) {
+        await reminderRepository.createReminderList(trashList);
+      }
+      const cliResults = await reminderRepository.runBatch(
+        runnable.map(({ operation }) => operation),
+        stopOnError,
+      );
+      // A move to the trash runs as an update but is reported as the delete it was
+      cliResults.forEach((result, position) => {
+        const { index } = runnable[position];
+        results[index] = { ...result, index, action: operations[index].action };
+      });
+    }
+
+    const halted =
+      stopOnError && results.some((result) => result.status === 'error');
+    prepared.forEach((item, index) => {
+      if (typeof item !== 'string') return;
+      if (halted || (stopOnError && index !== firstInvalid)) return;
+      results[index] = {
+        index,
+        action: operations[index].action,
+        status: 'error',
+        message: item,
+      };
     });
 
-    return formatListMarkdown(
-      'Reminders',
+    const count = (status: BatchItemStatus) =>
+      results.filter((result) => result.status === status).length;
+    const summary = {
+      succeeded: count('success'),
+      failed: count('error'),
+      skipped: count('skipped'),
+    };
+    return {
+      markdown: [
+        formatListMarkdown('Batch Results', results, formatBatchResult, ''),
+        '',
+        `Succeeded: ${summary.succeeded}, failed: ${summary.failed}, skipped: ${summary.skipped}`,
+      ].join('\n'),
+      data: { results, ...summary },
+    };
+  }, 'run reminder batch');
+};
+
+/**
+ * Formats a patch as readable changes, e.g. "completed: true; addTags: #errand"
+ */
+const formatPatch = (patch: ReminderPatch): string =>
+  Object.entries(patch)
+    .filter(([, value]) => value !== undefined)
+    .map(([field, value]) =>
+      Array.isArray(value)
+        ? `${field}: ${value.map((tag) => `#${tag}`).join(' ')}`
+        : `${field}: ${value}`,
+    )
+    .join('; ');
+
+/**
+ * The update a bulk patch makes to one reminder
+ */
+const toPatchUpdateData = (
+  id: string,
+  patch: ReminderPatch,
+): UpdateReminderData => ({
+  id,
+  isCompleted: patch.completed,
+  list: patch.targetList,
+  dueDate: patch.dueDate,
+  priority: patch.priority,
+  addTags: patch.addTags,
+  removeTags: patch.removeTags,
+});
+
+export const handleBulkUpdateReminders = async (
+  args: RemindersToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const { patch, confirm, previewToken, dryRun, ...filters } =
+      extractAndValidateArgs(args, BulkUpdateRemindersSchema);
+    const reminders = await reminderRepository.findReminders(
+      toReminderFilters(filters),
+    );
+    if (reminders.length === 0) {
+      return {
+        markdown:
+          'No reminders match the bulk update filters. Nothing was changed.',
+        data: { total: 0, patch, reminders },
+      };
+    }
+    if (reminders.length > VALIDATION.MAX_BULK_UPDATE_ITEMS) {
+      throw new ValidationError(
+        `Bulk update matches ${reminders.length} reminders, more than the limit of ${VALIDATION.MAX_BULK_UPDATE_ITEMS}. Narrow the filters and preview again.`,
+      );
+    }
+
+    if (isDryRun(dryRun)) {
+      await requireReminderList(patch.targetList);
+      const plan = reminders.map(
+        (reminder, index): BatchDryRunItem => ({
+          index,
+          action: 'update',
+          status: 'success',
+          reminder,
+          changes: diffFields(
+            reminder,
+            applyReminderUpdate(
+              reminder,
+              toPatchUpdateData(reminder.id, patch),
+            ),
+          ),
+        }),
+      );
+      return {
+        markdown: formatBatchPlan('Dry Run: Bulk Update', plan),
+        data: { dryRun: true, total: reminders.length, patch, plan },
+      };
+    }
+
+    // The patch is fingerprinted as given: a relative dueDate such as
+    // "in 2 hours" resolves to a different minute when the confirmation
+    // comes in later, and would otherwise never match its preview
+    const token = createPreviewToken({
+      ids: reminders.map((reminder) => reminder.id).sort(),
+      patch: Object.entries(args.patch ?? {}).sort(([a], [b]) =>
+        a.localeCompare(b),
+      ),
+    });
+    if (!confirm) {
+      return {
+        markdown: [
+          formatListMarkdown(
+            'Bulk Update Preview',
+            reminders,
+            (reminder) => [
+              `- ${reminder.isCompleted ? '[x]' : '[ ]'} ${reminder.title} (ID: ${reminder.id})`,
+            ],
+            '',
+          ),
+          '',
+          `Changes: ${formatPatch(patch)}`,
+          `Nothing has been changed yet. To apply, repeat this call with confirm: true and previewToken: "${token}".`,
+        ].join('\n'),
+        data: {
+          total: reminders.length,
+          patch,
+          reminders,
+          previewToken: token,
+        },
+      };
+    }
+    if (previewToken !== token) {
+      throw new ValidationError(
+        'The matching reminders or patch changed since the preview. Preview again to get a new previewToken.',
+      );
+    }
+
+    const results = await reminderRepository.runBatch(
+      reminders.map((reminder) => ({
+        action: 'update',
+        data: toPatchUpdateData(reminder.id, patch),
+      })),
+      false,
+    );
+    const failed = results.filter((result) => result.status === 'error');
+    return {
+      markdown: [
+        formatListMarkdown(
+          'Bulk Update Results',
+          results,
+          formatBatchResult,
+          '',
+        ),
+        '',
+        `Changes: ${formatPatch(patch)}`,
+        `Updated: ${results.length - failed.length}, failed: ${failed.length}`,
+      ].join('\n'),
+      data: {
+        total: reminders.length,
+        patch,
+        results,
+        updated: results.length - failed.length,
+        failed: failed.length,
+      },
+    };
+  }, 'bulk update reminders');
+};
+
+/**
+ * Formats a duplicate group; the first reminder is the one merging keeps
+ */
+const formatDuplicateReminderGroup = (group: Reminder[]): string[] => [
+  `- "${group[0].title}" in ${group[0].list} (${group.length} reminders)`,
+  ...group.map(
+    (reminder, index) =>
+      `  - ${index === 0 ? 'Keep' : 'Merge'}: ${reminder.isCompleted ? '[x]' : '[ ]'} ${reminder.title} (ID: ${reminder.id}${reminder.dueDate ? `, due ${reminder.dueDate}` : ''})`,
+  ),
+];
+
+export const handleFindDuplicateReminders = async (
+  args: RemindersToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const {
+      similarity,
+      maxDaysApart,
+      merge,
+      previewToken,
+      permanent,
+      dryRun,
+      ...filters
+    } = extractAndValidateArgs(args, FindDuplicateRemindersSchema);
+    const reminders = await reminderRepository.findReminders(
+      toReminderFilters(filters),
+    );
+    // Open reminders are kept over completed ones, then the earliest created
+    const groups = findDuplicateGroups(
       reminders,
-      formatReminderMarkdown,
-      'No reminders found matching the criteria.',
+      (reminder) => ({
+        id: reminder.id,
+        title: reminder.title,
+        scope: reminder.list,
+        date: reminder.dueDate,
+        created: reminder.creationDate,
+      }),
+      { similarity, maxDaysApart },
+    ).map((group) =>
+      group.sort((a, b) => Number(a.isCompleted) - Number(b.isCompleted)),
     );
-  }, 'read reminders');
+    const duplicateCount = groups.reduce(
+      (total, group) => total + group.length - 1,
+      0,
+    );
+    const token = createPreviewToken(
+      groups.map((group) => group.map((reminder) => reminder.id)),
+    );
+
+    if (groups.length === 0) {
+      return {
+        markdown: 'No duplicate reminders found. Nothing was changed.',
+        data: { groups, total: 0, duplicates: 0 },
+      };
+    }
+    if (!merge) {
+      return {
+        markdown: [
+          formatListMarkdown(
+            'Duplicate Reminders',
+            groups,
+            formatDuplicateReminderGroup,
+            '',
+          ),
+          '',
+          `Nothing has been changed yet. To merge, repeat this call with merge: true and previewToken: "${token}". Each group keeps its first reminder, adds the other reminders' notes to it and moves them to ${getTrashListName()}, or deletes them for good with permanent: true.`,
+        ].join('\n'),
+        data: {
+          groups,
+          total: groups.length,
+          duplicates: duplicateCount,
+          previewToken: token,
+        },
+      };
+    }
+
+    if (previewToken !== token) {
+      throw new ValidationError(
+        'The duplicate reminders changed since find-duplicates ran. Run it again to get a new previewToken.',
+      );
+    }
+    if (duplicateCount > VALIDATION.MAX_BULK_UPDATE_ITEMS) {
+      throw new ValidationError(
+        `Merging would delete ${duplicateCount} reminders, more than the limit of ${VALIDATION.MAX_BULK_UPDATE_ITEMS}. Narrow the filters and run find-duplicates again.`,
+      );
+    }
+
+    // Each step changes one reminder; updates carry the reminder as it will be.
+    // Like the delete action, duplicates move to the trash unless permanent.
+    const trashList = getTrashListName();
+    if (!permanent && groups.flat().some(isTrashed)) {
+      throw new ValidationError(
+        `These duplicates are already in the ${trashList} list. Merge them with permanent: true to delete them for good.`,
+      );
+    }
+    const trashedAt = new Date();
+    const steps = groups.flatMap(([kept, ...duplicates]) => {
+      const notes = mergeNotes(
+        [kept, ...duplicates].map((reminder) => reminder.notes),
+      );
+      const groupSteps: {
+        action: BatchOperationAction;
+        operation: ReminderBatchOperation;
+        reminder: Reminder;
+        after?: Reminder;
+      }[] =
+        notes === kept.notes?.trim()
+          ? []
+          : [
+              {
+                action: 'update',
+                operation: { action: 'update', data: { id: kept.id, notes } },
+                reminder: kept,
+                after: { ...kept, notes },
+              },
+            ];
+      for (const duplicate of duplicates) {
+        const data = toTrashUpdate(duplicate, trashList, trashedAt);
+        groupSteps.push(
+          permanent
+            ? {
+                action: 'delete',
+                operation: { action: 'delete', id: duplicate.id },
+                reminder: duplicate,
+              }
+            : {
+                action: 'delete',
+                operation: { action: 'update', data },
+                reminder: duplicate,
+                after: applyReminderUpdate(duplicate, data),
+              },
+        );
+      }
+      return groupSteps;
+    });
+    const createsTrashList = !permanent && !(await hasReminderList(trashList));
+    if (isDryRun(dryRun)) {
+      const plan = steps.map(
+        ({ action, reminder, after }, index): BatchDryRunItem => ({
+          index,
+          action,
+          status: 'success',
+          reminder,
+          changes: diffFields(reminder, after),
+        }),
+      );
+      return {
+        markdown: [
+          formatBatchPlan('Dry Run: Merge', plan),
+          ...(createsTrashList
+            ? ['', `Would create the "${trashList}" list.`]
+            : []),
+        ].join('\n'),
+        data: { dryRun: true, groups, plan },
+      };
+    }
+
+    if (createsTrashList)
+      await reminderRepository.createReminderList(trashList);
+    // Stop at the first failure so no reminder is deleted before its notes are kept
+    const results = (
+      await reminderRepository.runBatch(
+        steps.map(({ operation }) => operation),
+        true,
+      )
+    ).map((result, index) => ({ ...result, action: steps[index].action }));
+    const count = (status: BatchItemStatus) =>
+      results.filter((result) => result.status === status).length;
+    const summary = {
+      succeeded: count('success'),
+      failed: count('error'),
+      skipped: count('skipped'),
+    };
+    return {
+      markdown: [
+        formatListMarkdown('Merge Results', results, formatBatchResult, ''),
+        '',
+        `Groups: ${groups.length}, succeeded: ${summary.succeeded}, failed: ${summary.failed}, skipped: ${summary.skipped}`,
+      ].join('\n'),
+      data: { groups, results, ...summary },
+    };
+  }, 'find duplicate reminders');
+};
+
+export const handlePurgeTrash = async (
+  args: RemindersToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const { olderThanDays, dryRun } = extractAndValidateArgs(
+      args,
+      PurgeTrashSchema,
+    );
+    const trashList = getTrashListName();
+    const trashed = await reminderRepository.findReminders({
+      list: trashList,
+      showCompleted: true,
+    });
+    // Only reminders delete moved here; others in a list of that name stay
+    const expired = trashed.filter(
+      (reminder) =>
+        isTrashed(reminder) && isTrashExpired(reminder, olderThanDays),
+    );
+    if (expired.length === 0) {
+      return {
+        markdown: `No reminders in ${trashList} are ${olderThanDays} or more days old. Nothing was changed.`,
+        data: { trashList, purged: 0, remaining: 0 },
+      };
+    }
+
+    // One batch per call; anything beyond it is left for the next purge
+    const purgeable = expired.slice(0, VALIDATION.MAX_BATCH_OPERATIONS);
+    const remaining = expired.length - purgeable.length;
+    const remainingNote =
+      remaining > 0
+        ? [`${remaining} more remain; run purge-trash again to remove them.`]
+        : [];
+    if (isDryRun(dryRun)) {
+      const plan = purgeable.map(
+        (reminder, index): BatchDryRunItem => ({
+          index,
+          action: 'delete',
+          status: 'success',
+          reminder,
+          changes: diffFields(reminder),
+        }),
+      );
+      return {
+        markdown: [
+          formatBatchPlan(`Dry Run: Purge ${trashList}`, plan),
+          ...remainingNote,
+        ].join('\n'),
+        data: { dryRun: true, trashList, plan, remaining },
+      };
+    }
+
+    const results = await reminderRepository.runBatch(
+      purgeable.map((reminder) => ({ action: 'delete', id: reminder.id })),
+      false,
+    );
+    const failed = results.filter((result) => result.status === 'error');
+    return {
+      markdown: [
+        formatListMarkdown(
+          `Purged from ${trashList}`,
+          results,
+          formatBatchResult,
+          '',
+        ),
+        '',
+        `Purged: ${results.length - failed.length}, failed: ${failed.length}`,
+        ...remainingNote,
+      ].join('\n'),
+      data: {
+        trashList,
+        results,
+        purged: results.length - failed.length,
+        failed: failed.length,
+        remaining,
+      },
+    };
+  }, 'purge trash');
 };
@@ -0,0 +1,113 @@
+/**
+ * handlers/searchHandlers.ts
+ * Handlers for searching reminders and calendar events together
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { SearchToolArgs } from '../../types/index.js';
+import { SEARCH_ITEM_TYPES } from '../../types/index.js';
+import { calendarRepository } from '../../utils/calendarRepository.js';
+import {
+  resolveRangeEnd,
+  toLocalDateTimeString,
+} from '../../utils/dateUtils.js';
+import { handleAsyncOperation } from '../../utils/errorHandling.js';
+import { paginate } from '../../utils/pagination.js';
+import { reminderRepository } from '../../utils/reminderRepository.js';
+import { type SearchResult, searchItems } from '../../utils/search.js';
+import { SearchAllSchema } from '../../validation/schemas.js';
+import {
+  extractAndValidateArgs,
+  formatListMarkdown,
+  formatResolvedDates,
+} from './shared.js';
+
+/**
+ * Formats a search result with its type label and the fields that matched
+ */
+const formatSearchResult = (result: SearchResult): string[] => {
+  const lines =
+    result.type === 'reminder'
+      ? [
+          `- [Reminder] ${result.item.isCompleted ? '[x]' : '[ ]'} ${result.item.title}`,
+          `  - ID: ${result.item.id}`,
+          `  - List: ${result.item.list}`,
+          ...(result.item.dueDate ? [`  - Due: ${result.item.dueDate}`] : []),
+        ]
+      : [
+          `- [Event] ${result.item.title}`,
+          `  - ID: ${result.item.id}`,
+          `  - Calendar: ${result.item.calendar}`,
+          `  - Start: ${result.item.startDate}`,
+          `  - End: ${result.item.endDate}`,
+          ...(result.item.location
+            ? [`  - Location: ${result.item.location}`]
+            : []),
+        ];
+  if (result.item.url && result.matchedFields.includes('url')) {
+    lines.push(`  - URL: ${result.item.url}`);
+  }
+  lines.push(`  - Matched: ${result.matchedFields.join(', ')}`);
+  return lines;
+};
+
+export const handleSearchAll = async (
+  args?: SearchToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const validatedArgs = extractAndValidateArgs(args, SearchAllSchema);
+    const types = validatedArgs.types ?? SEARCH_ITEM_TYPES;
+
+    const reminders = types.includes('reminder')
+      ? await reminderRepository.findReminders({
+          list: validatedArgs.filterList,
+          showCompleted: validatedArgs.showCompleted,
+          dueAfter: validatedArgs.startDate,
+          dueBefore: validatedArgs.endDate,
+        })
+      : [];
+    // Like dueBefore, a date-only endDate includes that whole day
+    const eventsEnd = validatedArgs.endDate
+      ? resolveRangeEnd(validatedArgs.endDate)
+      : undefined;
+    const events = types.includes('event')
+      ? await calendarRepository.findEvents({
+          startDate: validatedArgs.startDate,
+          endDate: eventsEnd ? toLocalDateTimeString(eventsEnd) : undefined,
+          calendarName: validatedArgs.filterCalendar,
+        })
+      : [];
+
+    const results = searchItems(validatedArgs.query, reminders, events);
+    const { items, ...page } = paginate(results, validatedArgs);
+
+    const resolvedDates = formatResolvedDates([
+      {
+        label: 'Start',
+        input: args?.startDate,
+        resolved: validatedArgs.startDate,
+      },
+      { label: 'End', input: args?.endDate, resolved: validatedArgs.endDate },
+    ]);
+    const markdown = [
+      ...resolvedDates,
+      ...(resolvedDates.length ? [''] : []),
+      formatListMarkdown(
+        `Search Results for "${validatedArgs.query}"`,
+        items,
+        formatSearchResult,
+        'No reminders or events match the query.',
+        page,
+      ),
+    ].join('\n');
+    return {
+      markdown,
+      data: {
+        query: validatedArgs.query,
+        results: items,
+        returned: items.length,
+        ...page,
+      },
+    };
+  }, 'search reminders and events');
+};
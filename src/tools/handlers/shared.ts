@@ -3,13 +3,23 @@
  * Shared helper functions for all handlers
  */
 
-import type { ZodSchema } from 'zod/v3';
+import crypto from 'node:crypto';
+import type { ZodType, ZodTypeDef } from 'zod/v3';
 import type {
+  AgendaToolArgs,
+  Alarm,
+  AuditToolArgs,
+  AvailabilityToolArgs,
   CalendarsToolArgs,
   CalendarToolArgs,
+  FieldChange,
   ListsToolArgs,
   RemindersToolArgs,
+  SearchToolArgs,
+  TagsToolArgs,
+  UndoToolArgs,
 } from '../../types/index.js';
+import type { Page } from '../../utils/pagination.js';
 import { validateInput } from '../../validation/schemas.js';
 
 /**
@@ -21,23 +31,37 @@ export const extractAndValidateArgs = <T>(
     | ListsToolArgs
     | CalendarToolArgs
     | CalendarsToolArgs
+    | TagsToolArgs
+    | AvailabilityToolArgs
+    | SearchToolArgs
+    | AgendaToolArgs
+    | UndoToolArgs
+    | AuditToolArgs
     | undefined,
-  schema: ZodSchema<T>,
+  schema: ZodType<T, ZodTypeDef, unknown>,
 ): T => {
   const { action: _, ...rest } = args ?? {};
   return validateInput(schema, rest);
 };
 
 /**
- * Formats a list of items as markdown with header and empty state message
+ * Formats a list of items as markdown with header and empty state message.
+ * For a page of results, the header also reports how many were returned and
+ * the cursor for the next page follows the list.
  */
 export const formatListMarkdown = <T>(
   title: string,
   items: T[],
   formatItem: (item: T) => string[],
   emptyMessage: string,
+  page?: Omit<Page<T>, 'items'>,
 ): string => {
-  const lines: string[] = [`### ${title} (Total: ${items.length})`, ''];
+  const total = page?.total ?? items.length;
+  const counts =
+    items.length < total
+      ? `Total: ${total}, Returned: ${items.length}`
+      : `Total: ${total}`;
+  const lines: string[] = [`### ${title} (${counts})`, ''];
 
   if (items.length === 0) {
     lines.push(emptyMessage);
@@ -46,10 +70,62 @@ export const formatListMarkdown = <T>(
       lines.push(...formatItem(item));
     });
   }
+  if (page?.nextCursor) {
+    lines.push('', `nextCursor: "${page.nextCursor}"`);
+  }
 
   return lines.join('\n');
 };
 
+/**
+ * Fingerprints what a preview showed so a confirmation only applies to
+ * exactly that
+ */
+export const createPreviewToken = (previewed: unknown): string =>
+  crypto
+    .createHash('sha256')
+    .update(JSON.stringify(previewed))
+    .digest('hex')
+    .slice(0, 16);
+
+const formatChangeValue = (value: unknown): string =>
+  value === undefined ? '(none)' : JSON.stringify(value);
+
+/**
+ * Formats field changes, e.g. '- title: "Call" -> "Call dentist"'
+ */
+export const formatFieldChanges = (
+  changes: FieldChange[],
+  indent = '',
+): string[] =>
+  changes.map(
+    ({ field, before, after }) =>
+      `${indent}- ${field}: ${formatChangeValue(before)} -> ${formatChangeValue(after)}`,
+  );
+
+export const DRY_RUN_NOTE = 'Dry run: nothing was changed.';
+
+/**
+ * Formats what a single create, update or delete would do, e.g.
+ * 'Would update reminder "Call" (ID: r1):' followed by the changed fields
+ */
+export const formatDryRunMessage = (
+  summary: string,
+  changes: FieldChange[],
+  details: string[] = [],
+): string =>
+  [
+    '### Dry Run',
+    '',
+    `Would ${summary}:`,
+    ...(changes.length > 0
+      ? formatFieldChanges(changes)
+      : ['- No fields would change']),
+    ...details,
+    '',
+    DRY_RUN_NOTE,
+  ].join('\n');
+
 /**
  * Formats a success message with ID for created/updated items
  */
@@ -67,6 +143,19 @@ export const formatSuccessMessage = (
   return `${prefix} "${title}".\n- ID: ${id}`;
 };
 
+/**
+ * Echoes dates given in natural language with the absolute value they resolved to,
+ * e.g. '- Due: 2025-03-14 15:00:00 (from "next Friday 3pm")'
+ */
+export const formatResolvedDates = (
+  dates: { label: string; input?: string; resolved?: string }[],
+): string[] =>
+  dates.flatMap(({ label, input, resolved }) =>
+    input && resolved && input.trim() !== resolved
+      ? [`- ${label}: ${resolved} (from "${input.trim()}")`]
+      : [],
+  );
+
 /**
  * Formats a delete success message
  */
@@ -97,3 +186,34 @@ export const formatDeleteMessage = (
   const period = usePeriod ? '.' : '';
   return `Successfully deleted ${itemType} ${idPart}${period}`;
 };
+
+/**
+ * Formats a minute count as a compact duration, e.g. "1 hour 30 minutes"
+ */
+export const formatMinutes = (totalMinutes: number): string => {
+  const units: [number, string][] = [
+    [1440, 'day'],
+    [60, 'hour'],
+    [1, 'minute'],
+  ];
+  const parts: string[] = [];
+  let remaining = totalMinutes;
+  for (const [size, label] of units) {
+    const count = Math.floor(remaining / size);
+    if (count > 0) {
+      parts.push(`${count} ${label}${count > 1 ? 's' : ''}`);
+      remaining -= count * size;
+    }
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Formats an alarm as readable text, e.g. "30 minutes before" or "at 2025-11-04 09:00:00"
+ */
+export const formatAlarm = (alarm: Alarm): string => {
+  if (alarm.date) return `at ${alarm.date}`;
+  const offset = alarm.relativeOffset ?? 0;
+  if (offset === 0) return 'at time of item';
+  return `${formatMinutes(Math.abs(offset))} ${offset < 0 ? 'before' : 'after'}`;
+};
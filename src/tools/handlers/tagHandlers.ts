@@ -0,0 +1,31 @@
+/**
+ * handlers/tagHandlers.ts
+ * Handlers for reminder tag operations
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { TagsToolArgs } from '../../types/index.js';
+import { handleAsyncOperation } from '../../utils/errorHandling.js';
+import { reminderRepository } from '../../utils/reminderRepository.js';
+import { ReadTagsSchema } from '../../validation/schemas.js';
+import { extractAndValidateArgs, formatListMarkdown } from './shared.js';
+
+export const handleReadReminderTags = async (
+  args?: TagsToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    extractAndValidateArgs(args, ReadTagsSchema);
+    const tags = await reminderRepository.findAllTags();
+    return {
+      markdown: formatListMarkdown(
+        'Reminder Tags',
+        tags,
+        (tag) => [
+          `- #${tag.name} (${tag.count} reminder${tag.count === 1 ? '' : 's'})`,
+        ],
+        'No tags found.',
+      ),
+      data: { tags },
+    };
+  }, 'read reminder tags');
+};
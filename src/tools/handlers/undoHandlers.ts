@@ -0,0 +1,312 @@
+/**
+ * handlers/undoHandlers.ts
+ * Handlers for listing and reverting journaled reminder and event changes
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  BatchItemStatus,
+  JournalEntry,
+  Reminder,
+  UndoToolArgs,
+} from '../../types/index.js';
+import { calendarRepository } from '../../utils/calendarRepository.js';
+import { diffFields, isDryRun } from '../../utils/dryRun.js';
+import { handleAsyncOperation } from '../../utils/errorHandling.js';
+import { reminderRepository } from '../../utils/reminderRepository.js';
+import { undoJournal } from '../../utils/undoJournal.js';
+import {
+  ReadUndoJournalSchema,
+  RevertOperationsSchema,
+  ValidationError,
+} from '../../validation/schemas.js';
+import {
+  DRY_RUN_NOTE,
+  extractAndValidateArgs,
+  formatListMarkdown,
+} from './shared.js';
+
+interface RevertResult {
+  operationId: string;
+  /** What the operation did, e.g. 'deleted reminder "Call dentist" (ID: r1)' */
+  description: string;
+  status: BatchItemStatus;
+  /** New ID of an item that was deleted and has been created again */
+  recreatedId?: string;
+  /** Why it failed, or what could not be put back */
+  message?: string;
+}
+
+type RevertOutcome = Pick<RevertResult, 'recreatedId' | 'message'>;
+
+const JOURNAL_DISABLED_MESSAGE =
+  'The undo journal is disabled (UNDO_JOURNAL=off), so there is nothing to undo.';
+
+const PAST_TENSE: Record<JournalEntry['action'], string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+};
+
+/**
+ * Describes an entry, e.g. 'deleted reminder "Call dentist" (ID: r1)'
+ */
+const describeEntry = (entry: JournalEntry): string => {
+  const title = entry.title ? ` "${entry.title}"` : '';
+  return `${PAST_TENSE[entry.action]} ${entry.type}${title} (ID: ${entry.itemId})`;
+};
+
+const formatEntry = (entry: JournalEntry): string[] => [
+  `- ${entry.id} ${entry.timestamp}: ${describeEntry(entry)}${entry.undone ? ' [undone]' : ''}`,
+];
+
+/**
+ * Formats a revert, e.g. '- 1a2b3c4d: deleted reminder "Call" (ID: r1) - restored as ID r9'
+ */
+const formatRevertResult = (result: RevertResult): string[] => {
+  const label = `- ${result.operationId}: ${result.description}`;
+  if (result.status === 'error')
+    return [`${label} - failed: ${result.message}`];
+  if (result.status === 'skipped') return [`${label} - skipped`];
+  const note = result.message ? ` (${result.message})` : '';
+  return [
+    result.recreatedId
+      ? `${label} - restored as ID ${result.recreatedId}${note}`
+      : `${label} - reverted${note}`,
+  ];
+};
+
+/**
+ * Notes a parent link undo could not put back because the parent is gone
+ */
+const describeDroppedParent = (
+  before: Reminder,
+  reverted: Reminder,
+): string | undefined =>
+  before.parentId && reverted.parentId !== before.parentId
+    ? `parent reminder ${before.parentId} no longer exists, so it is no longer a subtask`
+    : undefined;
+
+const requireBeforeImage = <T>(entry: JournalEntry, before?: T): T => {
+  if (!before) {
+    throw new ValidationError(
+      `Operation ${entry.id} has no recorded before-image and cannot be undone.`,
+    );
+  }
+  return before;
+};
+
+/**
+ * Refuses to revert a create or update when the item changed after it, since
+ * reverting would overwrite the later change. Entries journaled without an
+ * after-image are not checked.
+ */
+const requireUnchangedSince = async (entry: JournalEntry): Promise<void> => {
+  if (entry.action === 'delete' || !entry.after) return;
+  let current: object | undefined;
+  if (entry.type === 'reminder') {
+    [current] = await reminderRepository.findRemindersByIds([entry.itemId]);
+  } else {
+    current = await calendarRepository.findEventOccurrence(entry.itemId, {
+      occurrenceDate: entry.after.isRecurring
+        ? entry.after.occurrenceDate
+        : undefined,
+    });
+  }
+  if (!current) {
+    throw new ValidationError(
+      `Operation ${entry.id} cannot be undone: the ${entry.type} no longer exists.`,
+    );
+  }
+  const changed = diffFields(entry.after, current).map(({ field }) => field);
+  if (changed.length > 0) {
+    throw new ValidationError(
+      `Operation ${entry.id} cannot be undone: the ${entry.type} has changed since (${changed.join(', ')}). Undo the later changes first.`,
+    );
+  }
+};
+
+/**
+ * Reverts one journaled change. Returns the new ID when a deleted item was
+ * created again, and what could not be put back.
+ */
+const revertEntry = async (entry: JournalEntry): Promise<RevertOutcome> => {
+  await requireUnchangedSince(entry);
+  if (entry.type === 'reminder') {
+    switch (entry.action) {
+      case 'create':
+        await reminderRepository.discardReminder(entry.itemId);
+        return {};
+      case 'update': {
+        const before = requireBeforeImage(entry, entry.before);
+        const restored = await reminderRepository.restoreReminder(
+          entry.itemId,
+          before,
+        );
+        return { message: describeDroppedParent(before, restored) };
+      }
+      case 'delete': {
+        const before = requireBeforeImage(entry, entry.before);
+        const recreated = await reminderRepository.recreateReminder(before);
+        return {
+          recreatedId: recreated.id,
+          message: describeDroppedParent(before, recreated),
+        };
+      }
+    }
+  }
+
+  const target = { span: entry.span, occurrenceDate: entry.occurrenceDate };
+  switch (entry.action) {
+    case 'create':
+      // The whole series was created, so all of it goes, not just the first occurrence
+      await calendarRepository.discardEvent(entry.itemId, {
+        span: 'future-events',
+      });
+      return {};
+    case 'update':
+      await calendarRepository.restoreEvent(
+        entry.itemId,
+        requireBeforeImage(entry, entry.before),
+        target,
+      );
+      return {};
+    case 'delete': {
+      const before = requireBeforeImage(entry, entry.before);
+      // Removed occurrences cannot be added back to a series
+      if (before.isRecurring) {
+        throw new ValidationError(
+          `Operation ${entry.id} deleted a recurring event, which cannot be restored.`,
+        );
+      }
+      return {
+        recreatedId: (await calendarRepository.recreateEvent(before)).id,
+      };
+    }
+  }
+};
+
+export const handleReadUndoJournal = async (
+  args: UndoToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const { limit } = extractAndValidateArgs(args, ReadUndoJournalSchema);
+    if (!undoJournal.isEnabled()) {
+      return {
+        markdown: JOURNAL_DISABLED_MESSAGE,
+        data: { entries: [], returned: 0, total: 0 },
+      };
+    }
+    const entries = [...undoJournal.readEntries()].reverse();
+    const items = entries.slice(0, limit);
+    return {
+      markdown: formatListMarkdown(
+        'Undo Journal',
+        items,
+        formatEntry,
+        'No operations have been journaled yet.',
+        { total: entries.length },
+      ),
+      data: { entries: items, returned: items.length, total: entries.length },
+    };
+  }, 'read undo journal');
+};
+
+export const handleRevertOperations = async (
+  args: UndoToolArgs,
+): Promise<CallToolResult> => {
+  return handleAsyncOperation(async () => {
+    const { count, operationId } = extractAndValidateArgs(
+      args,
+      RevertOperationsSchema,
+    );
+    if (!undoJournal.isEnabled()) {
+      throw new ValidationError(JOURNAL_DISABLED_MESSAGE);
+    }
+
+    const entries = undoJournal.readEntries();
+    let targets: JournalEntry[];
+    if (operationId) {
+      const entry = entries.find((candidate) => candidate.id === operationId);
+      if (!entry) {
+        throw new ValidationError(
+          `No journaled operation with ID '${operationId}'.`,
+        );
+      }
+      if (entry.undone) {
+        throw new ValidationError(
+          `Operation '${operationId}' has already been undone.`,
+        );
+      }
+      targets = [entry];
+    } else {
+      targets = entries
+        .filter((entry) => !entry.undone)
+        .slice(-(count ?? 1))
+        .reverse();
+    }
+    if (targets.length === 0) {
+      return {
+        markdown: 'Nothing to undo. Every journaled operation has been undone.',
+        data: { results: [], reverted: 0, failed: 0, skipped: 0 },
+      };
+    }
+    // The server-wide DRY_RUN setting also covers reverts
+    if (isDryRun()) {
+      return {
+        markdown: [
+          formatListMarkdown(
+            'Dry Run: Undo',
+            targets,
+            (entry) => [`- ${entry.id}: would revert ${describeEntry(entry)}`],
+            '',
+          ),
+          '',
+          DRY_RUN_NOTE,
+        ].join('\n'),
+        data: { dryRun: true, entries: targets },
+      };
+    }
+
+    // Newest first; earlier changes may depend on later ones being reverted,
+    // so the first failure skips the rest
+    const results: RevertResult[] = [];
+    for (const entry of targets) {
+      const result = {
+        operationId: entry.id,
+        description: describeEntry(entry),
+      };
+      if (results.some(({ status }) => status === 'error')) {
+        results.push({ ...result, status: 'skipped' });
+        continue;
+      }
+      try {
+        const outcome = await revertEntry(entry);
+        undoJournal.markUndone(entry.id, outcome.recreatedId);
+        results.push({ ...result, status: 'success', ...outcome });
+      } catch (error) {
+        results.push({
+          ...result,
+          status: 'error',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const countStatus = (status: BatchItemStatus) =>
+      results.filter((result) => result.status === status).length;
+    const summary = {
+      reverted: countStatus('success'),
+      failed: countStatus('error'),
+      skipped: countStatus('skipped'),
+    };
+    return {
+      markdown: [
+        formatListMarkdown('Undo Results', results, formatRevertResult, ''),
+        '',
+        `Reverted: ${summary.reverted}, failed: ${summary.failed}, skipped: ${summary.skipped}`,
+      ].join('\n'),
+      data: { results, ...summary },
+    };
+  }, 'undo operations');
+};
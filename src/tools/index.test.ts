@@ -2,15 +2,24 @@
 
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import type {
+  AgendaToolArgs,
+  AuditToolArgs,
+  AvailabilityToolArgs,
   CalendarsToolArgs,
   CalendarToolArgs,
   ListsToolArgs,
   RemindersToolArgs,
+  SearchToolArgs,
+  TagsToolArgs,
+  UndoToolArgs,
 } from '../types/index.js';
+import { auditLog } from '../utils/auditLog.js';
 import { handleToolCall } from './index.js';
 
 // Mock all handler functions
 jest.mock('./handlers/index.js', () => ({
+  handleBatchReminders: jest.fn(),
+  handleBulkUpdateReminders: jest.fn(),
   handleCreateReminder: jest.fn(),
   handleReadReminderLists: jest.fn(),
   handleReadReminders: jest.fn(),
@@ -24,6 +33,17 @@ jest.mock('./handlers/index.js', () => ({
   handleUpdateCalendarEvent: jest.fn(),
   handleDeleteCalendarEvent: jest.fn(),
   handleReadCalendars: jest.fn(),
+  handleReadReminderTags: jest.fn(),
+  handleFindAvailability: jest.fn(),
+  handleFindDuplicateEvents: jest.fn(),
+  handleFindDuplicateReminders: jest.fn(),
+  handlePurgeTrash: jest.fn(),
+  handleRestoreReminder: jest.fn(),
+  handleSearchAll: jest.fn(),
+  handleReadAgenda: jest.fn(),
+  handleReadAuditLog: jest.fn(),
+  handleReadUndoJournal: jest.fn(),
+  handleRevertOperations: jest.fn(),
 }));
 
 jest.mock('./definitions.js', () => ({
@@ -36,21 +56,51 @@ jest.mock('./definitions.js', () => ({
 }));
 
 import {
+  handleBatchReminders,
+  handleBulkUpdateReminders,
   handleCreateCalendarEvent,
   handleCreateReminder,
   handleCreateReminderList,
   handleDeleteCalendarEvent,
   handleDeleteReminder,
   handleDeleteReminderList,
+  handleFindAvailability,
+  handleFindDuplicateEvents,
+  handleFindDuplicateReminders,
+  handlePurgeTrash,
+  handleReadAgenda,
+  handleReadAuditLog,
   handleReadCalendarEvents,
   handleReadCalendars,
   handleReadReminderLists,
   handleReadReminders,
+  handleReadReminderTags,
+  handleReadUndoJournal,
+  handleRestoreReminder,
+  handleRevertOperations,
+  handleSearchAll,
   handleUpdateCalendarEvent,
   handleUpdateReminder,
   handleUpdateReminderList,
 } from './handlers/index.js';
 
+const mockHandleBatchReminders = handleBatchReminders as jest.MockedFunction<
+  typeof handleBatchReminders
+>;
+const mockHandleBulkUpdateReminders =
+  handleBulkUpdateReminders as jest.MockedFunction<
+    typeof handleBulkUpdateReminders
+  >;
+const mockHandleFindDuplicateReminders =
+  handleFindDuplicateReminders as jest.MockedFunction<
+    typeof handleFindDuplicateReminders
+  >;
+const mockHandleRestoreReminder = handleRestoreReminder as jest.MockedFunction<
+  typeof handleRestoreReminder
+>;
+const mockHandlePurgeTrash = handlePurgeTrash as jest.MockedFunction<
+  typeof handlePurgeTrash
+>;
 const mockHandleCreateReminder = handleCreateReminder as jest.MockedFunction<
   typeof handleCreateReminder
 >;
@@ -95,6 +145,10 @@ const mockHandleDeleteCalendarEvent =
   handleDeleteCalendarEvent as jest.MockedFunction<
     typeof handleDeleteCalendarEvent
   >;
+const mockHandleFindDuplicateEvents =
+  handleFindDuplicateEvents as jest.MockedFunction<
+    typeof handleFindDuplicateEvents
+  >;
 const mockHandleReadCalendars = handleReadCalendars as jest.MockedFunction<
   typeof handleReadCalendars
 >;
@@ -131,6 +185,42 @@ describe('Tools Index', () => {
           mockHandleDeleteReminder,
           { action: 'delete' as const, title: 'Delete me' },
         ],
+        [
+          'batch',
+          mockHandleBatchReminders,
+          {
+            action: 'batch' as const,
+            operations: [{ action: 'delete' as const, id: '123' }],
+          },
+        ],
+        [
+          'bulk-update',
+          mockHandleBulkUpdateReminders,
+          {
+            action: 'bulk-update' as const,
+            filterList: 'Groceries',
+            patch: { completed: true },
+          },
+        ],
+        [
+          'find-duplicates',
+          mockHandleFindDuplicateReminders,
+          {
+            action: 'find-duplicates' as const,
+            merge: true,
+            previewToken: 'abc123',
+          },
+        ],
+        [
+          'restore',
+          mockHandleRestoreReminder,
+          { action: 'restore' as const, id: '123' },
+        ],
+        [
+          'purge-trash',
+          mockHandlePurgeTrash,
+          { action: 'purge-trash' as const, olderThanDays: 7 },
+        ],
       ])(
         'should route reminders_tasks action=%s correctly',
         async (_action, mockHandler, args) => {
@@ -413,6 +503,11 @@ describe('Tools Index', () => {
         mockHandleDeleteCalendarEvent,
         { action: 'delete' as const, id: 'event-123' },
       ],
+      [
+        'find-duplicates',
+        mockHandleFindDuplicateEvents,
+        { action: 'find-duplicates' as const, filterCalendar: 'Work' },
+      ],
     ])(
       'should route calendar_events action=%s correctly',
       async (_action, mockHandler, args) => {
@@ -492,4 +587,300 @@ describe('Tools Index', () => {
       expect(result).toEqual(expectedResult);
     });
   });
+
+  describe('reminders_tags tool routing', () => {
+    it('should route read action and dot alias to handleReadReminderTags', async () => {
+      const expectedResult: CallToolResult = {
+        content: [{ type: 'text', text: 'Tags listed' }],
+        isError: false,
+      };
+      const mockHandleReadReminderTags =
+        handleReadReminderTags as jest.MockedFunction<
+          typeof handleReadReminderTags
+        >;
+      mockHandleReadReminderTags.mockResolvedValue(expectedResult);
+
+      await expect(
+        handleToolCall('reminders_tags', { action: 'read' } as TagsToolArgs),
+      ).resolves.toEqual(expectedResult);
+      await expect(
+        handleToolCall('reminders.tags', { action: 'read' } as TagsToolArgs),
+      ).resolves.toEqual(expectedResult);
+      expect(mockHandleReadReminderTags).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('calendar_availability tool routing', () => {
+    it('should route read action and dot alias to handleFindAvailability', async () => {
+      const expectedResult: CallToolResult = {
+        content: [{ type: 'text', text: 'Free slots' }],
+        isError: false,
+      };
+      const mockHandleFindAvailability =
+        handleFindAvailability as jest.MockedFunction<
+          typeof handleFindAvailability
+        >;
+      mockHandleFindAvailability.mockResolvedValue(expectedResult);
+      const args: AvailabilityToolArgs = {
+        action: 'read',
+        startDate: '2025-03-10',
+        endDate: '2025-03-14',
+      };
+
+      await expect(
+        handleToolCall('calendar_availability', args),
+      ).resolves.toEqual(expectedResult);
+      await expect(
+        handleToolCall('calendar.availability', args),
+      ).resolves.toEqual(expectedResult);
+      expect(mockHandleFindAvailability).toHaveBeenCalledWith(args);
+      expect(mockHandleFindAvailability).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('search_all tool routing', () => {
+    it('should route read action and dot alias to handleSearchAll', async () => {
+      const expectedResult: CallToolResult = {
+        content: [{ type: 'text', text: 'Search results' }],
+        isError: false,
+      };
+      const mockHandleSearchAll = handleSearchAll as jest.MockedFunction<
+        typeof handleSearchAll
+      >;
+      mockHandleSearchAll.mockResolvedValue(expectedResult);
+      const args: SearchToolArgs = { action: 'read', query: 'budget' };
+
+      await expect(handleToolCall('search_all', args)).resolves.toEqual(
+        expectedResult,
+      );
+      await expect(handleToolCall('search.all', args)).resolves.toEqual(
+        expectedResult,
+      );
+      expect(mockHandleSearchAll).toHaveBeenCalledWith(args);
+      expect(mockHandleSearchAll).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('agenda tool routing', () => {
+    it('should route read action to handleReadAgenda', async () => {
+      const expectedResult: CallToolResult = {
+        content: [{ type: 'text', text: 'Agenda' }],
+        isError: false,
+      };
+      const mockHandleReadAgenda = handleReadAgenda as jest.MockedFunction<
+        typeof handleReadAgenda
+      >;
+      mockHandleReadAgenda.mockResolvedValue(expectedResult);
+      const args: AgendaToolArgs = { action: 'read', period: 'week' };
+
+      await expect(handleToolCall('agenda', args)).resolves.toEqual(
+        expectedResult,
+      );
+      expect(mockHandleReadAgenda).toHaveBeenCalledWith(args);
+    });
+  });
+
+  describe('undo tool routing', () => {
+    it('should route read and revert actions to their handlers', async () => {
+      const expectedResult: CallToolResult = {
+        content: [{ type: 'text', text: 'Undo' }],
+        isError: false,
+      };
+      const mockHandleReadUndoJournal =
+        handleReadUndoJournal as jest.MockedFunction<
+          typeof handleReadUndoJournal
+        >;
+      const mockHandleRevertOperations =
+        handleRevertOperations as jest.MockedFunction<
+          typeof handleRevertOperations
+        >;
+      mockHandleReadUndoJournal.mockResolvedValue(expectedResult);
+      mockHandleRevertOperations.mockResolvedValue(expectedResult);
+      const readArgs: UndoToolArgs = { action: 'read', limit: 5 };
+      const revertArgs: UndoToolArgs = { action: 'revert', count: 2 };
+
+      await expect(handleToolCall('undo', readArgs)).resolves.toEqual(
+        expectedResult,
+      );
+      await expect(handleToolCall('undo', revertArgs)).resolves.toEqual(
+        expectedResult,
+      );
+      expect(mockHandleReadUndoJournal).toHaveBeenCalledWith(readArgs);
+      expect(mockHandleRevertOperations).toHaveBeenCalledWith(revertArgs);
+    });
+  });
+
+  describe('audit_log tool routing', () => {
+    it('should route read action to handleReadAuditLog', async () => {
+      const expectedResult: CallToolResult = {
+        content: [{ type: 'text', text: 'Audit' }],
+        isError: false,
+      };
+      const mockHandleReadAuditLog = handleReadAuditLog as jest.MockedFunction<
+        typeof handleReadAuditLog
+      >;
+      mockHandleReadAuditLog.mockResolvedValue(expectedResult);
+      const args: AuditToolArgs = { action: 'read', id: 'r1' };
+
+      await expect(handleToolCall('audit_log', args)).resolves.toEqual(
+        expectedResult,
+      );
+      expect(mockHandleReadAuditLog).toHaveBeenCalledWith(args);
+    });
+  });
+
+  describe('auditing', () => {
+    const context = { client: 'test-client/1.0.0', sessionId: 'session-1' };
+    let recordSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(auditLog, 'isEnabled').mockReturnValue(true);
+      recordSpy = jest.spyOn(auditLog, 'record').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('records a mutating call with its affected IDs and caller', async () => {
+      mockHandleDeleteReminder.mockResolvedValue({
+        content: [{ type: 'text', text: 'Moved' }],
+        structuredContent: { reminder: { id: 'r1' }, trashList: 'Trash' },
+        isError: false,
+      });
+      const args: RemindersToolArgs = { action: 'delete', id: 'r1' };
+
+      await handleToolCall('reminders.tasks', args, context);
+
+      expect(recordSpy).toHaveBeenCalledWith({
+        timestamp: expect.any(String),
+        tool: 'reminders_tasks',
+        action: 'delete',
+        arguments: args,
+        affectedIds: ['r1'],
+        outcome: 'success',
+        error: undefined,
+        ...context,
+      });
+    });
+
+    it('records failures with the error message', async () => {
+      mockHandleCreateReminder.mockResolvedValue({
+        content: [{ type: 'text', text: 'Failed to create reminder' }],
+        isError: true,
+      });
+
+      await handleToolCall(
+        'reminders_tasks',
+        { action: 'create', title: 'Call dentist' },
+        context,
+      );
+
+      expect(recordSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: 'error',
+          error: 'Failed to create reminder',
+          affectedIds: [],
+        }),
+      );
+    });
+
+    it('does not record reads or dry runs', async () => {
+      const result: CallToolResult = {
+        content: [{ type: 'text', text: 'Done' }],
+        isError: false,
+      };
+      mockHandleReadReminders.mockResolvedValue(result);
+      mockHandleCreateReminder.mockResolvedValue(result);
+
+      await handleToolCall('reminders_tasks', { action: 'read' }, context);
+      await handleToolCall(
+        'reminders_tasks',
+        { action: 'create', title: 'Call dentist', dryRun: true },
+        context,
+      );
+
+      expect(recordSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('output format', () => {
+    const structuredResult: CallToolResult = {
+      content: [{ type: 'text', text: '### Calendars (Total: 1)' }],
+      structuredContent: { calendars: [{ id: 'c1', title: 'Work' }] },
+      isError: false,
+    };
+    const jsonText = JSON.stringify(
+      structuredResult.structuredContent,
+      null,
+      2,
+    );
+
+    beforeEach(() => {
+      mockHandleReadCalendars.mockResolvedValue(structuredResult);
+    });
+
+    it('should keep markdown content by default', async () => {
+      await expect(
+        handleToolCall('calendar_calendars', { action: 'read' }),
+      ).resolves.toEqual(structuredResult);
+    });
+
+    it('should replace the content with JSON for format json', async () => {
+      const result = await handleToolCall('calendar_calendars', {
+        action: 'read',
+        format: 'json',
+      });
+
+      expect(result.content).toEqual([{ type: 'text', text: jsonText }]);
+      expect(result.structuredContent).toEqual(
+        structuredResult.structuredContent,
+      );
+    });
+
+    it('should append JSON after the markdown for format both', async () => {
+      const result = await handleToolCall('calendar_calendars', {
+        action: 'read',
+        format: 'both',
+      });
+
+      expect(result.content).toEqual([
+        { type: 'text', text: '### Calendars (Total: 1)' },
+        { type: 'text', text: jsonText },
+      ]);
+    });
+
+    it('should leave error results unchanged', async () => {
+      const errorResult: CallToolResult = {
+        content: [{ type: 'text', text: 'Failed' }],
+        isError: true,
+      };
+      mockHandleReadCalendars.mockResolvedValue(errorResult);
+
+      await expect(
+        handleToolCall('calendar_calendars', {
+          action: 'read',
+          format: 'json',
+        }),
+      ).resolves.toEqual(errorResult);
+    });
+
+    it('should reject unknown formats without calling handlers', async () => {
+      const result = await handleToolCall('calendar_calendars', {
+        action: 'read',
+        format: 'xml',
+      } as unknown as CalendarsToolArgs);
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: "Unknown format: xml. Use 'markdown', 'json' or 'both'.",
+          },
+        ],
+        isError: true,
+      });
+      expect(mockHandleReadCalendars).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,28 +1,55 @@
 /**
  * tools/index.ts
- * Tool routing: normalizes names, dispatches to handlers
+ * Tool routing: normalizes names, dispatches to handlers, audits changes
  */
 
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import type {
+  AgendaToolArgs,
+  AuditToolArgs,
+  AvailabilityToolArgs,
   CalendarsToolArgs,
   CalendarToolArgs,
   ListsToolArgs,
+  OutputFormat,
   RemindersToolArgs,
+  SearchToolArgs,
+  TagsToolArgs,
+  ToolCallContext,
+  UndoToolArgs,
 } from '../types/index.js';
+import { OUTPUT_FORMATS } from '../types/index.js';
+import {
+  auditLog,
+  collectAffectedIds,
+  isMutatingCall,
+} from '../utils/auditLog.js';
 import { MESSAGES, TOOLS as TOOL_NAMES } from '../utils/constants.js';
 import { TOOLS } from './definitions.js';
 import {
+  handleBatchReminders,
+  handleBulkUpdateReminders,
   handleCreateCalendarEvent,
   handleCreateReminder,
   handleCreateReminderList,
   handleDeleteCalendarEvent,
   handleDeleteReminder,
   handleDeleteReminderList,
+  handleFindAvailability,
+  handleFindDuplicateEvents,
+  handleFindDuplicateReminders,
+  handlePurgeTrash,
+  handleReadAgenda,
+  handleReadAuditLog,
   handleReadCalendarEvents,
   handleReadCalendars,
   handleReadReminderLists,
   handleReadReminders,
+  handleReadReminderTags,
+  handleReadUndoJournal,
+  handleRestoreReminder,
+  handleRevertOperations,
+  handleSearchAll,
   handleUpdateCalendarEvent,
   handleUpdateReminder,
   handleUpdateReminderList,
@@ -38,7 +65,13 @@ type ToolArgs =
   | RemindersToolArgs
   | ListsToolArgs
   | CalendarToolArgs
-  | CalendarsToolArgs;
+  | CalendarsToolArgs
+  | TagsToolArgs
+  | AvailabilityToolArgs
+  | SearchToolArgs
+  | AgendaToolArgs
+  | UndoToolArgs
+  | AuditToolArgs;
 
 type ToolRouter = (args?: ToolArgs) => Promise<CallToolResult>;
 
@@ -46,8 +79,19 @@ type ActionHandler<TArgs extends { action: string }> = (
   args: TArgs,
 ) => Promise<CallToolResult>;
 
-type RoutedToolName = 'reminders_tasks' | 'reminders_lists' | 'calendar_events';
-type ToolName = RoutedToolName | 'calendar_calendars';
+type RoutedToolName =
+  | 'reminders_tasks'
+  | 'reminders_lists'
+  | 'calendar_events'
+  | 'undo';
+type ToolName =
+  | RoutedToolName
+  | 'calendar_calendars'
+  | 'reminders_tags'
+  | 'calendar_availability'
+  | 'search_all'
+  | 'agenda'
+  | 'audit_log';
 
 /**
  * Creates an action router for tools with multiple actions
@@ -83,6 +127,12 @@ const TOOL_ROUTER_MAP = {
       create: (reminderArgs) => handleCreateReminder(reminderArgs),
       update: (reminderArgs) => handleUpdateReminder(reminderArgs),
       delete: (reminderArgs) => handleDeleteReminder(reminderArgs),
+      batch: (reminderArgs) => handleBatchReminders(reminderArgs),
+      'bulk-update': (reminderArgs) => handleBulkUpdateReminders(reminderArgs),
+      'find-duplicates': (reminderArgs) =>
+        handleFindDuplicateReminders(reminderArgs),
+      restore: (reminderArgs) => handleRestoreReminder(reminderArgs),
+      'purge-trash': (reminderArgs) => handlePurgeTrash(reminderArgs),
     },
   ),
   [TOOL_NAMES.REMINDERS_LISTS]: createActionRouter<ListsToolArgs>(
@@ -101,11 +151,32 @@ const TOOL_ROUTER_MAP = {
       create: (calendarArgs) => handleCreateCalendarEvent(calendarArgs),
       update: (calendarArgs) => handleUpdateCalendarEvent(calendarArgs),
       delete: (calendarArgs) => handleDeleteCalendarEvent(calendarArgs),
+      'find-duplicates': (calendarArgs) =>
+        handleFindDuplicateEvents(calendarArgs),
     },
   ),
   [TOOL_NAMES.CALENDAR_CALENDARS]: async (args?: ToolArgs) => {
     return handleReadCalendars(args as CalendarsToolArgs | undefined);
   },
+  [TOOL_NAMES.REMINDERS_TAGS]: async (args?: ToolArgs) => {
+    return handleReadReminderTags(args as TagsToolArgs | undefined);
+  },
+  [TOOL_NAMES.CALENDAR_AVAILABILITY]: async (args?: ToolArgs) => {
+    return handleFindAvailability(args as AvailabilityToolArgs | undefined);
+  },
+  [TOOL_NAMES.SEARCH_ALL]: async (args?: ToolArgs) => {
+    return handleSearchAll(args as SearchToolArgs | undefined);
+  },
+  [TOOL_NAMES.AGENDA]: async (args?: ToolArgs) => {
+    return handleReadAgenda(args as AgendaToolArgs | undefined);
+  },
+  [TOOL_NAMES.UNDO]: createActionRouter<UndoToolArgs>(TOOL_NAMES.UNDO, {
+    read: (undoArgs) => handleReadUndoJournal(undoArgs),
+    revert: (undoArgs) => handleRevertOperations(undoArgs),
+  }),
+  [TOOL_NAMES.AUDIT_LOG]: async (args?: ToolArgs) => {
+    return handleReadAuditLog(args as AuditToolArgs | undefined);
+  },
 } satisfies Record<ToolName, ToolRouter>;
 
 const isManagedToolName = (value: string): value is ToolName =>
@@ -121,18 +192,71 @@ function createErrorResponse(message: string): CallToolResult {
   };
 }
 
+/**
+ * Chooses the text content for the requested format. Successful results keep
+ * their structuredContent; 'json' replaces the markdown with the same data as
+ * JSON text and 'both' appends it after the markdown.
+ */
+function applyOutputFormat(
+  result: CallToolResult,
+  format: OutputFormat = 'markdown',
+): CallToolResult {
+  if (format === 'markdown' || result.isError || !result.structuredContent) {
+    return result;
+  }
+  const json = {
+    type: 'text' as const,
+    text: JSON.stringify(result.structuredContent, null, 2),
+  };
+  return {
+    ...result,
+    content: format === 'json' ? [json] : [...result.content, json],
+  };
+}
+
+/**
+ * Appends a mutating call and its outcome to the audit log
+ */
+function auditToolCall(
+  tool: string,
+  args: ToolArgs | undefined,
+  result: CallToolResult,
+  context: ToolCallContext,
+): void {
+  const callArgs: Record<string, unknown> = { ...args };
+  if (!auditLog.isEnabled() || !isMutatingCall(tool, callArgs)) return;
+  const data = result.structuredContent;
+  const text = result.content.find((item) => item.type === 'text');
+  auditLog.record({
+    timestamp: new Date().toISOString(),
+    tool,
+    action: args?.action,
+    arguments: callArgs,
+    affectedIds: collectAffectedIds(callArgs, result.isError ? {} : data),
+    outcome: result.isError ? 'error' : 'success',
+    error: result.isError && text?.type === 'text' ? text.text : undefined,
+    ...context,
+  });
+}
+
 export async function handleToolCall(
   name: string,
   args?: ToolArgs,
+  context: ToolCallContext = {},
 ): Promise<CallToolResult> {
   const normalizedName = normalizeToolName(name);
 
   if (!isManagedToolName(normalizedName)) {
     return createErrorResponse(MESSAGES.ERROR.UNKNOWN_TOOL(name));
   }
+  if (args?.format && !OUTPUT_FORMATS.includes(args.format)) {
+    return createErrorResponse(MESSAGES.ERROR.UNKNOWN_FORMAT(args.format));
+  }
 
   const router = TOOL_ROUTER_MAP[normalizedName];
-  return router(args);
+  const result = await router(args);
+  auditToolCall(normalizedName, args, result, context);
+  return applyOutputFormat(result, args?.format);
 }
 
 export { TOOLS };
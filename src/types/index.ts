@@ -14,6 +14,60 @@ export interface Reminder {
   url?: string; // Native URL field (currently limited by EventKit API)
   list: string;
   isCompleted: boolean;
+  priority?: ReminderPriority;
+  recurrence?: RecurrenceRule;
+  alarms?: Alarm[];
+  locationTrigger?: LocationTrigger;
+  /** ID of the parent reminder when this reminder is a subtask */
+  parentId?: string;
+  /** Nested subtasks (populated for single-reminder reads) */
+  subtasks?: Reminder[];
+  /** Lowercase tag names without the leading '#' */
+  tags?: string[];
+  creationDate?: string;
+  lastModifiedDate?: string;
+  completionDate?: string;
+}
+
+/**
+ * Recurrence rule shared by reminders and calendar events
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Repeat every N periods (defaults to 1) */
+  interval?: number;
+  /** Days of the week the item repeats on */
+  byWeekday?: Weekday[];
+  /** Days of the month the item repeats on (negative values count from the end) */
+  byMonthDay?: number[];
+  /** Stop after this many occurrences */
+  endCount?: number;
+  /** Stop repeating after this date */
+  endDate?: string;
+}
+
+/**
+ * Alarm attached to a reminder or calendar event.
+ * Exactly one of `date` or `relativeOffset` is set.
+ */
+export interface Alarm {
+  /** Absolute trigger time */
+  date?: string;
+  /** Minutes relative to the due/start date (negative values fire before) */
+  relativeOffset?: number;
+}
+
+/**
+ * Geofence that triggers a reminder when arriving at or leaving a place
+ */
+export interface LocationTrigger {
+  /** Display name of the place, e.g. "Home" */
+  title: string;
+  latitude: number;
+  longitude: number;
+  /** Geofence radius in meters */
+  radius?: number;
+  proximity: LocationProximity;
 }
 
 /**
@@ -24,6 +78,14 @@ export interface ReminderList {
   title: string;
 }
 
+/**
+ * Reminder tag with the number of reminders using it
+ */
+export interface TagSummary {
+  name: string;
+  count: number;
+}
+
 /**
  * Calendar event interface
  */
@@ -37,6 +99,34 @@ export interface CalendarEvent {
   location?: string;
   url?: string;
   isAllDay: boolean;
+  isRecurring?: boolean;
+  recurrence?: RecurrenceRule;
+  /** Original start of this occurrence, distinguishing instances of a recurring event */
+  occurrenceDate?: string;
+  alarms?: Alarm[];
+  creationDate?: string;
+  lastModifiedDate?: string;
+  organizer?: Attendee;
+  attendees?: Attendee[];
+  /** The current user's own response to the event, when invited */
+  participationStatus?: ParticipationStatus;
+  /** How the event blocks time (free events do not make the user busy) */
+  availability?: EventAvailability;
+  /** Organizer-controlled status; read-only in EventKit */
+  status?: EventStatus;
+  /** IANA time zone identifier; absent for floating (e.g. all-day) events */
+  timeZone?: string;
+}
+
+/**
+ * Event participant (organizer or attendee), read-only
+ */
+export interface Attendee {
+  name?: string;
+  email?: string;
+  role: AttendeeRole;
+  status: ParticipationStatus;
+  isCurrentUser?: boolean;
 }
 
 /**
@@ -58,16 +148,136 @@ export interface ServerConfig {
 /**
  * Shared type constants for better type safety and consistency
  */
-export type ReminderAction = 'read' | 'create' | 'update' | 'delete';
+export type ReminderAction =
+  | 'read'
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'batch'
+  | 'bulk-update'
+  | 'find-duplicates'
+  | 'restore'
+  | 'purge-trash';
+export type BatchOperationAction = 'create' | 'update' | 'delete';
+export type BatchItemStatus = 'success' | 'error' | 'skipped';
 export type ListAction = 'read' | 'create' | 'update' | 'delete';
-export type CalendarAction = 'read' | 'create' | 'update' | 'delete';
+export type CalendarAction =
+  | 'read'
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'find-duplicates';
 export type CalendarsAction = 'read';
+export type TagsAction = 'read';
+export type AvailabilityAction = 'read';
+export type SearchAction = 'read';
+export type SearchItemType = 'reminder' | 'event';
+export type AgendaAction = 'read';
+export type AgendaPeriod = 'day' | 'week';
+export type UndoAction = 'read' | 'revert';
+export type JournalAction = 'create' | 'update' | 'delete';
+export type AuditAction = 'read';
+export type AuditOutcome = 'success' | 'error';
 export type DueWithinOption =
   | 'today'
   | 'tomorrow'
   | 'this-week'
+  | 'next-week'
+  | 'this-month'
+  | 'next-7-days'
   | 'overdue'
   | 'no-date';
+export type ReminderPriority = 'none' | 'low' | 'medium' | 'high';
+export type EventAvailability =
+  | 'not-supported'
+  | 'busy'
+  | 'free'
+  | 'tentative'
+  | 'unavailable';
+export type EventStatus = 'none' | 'confirmed' | 'tentative' | 'cancelled';
+export type AttendeeRole =
+  | 'unknown'
+  | 'required'
+  | 'optional'
+  | 'chair'
+  | 'non-participant';
+export type ParticipationStatus =
+  | 'unknown'
+  | 'pending'
+  | 'accepted'
+  | 'declined'
+  | 'tentative'
+  | 'delegated'
+  | 'completed'
+  | 'in-process';
+export type TagMatchMode = 'any' | 'all';
+export type LocationProximity = 'enter' | 'leave';
+export type EventSpan = 'this-event' | 'future-events';
+export type ConflictPolicy = 'allow' | 'warn' | 'reject';
+export type ReminderSortField =
+  | 'dueDate'
+  | 'title'
+  | 'list'
+  | 'priority'
+  | 'created';
+export type EventSortField = 'startDate' | 'title' | 'created';
+export type SortOrder = 'asc' | 'desc';
+export type OutputFormat = 'markdown' | 'json' | 'both';
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type Weekday =
+  | 'sunday'
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday';
+
+/**
+ * Outcome of one batch operation, indexed by position in the batch
+ */
+export interface BatchItemResult {
+  index: number;
+  action: BatchOperationAction;
+  status: BatchItemStatus;
+  reminder?: Reminder;
+  deletedId?: string;
+  message?: string;
+}
+
+/**
+ * Outcome of one step of a calendar event merge, indexed by position
+ */
+export interface EventMergeResult {
+  index: number;
+  action: 'update' | 'delete';
+  status: BatchItemStatus;
+  event: CalendarEvent;
+  message?: string;
+}
+
+/**
+ * A field a dry run would change. `before` is absent for a create and
+ * `after` for a delete.
+ */
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * What one batch operation would do in a dry run; 'success' means it passed
+ * validation and the reminder it targets exists
+ */
+export interface BatchDryRunItem {
+  index: number;
+  action: BatchOperationAction;
+  status: BatchItemStatus;
+  reminder?: Reminder;
+  changes: FieldChange[];
+  message?: string;
+}
 
 /**
  * Action constant arrays for enum validation
@@ -77,6 +287,17 @@ export const REMINDER_ACTIONS: readonly ReminderAction[] = [
   'create',
   'update',
   'delete',
+  'batch',
+  'bulk-update',
+  'find-duplicates',
+  'restore',
+  'purge-trash',
+] as const;
+
+export const BATCH_OPERATION_ACTIONS: readonly BatchOperationAction[] = [
+  'create',
+  'update',
+  'delete',
 ] as const;
 
 export const LIST_ACTIONS: readonly ListAction[] = [
@@ -91,21 +312,186 @@ export const CALENDAR_ACTIONS: readonly CalendarAction[] = [
   'create',
   'update',
   'delete',
+  'find-duplicates',
 ] as const;
 
 export const DUE_WITHIN_OPTIONS: readonly DueWithinOption[] = [
   'today',
   'tomorrow',
   'this-week',
+  'next-week',
+  'this-month',
+  'next-7-days',
   'overdue',
   'no-date',
 ] as const;
 
+export const REMINDER_PRIORITIES: readonly ReminderPriority[] = [
+  'none',
+  'low',
+  'medium',
+  'high',
+] as const;
+
+export const EVENT_AVAILABILITIES: readonly EventAvailability[] = [
+  'not-supported',
+  'busy',
+  'free',
+  'tentative',
+  'unavailable',
+] as const;
+
+export const EVENT_STATUSES: readonly EventStatus[] = [
+  'none',
+  'confirmed',
+  'tentative',
+  'cancelled',
+] as const;
+
+export const TAG_MATCH_MODES: readonly TagMatchMode[] = ['any', 'all'] as const;
+
+export const SEARCH_ITEM_TYPES: readonly SearchItemType[] = [
+  'reminder',
+  'event',
+] as const;
+
+export const AGENDA_PERIODS: readonly AgendaPeriod[] = ['day', 'week'] as const;
+
+export const LOCATION_PROXIMITIES: readonly LocationProximity[] = [
+  'enter',
+  'leave',
+] as const;
+
+export const RECURRENCE_FREQUENCIES: readonly RecurrenceFrequency[] = [
+  'daily',
+  'weekly',
+  'monthly',
+  'yearly',
+] as const;
+
+export const EVENT_SPANS: readonly EventSpan[] = [
+  'this-event',
+  'future-events',
+] as const;
+
+export const CONFLICT_POLICIES: readonly ConflictPolicy[] = [
+  'allow',
+  'warn',
+  'reject',
+] as const;
+
+/**
+ * A change made through a repository, with the item as it was before and
+ * after. Creates have no before-image; undoing them deletes the created item.
+ * Deletes have no after-image.
+ */
+export type JournalChange =
+  | {
+      type: 'reminder';
+      action: JournalAction;
+      itemId: string;
+      title?: string;
+      before?: Reminder;
+      after?: Reminder;
+    }
+  | {
+      type: 'event';
+      action: JournalAction;
+      itemId: string;
+      title?: string;
+      before?: CalendarEvent;
+      after?: CalendarEvent;
+      // Occurrence the change targeted, for recurring events
+      span?: EventSpan;
+      occurrenceDate?: string;
+    };
+
+/**
+ * A journaled change with its operation ID
+ */
+export type JournalEntry = JournalChange & {
+  id: string;
+  timestamp: string;
+  undone?: boolean;
+};
+
+export const UNDO_ACTIONS: readonly UndoAction[] = ['read', 'revert'] as const;
+
+export const JOURNAL_ACTIONS: readonly JournalAction[] = [
+  'create',
+  'update',
+  'delete',
+] as const;
+
+/**
+ * One mutating tool call as recorded in the audit log
+ */
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  action?: string;
+  arguments: Record<string, unknown>;
+  // IDs of the reminders, events and lists the call changed
+  affectedIds: string[];
+  outcome: AuditOutcome;
+  error?: string;
+  client?: string;
+  sessionId?: string;
+}
+
+/**
+ * Who made a tool call, as reported by the MCP connection
+ */
+export interface ToolCallContext {
+  // Client name and version, e.g. "claude-desktop/1.2.0"
+  client?: string;
+  sessionId?: string;
+}
+
+export const AUDIT_OUTCOMES: readonly AuditOutcome[] = [
+  'success',
+  'error',
+] as const;
+
+export const REMINDER_SORT_FIELDS: readonly ReminderSortField[] = [
+  'dueDate',
+  'title',
+  'list',
+  'priority',
+  'created',
+] as const;
+
+export const EVENT_SORT_FIELDS: readonly EventSortField[] = [
+  'startDate',
+  'title',
+  'created',
+] as const;
+
+export const SORT_ORDERS: readonly SortOrder[] = ['asc', 'desc'] as const;
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = [
+  'markdown',
+  'json',
+  'both',
+] as const;
+
+export const WEEKDAYS: readonly Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
 /**
  * Base tool arguments interface
  */
 interface BaseToolArgs {
   action: string;
+  // Text content to return: markdown (default), JSON of structuredContent, or both
+  format?: OutputFormat;
 }
 
 /**
@@ -120,6 +506,20 @@ export interface RemindersToolArgs extends BaseToolArgs {
   showCompleted?: boolean;
   search?: string;
   dueWithin?: DueWithinOption;
+  filterPriority?: ReminderPriority;
+  hasLocationTrigger?: boolean;
+  filterTags?: string[];
+  tagMatch?: TagMatchMode;
+  completedAfter?: string;
+  completedBefore?: string;
+  modifiedSince?: string;
+  dueAfter?: string;
+  dueBefore?: string;
+  // Sorting and pagination (for read action)
+  sortBy?: ReminderSortField;
+  sortOrder?: SortOrder;
+  limit?: number;
+  cursor?: string;
   // Single item parameters
   title?: string;
   newTitle?: string;
@@ -127,14 +527,67 @@ export interface RemindersToolArgs extends BaseToolArgs {
   note?: string;
   url?: string;
   completed?: boolean;
+  priority?: ReminderPriority;
+  recurrence?: RecurrenceRule;
+  clearRecurrence?: boolean;
+  parentId?: string;
+  // Alarm parameters (alarms replaces, addAlarms appends, clearAlarms removes all)
+  alarms?: Alarm[];
+  addAlarms?: Alarm[];
+  clearAlarms?: boolean;
+  // Geofence parameters (clearLocationTrigger removes an existing trigger)
+  locationTrigger?: LocationTrigger;
+  clearLocationTrigger?: boolean;
+  // Tag parameters (tags replaces, addTags/removeTags edit the existing tags)
+  tags?: string[];
+  addTags?: string[];
+  removeTags?: string[];
   // Target list for create/update operations
   targetList?: string;
+  // Batch parameters (operations run in order within one CLI invocation)
+  operations?: ReminderBatchOperationArgs[];
+  stopOnError?: boolean;
+  // Bulk update parameters (read filters select the reminders, patch is applied to each)
+  patch?: ReminderPatch;
+  confirm?: boolean;
+  previewToken?: string;
+  // Duplicate detection parameters (merge applies a previewed set of groups)
+  similarity?: number;
+  maxDaysApart?: number;
+  merge?: boolean;
+  // Report what a mutating action would change without changing anything
+  dryRun?: boolean;
+  // Trash parameters (delete moves to the trash unless permanent)
+  permanent?: boolean;
+  olderThanDays?: number;
+}
+
+/**
+ * Changes applied to every reminder matched by a bulk update
+ */
+export interface ReminderPatch {
+  completed?: boolean;
+  targetList?: string;
+  dueDate?: string;
+  priority?: ReminderPriority;
+  addTags?: string[];
+  removeTags?: string[];
+}
+
+/**
+ * A single batch operation: a create/update/delete action with the same
+ * parameters the action accepts on its own
+ */
+export interface ReminderBatchOperationArgs
+  extends Omit<RemindersToolArgs, 'action' | 'operations' | 'stopOnError'> {
+  action: BatchOperationAction;
 }
 
 export interface ListsToolArgs extends BaseToolArgs {
   action: ListAction;
   name?: string;
   newName?: string;
+  dryRun?: boolean;
 }
 
 export interface CalendarToolArgs extends BaseToolArgs {
@@ -144,22 +597,122 @@ export interface CalendarToolArgs extends BaseToolArgs {
   // Filtering parameters (for read action)
   filterCalendar?: string;
   search?: string;
+  attendee?: string;
+  excludeAvailability?: EventAvailability[];
+  excludeStatus?: EventStatus[];
   startDate?: string;
   endDate?: string;
+  // Sorting and pagination (for read action)
+  sortBy?: EventSortField;
+  sortOrder?: SortOrder;
+  limit?: number;
+  cursor?: string;
   // Single item parameters
   title?: string;
   note?: string;
   location?: string;
   url?: string;
   isAllDay?: boolean;
+  availability?: EventAvailability;
+  timeZone?: string;
+  recurrence?: RecurrenceRule;
+  clearRecurrence?: boolean;
+  // Alarm parameters (alarms replaces, addAlarms appends, clearAlarms removes all)
+  alarms?: Alarm[];
+  addAlarms?: Alarm[];
+  clearAlarms?: boolean;
+  // Recurring event targeting for update/delete operations
+  span?: EventSpan;
+  occurrenceDate?: string;
   // Target calendar for create/update operations
   targetCalendar?: string;
+  // What to do when a created or moved event overlaps existing ones (default: warn)
+  onConflict?: ConflictPolicy;
+  // Duplicate detection parameters (merge applies a previewed set of groups)
+  similarity?: number;
+  maxDaysApart?: number;
+  merge?: boolean;
+  previewToken?: string;
+  // Report what a mutating action would change without changing anything
+  dryRun?: boolean;
 }
 
 export interface CalendarsToolArgs extends BaseToolArgs {
   action: CalendarsAction;
 }
 
+export interface TagsToolArgs extends BaseToolArgs {
+  action: TagsAction;
+}
+
+export interface AvailabilityToolArgs extends BaseToolArgs {
+  action: AvailabilityAction;
+  // Range to search (a date-only endDate includes that whole day)
+  startDate?: string;
+  endDate?: string;
+  // Working day boundaries as hours of the day (default 9-18)
+  workingHoursStart?: number;
+  workingHoursEnd?: number;
+  minSlotMinutes?: number;
+  // Calendars to consider (default: all)
+  calendars?: string[];
+  // Time kept clear around busy events
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
+}
+
+export interface SearchToolArgs extends BaseToolArgs {
+  action: SearchAction;
+  query?: string;
+  // Item types to search (default: reminders and events)
+  types?: SearchItemType[];
+  // Scoping: filterList applies to reminders, filterCalendar to events
+  filterList?: string;
+  filterCalendar?: string;
+  showCompleted?: boolean;
+  // Reminders due and events overlapping this range (a date-only endDate includes that whole day)
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface AgendaToolArgs extends BaseToolArgs {
+  action: AgendaAction;
+  // Day to show, or a day in the week to show (default: today)
+  date?: string;
+  period?: AgendaPeriod;
+  // Calendars and reminder lists to include (default: all)
+  calendars?: string[];
+  lists?: string[];
+  showCompleted?: boolean;
+  // Working day used for free gaps (default 9-18)
+  workingHoursStart?: number;
+  workingHoursEnd?: number;
+  minSlotMinutes?: number;
+}
+
+export interface UndoToolArgs extends BaseToolArgs {
+  action: UndoAction;
+  // Number of most recent operations to revert (default: 1)
+  count?: number;
+  // Specific operation to revert instead of the most recent ones
+  operationId?: string;
+  // Number of journal entries to list (for read)
+  limit?: number;
+}
+
+export interface AuditToolArgs extends BaseToolArgs {
+  action: AuditAction;
+  // Entries recorded within this range (a date-only endDate includes that whole day)
+  startDate?: string;
+  endDate?: string;
+  // Only entries for this tool, or that affected this ID
+  tool?: string;
+  id?: string;
+  limit?: number;
+}
+
 /**
  * Prompt-related type exports for consumers that need to interact with the
  * structured MCP prompt registry.
@@ -3,6 +3,20 @@
  * Shared type definitions for repository layer JSON interfaces
  */
 
+import type {
+  Alarm,
+  Attendee,
+  BatchItemStatus,
+  BatchOperationAction,
+  EventAvailability,
+  EventSpan,
+  EventStatus,
+  LocationTrigger,
+  ParticipationStatus,
+  RecurrenceRule,
+  ReminderPriority,
+} from './index.js';
+
 /**
  * JSON interfaces matching the output from EventKitCLI
  */
@@ -15,6 +29,17 @@ export interface ReminderJSON {
   notes: string | null;
   url: string | null;
   dueDate: string | null;
+  /** Raw EventKit priority: 0 = none, 1-4 = high, 5 = medium, 6-9 = low */
+  priority: number;
+  recurrence?: RecurrenceRule | null;
+  alarms: Alarm[];
+  locationTrigger?: LocationTrigger | null;
+  /** Parent reminder ID for subtasks */
+  parentId?: string | null;
+  tags?: string[];
+  creationDate?: string | null;
+  lastModifiedDate?: string | null;
+  completionDate?: string | null;
 }
 
 export interface ListJSON {
@@ -32,6 +57,18 @@ export interface EventJSON {
   location: string | null;
   url: string | null;
   isAllDay: boolean;
+  isRecurring: boolean;
+  recurrence?: RecurrenceRule | null;
+  occurrenceDate?: string | null;
+  alarms: Alarm[];
+  creationDate?: string | null;
+  lastModifiedDate?: string | null;
+  organizer?: Attendee | null;
+  attendees?: Attendee[];
+  participationStatus?: ParticipationStatus | null;
+  availability?: EventAvailability;
+  status?: EventStatus;
+  timeZone?: string | null;
 }
 
 export interface CalendarJSON {
@@ -57,15 +94,41 @@ export interface EventsReadResult {
  * Data interfaces for repository methods
  */
 
-export interface CreateReminderData {
+/**
+ * Alarm changes for create/update operations.
+ * `alarms` replaces all alarms, `addAlarms` appends, `clearAlarms` removes all.
+ */
+export interface AlarmChanges {
+  alarms?: Alarm[];
+  addAlarms?: Alarm[];
+  clearAlarms?: boolean;
+}
+
+/**
+ * Tag changes for create/update operations.
+ * `tags` replaces all tags, `addTags`/`removeTags` edit the existing ones.
+ */
+export interface TagChanges {
+  tags?: string[];
+  addTags?: string[];
+  removeTags?: string[];
+}
+
+export interface CreateReminderData
+  extends Pick<AlarmChanges, 'alarms'>,
+    Pick<TagChanges, 'tags'> {
   title: string;
   list?: string;
   notes?: string;
   url?: string;
   dueDate?: string;
+  priority?: ReminderPriority;
+  recurrence?: RecurrenceRule;
+  locationTrigger?: LocationTrigger;
+  parentId?: string;
 }
 
-export interface UpdateReminderData {
+export interface UpdateReminderData extends AlarmChanges, TagChanges {
   id: string;
   newTitle?: string;
   list?: string;
@@ -73,9 +136,34 @@ export interface UpdateReminderData {
   url?: string;
   isCompleted?: boolean;
   dueDate?: string;
+  priority?: ReminderPriority;
+  recurrence?: RecurrenceRule;
+  clearRecurrence?: boolean;
+  locationTrigger?: LocationTrigger;
+  clearLocationTrigger?: boolean;
+}
+
+/**
+ * A validated reminder mutation sent as part of a batch
+ */
+export type ReminderBatchOperation =
+  | { action: 'create'; data: CreateReminderData }
+  | { action: 'update'; data: UpdateReminderData }
+  | { action: 'delete'; id: string };
+
+/**
+ * Per-operation outcome of a batch, indexed by position in the batch
+ */
+export interface BatchItemResultJSON {
+  index: number;
+  action: BatchOperationAction;
+  status: BatchItemStatus;
+  reminder?: ReminderJSON | null;
+  deletedId?: string | null;
+  message?: string | null;
 }
 
-export interface CreateEventData {
+export interface CreateEventData extends Pick<AlarmChanges, 'alarms'> {
   title: string;
   startDate: string;
   endDate: string;
@@ -84,9 +172,20 @@ export interface CreateEventData {
   location?: string;
   url?: string;
   isAllDay?: boolean;
+  availability?: EventAvailability;
+  timeZone?: string;
+  recurrence?: RecurrenceRule;
+}
+
+/**
+ * Targets a single occurrence (or it and all following ones) of a recurring event
+ */
+export interface EventOccurrenceTarget {
+  span?: EventSpan;
+  occurrenceDate?: string;
 }
 
-export interface UpdateEventData {
+export interface UpdateEventData extends EventOccurrenceTarget, AlarmChanges {
   id: string;
   title?: string;
   startDate?: string;
@@ -96,4 +195,8 @@ export interface UpdateEventData {
   location?: string;
   url?: string;
   isAllDay?: boolean;
+  availability?: EventAvailability;
+  timeZone?: string;
+  recurrence?: RecurrenceRule;
+  clearRecurrence?: boolean;
 }
@@ -0,0 +1,160 @@
+/**
+ * agenda.test.ts
+ * Tests for the combined event and reminder agenda
+ */
+
+import type { CalendarEvent, Reminder } from '../types/index.js';
+import { type AgendaOptions, buildAgenda } from './agenda.js';
+
+const at = (day: number, hour: number, minute = 0): Date =>
+  new Date(2025, 2, day, hour, minute);
+
+const OPTIONS: AgendaOptions = {
+  start: at(10, 0),
+  end: at(11, 0),
+  now: at(10, 8),
+  workingHoursStart: 9,
+  workingHoursEnd: 18,
+  minSlotMinutes: 30,
+};
+
+const event = (overrides: Partial<CalendarEvent>): CalendarEvent => ({
+  id: 'e1',
+  title: 'Meeting',
+  calendar: 'Work',
+  startDate: '2025-03-10 10:00:00',
+  endDate: '2025-03-10 11:00:00',
+  isAllDay: false,
+  ...overrides,
+});
+
+const reminder = (overrides: Partial<Reminder>): Reminder => ({
+  id: 'r1',
+  title: 'Task',
+  isCompleted: false,
+  list: 'Inbox',
+  ...overrides,
+});
+
+describe('buildAgenda', () => {
+  it('merges timed events, timed reminders and free gaps chronologically', () => {
+    const [day] = buildAgenda(
+      [event({ id: 'standup', title: 'Standup' })],
+      [reminder({ id: 'call', dueDate: '2025-03-10 12:30:00' })],
+      OPTIONS,
+    );
+
+    expect(day.date).toBe('2025-03-10');
+    expect(
+      day.timeline.map((entry) => [entry.type, entry.start.slice(11, 16)]),
+    ).toEqual([
+      ['free', '09:00'],
+      ['event', '10:00'],
+      ['free', '11:00'],
+      ['reminder', '12:30'],
+    ]);
+    expect(day.timeline[2]).toMatchObject({
+      end: '2025-03-10 18:00:00',
+      minutes: 420,
+    });
+  });
+
+  it('lists all-day events and date-only reminders separately', () => {
+    const [day] = buildAgenda(
+      [
+        event({
+          id: 'holiday',
+          isAllDay: true,
+          startDate: '2025-03-10',
+          endDate: '2025-03-10',
+        }),
+      ],
+      [reminder({ id: 'report', dueDate: '2025-03-10' })],
+      OPTIONS,
+    );
+
+    expect(day.allDay.map(({ type, item }) => [type, item.id])).toEqual([
+      ['event', 'holiday'],
+      ['reminder', 'report'],
+    ]);
+    expect(day.timeline.map(({ type }) => type)).toEqual(['free']);
+  });
+
+  it('carries incomplete overdue reminders over to today only', () => {
+    const overdue = reminder({ id: 'late', dueDate: '2025-03-07 09:00:00' });
+    const done = reminder({
+      id: 'done',
+      dueDate: '2025-03-07',
+      isCompleted: true,
+    });
+    const week = { ...OPTIONS, end: at(17, 0), now: at(12, 8) };
+
+    const days = buildAgenda([], [overdue, done], week);
+
+    expect(days).toHaveLength(7);
+    expect(days.map((day) => day.overdue.map(({ id }) => id))).toEqual([
+      [],
+      [],
+      ['late'],
+      [],
+      [],
+      [],
+      [],
+    ]);
+    // Weeks entirely in the past have no carry-overs
+    expect(
+      buildAgenda([], [overdue], { ...week, now: at(20, 8) }).flatMap(
+        (day) => day.overdue,
+      ),
+    ).toEqual([]);
+  });
+
+  it('only reports free gaps from now on and ignores free events', () => {
+    const [day] = buildAgenda(
+      [
+        event({ id: 'busy' }),
+        event({
+          id: 'focus',
+          startDate: '2025-03-10 14:00:00',
+          endDate: '2025-03-10 15:00:00',
+          availability: 'free',
+        }),
+      ],
+      [],
+      { ...OPTIONS, now: at(10, 9, 15) },
+    );
+
+    expect(
+      day.timeline
+        .filter((entry) => entry.type === 'free')
+        .map(
+          (entry) => `${entry.start.slice(11, 16)}-${entry.end.slice(11, 16)}`,
+        ),
+    ).toEqual(['09:15-10:00', '11:00-18:00']);
+  });
+
+  it('shows multi-day events on each day they cover', () => {
+    const days = buildAgenda(
+      [
+        event({
+          id: 'trip',
+          startDate: '2025-03-10 20:00:00',
+          endDate: '2025-03-11 10:00:00',
+        }),
+      ],
+      [],
+      { ...OPTIONS, end: at(12, 0) },
+    );
+
+    expect(
+      days.map(
+        ({ timeline }) =>
+          timeline.filter(({ type }) => type === 'event').length,
+      ),
+    ).toEqual([1, 1]);
+    expect(days[1].timeline[0]).toMatchObject({
+      type: 'event',
+      start: '2025-03-10 20:00:00',
+    });
+  });
+});
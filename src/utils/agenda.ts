@@ -0,0 +1,197 @@
+/**
+ * agenda.ts
+ * Builds a day-by-day timeline from calendar events and dated reminders
+ */
+
+import type { CalendarEvent, Reminder } from '../types/index.js';
+import {
+  blocksTime,
+  findFreeSlots,
+  getEventSlot,
+  type TimeSlot,
+} from './availability.js';
+import { getDateStart, toLocalDateTimeString } from './dateUtils.js';
+import { parseReminderDueDate } from './reminderDateParser.js';
+
+// Date-only due dates (optionally with an offset) mark all-day reminders
+const DATE_ONLY_DUE_REGEX = /^\d{4}-\d{2}-\d{2}(?:Z|[+-]\d{2}:?\d{2})?$/i;
+
+export type AgendaItem =
+  | { type: 'event'; item: CalendarEvent }
+  | { type: 'reminder'; item: Reminder };
+
+/**
+ * A timed entry; times are local 'YYYY-MM-DD HH:mm:ss' strings
+ */
+export type AgendaEntry =
+  | { type: 'event'; start: string; end: string; item: CalendarEvent }
+  | { type: 'reminder'; start: string; item: Reminder }
+  | { type: 'free'; start: string; end: string; minutes: number };
+
+export interface AgendaDay {
+  /** Local date, 'YYYY-MM-DD' */
+  date: string;
+  /** Incomplete reminders due before today, carried over to this day */
+  overdue: Reminder[];
+  allDay: AgendaItem[];
+  /** Timed events, timed reminders and free gaps in chronological order */
+  timeline: AgendaEntry[];
+}
+
+export interface AgendaOptions {
+  /** First day of the agenda (inclusive) */
+  start: Date;
+  /** Day after the last day of the agenda (exclusive) */
+  end: Date;
+  /** Current time; overdue reminders carry over to today, and free gaps start from now */
+  now: Date;
+  workingHoursStart: number;
+  workingHoursEnd: number;
+  minSlotMinutes: number;
+}
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const toDateKey = (date: Date): string =>
+  toLocalDateTimeString(date).slice(0, 10);
+
+const slotMinutes = ({ start, end }: TimeSlot): number =>
+  Math.round((end.getTime() - start.getTime()) / 60_000);
+
+// Free gaps sort after anything else starting at the same time
+const ENTRY_TYPE_ORDER: Record<AgendaEntry['type'], number> = {
+  event: 0,
+  reminder: 1,
+  free: 2,
+};
+
+/**
+ * Resolves a reminder's due date to the day it falls on and, for timed
+ * reminders, the due time
+ */
+const getReminderDue = (
+  reminder: Reminder,
+): { day: Date; time?: Date } | undefined => {
+  const dueDate = reminder.dueDate?.trim();
+  if (!dueDate) return undefined;
+  if (DATE_ONLY_DUE_REGEX.test(dueDate)) {
+    const day = parseReminderDueDate(dueDate.slice(0, 10));
+    return day ? { day } : undefined;
+  }
+  const time = parseReminderDueDate(dueDate);
+  return time ? { day: getDateStart(time), time } : undefined;
+};
+
+/**
+ * Groups events and dated reminders into one agenda day per date in the range.
+ * Incomplete reminders due before today are listed once, as overdue on the
+ * first day that is not in the past; past ranges have no carry-overs.
+ * Free gaps are the working-hour slots from now on that no busy event covers.
+ */
+export function buildAgenda(
+  events: CalendarEvent[],
+  reminders: Reminder[],
+  options: AgendaOptions,
+): AgendaDay[] {
+  const { start, end, now } = options;
+  const days = new Map<string, AgendaDay>();
+  for (let day = getDateStart(start); day < end; day = addDays(day, 1)) {
+    const date = toDateKey(day);
+    days.set(date, { date, overdue: [], allDay: [], timeline: [] });
+  }
+  const sortTimes = new Map<AgendaEntry, number>();
+  const addEntry = (day: Date, entry: AgendaEntry, sortTime: Date) => {
+    const agendaDay = days.get(toDateKey(day));
+    if (!agendaDay) return;
+    agendaDay.timeline.push(entry);
+    sortTimes.set(entry, sortTime.getTime());
+  };
+
+  const busy: TimeSlot[] = [];
+  for (const event of events) {
+    const slot = getEventSlot(event);
+    if (!slot || slot.end <= start || slot.start >= end) continue;
+    if (blocksTime(event) && event.availability !== 'free') busy.push(slot);
+
+    // Events spanning several days appear on each day they cover
+    for (
+      let day = getDateStart(slot.start);
+      day < slot.end;
+      day = addDays(day, 1)
+    ) {
+      if (event.isAllDay) {
+        days.get(toDateKey(day))?.allDay.push({ type: 'event', item: event });
+      } else {
+        addEntry(
+          day,
+          {
+            type: 'event',
+            start: toLocalDateTimeString(slot.start),
+            end: toLocalDateTimeString(slot.end),
+            item: event,
+          },
+          slot.start > day ? slot.start : day,
+        );
+      }
+    }
+  }
+
+  const today = getDateStart(now);
+  const carryDay = today > start ? today : getDateStart(start);
+  for (const reminder of reminders) {
+    const due = getReminderDue(reminder);
+    if (!due) continue;
+    if (!reminder.isCompleted && due.day < today) {
+      days.get(toDateKey(carryDay))?.overdue.push(reminder);
+    } else if (due.time) {
+      addEntry(
+        due.day,
+        {
+          type: 'reminder',
+          start: toLocalDateTimeString(due.time),
+          item: reminder,
+        },
+        due.time,
+      );
+    } else {
+      days
+        .get(toDateKey(due.day))
+        ?.allDay.push({ type: 'reminder', item: reminder });
+    }
+  }
+
+  const freeFrom = now > start ? now : start;
+  if (freeFrom < end) {
+    const freeSlots = findFreeSlots(busy, {
+      start: freeFrom,
+      end,
+      workingHoursStart: options.workingHoursStart,
+      workingHoursEnd: options.workingHoursEnd,
+      minSlotMinutes: options.minSlotMinutes,
+      bufferBeforeMinutes: 0,
+      bufferAfterMinutes: 0,
+    });
+    for (const slot of freeSlots) {
+      addEntry(
+        slot.start,
+        {
+          type: 'free',
+          start: toLocalDateTimeString(slot.start),
+          end: toLocalDateTimeString(slot.end),
+          minutes: slotMinutes(slot),
+        },
+        slot.start,
+      );
+    }
+  }
+
+  for (const day of days.values()) {
+    day.timeline.sort(
+      (a, b) =>
+        (sortTimes.get(a) ?? 0) - (sortTimes.get(b) ?? 0) ||
+        ENTRY_TYPE_ORDER[a.type] - ENTRY_TYPE_ORDER[b.type],
+    );
+  }
+  return [...days.values()];
+}
@@ -0,0 +1,125 @@
+/**
+ * auditLog.test.ts
+ * Tests for the audit log and how calls are classified
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { AuditEntry } from '../types/index.js';
+import { auditLog, collectAffectedIds, isMutatingCall } from './auditLog.js';
+import { AUDIT } from './constants.js';
+
+const entry = (overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+  timestamp: '2025-03-10T09:00:00.000Z',
+  tool: 'reminders_tasks',
+  action: 'delete',
+  arguments: { action: 'delete', id: 'r1' },
+  affectedIds: ['r1'],
+  outcome: 'success',
+  ...overrides,
+});
+
+describe('auditLog', () => {
+  let dir: string;
+  let file: string;
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-log-'));
+    file = path.join(dir, 'nested', 'audit.jsonl');
+    process.env = { ...originalEnv, AUDIT_LOG: 'on', AUDIT_LOG_PATH: file };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends one JSON line per entry, read back oldest first', () => {
+    auditLog.record(entry());
+    auditLog.record(entry({ affectedIds: ['r2'] }));
+
+    expect(fs.readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(2);
+    expect(
+      auditLog.readEntries().map(({ affectedIds }) => affectedIds),
+    ).toEqual([['r1'], ['r2']]);
+  });
+
+  it('rotates by size and drops the oldest rotated file', () => {
+    process.env.AUDIT_LOG_MAX_BYTES = '10';
+    for (let i = 0; i <= AUDIT.MAX_ROTATED_FILES + 1; i++) {
+      auditLog.record(entry({ affectedIds: [`r${i}`] }));
+    }
+
+    expect(fs.existsSync(`${file}.${AUDIT.MAX_ROTATED_FILES}`)).toBe(true);
+    expect(fs.existsSync(`${file}.${AUDIT.MAX_ROTATED_FILES + 1}`)).toBe(false);
+    expect(
+      auditLog.readEntries().map(({ affectedIds }) => affectedIds[0]),
+    ).toEqual(['r1', 'r2', 'r3', 'r4']);
+  });
+
+  it('skips unreadable lines and writes nothing when disabled', () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `not json\n${JSON.stringify(entry())}\n`);
+    expect(auditLog.readEntries()).toHaveLength(1);
+
+    process.env.AUDIT_LOG = 'off';
+    auditLog.record(entry());
+    expect(fs.readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(2);
+  });
+});
+
+describe('isMutatingCall', () => {
+  it('only counts actions that change something', () => {
+    expect(isMutatingCall('reminders_tasks', { action: 'delete' })).toBe(true);
+    expect(isMutatingCall('undo', { action: 'revert' })).toBe(true);
+    expect(isMutatingCall('reminders_tasks', { action: 'read' })).toBe(false);
+    expect(isMutatingCall('search_all', { action: 'read' })).toBe(false);
+  });
+
+  it('leaves out previews and dry runs', () => {
+    expect(isMutatingCall('reminders_tasks', { action: 'bulk-update' })).toBe(
+      false,
+    );
+    expect(
+      isMutatingCall('calendar_events', {
+        action: 'find-duplicates',
+        merge: true,
+      }),
+    ).toBe(true);
+    expect(
+      isMutatingCall('calendar_events', { action: 'create', dryRun: true }),
+    ).toBe(false);
+  });
+});
+
+describe('collectAffectedIds', () => {
+  it('gathers IDs from the arguments and each result', () => {
+    expect(
+      collectAffectedIds(
+        { action: 'batch' },
+        {
+          results: [
+            { reminder: { id: 'r1' } },
+            { deletedId: 'r2' },
+            { message: 'failed' },
+            { status: 'skipped', event: { id: 'e9' } },
+          ],
+        },
+      ),
+    ).toEqual(['r1', 'r2']);
+    expect(
+      collectAffectedIds(
+        { action: 'find-duplicates', merge: true },
+        { deletedIds: ['e2', 'e3'] },
+      ),
+    ).toEqual(['e2', 'e3']);
+    expect(
+      collectAffectedIds(
+        { action: 'update', id: 'e1' },
+        { event: { id: 'e1' } },
+      ),
+    ).toEqual(['e1']);
+  });
+});
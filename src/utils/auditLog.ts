@@ -0,0 +1,174 @@
+/**
+ * auditLog.ts
+ * Append-only JSON-lines log of the changes made through the server
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { AuditEntry } from '../types/index.js';
+import { AUDIT, TOOLS } from './constants.js';
+import { isDryRun } from './dryRun.js';
+
+/**
+ * Actions that change reminders, lists or events, per tool
+ */
+const MUTATING_ACTIONS: Record<string, readonly string[]> = {
+  [TOOLS.REMINDERS_TASKS]: [
+    'create',
+    'update',
+    'delete',
+    'batch',
+    'bulk-update',
+    'find-duplicates',
+    'restore',
+    'purge-trash',
+  ],
+  [TOOLS.REMINDERS_LISTS]: ['create', 'update', 'delete'],
+  [TOOLS.CALENDAR_EVENTS]: ['create', 'update', 'delete', 'find-duplicates'],
+  [TOOLS.UNDO]: ['revert'],
+};
+
+/**
+ * Whether a call can change anything. Bulk-update previews, duplicate
+ * listings and dry runs are left out.
+ */
+export function isMutatingCall(
+  tool: string,
+  args: Record<string, unknown>,
+): boolean {
+  const action = String(args.action);
+  if (!MUTATING_ACTIONS[tool]?.includes(action)) return false;
+  if (action === 'bulk-update' && args.confirm !== true) return false;
+  if (action === 'find-duplicates' && args.merge !== true) return false;
+  return !isDryRun(args.dryRun === true);
+}
+
+/**
+ * Collects the IDs a call changed from its arguments and structured result,
+ * including each item of batch, bulk-update, merge and undo results
+ */
+export function collectAffectedIds(
+  args: Record<string, unknown>,
+  data?: Record<string, unknown>,
+): string[] {
+  const ids = new Set<string>();
+  const add = (value: unknown) => {
+    if (typeof value === 'string' && value) ids.add(value);
+  };
+  const addItem = (value: unknown) => {
+    if (value && typeof value === 'object') add((value as { id?: unknown }).id);
+  };
+
+  add(args.id);
+  const results = Array.isArray(data?.results) ? data.results : [];
+  for (const source of [data ?? {}, ...results] as Record<string, unknown>[]) {
+    // Failed and skipped items changed nothing
+    if (source.status === 'error' || source.status === 'skipped') continue;
+    addItem(source.reminder);
+    addItem(source.event);
+    addItem(source.list);
+    add(source.deletedId);
+    add(source.deletedName);
+    add(source.recreatedId);
+    if (Array.isArray(source.deletedIds)) source.deletedIds.forEach(add);
+  }
+  return [...ids];
+}
+
+class AuditLog {
+  /**
+   * Auditing is on unless AUDIT_LOG is set to 'off'
+   */
+  isEnabled(): boolean {
+    return process.env.AUDIT_LOG?.toLowerCase() !== 'off';
+  }
+
+  getPath(): string {
+    return (
+      process.env.AUDIT_LOG_PATH || path.join(os.homedir(), AUDIT.DEFAULT_PATH)
+    );
+  }
+
+  getMaxBytes(): number {
+    const configured = Number(process.env.AUDIT_LOG_MAX_BYTES);
+    return Number.isInteger(configured) && configured > 0
+      ? configured
+      : AUDIT.MAX_FILE_BYTES;
+  }
+
+  /**
+   * Rotated files, newest first: audit.jsonl.1, audit.jsonl.2, ...
+   */
+  private getRotatedPaths(): string[] {
+    const file = this.getPath();
+    return Array.from(
+      { length: AUDIT.MAX_ROTATED_FILES },
+      (_, index) => `${file}.${index + 1}`,
+    );
+  }
+
+  /**
+   * Shifts each rotated file up by one, dropping the oldest, and moves the
+   * current log to audit.jsonl.1
+   */
+  private rotate(): void {
+    const file = this.getPath();
+    const rotated = this.getRotatedPaths();
+    for (let index = rotated.length - 1; index > 0; index--) {
+      if (fs.existsSync(rotated[index - 1])) {
+        fs.renameSync(rotated[index - 1], rotated[index]);
+      }
+    }
+    fs.renameSync(file, rotated[0]);
+  }
+
+  /**
+   * Appends an entry, rotating first when the line would take the log past
+   * its size limit. The call already happened, so a log that cannot be
+   * written is reported on stderr instead of failing it.
+   */
+  record(entry: AuditEntry): void {
+    if (!this.isEnabled()) return;
+    const line = `${JSON.stringify(entry)}\n`;
+    try {
+      const file = this.getPath();
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      const size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+      if (size > 0 && size + Buffer.byteLength(line) > this.getMaxBytes()) {
+        this.rotate();
+      }
+      fs.appendFileSync(file, line, { mode: 0o600 });
+    } catch (error) {
+      console.error(
+        `Failed to write audit log: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Returns entries oldest first across the rotated files and the current
+   * log; missing files and unreadable lines are skipped
+   */
+  readEntries(): AuditEntry[] {
+    const files = [...this.getRotatedPaths().reverse(), this.getPath()];
+    return files.flatMap((file) => {
+      let content: string;
+      try {
+        content = fs.readFileSync(file, 'utf8');
+      } catch {
+        return [];
+      }
+      return content.split('\n').flatMap((line) => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line) as AuditEntry];
+        } catch {
+          return [];
+        }
+      });
+    });
+  }
+}
+
+export const auditLog = new AuditLog();
@@ -0,0 +1,132 @@
+/**
+ * availability.test.ts
+ * Tests for free/busy calculation
+ */
+
+import type { CalendarEvent } from '../types/index.js';
+import {
+  type AvailabilityOptions,
+  blocksTime,
+  findFreeSlots,
+  formatSlotRange,
+  getEventSlot,
+  mergeSlots,
+} from './availability.js';
+
+const at = (day: number, hour: number, minute = 0): Date =>
+  new Date(2025, 2, day, hour, minute);
+
+const OPTIONS: AvailabilityOptions = {
+  start: at(10, 0),
+  end: at(11, 0),
+  workingHoursStart: 9,
+  workingHoursEnd: 18,
+  minSlotMinutes: 30,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 0,
+};
+
+const event = (overrides: Partial<CalendarEvent>): CalendarEvent => ({
+  id: 'e1',
+  title: 'Meeting',
+  calendar: 'Work',
+  startDate: '2025-03-10 10:00:00',
+  endDate: '2025-03-10 11:00:00',
+  isAllDay: false,
+  ...overrides,
+});
+
+describe('findFreeSlots', () => {
+  it('returns the whole working day when nothing is busy', () => {
+    expect(findFreeSlots([], OPTIONS)).toEqual([
+      { start: at(10, 9), end: at(10, 18) },
+    ]);
+  });
+
+  it('splits the day around busy slots and drops short gaps', () => {
+    const busy = [
+      { start: at(10, 10), end: at(10, 11) },
+      { start: at(10, 11, 20), end: at(10, 12) },
+    ];
+
+    expect(findFreeSlots(busy, OPTIONS)).toEqual([
+      { start: at(10, 9), end: at(10, 10) },
+      { start: at(10, 12), end: at(10, 18) },
+    ]);
+  });
+
+  it('keeps buffers clear around busy slots', () => {
+    const busy = [{ start: at(10, 10), end: at(10, 11) }];
+
+    expect(
+      findFreeSlots(busy, {
+        ...OPTIONS,
+        bufferBeforeMinutes: 15,
+        bufferAfterMinutes: 30,
+      }),
+    ).toEqual([
+      { start: at(10, 9), end: at(10, 9, 45) },
+      { start: at(10, 11, 30), end: at(10, 18) },
+    ]);
+  });
+
+  it('clips working hours to the requested range on each day', () => {
+    expect(
+      findFreeSlots([], { ...OPTIONS, start: at(10, 16), end: at(12, 10) }),
+    ).toEqual([
+      { start: at(10, 16), end: at(10, 18) },
+      { start: at(11, 9), end: at(11, 18) },
+      { start: at(12, 9), end: at(12, 10) },
+    ]);
+  });
+});
+
+describe('mergeSlots', () => {
+  it('merges overlapping and touching slots', () => {
+    expect(
+      mergeSlots([
+        { start: at(10, 13), end: at(10, 14) },
+        { start: at(10, 9), end: at(10, 11) },
+        { start: at(10, 10), end: at(10, 12) },
+        { start: at(10, 12), end: at(10, 12, 30) },
+      ]),
+    ).toEqual([
+      { start: at(10, 9), end: at(10, 12, 30) },
+      { start: at(10, 13), end: at(10, 14) },
+    ]);
+  });
+});
+
+describe('event slots', () => {
+  it('covers whole local days for all-day events', () => {
+    expect(
+      getEventSlot(
+        event({
+          isAllDay: true,
+          startDate: '2025-03-10+01:00',
+          endDate: '2025-03-11+01:00',
+        }),
+      ),
+    ).toEqual({ start: at(10, 0), end: at(12, 0) });
+  });
+
+  it.each([
+    [{ isAllDay: false }, true],
+    [{ isAllDay: true }, false],
+    [{ isAllDay: true, availability: 'busy' as const }, true],
+    [{ isAllDay: true, availability: 'unavailable' as const }, true],
+  ])('blocksTime(%j) is %s', (overrides, expected) => {
+    expect(blocksTime(event(overrides))).toBe(expected);
+  });
+});
+
+describe('formatSlotRange', () => {
+  it('shows the date once for slots within a day', () => {
+    expect(formatSlotRange({ start: at(10, 9), end: at(10, 10, 30) })).toBe(
+      '2025-03-10 09:00-10:30',
+    );
+    expect(formatSlotRange({ start: at(10, 22), end: at(11, 1) })).toBe(
+      '2025-03-10 22:00 - 2025-03-11 01:00',
+    );
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * availability.ts
+ * Free/busy calculation over calendar events within working hours
+ */
+
+import type { CalendarEvent } from '../types/index.js';
+import { getDateStart, toLocalDateTimeString } from './dateUtils.js';
+import { parseReminderDueDate } from './reminderDateParser.js';
+
+const MINUTE_MS = 60_000;
+
+/**
+ * A half-open time range [start, end)
+ */
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface AvailabilityOptions {
+  /** Range start (inclusive) */
+  start: Date;
+  /** Range end (exclusive) */
+  end: Date;
+  /** Working day boundaries as hours of the day, e.g. 9 and 18 */
+  workingHoursStart: number;
+  workingHoursEnd: number;
+  /** Shortest free slot worth reporting */
+  minSlotMinutes: number;
+  /** Time kept clear before and after each busy slot */
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+}
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const atHour = (day: Date, hour: number): Date =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour);
+
+/**
+ * All-day events (holidays, birthdays, deadlines) only block time when
+ * explicitly marked busy or unavailable
+ */
+export const blocksTime = (
+  event: Pick<CalendarEvent, 'isAllDay' | 'availability'>,
+): boolean =>
+  !event.isAllDay ||
+  event.availability === 'busy' ||
+  event.availability === 'unavailable';
+
+/**
+ * Returns the time an event occupies; all-day events cover their whole local days
+ */
+export const getEventSlot = (
+  event: Pick<CalendarEvent, 'startDate' | 'endDate' | 'isAllDay'>,
+): TimeSlot | undefined => {
+  if (event.isAllDay) {
+    const start = parseReminderDueDate(event.startDate.slice(0, 10));
+    const lastDay = parseReminderDueDate(event.endDate.slice(0, 10));
+    return start && lastDay ? { start, end: addDays(lastDay, 1) } : undefined;
+  }
+  const start = parseReminderDueDate(event.startDate);
+  const end = parseReminderDueDate(event.endDate);
+  return start && end ? { start, end } : undefined;
+};
+
+/**
+ * Sorts slots and merges the ones that overlap or touch
+ */
+export const mergeSlots = (slots: TimeSlot[]): TimeSlot[] => {
+  const sorted = [...slots].sort(
+    (a, b) => a.start.getTime() - b.start.getTime(),
+  );
+  const merged: TimeSlot[] = [];
+  for (const slot of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && slot.start <= last.end) {
+      if (slot.end > last.end) last.end = slot.end;
+    } else {
+      merged.push({ start: slot.start, end: slot.end });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Finds free slots within working hours on each day of the range,
+ * keeping the configured buffers clear around busy slots
+ */
+export function findFreeSlots(
+  busy: TimeSlot[],
+  options: AvailabilityOptions,
+): TimeSlot[] {
+  const blocked = mergeSlots(
+    busy.map((slot) => ({
+      start: new Date(
+        slot.start.getTime() - options.bufferBeforeMinutes * MINUTE_MS,
+      ),
+      end: new Date(
+        slot.end.getTime() + options.bufferAfterMinutes * MINUTE_MS,
+      ),
+    })),
+  );
+  const minLength = options.minSlotMinutes * MINUTE_MS;
+  const free: TimeSlot[] = [];
+  const pushIfLongEnough = (start: Date, end: Date) => {
+    if (end.getTime() - start.getTime() >= minLength) free.push({ start, end });
+  };
+
+  for (
+    let day = getDateStart(options.start);
+    day < options.end;
+    day = addDays(day, 1)
+  ) {
+    const dayStart = atHour(day, options.workingHoursStart);
+    const dayEnd = atHour(day, options.workingHoursEnd);
+    const windowStart = dayStart > options.start ? dayStart : options.start;
+    const windowEnd = dayEnd < options.end ? dayEnd : options.end;
+    if (windowEnd <= windowStart) continue;
+
+    let cursor = windowStart;
+    for (const slot of blocked) {
+      if (slot.end <= cursor || slot.start >= windowEnd) continue;
+      if (slot.start > cursor) pushIfLongEnough(cursor, slot.start);
+      if (slot.end > cursor) cursor = slot.end;
+    }
+    if (cursor < windowEnd) pushIfLongEnough(cursor, windowEnd);
+  }
+
+  return free;
+}
+
+/**
+ * Formats a slot in local time, e.g. "2025-03-10 09:00-10:30", or with both
+ * dates when it spans midnight
+ */
+export const formatSlotRange = ({ start, end }: TimeSlot): string => {
+  const startText = toLocalDateTimeString(start).slice(0, 16);
+  const endText = toLocalDateTimeString(end).slice(0, 16);
+  return startText.slice(0, 10) === endText.slice(0, 10)
+    ? `${startText}-${endText.slice(11)}`
+    : `${startText} - ${endText}`;
+};
@@ -6,11 +6,14 @@
 import type { Calendar, CalendarEvent } from '../types/index.js';
 import { calendarRepository } from './calendarRepository.js';
 import { executeCli } from './cliExecutor.js';
+import { undoJournal } from './undoJournal.js';
 
 // Mock dependencies
 jest.mock('./cliExecutor.js');
+jest.mock('./undoJournal.js');
 
 const mockExecuteCli = executeCli as jest.MockedFunction<typeof executeCli>;
+const mockUndoJournal = undoJournal as jest.Mocked<typeof undoJournal>;
 
 describe('CalendarRepository', () => {
   const repository = calendarRepository;
@@ -109,6 +112,44 @@ describe('CalendarRepository', () => {
       expect(result).toHaveLength(1);
     });
 
+    it('should expose recurrence details and drop null fields', async () => {
+      mockExecuteCli.mockResolvedValue({
+        calendars: [],
+        events: [
+          {
+            id: 'r1',
+            title: 'Standup',
+            startDate: '2025-11-04T09:00:00+08:00',
+            endDate: '2025-11-04T09:15:00+08:00',
+            calendar: 'Work',
+            isAllDay: false,
+            isRecurring: true,
+            recurrence: { frequency: 'daily', interval: 1 },
+            occurrenceDate: '2025-11-04T09:00:00+08:00',
+          },
+          {
+            id: 's1',
+            title: 'Dentist',
+            startDate: '2025-11-05T09:00:00+08:00',
+            endDate: '2025-11-05T10:00:00+08:00',
+            calendar: 'Personal',
+            isAllDay: false,
+            isRecurring: false,
+            recurrence: null,
+            occurrenceDate: null,
+          },
+        ],
+      });
+
+      const [recurring, single] = await repository.findEvents();
+
+      expect(recurring.isRecurring).toBe(true);
+      expect(recurring.recurrence).toEqual({ frequency: 'daily', interval: 1 });
+      expect(recurring.occurrenceDate).toBe('2025-11-04T09:00:00+08:00');
+      expect(single.recurrence).toBeUndefined();
+      expect(single.occurrenceDate).toBeUndefined();
+    });
+
     it('should filter events by calendar name', async () => {
       const mockEvents: Partial<CalendarEvent>[] = [
         {
@@ -172,6 +213,60 @@ describe('CalendarRepository', () => {
         'meeting',
       ]);
     });
+
+    it('should exclude events by availability and status', async () => {
+      const mockEvents: Partial<CalendarEvent>[] = [
+        { id: 'busy', availability: 'busy', status: 'confirmed' },
+        { id: 'free', availability: 'free', status: 'confirmed' },
+        { id: 'cancelled', availability: 'busy', status: 'cancelled' },
+        { id: 'unknown' },
+      ];
+      mockExecuteCli.mockResolvedValue({ calendars: [], events: mockEvents });
+
+      const result = await repository.findEvents({
+        excludeAvailability: ['free'],
+        excludeStatus: ['cancelled'],
+      });
+
+      expect(result.map((e) => e.id)).toEqual(['busy', 'unknown']);
+    });
+
+    it('should filter events by organizer or attendee name and email', async () => {
+      const mockEvents: Partial<CalendarEvent>[] = [
+        {
+          id: '1',
+          title: 'Design review',
+          organizer: {
+            name: 'Dana Lee',
+            email: 'dana@example.com',
+            role: 'chair',
+            status: 'accepted',
+          },
+          attendees: [
+            {
+              name: 'Sam Park',
+              email: 'sam@example.com',
+              role: 'required',
+              status: 'tentative',
+            },
+          ],
+        },
+        { id: '2', title: 'Focus time' },
+      ];
+      mockExecuteCli.mockResolvedValue({ calendars: [], events: mockEvents });
+
+      const bySamEmail = await repository.findEvents({ attendee: 'SAM@' });
+      const byOrganizer = await repository.findEvents({ attendee: 'dana' });
+      const byNobody = await repository.findEvents({ attendee: 'alex' });
+
+      expect(bySamEmail.map((e) => e.id)).toEqual(['1']);
+      expect(byOrganizer.map((e) => e.id)).toEqual(['1']);
+      expect(byNobody).toEqual([]);
+      expect(mockExecuteCli).toHaveBeenLastCalledWith([
+        '--action',
+        'read-events',
+      ]);
+    });
   });
 
   describe('findAllCalendars', () => {
@@ -274,6 +369,42 @@ describe('CalendarRepository', () => {
       expect(result).toEqual(mockEvent);
     });
 
+    it('should pass availability and time zone', async () => {
+      mockExecuteCli.mockResolvedValue({});
+
+      await repository.createEvent({
+        title: 'Focus',
+        startDate: '2025-11-15 09:00:00',
+        endDate: '2025-11-15 11:00:00',
+        availability: 'free',
+        timeZone: 'Europe/Berlin',
+      });
+
+      expect(mockExecuteCli).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          '--availability',
+          'free',
+          '--timeZone',
+          'Europe/Berlin',
+        ]),
+      );
+    });
+
+    it('should pass alarms on create', async () => {
+      mockExecuteCli.mockResolvedValue({});
+
+      await repository.createEvent({
+        title: 'Flight',
+        startDate: '2025-11-15 08:00:00',
+        endDate: '2025-11-15 10:00:00',
+        alarms: [{ relativeOffset: -120 }],
+      });
+
+      expect(mockExecuteCli).toHaveBeenCalledWith(
+        expect.arrayContaining(['--alarms', '[{"relativeOffset":-120}]']),
+      );
+    });
+
     it('should create all-day event', async () => {
       const mockEvent: CalendarEvent = {
         id: 'new-3',
@@ -334,6 +465,30 @@ describe('CalendarRepository', () => {
       expect(result).toEqual(mockEvent);
     });
 
+    it('should pass recurrence changes and occurrence targeting', async () => {
+      mockExecuteCli.mockResolvedValue({});
+
+      await repository.updateEvent({
+        id: '1',
+        recurrence: { frequency: 'daily', endCount: 5 },
+        span: 'this-event',
+        occurrenceDate: '2025-11-05',
+      });
+
+      expect(mockExecuteCli).toHaveBeenCalledWith([
+        '--action',
+        'update-event',
+        '--id',
+        '1',
+        '--recurrence',
+        '{"frequency":"daily","endCount":5}',
+        '--span',
+        'this-event',
+        '--occurrenceDate',
+        '2025-11-05',
+      ]);
+    });
+
     it('should update event calendar', async () => {
       mockExecuteCli.mockResolvedValue({
         id: '1',
@@ -368,5 +523,66 @@ describe('CalendarRepository', () => {
         '1',
       ]);
     });
+
+    it('should pass span and occurrence date for recurring events', async () => {
+      mockExecuteCli.mockResolvedValue({});
+
+      await repository.deleteEvent('1', {
+        span: 'future-events',
+        occurrenceDate: '2025-11-11 09:00:00',
+      });
+
+      expect(mockExecuteCli).toHaveBeenCalledWith([
+        '--action',
+        'delete-event',
+        '--id',
+        '1',
+        '--span',
+        'future-events',
+        '--occurrenceDate',
+        '2025-11-11 09:00:00',
+      ]);
+    });
+
+    it('should journal the targeted occurrence, read by ID', async () => {
+      mockUndoJournal.isEnabled.mockReturnValue(true);
+      const occurrence = {
+        id: '1',
+        title: 'Standup',
+        startDate: '2025-11-11 09:00:00',
+        endDate: '2025-11-11 09:15:00',
+        calendar: 'Work',
+        isAllDay: false,
+        isRecurring: true,
+        occurrenceDate: '2025-11-11 09:00:00',
+      };
+      mockExecuteCli
+        .mockResolvedValueOnce(occurrence)
+        .mockResolvedValueOnce({});
+
+      await repository.deleteEvent('1', {
+        occurrenceDate: '2025-11-11 09:00:00',
+      });
+      mockUndoJournal.isEnabled.mockReset();
+
+      expect(mockExecuteCli).toHaveBeenNthCalledWith(1, [
+        '--action',
+        'read-event',
+        '--id',
+        '1',
+        '--occurrenceDate',
+        '2025-11-11 09:00:00',
+      ]);
+      expect(mockUndoJournal.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'delete',
+          itemId: '1',
+          title: 'Standup',
+          before: expect.objectContaining({
+            occurrenceDate: '2025-11-11 09:00:00',
+          }),
+        }),
+      );
+    });
   });
 });
@@ -3,11 +3,17 @@
  * Repository pattern implementation for calendar event data access operations using EventKitCLI.
  */
 
-import type { Calendar, CalendarEvent } from '../types/index.js';
+import type {
+  Calendar,
+  CalendarEvent,
+  EventAvailability,
+  EventStatus,
+} from '../types/index.js';
 import type {
   CalendarJSON,
   CreateEventData,
   EventJSON,
+  EventOccurrenceTarget,
   EventsReadResult,
   UpdateEventData,
 } from '../types/repository.js';
@@ -15,10 +21,65 @@ import { executeCli } from './cliExecutor.js';
 import {
   addOptionalArg,
   addOptionalBooleanArg,
+  addOptionalJsonArg,
   nullToUndefined,
 } from './helpers.js';
+import { undoJournal } from './undoJournal.js';
+
+/**
+ * Checks whether any participant's name or email contains the search term
+ */
+const hasMatchingParticipant = (
+  event: CalendarEvent,
+  attendee: string,
+): boolean => {
+  const term = attendee.toLowerCase();
+  const participants = [
+    ...(event.organizer ? [event.organizer] : []),
+    ...(event.attendees ?? []),
+  ];
+  return participants.some(
+    (participant) =>
+      participant.name?.toLowerCase().includes(term) ||
+      participant.email?.toLowerCase().includes(term),
+  );
+};
+
+/**
+ * Adds recurring event targeting arguments (span and occurrence date)
+ */
+const addOccurrenceTargetArgs = (
+  args: string[],
+  target: EventOccurrenceTarget,
+): void => {
+  addOptionalArg(args, '--span', target.span);
+  addOptionalArg(args, '--occurrenceDate', target.occurrenceDate);
+};
+
+/**
+ * Drops 'not-supported', which is reported for some calendars but cannot be set
+ */
+const toSettableAvailability = (
+  availability?: EventAvailability,
+): EventAvailability | undefined =>
+  availability === 'not-supported' ? undefined : availability;
 
 class CalendarRepository {
+  private mapEvent(event: EventJSON): CalendarEvent {
+    return nullToUndefined(event, [
+      'notes',
+      'location',
+      'url',
+      'recurrence',
+      'occurrenceDate',
+      'creationDate',
+      'lastModifiedDate',
+      'organizer',
+      'participationStatus',
+      'timeZone',
+    ]) as CalendarEvent;
+  }
+
   private async readEvents(
     startDate?: string,
     endDate?: string,
@@ -40,11 +101,7 @@ class CalendarRepository {
     if (!event) {
       throw new Error(`Event with ID '${id}' not found.`);
     }
-    return nullToUndefined(event, [
-      'notes',
-      'location',
-      'url',
-    ]) as CalendarEvent;
+    return this.mapEvent(event);
   }
 
   async findEvents(
@@ -53,6 +110,10 @@ class CalendarRepository {
       endDate?: string;
       calendarName?: string;
       search?: string;
+      /** Matches organizer or attendee name/email */
+      attendee?: string;
+      excludeAvailability?: EventAvailability[];
+      excludeStatus?: EventStatus[];
     } = {},
   ): Promise<CalendarEvent[]> {
     const { events } = await this.readEvents(
@@ -61,16 +122,49 @@ class CalendarRepository {
       filters.calendarName,
       filters.search,
     );
-    return events.map((e) =>
-      nullToUndefined(e, ['notes', 'location', 'url']),
-    ) as CalendarEvent[];
+    const { attendee, excludeAvailability, excludeStatus } = filters;
+    return events
+      .map((e) => this.mapEvent(e))
+      .filter(
+        (event) =>
+          (!attendee || hasMatchingParticipant(event, attendee)) &&
+          !(
+            event.availability &&
+            excludeAvailability?.includes(event.availability)
+          ) &&
+          !(event.status && excludeStatus?.includes(event.status)),
+      );
   }
 
   async findAllCalendars(): Promise<Calendar[]> {
     return executeCli<CalendarJSON[]>(['--action', 'read-calendars']);
   }
 
-  async createEvent(data: CreateEventData): Promise<EventJSON> {
+  /**
+   * Reads one event by ID without scanning every event. With an occurrence
+   * date, the occurrence closest to it is returned, as changes target it.
+   */
+  async findEventOccurrence(
+    id: string,
+    target: EventOccurrenceTarget = {},
+  ): Promise<CalendarEvent> {
+    const args = ['--action', 'read-event', '--id', id];
+    addOptionalArg(args, '--occurrenceDate', target.occurrenceDate);
+    return this.mapEvent(await executeCli<EventJSON>(args));
+  }
+
+  /**
+   * Looks up an event as it is before a change, for the undo journal
+   */
+  private async findBeforeImage(
+    id: string,
+    target: EventOccurrenceTarget,
+  ): Promise<CalendarEvent | undefined> {
+    if (!undoJournal.isEnabled()) return undefined;
+    return this.findEventOccurrence(id, target);
+  }
+
+  private buildCreateArgs(data: CreateEventData): string[] {
     const args = [
       '--action',
       'create-event',
@@ -86,11 +180,14 @@ class CalendarRepository {
     addOptionalArg(args, '--location', data.location);
     addOptionalArg(args, '--url', data.url);
     addOptionalBooleanArg(args, '--isAllDay', data.isAllDay);
-
-    return executeCli<EventJSON>(args);
+    addOptionalArg(args, '--availability', data.availability);
+    addOptionalArg(args, '--timeZone', data.timeZone);
+    addOptionalJsonArg(args, '--recurrence', data.recurrence);
+    addOptionalJsonArg(args, '--alarms', data.alarms);
+    return args;
   }
 
-  async updateEvent(data: UpdateEventData): Promise<EventJSON> {
+  private buildUpdateArgs(data: UpdateEventData): string[] {
     const args = ['--action', 'update-event', '--id', data.id];
     addOptionalArg(args, '--title', data.title);
     addOptionalArg(args, '--targetCalendar', data.calendar);
@@ -100,12 +197,141 @@ class CalendarRepository {
     addOptionalArg(args, '--location', data.location);
     addOptionalArg(args, '--url', data.url);
     addOptionalBooleanArg(args, '--isAllDay', data.isAllDay);
+    addOptionalArg(args, '--availability', data.availability);
+    addOptionalArg(args, '--timeZone', data.timeZone);
+    addOptionalJsonArg(args, '--recurrence', data.recurrence);
+    addOptionalBooleanArg(args, '--clearRecurrence', data.clearRecurrence);
+    addOptionalJsonArg(args, '--alarms', data.alarms);
+    addOptionalJsonArg(args, '--addAlarms', data.addAlarms);
+    addOptionalBooleanArg(args, '--clearAlarms', data.clearAlarms);
+    addOccurrenceTargetArgs(args, data);
+    return args;
+  }
+
+  async createEvent(data: CreateEventData): Promise<CalendarEvent> {
+    const event = this.mapEvent(
+      await executeCli<EventJSON>(this.buildCreateArgs(data)),
+    );
+    undoJournal.record({
+      type: 'event',
+      action: 'create',
+      itemId: event.id,
+      title: event.title,
+      after: event,
+    });
+    return event;
+  }
+
+  async updateEvent(data: UpdateEventData): Promise<CalendarEvent> {
+    const before = await this.findBeforeImage(data.id, data);
+    const event = this.mapEvent(
+      await executeCli<EventJSON>(this.buildUpdateArgs(data)),
+    );
+    undoJournal.record({
+      type: 'event',
+      action: 'update',
+      itemId: event.id,
+      title: event.title,
+      before,
+      after: event,
+      span: data.span,
+      occurrenceDate: data.occurrenceDate,
+    });
+    return event;
+  }
+
+  async deleteEvent(
+    id: string,
+    target: EventOccurrenceTarget = {},
+  ): Promise<void> {
+    const before = await this.findBeforeImage(id, target);
+    await this.discardEvent(id, target);
+    undoJournal.record({
+      type: 'event',
+      action: 'delete',
+      itemId: id,
+      title: before?.title,
+      before,
+      span: target.span,
+      occurrenceDate: target.occurrenceDate,
+    });
+  }
 
-    return executeCli<EventJSON>(args);
+  /**
+   * Deletes an event without journaling it; undo uses this to remove events
+   * it reverts the creation of
+   */
+  async discardEvent(
+    id: string,
+    target: EventOccurrenceTarget = {},
+  ): Promise<void> {
+    const args = ['--action', 'delete-event', '--id', id];
+    addOccurrenceTargetArgs(args, target);
+    await executeCli<unknown>(args);
   }
 
-  async deleteEvent(id: string): Promise<void> {
-    await executeCli<unknown>(['--action', 'delete-event', '--id', id]);
+  /**
+   * Writes a before-image back onto an event, clearing what was empty then.
+   * A single occurrence keeps the series' recurrence. Used by undo, so it is
+   * not journaled.
+   */
+  async restoreEvent(
+    id: string,
+    before: CalendarEvent,
+    target: EventOccurrenceTarget = {},
+  ): Promise<CalendarEvent> {
+    const wholeSeries =
+      !target.occurrenceDate || target.span === 'future-events';
+    const args = this.buildUpdateArgs({
+      id,
+      title: before.title,
+      calendar: before.calendar,
+      startDate: before.startDate,
+      endDate: before.endDate,
+      isAllDay: before.isAllDay,
+      availability: toSettableAvailability(before.availability),
+      timeZone: before.timeZone,
+      recurrence: wholeSeries ? before.recurrence : undefined,
+      clearRecurrence: wholeSeries && !before.recurrence,
+      alarms: before.alarms?.length ? before.alarms : undefined,
+      clearAlarms: !before.alarms?.length,
+      ...target,
+    });
+    // Empty values clear the notes, location and URL
+    args.push(
+      '--note',
+      before.notes ?? '',
+      '--location',
+      before.location ?? '',
+      '--url',
+      before.url ?? '',
+    );
+    return this.mapEvent(await executeCli<EventJSON>(args));
+  }
+
+  /**
+   * Creates a deleted event again from its before-image. It gets a new ID.
+   * Used by undo, so it is not journaled.
+   */
+  async recreateEvent(before: CalendarEvent): Promise<CalendarEvent> {
+    return this.mapEvent(
+      await executeCli<EventJSON>(
+        this.buildCreateArgs({
+          title: before.title,
+          startDate: before.startDate,
+          endDate: before.endDate,
+          calendar: before.calendar,
+          notes: before.notes,
+          location: before.location,
+          url: before.url,
+          isAllDay: before.isAllDay,
+          availability: toSettableAvailability(before.availability),
+          timeZone: before.timeZone,
+          recurrence: before.recurrence,
+          alarms: before.alarms,
+        }),
+      ),
+    );
   }
 }
 
@@ -72,6 +72,7 @@ const PERMISSION_ERROR_PATTERNS: Record<PermissionDomain, RegExp[]> = {
  */
 const CALENDAR_ACTIONS = new Set([
   'read-events',
+  'read-event',
   'read-calendars',
   'create-event',
   'update-event',
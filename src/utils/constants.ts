@@ -28,6 +28,51 @@ export const VALIDATION = {
   MAX_SEARCH_LENGTH: 100,
   MAX_URL_LENGTH: 500,
   MAX_LOCATION_LENGTH: 200,
+
+  /** Largest supported recurrence interval (e.g. every 999 days) */
+  MAX_RECURRENCE_INTERVAL: 999,
+
+  /** Maximum number of alarms per reminder or event */
+  MAX_ALARMS: 10,
+
+  /** Largest relative alarm offset in minutes (one year) */
+  MAX_ALARM_OFFSET_MINUTES: 525600,
+
+  /** Geofence radius bounds in meters for location-based reminders */
+  MIN_GEOFENCE_RADIUS: 50,
+  MAX_GEOFENCE_RADIUS: 100000,
+
+  /** Tag limits for reminders */
+  MAX_TAGS: 20,
+  MAX_TAG_LENGTH: 50,
+
+  /** Maximum number of operations in a single reminder batch */
+  MAX_BATCH_OPERATIONS: 50,
+
+  /** Maximum number of reminders a single bulk update may change */
+  MAX_BULK_UPDATE_ITEMS: 50,
+
+  /** Title similarity bounds (0-1) for duplicate detection */
+  MIN_DUPLICATE_SIMILARITY: 0.5,
+  DEFAULT_DUPLICATE_SIMILARITY: 0.8,
+
+  /** Widest gap in days between dates of items considered duplicates */
+  MAX_DUPLICATE_DAYS_APART: 30,
+
+  /** Largest trash age purge-trash accepts, in days */
+  MAX_TRASH_AGE_DAYS: 3650,
+
+  /** Most operations a single undo may revert */
+  MAX_UNDO_OPERATIONS: 50,
+
+  /** Largest page a read action may return */
+  MAX_PAGE_SIZE: 200,
+
+  /** Longest range an availability search may cover, in days */
+  MAX_AVAILABILITY_RANGE_DAYS: 31,
+
+  /** Largest buffer around busy events in minutes */
+  MAX_BUFFER_MINUTES: 240,
 } as const;
 
 /**
@@ -42,6 +87,18 @@ export const TOOLS = {
   CALENDAR_EVENTS: 'calendar_events',
   /** Calendar collections management tool */
   CALENDAR_CALENDARS: 'calendar_calendars',
+  /** Reminder tags overview tool */
+  REMINDERS_TAGS: 'reminders_tags',
+  /** Calendar free/busy finder tool */
+  CALENDAR_AVAILABILITY: 'calendar_availability',
+  /** Ranked search across reminders and events */
+  SEARCH_ALL: 'search_all',
+  /** Day or week timeline of events and reminders */
+  AGENDA: 'agenda',
+  /** Reverts journaled reminder and event changes */
+  UNDO: 'undo',
+  /** Read-only view of the audit log of changes */
+  AUDIT_LOG: 'audit_log',
 
   /** Aliases for dot notation support */
   ALIASES: {
@@ -49,9 +106,56 @@ export const TOOLS = {
     'reminders.lists': 'reminders_lists',
     'calendar.events': 'calendar_events',
     'calendar.calendars': 'calendar_calendars',
+    'reminders.tags': 'reminders_tags',
+    'calendar.availability': 'calendar_availability',
+    'search.all': 'search_all',
   } as const,
 } as const;
 
+/**
+ * Undo journal storage; UNDO_JOURNAL_PATH overrides the location and
+ * UNDO_JOURNAL=off disables journaling
+ */
+export const JOURNAL = {
+  /** Default location, relative to the home directory */
+  DEFAULT_PATH: '.mcp-server-apple-events/undo-journal.json',
+  /** Oldest entries are dropped beyond this many */
+  MAX_ENTRIES: 200,
+  /** How long a write waits for another process to release the journal */
+  LOCK_TIMEOUT_MS: 2000,
+  /** A lock older than this was left by a process that died while writing */
+  LOCK_STALE_MS: 10000,
+  LOCK_RETRY_MS: 20,
+} as const;
+
+/**
+ * Audit log storage; AUDIT_LOG_PATH overrides the location,
+ * AUDIT_LOG_MAX_BYTES the rotation size and AUDIT_LOG=off disables it
+ */
+export const AUDIT = {
+  /** Default location, relative to the home directory */
+  DEFAULT_PATH: '.mcp-server-apple-events/audit.jsonl',
+  /** The log is rotated once it reaches this size */
+  MAX_FILE_BYTES: 5 * 1024 * 1024,
+  /** Rotated files kept next to the log (audit.jsonl.1 is the newest) */
+  MAX_ROTATED_FILES: 3,
+  /** Most entries one audit_log read returns */
+  MAX_READ_ENTRIES: 200,
+} as const;
+
+/**
+ * Soft delete; TRASH_LIST overrides the name of the list deleted reminders
+ * move to
+ */
+export const TRASH = {
+  DEFAULT_LIST: 'Trash',
+  /** Tag prefixes recording a trashed reminder's list and the day it was trashed */
+  LIST_TAG_PREFIX: 'trashed-from-',
+  DATE_TAG_PREFIX: 'trashed-on-',
+  /** Age in days after which purge-trash removes reminders by default */
+  DEFAULT_PURGE_DAYS: 30,
+} as const;
+
 /**
  * Time and date constants for consistent time-based logic
  */
@@ -60,6 +164,9 @@ export const TIME = {
   WORKING_HOURS_START: 9,
   WORKING_HOURS_END: 18,
 
+  /** Shortest free slot reported by availability searches, in minutes */
+  DEFAULT_MIN_SLOT_MINUTES: 30,
+
   /** Time of day boundaries for categorization */
   MORNING_START: 5,
   NOON: 12,
@@ -70,6 +177,9 @@ export const TIME = {
   /** Default time suggestions */
   LATER_TODAY_HOURS: 4,
   END_OF_WEEK_HOUR: 17,
+  /** "End of day" is the last minute of the day, 23:59 */
+  END_OF_DAY_HOUR: 23,
+  END_OF_DAY_MINUTE: 59,
   DEFAULT_MORNING_HOUR: 9,
 
   /** Day of week constants (0 = Sunday, 6 = Saturday) */
@@ -92,6 +202,9 @@ export const MESSAGES = {
     UNKNOWN_ACTION: (tool: string, action: string) =>
       `Unknown ${tool} action: ${action}`,
 
+    UNKNOWN_FORMAT: (format: string) =>
+      `Unknown format: ${format}. Use 'markdown', 'json' or 'both'.`,
+
     SYSTEM_ERROR: (operation: string) =>
       `Failed to ${operation}: System error occurred`,
   },
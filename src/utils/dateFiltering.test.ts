@@ -139,6 +139,132 @@ describe('DateFiltering', () => {
       expect(result[0].id).toBe('5');
     });
 
+    it('should filter by priority', () => {
+      const prioritized: Reminder[] = [
+        ...reminders,
+        {
+          id: '6',
+          title: 'Urgent task',
+          list: 'Work',
+          isCompleted: false,
+          priority: 'high',
+        },
+      ];
+
+      expect(
+        applyReminderFilters(prioritized, { priority: 'high' }).map(
+          (r) => r.id,
+        ),
+      ).toEqual(['6']);
+      expect(
+        applyReminderFilters(prioritized, { priority: 'none' }),
+      ).toHaveLength(5);
+    });
+
+    it('should filter by presence of a location trigger', () => {
+      const withGeofence: Reminder[] = [
+        ...reminders,
+        {
+          id: '6',
+          title: 'Buy milk',
+          list: 'Personal',
+          isCompleted: false,
+          locationTrigger: {
+            title: 'Grocery',
+            latitude: 37.33,
+            longitude: -122.03,
+            proximity: 'enter',
+          },
+        },
+      ];
+
+      expect(
+        applyReminderFilters(withGeofence, { hasLocationTrigger: true }).map(
+          (r) => r.id,
+        ),
+      ).toEqual(['6']);
+      expect(
+        applyReminderFilters(withGeofence, { hasLocationTrigger: false }),
+      ).toHaveLength(5);
+    });
+
+    it('should filter by tags matching any or all', () => {
+      const tagged: Reminder[] = [
+        {
+          id: 't1',
+          title: 'Pick up parcel',
+          list: 'Personal',
+          isCompleted: false,
+          tags: ['errand', 'waiting'],
+        },
+        {
+          id: 't2',
+          title: 'Buy stamps',
+          list: 'Personal',
+          isCompleted: false,
+          tags: ['errand'],
+        },
+        ...reminders,
+      ];
+
+      expect(
+        applyReminderFilters(tagged, { tags: ['errand', 'waiting'] }).map(
+          (r) => r.id,
+        ),
+      ).toEqual(['t1', 't2']);
+      expect(
+        applyReminderFilters(tagged, {
+          tags: ['errand', 'waiting'],
+          tagMatch: 'all',
+        }).map((r) => r.id),
+      ).toEqual(['t1']);
+    });
+
+    it('should filter by completion and modification timestamps', () => {
+      const history: Reminder[] = [
+        {
+          id: 'a',
+          title: 'Done last week',
+          list: 'Work',
+          isCompleted: true,
+          completionDate: '2024-01-08T09:00:00Z',
+          lastModifiedDate: '2024-01-08T09:00:00Z',
+        },
+        {
+          id: 'b',
+          title: 'Done this week',
+          list: 'Work',
+          isCompleted: true,
+          completionDate: '2024-01-15T09:00:00Z',
+          lastModifiedDate: '2024-01-15T09:00:00Z',
+        },
+        {
+          id: 'c',
+          title: 'Stale task',
+          list: 'Work',
+          isCompleted: false,
+          lastModifiedDate: '2023-06-01T09:00:00Z',
+        },
+      ];
+
+      expect(
+        applyReminderFilters(history, {
+          completedAfter: '2024-01-08T00:00:00Z',
+          completedBefore: '2024-01-15T00:00:00Z',
+        }).map((r) => r.id),
+      ).toEqual(['a']);
+      expect(
+        applyReminderFilters(history, {
+          completedAfter: '2024-01-08T09:00:00Z',
+        }).map((r) => r.id),
+      ).toEqual(['a', 'b']);
+      expect(
+        applyReminderFilters(history, {
+          modifiedSince: '2024-01-01T00:00:00Z',
+        }).map((r) => r.id),
+      ).toEqual(['a', 'b']);
+    });
+
     it('should apply multiple filters together', () => {
       const filters: ReminderFilters = {
         list: 'Work',
@@ -277,6 +403,58 @@ describe('DateFiltering', () => {
       expect(result[0].id).toBe('2');
     });
 
+    it.each([
+      ['next-7-days', ['this-week']],
+      ['next-week', ['next-week']],
+      ['this-month', ['earlier-this-month', 'this-week', 'next-week']],
+    ] as const)('should filter %s reminders', (dueWithin, expected) => {
+      // Today is Monday 2024-01-15
+      const datedReminders: Reminder[] = [
+        ['earlier-this-month', '2024-01-02 09:00:00'],
+        ['this-week', '2024-01-19 09:00:00'],
+        ['next-week', '2024-01-24'],
+        ['next-month', '2024-02-01 09:00:00'],
+      ].map(([id, dueDate]) => ({
+        id,
+        title: id,
+        dueDate,
+        list: 'Default',
+        isCompleted: false,
+      }));
+
+      const result = applyReminderFilters(datedReminders, { dueWithin });
+
+      expect(result.map((r) => r.id)).toEqual(expected);
+    });
+
+    it('should filter by dueAfter and dueBefore bounds', () => {
+      const datedReminders: Reminder[] = [
+        ['feb-28', '2024-02-28 18:00:00'],
+        ['mar-1', '2024-03-01'],
+        ['mar-15-evening', '2024-03-15 21:00:00'],
+        ['mar-16', '2024-03-16 08:00:00'],
+        ['undated', undefined],
+      ].map(([id, dueDate]) => ({
+        id: id as string,
+        title: id as string,
+        dueDate,
+        list: 'Default',
+        isCompleted: false,
+      }));
+
+      expect(
+        applyReminderFilters(datedReminders, {
+          dueAfter: '2024-03-01',
+          dueBefore: '2024-03-15',
+        }).map((r) => r.id),
+      ).toEqual(['mar-1', 'mar-15-evening']);
+      expect(
+        applyReminderFilters(datedReminders, {
+          dueBefore: '2024-03-01 00:00:00',
+        }).map((r) => r.id),
+      ).toEqual(['feb-28']);
+    });
+
     it('should handle unknown dueWithin filter (default branch)', () => {
       const allReminders: Reminder[] = [
         {
@@ -3,8 +3,17 @@
  * Reusable utilities for filtering reminders by date criteria
  */
 
-import type { Reminder } from '../types/index.js';
-import { getTodayStart, getTomorrowStart, getWeekEnd } from './dateUtils.js';
+import type {
+  Reminder,
+  ReminderPriority,
+  TagMatchMode,
+} from '../types/index.js';
+import {
+  getTodayStart,
+  getTomorrowStart,
+  getWeekEnd,
+  resolveRangeEnd,
+} from './dateUtils.js';
 import { parseReminderDueDate } from './reminderDateParser.js';
 
 /**
@@ -14,6 +23,9 @@ export type DateFilter =
   | 'today'
   | 'tomorrow'
   | 'this-week'
+  | 'next-week'
+  | 'this-month'
+  | 'next-7-days'
   | 'overdue'
   | 'no-date';
 
@@ -37,6 +49,9 @@ function createDateBoundaries(): DateBoundaries {
   return { today, tomorrow, weekEnd };
 }
 
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
 /**
  * Filters reminders based on due date criteria
  */
@@ -72,6 +87,21 @@ function filterRemindersByDate(
       case 'this-week':
         return dueDate >= today && dueDate <= weekEnd;
 
+      case 'next-7-days':
+        return dueDate >= today && dueDate < addDays(today, 7);
+
+      case 'next-week': {
+        // Calendar weeks start on Monday
+        const nextMonday = addDays(today, (8 - today.getDay()) % 7 || 7);
+        return dueDate >= nextMonday && dueDate < addDays(nextMonday, 7);
+      }
+
+      case 'this-month':
+        return (
+          dueDate >= new Date(today.getFullYear(), today.getMonth(), 1) &&
+          dueDate < new Date(today.getFullYear(), today.getMonth() + 1, 1)
+        );
+
       default:
         return true;
     }
@@ -85,7 +115,42 @@ export interface ReminderFilters {
   showCompleted?: boolean;
   search?: string;
   dueWithin?: DateFilter;
+  /** Due on or after this date */
+  dueAfter?: string;
+  /** Due before this time; a date without a time includes that whole day */
+  dueBefore?: string;
   list?: string;
+  priority?: ReminderPriority;
+  hasLocationTrigger?: boolean;
+  tags?: string[];
+  /** Whether reminders need any (default) or all of the tags */
+  tagMatch?: TagMatchMode;
+  /** Completed on or after this date */
+  completedAfter?: string;
+  /** Completed strictly before this date */
+  completedBefore?: string;
+  /** Last modified on or after this date */
+  modifiedSince?: string;
+}
+
+/**
+ * Keeps reminders whose timestamp falls within [from, to).
+ * Reminders without the timestamp never match.
+ */
+function filterRemindersByTimestamp(
+  reminders: Reminder[],
+  getTimestamp: (reminder: Reminder) => string | undefined,
+  fromDate?: Date,
+  toDate?: Date,
+): Reminder[] {
+  return reminders.filter((reminder) => {
+    const value = getTimestamp(reminder);
+    const timestamp = value ? parseReminderDueDate(value) : undefined;
+    if (!timestamp) return false;
+    if (fromDate && timestamp < fromDate) return false;
+    if (toDate && timestamp >= toDate) return false;
+    return true;
+  });
 }
 
 /**
@@ -111,6 +176,31 @@ export function applyReminderFilters(
     );
   }
 
+  // Filter by priority (reminders without a priority count as 'none')
+  if (filters.priority) {
+    filteredReminders = filteredReminders.filter(
+      (reminder) => (reminder.priority ?? 'none') === filters.priority,
+    );
+  }
+
+  // Filter by presence of a location (geofence) trigger
+  if (filters.hasLocationTrigger !== undefined) {
+    filteredReminders = filteredReminders.filter(
+      (reminder) => !!reminder.locationTrigger === filters.hasLocationTrigger,
+    );
+  }
+
+  // Filter by tags
+  if (filters.tags?.length) {
+    const wanted = filters.tags;
+    filteredReminders = filteredReminders.filter((reminder) => {
+      const tags = reminder.tags ?? [];
+      return filters.tagMatch === 'all'
+        ? wanted.every((tag) => tags.includes(tag))
+        : wanted.some((tag) => tags.includes(tag));
+    });
+  }
+
   // Filter by search term
   if (filters.search) {
     const searchLower = filters.search.toLowerCase();
@@ -121,6 +211,23 @@ export function applyReminderFilters(
     );
   }
 
+  // Filter by completion and modification timestamps
+  if (filters.completedAfter || filters.completedBefore) {
+    filteredReminders = filterRemindersByTimestamp(
+      filteredReminders,
+      (reminder) => reminder.completionDate,
+      parseReminderDueDate(filters.completedAfter),
+      parseReminderDueDate(filters.completedBefore),
+    );
+  }
+  if (filters.modifiedSince) {
+    filteredReminders = filterRemindersByTimestamp(
+      filteredReminders,
+      (reminder) => reminder.lastModifiedDate,
+      parseReminderDueDate(filters.modifiedSince),
+    );
+  }
+
   // Filter by due date
   if (filters.dueWithin) {
     filteredReminders = filterRemindersByDate(
@@ -128,6 +235,14 @@ export function applyReminderFilters(
       filters.dueWithin,
     );
   }
+  if (filters.dueAfter || filters.dueBefore) {
+    filteredReminders = filterRemindersByTimestamp(
+      filteredReminders,
+      (reminder) => reminder.dueDate,
+      parseReminderDueDate(filters.dueAfter),
+      filters.dueBefore ? resolveRangeEnd(filters.dueBefore) : undefined,
+    );
+  }
 
   return filteredReminders;
 }
@@ -0,0 +1,46 @@
+/**
+ * dateUtils.test.ts
+ * Tests for local date formatting and range ends
+ */
+
+import {
+  parseDateInTimeZone,
+  resolveRangeEnd,
+  toLocalDateTimeString,
+} from './dateUtils.js';
+
+describe('toLocalDateTimeString', () => {
+  it('formats local time the way EventKitCLI reads it', () => {
+    expect(toLocalDateTimeString(new Date(2025, 2, 9, 7, 5, 3))).toBe(
+      '2025-03-09 07:05:03',
+    );
+  });
+});
+
+describe('resolveRangeEnd', () => {
+  it('includes the whole day for date-only ends', () => {
+    expect(resolveRangeEnd('2025-03-10')).toEqual(new Date(2025, 2, 11));
+    expect(resolveRangeEnd('2025-03-10 17:00:00')).toEqual(
+      new Date(2025, 2, 10, 17),
+    );
+    expect(resolveRangeEnd('not a date')).toBeUndefined();
+  });
+});
+
+describe('parseDateInTimeZone', () => {
+  it('reads dates without an offset as wall-clock time in the zone', () => {
+    expect(parseDateInTimeZone('2025-03-10 19:15:00', 'Asia/Tokyo')).toEqual(
+      new Date('2025-03-10T10:15:00Z'),
+    );
+    // The first hour after New York moves to daylight saving time
+    expect(parseDateInTimeZone('2025-03-09T03:30', 'America/New_York')).toEqual(
+      new Date('2025-03-09T07:30:00Z'),
+    );
+  });
+
+  it('keeps an explicit offset', () => {
+    expect(
+      parseDateInTimeZone('2025-03-10T10:00:00+01:00', 'Asia/Tokyo'),
+    ).toEqual(new Date('2025-03-10T09:00:00Z'));
+  });
+});
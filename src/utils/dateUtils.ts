@@ -3,6 +3,14 @@
  * Shared date calculation utilities
  */
 
+import { parseReminderDueDate } from './reminderDateParser.js';
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_NO_TZ_REGEX =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
 /**
  * Creates a date object representing the start of today (midnight)
  */
@@ -37,3 +45,71 @@ export function getWeekEnd(): Date {
 export function getDateStart(date: Date): Date {
   return new Date(date.getFullYear(), date.getMonth(), date.getDate());
 }
+
+/**
+ * Formats a date as local 'YYYY-MM-DD HH:mm:ss', the format EventKitCLI reads as local time
+ */
+export function toLocalDateTimeString(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Resolves the end of a requested range. A date-only end includes that whole day.
+ */
+export function resolveRangeEnd(endDate: string): Date | undefined {
+  const parsed = parseReminderDueDate(endDate);
+  if (!parsed) return undefined;
+  return DATE_ONLY_REGEX.test(endDate.trim())
+    ? new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate() + 1)
+    : parsed;
+}
+
+/**
+ * How far the wall-clock time in an IANA time zone is ahead of UTC at an instant
+ */
+const getTimeZoneOffset = (instant: number, timeZone: string): number => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(instant)
+      .map(({ type, value }) => [type, Number(value)]),
+  );
+  return (
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+    ) - instant
+  );
+};
+
+/**
+ * Parses a date the way EventKitCLI does for an event with a time zone: a
+ * date without an offset is wall-clock time in that zone. Dates with an
+ * offset are parsed as they are.
+ */
+export function parseDateInTimeZone(
+  dateString: string,
+  timeZone: string,
+): Date | undefined {
+  const match = dateString.trim().match(DATE_TIME_NO_TZ_REGEX);
+  if (!match) return parseReminderDueDate(dateString);
+  const [year, month, day, hour, minute, second] = match
+    .slice(1)
+    .map((part) => Number(part ?? 0));
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  // Take the offset again at the first guess, in case it crosses a DST change
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - getTimeZoneOffset(guess, timeZone));
+}
@@ -0,0 +1,175 @@
+/**
+ * dryRun.test.ts
+ * Tests for dry-run diffs and the DRY_RUN setting
+ */
+
+import type { CalendarEvent, Reminder } from '../types/index.js';
+import {
+  applyEventUpdate,
+  applyReminderCreate,
+  applyReminderUpdate,
+  diffFields,
+  isDryRun,
+} from './dryRun.js';
+
+const reminder: Reminder = {
+  id: 'r1',
+  title: 'Call dentist',
+  list: 'Personal',
+  isCompleted: false,
+  tags: ['health', 'phone'],
+  alarms: [{ relativeOffset: -15 }],
+  creationDate: '2025-03-01 09:00:00',
+};
+
+const event: CalendarEvent = {
+  id: 'e1',
+  title: 'Standup',
+  calendar: 'Work',
+  startDate: '2025-03-10 10:00:00',
+  endDate: '2025-03-10 10:30:00',
+  isAllDay: false,
+  isRecurring: true,
+  recurrence: { frequency: 'daily' },
+};
+
+describe('isDryRun', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('follows the request unless DRY_RUN forces it on', () => {
+    process.env = { ...originalEnv };
+    delete process.env.DRY_RUN;
+    expect(isDryRun()).toBe(false);
+    expect(isDryRun(true)).toBe(true);
+
+    process.env = { ...originalEnv, DRY_RUN: 'On' };
+    expect(isDryRun(false)).toBe(true);
+
+    process.env = { ...originalEnv, DRY_RUN: 'off' };
+    expect(isDryRun()).toBe(false);
+  });
+});
+
+describe('diffFields', () => {
+  it('lists changed fields and skips identifiers and timestamps', () => {
+    expect(
+      diffFields(reminder, {
+        ...reminder,
+        id: 'r2',
+        title: 'Call the dentist',
+        notes: 'Ask about X',
+        lastModifiedDate: '2025-03-02 09:00:00',
+      }),
+    ).toEqual([
+      { field: 'title', before: 'Call dentist', after: 'Call the dentist' },
+      { field: 'notes', before: undefined, after: 'Ask about X' },
+    ]);
+  });
+
+  it('treats every set field as added for creates and removed for deletes', () => {
+    expect(
+      diffFields(undefined, { title: 'Buy milk', notes: undefined }),
+    ).toEqual([{ field: 'title', before: undefined, after: 'Buy milk' }]);
+    expect(diffFields({ title: 'Buy milk' })).toEqual([
+      { field: 'title', before: 'Buy milk', after: undefined },
+    ]);
+  });
+});
+
+describe('applyReminderUpdate', () => {
+  it('applies field, tag and alarm edits', () => {
+    expect(
+      applyReminderUpdate(reminder, {
+        id: 'r1',
+        newTitle: 'Call the dentist',
+        isCompleted: true,
+        addTags: ['urgent', 'health'],
+        removeTags: ['phone'],
+        addAlarms: [{ date: '2025-03-10 08:00:00' }],
+      }),
+    ).toMatchObject({
+      title: 'Call the dentist',
+      list: 'Personal',
+      isCompleted: true,
+      tags: ['health', 'urgent'],
+      alarms: [{ relativeOffset: -15 }, { date: '2025-03-10 08:00:00' }],
+    });
+  });
+
+  it('clears what the update removes', () => {
+    const updated = applyReminderUpdate(
+      { ...reminder, recurrence: { frequency: 'weekly' } },
+      { id: 'r1', clearRecurrence: true, clearAlarms: true, tags: [] },
+    );
+
+    expect(updated.recurrence).toBeUndefined();
+    expect(updated.alarms).toBeUndefined();
+    expect(updated.tags).toEqual([]);
+  });
+
+  it('removes the last tag from a reminder without notes', () => {
+    const tagged = { ...reminder, notes: undefined, tags: ['health'] };
+
+    expect(
+      applyReminderUpdate(tagged, { id: 'r1', removeTags: ['health'] }),
+    ).toMatchObject({ notes: undefined, tags: [] });
+    expect(applyReminderUpdate(tagged, { id: 'r1', tags: [] }).tags).toEqual(
+      [],
+    );
+  });
+
+  it('appends a new URL to the notes unless they already mention it', () => {
+    const url = 'https://example.com';
+
+    expect(
+      applyReminderUpdate(
+        { ...reminder, notes: 'Ask about X' },
+        { id: 'r1', url },
+      ).notes,
+    ).toBe(`Ask about X\n\nURLs:\n- ${url}`);
+    expect(
+      applyReminderUpdate(
+        { ...reminder, notes: `See ${url}` },
+        { id: 'r1', url },
+      ).notes,
+    ).toBe(`See ${url}`);
+  });
+});
+
+describe('applyReminderCreate', () => {
+  it('appends the URL to the notes as the CLI does', () => {
+    expect(
+      applyReminderCreate({ title: 'Read', url: 'https://example.com' }).notes,
+    ).toBe('URLs:\n- https://example.com');
+    expect(
+      applyReminderCreate({
+        title: 'Read',
+        notes: 'Later',
+        url: 'https://example.com',
+      }).notes,
+    ).toBe('Later\n\nURLs:\n- https://example.com');
+  });
+});
+
+describe('applyEventUpdate', () => {
+  it('moves and renames an event and can clear its recurrence', () => {
+    const updated = applyEventUpdate(event, {
+      id: 'e1',
+      startDate: '2025-03-10 11:00:00',
+      endDate: '2025-03-10 11:30:00',
+      calendar: 'Team',
+      clearRecurrence: true,
+    });
+
+    expect(diffFields(event, updated).map(({ field }) => field)).toEqual([
+      'calendar',
+      'startDate',
+      'endDate',
+      'recurrence',
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * dryRun.ts
+ * Computes what a create, update or delete would change without making it
+ */
+
+import type {
+  Alarm,
+  CalendarEvent,
+  FieldChange,
+  Reminder,
+} from '../types/index.js';
+import type {
+  AlarmChanges,
+  CreateReminderData,
+  UpdateEventData,
+  UpdateReminderData,
+} from '../types/repository.js';
+
+/**
+ * Fields that identify an item or are derived or maintained by EventKit, so
+ * they never appear in a diff
+ */
+const IGNORED_FIELDS = new Set([
+  'id',
+  'subtasks',
+  'isRecurring',
+  'occurrenceDate',
+  'creationDate',
+  'lastModifiedDate',
+  'completionDate',
+]);
+
+/**
+ * A dry run is on when requested or when the DRY_RUN environment setting
+ * (true, 1, yes or on) forces it for the whole server
+ */
+export function isDryRun(requested?: boolean): boolean {
+  if (requested) return true;
+  const setting = process.env.DRY_RUN?.trim().toLowerCase();
+  return (
+    setting === 'true' ||
+    setting === '1' ||
+    setting === 'yes' ||
+    setting === 'on'
+  );
+}
+
+/**
+ * Lists the fields that differ between two versions of an item, in field
+ * order. Omit `before` for a create and `after` for a delete.
+ */
+export function diffFields(before?: object, after?: object): FieldChange[] {
+  const previous: Record<string, unknown> = { ...before };
+  const next: Record<string, unknown> = { ...after };
+  const fields = [...new Set([...Object.keys(previous), ...Object.keys(next)])];
+  return fields.flatMap((field) => {
+    const from = previous[field];
+    const to = next[field];
+    if (
+      IGNORED_FIELDS.has(field) ||
+      JSON.stringify(from) === JSON.stringify(to)
+    )
+      return [];
+    return [{ field, before: from, after: to }];
+  });
+}
+
+const applyAlarmChanges = (
+  alarms: Alarm[] | undefined,
+  changes: AlarmChanges,
+): Alarm[] | undefined => {
+  if (changes.clearAlarms) return undefined;
+  if (changes.alarms) return changes.alarms;
+  if (changes.addAlarms) return [...(alarms ?? []), ...changes.addAlarms];
+  return alarms;
+};
+
+/**
+ * Reminder notes as the CLI saves them with a URL: the URL is appended under
+ * a "URLs:" heading unless the notes already mention it
+ */
+const appendUrlToNotes = (notes?: string, url?: string): string | undefined => {
+  if (!url || notes?.includes(url)) return notes;
+  return notes ? `${notes}\n\nURLs:\n- ${url}` : `URLs:\n- ${url}`;
+};
+
+/**
+ * Returns the fields of a reminder as it would be created
+ */
+export function applyReminderCreate(
+  data: CreateReminderData,
+): CreateReminderData {
+  return { ...data, notes: appendUrlToNotes(data.notes, data.url) };
+}
+
+/**
+ * Returns the reminder as it would be after the update
+ */
+export function applyReminderUpdate(
+  reminder: Reminder,
+  data: UpdateReminderData,
+): Reminder {
+  let tags = data.tags ?? reminder.tags;
+  if (data.addTags || data.removeTags) {
+    const removed = new Set(data.removeTags);
+    tags = [...new Set([...(tags ?? []), ...(data.addTags ?? [])])].filter(
+      (tag) => !removed.has(tag),
+    );
+  }
+  return {
+    ...reminder,
+    title: data.newTitle ?? reminder.title,
+    list: data.list ?? reminder.list,
+    notes: appendUrlToNotes(data.notes ?? reminder.notes, data.url),
+    url: data.url ?? reminder.url,
+    isCompleted: data.isCompleted ?? reminder.isCompleted,
+    dueDate: data.dueDate ?? reminder.dueDate,
+    priority: data.priority ?? reminder.priority,
+    recurrence: data.clearRecurrence
+      ? undefined
+      : (data.recurrence ?? reminder.recurrence),
+    alarms: applyAlarmChanges(reminder.alarms, data),
+    locationTrigger: data.clearLocationTrigger
+      ? undefined
+      : (data.locationTrigger ?? reminder.locationTrigger),
+    tags,
+  };
+}
+
+/**
+ * Returns the event as it would be after the update
+ */
+export function applyEventUpdate(
+  event: CalendarEvent,
+  data: UpdateEventData,
+): CalendarEvent {
+  return {
+    ...event,
+    title: data.title ?? event.title,
+    calendar: data.calendar ?? event.calendar,
+    startDate: data.startDate ?? event.startDate,
+    endDate: data.endDate ?? event.endDate,
+    isAllDay: data.isAllDay ?? event.isAllDay,
+    timeZone: data.timeZone ?? event.timeZone,
+    availability: data.availability ?? event.availability,
+    location: data.location ?? event.location,
+    notes: data.notes ?? event.notes,
+    url: data.url ?? event.url,
+    recurrence: data.clearRecurrence
+      ? undefined
+      : (data.recurrence ?? event.recurrence),
+    alarms: applyAlarmChanges(event.alarms, data),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * duplicates.test.ts
+ * Tests for duplicate detection and note merging
+ */
+
+import {
+  type DuplicateKey,
+  findDuplicateGroups,
+  mergeNotes,
+  normalizeTitle,
+  titleSimilarity,
+} from './duplicates.js';
+
+const OPTIONS = { similarity: 0.8, maxDaysApart: 0 };
+
+const item = (overrides: Partial<DuplicateKey>): DuplicateKey => ({
+  id: 'r1',
+  title: 'Call dentist',
+  scope: 'Personal',
+  ...overrides,
+});
+
+const groupIds = (items: DuplicateKey[], options = OPTIONS): string[][] =>
+  findDuplicateGroups(items, (key) => key, options).map((group) =>
+    group.map(({ id }) => id),
+  );
+
+describe('normalizeTitle', () => {
+  it('ignores case, accents, punctuation and extra whitespace', () => {
+    expect(normalizeTitle('  Café – Order!  ')).toBe('cafe order');
+    expect(normalizeTitle('Call   DENTIST.')).toBe('call dentist');
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('scores titles that normalize the same as identical', () => {
+    expect(titleSimilarity('Call dentist!', 'call  dentist')).toBe(1);
+  });
+
+  it('scores small edits high and unrelated titles low', () => {
+    expect(titleSimilarity('Call dentist', 'Call the dentist')).toBeGreaterThan(
+      0.8,
+    );
+    expect(titleSimilarity('Call dentist', 'Buy milk')).toBeLessThan(0.2);
+    expect(titleSimilarity('a', 'b')).toBe(0);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups similar titles in the same scope and leaves the rest out', () => {
+    expect(
+      groupIds([
+        item({ id: 'a' }),
+        item({ id: 'b', title: 'Buy milk' }),
+        item({ id: 'c', title: 'call the dentist' }),
+        item({ id: 'd', scope: 'Work' }),
+      ]),
+    ).toEqual([['a', 'c']]);
+  });
+
+  it('only groups dated items that are close enough', () => {
+    const items = [
+      item({ id: 'a', date: '2025-03-10 09:00:00' }),
+      item({ id: 'b', date: '2025-03-11 18:00:00' }),
+      item({ id: 'c' }),
+    ];
+
+    expect(groupIds(items)).toEqual([['a', 'c']]);
+    expect(groupIds(items, { ...OPTIONS, maxDaysApart: 1 })).toEqual([
+      ['a', 'b', 'c'],
+    ]);
+  });
+
+  it('never groups items sharing an ID, such as recurring occurrences', () => {
+    expect(
+      groupIds([
+        item({ id: 'series', date: '2025-03-10' }),
+        item({ id: 'series', date: '2025-03-10' }),
+      ]),
+    ).toEqual([]);
+  });
+
+  it('puts the earliest created item first', () => {
+    expect(
+      groupIds([
+        item({ id: 'new', created: '2025-03-05 10:00:00' }),
+        item({ id: 'unknown' }),
+        item({ id: 'old', created: '2025-03-01 10:00:00' }),
+      ]),
+    ).toEqual([['old', 'new', 'unknown']]);
+  });
+});
+
+describe('mergeNotes', () => {
+  it('joins distinct notes and skips empty or repeated ones', () => {
+    expect(
+      mergeNotes(['Ask about X', undefined, ' ', 'Ask about X ', 'Bring card']),
+    ).toBe('Ask about X\n\nBring card');
+    expect(mergeNotes([undefined, ''])).toBeUndefined();
+  });
+});
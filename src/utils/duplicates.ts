@@ -0,0 +1,153 @@
+/**
+ * duplicates.ts
+ * Groups near-identical reminders or events by title, scope and date
+ */
+
+import { getDateStart } from './dateUtils.js';
+import { toDateSortValue } from './pagination.js';
+import { parseReminderDueDate } from './reminderDateParser.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What duplicate detection compares for an item
+ */
+export interface DuplicateKey {
+  id: string;
+  title: string;
+  /** List or calendar; duplicates never cross scopes */
+  scope: string;
+  /** Due or start date; items without one match on title and scope alone */
+  date?: string;
+  /** Creation date; the earliest created item leads its group */
+  created?: string;
+}
+
+export interface DuplicateOptions {
+  /** Minimum title similarity between 0 and 1 */
+  similarity: number;
+  /** Largest difference in calendar days between the items' dates */
+  maxDaysApart: number;
+}
+
+/**
+ * Lowercases a title, strips accents and punctuation and collapses whitespace,
+ * e.g. "  Café – Order!" -> "cafe order"
+ */
+export const normalizeTitle = (title: string): string =>
+  title
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const getBigrams = (text: string): Map<string, number> => {
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+};
+
+/**
+ * Scores how alike two titles are from 0 to 1 (Dice coefficient over the
+ * character pairs of the normalized titles)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftBigrams = getBigrams(left);
+  const rightBigrams = getBigrams(right);
+  let shared = 0;
+  for (const [bigram, count] of leftBigrams) {
+    shared += Math.min(count, rightBigrams.get(bigram) ?? 0);
+  }
+  return (2 * shared) / (left.length - 1 + (right.length - 1));
+}
+
+const getDay = (date?: string): Date | undefined => {
+  const parsed = date ? parseReminderDueDate(date) : undefined;
+  return parsed ? getDateStart(parsed) : undefined;
+};
+
+const areDatesClose = (
+  a: string | undefined,
+  b: string | undefined,
+  maxDaysApart: number,
+): boolean => {
+  const dayA = getDay(a);
+  const dayB = getDay(b);
+  if (!dayA || !dayB) return true;
+  return (
+    Math.round(Math.abs(dayA.getTime() - dayB.getTime()) / DAY_MS) <=
+    maxDaysApart
+  );
+};
+
+/**
+ * Orders by creation date, items without one last
+ */
+const compareCreated = (a: DuplicateKey, b: DuplicateKey): number => {
+  const createdA = toDateSortValue(a.created);
+  const createdB = toDateSortValue(b.created);
+  if (createdA === createdB) return 0;
+  if (createdA === undefined) return 1;
+  if (createdB === undefined) return -1;
+  return createdA - createdB;
+};
+
+/**
+ * Groups items that look like duplicates of each other. Each item joins the
+ * first group whose first item shares its scope, has a similar enough title
+ * and a close enough date; items sharing an ID (such as occurrences of one
+ * recurring event) are never duplicates. Only groups of two or more items are
+ * returned, each starting with its earliest created item.
+ */
+export function findDuplicateGroups<T>(
+  items: T[],
+  toKey: (item: T) => DuplicateKey,
+  options: DuplicateOptions,
+): T[][] {
+  const groups: {
+    key: DuplicateKey;
+    members: { key: DuplicateKey; item: T }[];
+  }[] = [];
+  for (const item of items) {
+    const key = toKey(item);
+    const group = groups.find(
+      (candidate) =>
+        candidate.key.scope === key.scope &&
+        candidate.members.every((member) => member.key.id !== key.id) &&
+        areDatesClose(candidate.key.date, key.date, options.maxDaysApart) &&
+        titleSimilarity(candidate.key.title, key.title) >= options.similarity,
+    );
+    if (group) {
+      group.members.push({ key, item });
+    } else {
+      groups.push({ key, members: [{ key, item }] });
+    }
+  }
+  return groups
+    .filter((group) => group.members.length > 1)
+    .map((group) =>
+      group.members
+        .sort((a, b) => compareCreated(a.key, b.key))
+        .map(({ item }) => item),
+    );
+}
+
+/**
+ * Combines notes in order, dropping empty and repeated ones; blank lines
+ * separate the notes of different items
+ */
+export function mergeNotes(notes: (string | undefined)[]): string | undefined {
+  const unique = [
+    ...new Set(notes.map((note) => note?.trim()).filter(Boolean)),
+  ];
+  return unique.length ? unique.join('\n\n') : undefined;
+}
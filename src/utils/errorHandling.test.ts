@@ -29,6 +29,19 @@ describe('ErrorHandling', () => {
       });
     });
 
+    it('should return structured content alongside the markdown', async () => {
+      const result = await handleAsyncOperation(
+        async () => ({ markdown: '### Done', data: { deletedId: 'r1' } }),
+        'test operation',
+      );
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: '### Done' }],
+        structuredContent: { deletedId: 'r1' },
+        isError: false,
+      });
+    });
+
     it('should return error response on failed operation', async () => {
       const mockOperation = jest
         .fn()
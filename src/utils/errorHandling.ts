@@ -25,15 +25,31 @@ function createErrorMessage(operation: string, error: unknown): string {
     : `Failed to ${operation}: System error occurred`;
 }
 
+/**
+ * An operation result as markdown for people plus the same result as data,
+ * returned to programmatic clients as structuredContent
+ */
+export interface StructuredOutput {
+  markdown: string;
+  data: Record<string, unknown>;
+}
+
 /**
  * Utility for handling async operations with consistent error handling
  */
 export async function handleAsyncOperation(
-  operation: () => Promise<string>,
+  operation: () => Promise<string | StructuredOutput>,
   operationName: string,
 ): Promise<CallToolResult> {
   try {
     const result = await operation();
+    if (typeof result !== 'string') {
+      return {
+        content: [{ type: 'text', text: result.markdown }],
+        structuredContent: result.data,
+        isError: false,
+      };
+    }
     return {
       content: [{ type: 'text', text: result }],
       isError: false,
@@ -3,7 +3,7 @@
  * Tests for helper utility functions
  */
 
-import { nullToUndefined } from './helpers.js';
+import { addOptionalJsonArg, nullToUndefined } from './helpers.js';
 
 describe('helpers', () => {
   describe('nullToUndefined', () => {
@@ -75,4 +75,18 @@ describe('helpers', () => {
       expect(result.notes).toBeUndefined();
     });
   });
+
+  describe('addOptionalJsonArg', () => {
+    it('should serialize defined values as JSON', () => {
+      const args: string[] = [];
+      addOptionalJsonArg(args, '--recurrence', { frequency: 'daily' });
+      expect(args).toEqual(['--recurrence', '{"frequency":"daily"}']);
+    });
+
+    it('should skip undefined values', () => {
+      const args: string[] = [];
+      addOptionalJsonArg(args, '--recurrence', undefined);
+      expect(args).toEqual([]);
+    });
+  });
 });
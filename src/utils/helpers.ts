@@ -33,6 +33,20 @@ export function addOptionalBooleanArg(
   }
 }
 
+/**
+ * Adds an optional argument serialized as JSON to the args array if the value is defined
+ * Used for structured values such as recurrence rules
+ */
+export function addOptionalJsonArg(
+  args: string[],
+  flag: string,
+  value: unknown,
+): void {
+  if (value !== undefined) {
+    args.push(flag, JSON.stringify(value));
+  }
+}
+
 /**
  * Type conversion utilities
  */
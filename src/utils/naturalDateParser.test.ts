@@ -0,0 +1,62 @@
+/**
+ * naturalDateParser.test.ts
+ * Tests for natural-language date resolution
+ */
+
+import { resolveNaturalDate } from './naturalDateParser.js';
+
+// Wednesday morning
+const CONTEXT = { currentDate: '2025-03-12', currentTime: '10:30' };
+
+describe('resolveNaturalDate', () => {
+  it.each([
+    ['tomorrow 9am', '2025-03-13 09:00:00'],
+    ['next Friday 3pm', '2025-03-14 15:00:00'],
+    ['friday at 15:30', '2025-03-14 15:30:00'],
+    ['3pm', '2025-03-12 15:00:00'],
+    ['tomorrow morning', '2025-03-13 09:00:00'],
+    ['tonight', '2025-03-12 20:00:00'],
+    ['in 2 hours', '2025-03-12 12:30:00'],
+    ['in 45 minutes', '2025-03-12 11:15:00'],
+    ['end of day', '2025-03-12 23:59:00'],
+    ['end of week', '2025-03-14 17:00:00'],
+  ])('resolves %s to a local date and time', (input, expected) => {
+    expect(resolveNaturalDate(input, CONTEXT)).toBe(expected);
+  });
+
+  it.each([
+    ['today', '2025-03-12'],
+    ['in 3 days', '2025-03-15'],
+    ['2 weeks from now', '2025-03-26'],
+    ['end of month', '2025-03-31'],
+    ['next week', '2025-03-17'],
+    ['next month', '2025-04-01'],
+    ['wednesday', '2025-03-12'],
+    ['next wednesday', '2025-03-19'],
+    ['March 20th', '2025-03-20'],
+    ['1 March', '2026-03-01'],
+    ['April 15, 2027', '2027-04-15'],
+  ])('resolves %s to a date without a time', (input, expected) => {
+    expect(resolveNaturalDate(input, CONTEXT)).toBe(expected);
+  });
+
+  it('clamps month offsets to the end of the target month', () => {
+    expect(
+      resolveNaturalDate('in a month', {
+        currentDate: '2025-01-31',
+        currentTime: '08:00',
+      }),
+    ).toBe('2025-02-28');
+  });
+
+  it.each([
+    'someday',
+    '',
+    '13pm',
+    'tomorrow 25:00',
+    'in 2 hours 3pm',
+    'February 30',
+  ])('rejects %j', (input) => {
+    expect(resolveNaturalDate(input, CONTEXT)).toBeUndefined();
+  });
+});
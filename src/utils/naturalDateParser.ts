@@ -0,0 +1,282 @@
+/**
+ * naturalDateParser.ts
+ * Resolves natural-language date expressions ("next Friday 3pm", "in 2 hours",
+ * "end of month") into the canonical local formats EventKitCLI reads
+ */
+
+import { TIME } from './constants.js';
+import { toLocalDateTimeString } from './dateUtils.js';
+import { parseReminderDueDate } from './reminderDateParser.js';
+import { getTimeContext, type TimeContext } from './timeHelpers.js';
+
+const WEEKDAY_NAMES = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+const MONTH_NAMES = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const DAY_OFFSETS: Record<string, number> = {
+  yesterday: -1,
+  today: 0,
+  tonight: 0,
+  tomorrow: 1,
+};
+
+const TIME_OF_DAY_HOURS: Record<string, number> = {
+  midnight: 0,
+  morning: TIME.DEFAULT_MORNING_HOUR,
+  noon: TIME.NOON,
+  afternoon: 15,
+  evening: 19,
+  tonight: 20,
+};
+
+const TIME_SUFFIX_REGEX =
+  /(?:^|\s)(?:at\s+)?(?:(\d{1,2})(?::(\d{2}))?\s*(am|pm)|(\d{1,2}):(\d{2})|(midnight|morning|noon|afternoon|evening))$/;
+const RELATIVE_REGEX =
+  /^(?:in\s+(\d+|an?)\s+(minute|hour|day|week|month|year)s?|(\d+|an?)\s+(minute|hour|day|week|month|year)s?\s+from\s+now)$/;
+const WEEKDAY_REGEX = /^(?:(this|next)\s+)?([a-z]+)$/;
+const NEXT_PERIOD_REGEX = /^next\s+(week|month|year)$/;
+const END_OF_REGEX = /^end\s+of\s+(?:the\s+)?(day|week|month|year)$/;
+const MONTH_DAY_REGEX =
+  /^([a-z]+)\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?$/;
+const DAY_MONTH_REGEX =
+  /^(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]+)(?:,?\s+(\d{4}))?$/;
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+/**
+ * A resolved date; date-only results keep all-day semantics
+ */
+interface ResolvedDate {
+  date: Date;
+  hasTime: boolean;
+}
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Adds months, clamping to the last day of the target month (Jan 31 + 1 month = Feb 28)
+ */
+const addMonths = (date: Date, months: number): Date => {
+  const lastDay = new Date(
+    date.getFullYear(),
+    date.getMonth() + months + 1,
+    0,
+  ).getDate();
+  const result = new Date(date);
+  result.setFullYear(
+    date.getFullYear(),
+    date.getMonth() + months,
+    Math.min(date.getDate(), lastDay),
+  );
+  return result;
+};
+
+const findMonth = (name: string): number =>
+  MONTH_NAMES.findIndex((month) => name.length >= 3 && month.startsWith(name));
+
+const parseTime = (match: RegExpMatchArray): TimeOfDay | undefined => {
+  const [, hour12, minute12, meridiem, hour24, minute24, word] = match;
+  if (word) return { hour: TIME_OF_DAY_HOURS[word], minute: 0 };
+
+  const hour = Number(hour12 ?? hour24);
+  const minute = Number(minute12 ?? minute24 ?? 0);
+  if (minute > 59) return undefined;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return undefined;
+    return { hour: (hour % 12) + (meridiem === 'pm' ? 12 : 0), minute };
+  }
+  return hour > 23 ? undefined : { hour, minute };
+};
+
+const toAmount = (value: string): number =>
+  value === 'a' || value === 'an' ? 1 : Number(value);
+
+/**
+ * Resolves "in 2 hours", "3 days from now" and similar offsets from now
+ */
+const resolveRelative = (match: RegExpMatchArray, now: Date): ResolvedDate => {
+  const amount = toAmount(match[1] ?? match[3]);
+  const unit = match[2] ?? match[4];
+  const today = addDays(now, 0);
+  switch (unit) {
+    case 'minute':
+      return { date: new Date(now.getTime() + amount * 60_000), hasTime: true };
+    case 'hour':
+      return {
+        date: new Date(now.getTime() + amount * 3_600_000),
+        hasTime: true,
+      };
+    case 'day':
+      return { date: addDays(today, amount), hasTime: false };
+    case 'week':
+      return { date: addDays(today, amount * 7), hasTime: false };
+    case 'month':
+      return { date: addMonths(today, amount), hasTime: false };
+    default:
+      return { date: addMonths(today, amount * 12), hasTime: false };
+  }
+};
+
+/**
+ * Resolves a month and day, rolling over to next year when no year is given
+ * and the date has already passed
+ */
+const resolveMonthDay = (
+  monthName: string,
+  dayText: string,
+  yearText: string | undefined,
+  today: Date,
+): Date | undefined => {
+  const month = findMonth(monthName);
+  const day = Number(dayText);
+  if (month < 0 || day < 1) return undefined;
+
+  const year = yearText ? Number(yearText) : today.getFullYear();
+  const date = new Date(year, month, day);
+  if (date.getMonth() !== month) return undefined;
+  return !yearText && date < today ? new Date(year + 1, month, day) : date;
+};
+
+/**
+ * Resolves the date part of an expression (everything but the time of day)
+ */
+const resolveDatePart = (text: string, now: Date): ResolvedDate | undefined => {
+  const today = addDays(now, 0);
+  if (text === 'now') return { date: now, hasTime: true };
+  if (text in DAY_OFFSETS) {
+    return { date: addDays(today, DAY_OFFSETS[text]), hasTime: false };
+  }
+
+  const relative = text.match(RELATIVE_REGEX);
+  if (relative) return resolveRelative(relative, now);
+
+  const nextPeriod = text.match(NEXT_PERIOD_REGEX);
+  if (nextPeriod) {
+    // Periods start on Monday, the 1st of the month, or January 1st
+    if (nextPeriod[1] === 'week') {
+      return {
+        date: addDays(today, (8 - today.getDay()) % 7 || 7),
+        hasTime: false,
+      };
+    }
+    if (nextPeriod[1] === 'month') {
+      return {
+        date: new Date(today.getFullYear(), today.getMonth() + 1, 1),
+        hasTime: false,
+      };
+    }
+    return { date: new Date(today.getFullYear() + 1, 0, 1), hasTime: false };
+  }
+
+  const endOf = text.match(END_OF_REGEX);
+  if (endOf) {
+    if (endOf[1] === 'day') {
+      const date = new Date(today);
+      date.setHours(TIME.END_OF_DAY_HOUR, TIME.END_OF_DAY_MINUTE);
+      return { date, hasTime: true };
+    }
+    // End of week matches the end-of-week suggestion (Friday 5pm)
+    if (endOf[1] === 'week') {
+      const date = addDays(today, (TIME.FRIDAY - today.getDay() + 7) % 7);
+      date.setHours(TIME.END_OF_WEEK_HOUR);
+      return { date, hasTime: true };
+    }
+    if (endOf[1] === 'month') {
+      return {
+        date: new Date(today.getFullYear(), today.getMonth() + 1, 0),
+        hasTime: false,
+      };
+    }
+    return { date: new Date(today.getFullYear(), 11, 31), hasTime: false };
+  }
+
+  const weekday = text.match(WEEKDAY_REGEX);
+  const weekdayIndex = weekday
+    ? WEEKDAY_NAMES.findIndex(
+        (name) => weekday[2].length >= 3 && name.startsWith(weekday[2]),
+      )
+    : -1;
+  if (weekday && weekdayIndex >= 0) {
+    // A bare weekday or "this" includes today; "next" is the first one after today
+    const days = (weekdayIndex - today.getDay() + 7) % 7;
+    return {
+      date: addDays(today, days === 0 && weekday[1] === 'next' ? 7 : days),
+      hasTime: false,
+    };
+  }
+
+  const monthDay = text.match(MONTH_DAY_REGEX);
+  const dayMonth = text.match(DAY_MONTH_REGEX);
+  const date = monthDay
+    ? resolveMonthDay(monthDay[1], monthDay[2], monthDay[3], today)
+    : dayMonth
+      ? resolveMonthDay(dayMonth[2], dayMonth[1], dayMonth[3], today)
+      : undefined;
+  return date ? { date, hasTime: false } : undefined;
+};
+
+/**
+ * Resolves a natural-language date expression against the current local time.
+ * Returns 'YYYY-MM-DD HH:mm:ss' when the expression names a time and
+ * 'YYYY-MM-DD' otherwise, or undefined when the expression is not understood.
+ */
+export const resolveNaturalDate = (
+  input: string,
+  context: Pick<TimeContext, 'currentDate' | 'currentTime'> = getTimeContext(),
+): string | undefined => {
+  const now = parseReminderDueDate(
+    `${context.currentDate} ${context.currentTime}`,
+  );
+  const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!now || !text) return undefined;
+
+  const timeMatch = text.match(TIME_SUFFIX_REGEX);
+  const time = timeMatch ? parseTime(timeMatch) : undefined;
+  if (timeMatch && !time) return undefined;
+
+  const datePart = timeMatch
+    ? text.slice(0, timeMatch.index).trim() || 'today'
+    : text;
+  const resolved = resolveDatePart(datePart, now);
+  if (!resolved) return undefined;
+
+  if (time) {
+    // Offsets like "in 2 hours" already fix the time
+    if (resolved.hasTime) return undefined;
+    const date = new Date(resolved.date);
+    date.setHours(time.hour, time.minute, 0, 0);
+    return toLocalDateTimeString(date);
+  }
+  if (datePart === 'tonight') {
+    const date = new Date(resolved.date);
+    date.setHours(TIME_OF_DAY_HOURS.tonight, 0, 0, 0);
+    return toLocalDateTimeString(date);
+  }
+  const formatted = toLocalDateTimeString(resolved.date);
+  return resolved.hasTime ? formatted : formatted.slice(0, 10);
+};
@@ -0,0 +1,67 @@
+/**
+ * pagination.test.ts
+ * Tests for sorting and cursor-based paging
+ */
+
+import { ValidationError } from '../validation/schemas.js';
+import { paginate, sortItems, toDateSortValue } from './pagination.js';
+
+describe('sortItems', () => {
+  const items = [
+    { name: 'banana', due: '2025-03-12' },
+    { name: 'Apple', due: undefined },
+    { name: 'cherry', due: '2025-03-10 09:00:00' },
+  ];
+
+  it('sorts strings case-insensitively in either direction', () => {
+    expect(
+      sortItems(items, (item) => item.name, 'asc').map((item) => item.name),
+    ).toEqual(['Apple', 'banana', 'cherry']);
+    expect(
+      sortItems(items, (item) => item.name, 'desc').map((item) => item.name),
+    ).toEqual(['cherry', 'banana', 'Apple']);
+  });
+
+  it('keeps items without a value last', () => {
+    const byDue = (item: (typeof items)[number]) => toDateSortValue(item.due);
+
+    expect(sortItems(items, byDue, 'asc').map((item) => item.name)).toEqual([
+      'cherry',
+      'banana',
+      'Apple',
+    ]);
+    expect(sortItems(items, byDue, 'desc').map((item) => item.name)).toEqual([
+      'banana',
+      'cherry',
+      'Apple',
+    ]);
+  });
+});
+
+describe('paginate', () => {
+  const numbers = [1, 2, 3, 4, 5];
+
+  it('returns everything without a limit', () => {
+    expect(paginate(numbers, {})).toEqual({
+      items: numbers,
+      total: 5,
+      nextCursor: undefined,
+    });
+  });
+
+  it('walks pages with the returned cursor', () => {
+    const first = paginate(numbers, { limit: 2 });
+    const second = paginate(numbers, { limit: 2, cursor: first.nextCursor });
+    const last = paginate(numbers, { limit: 2, cursor: second.nextCursor });
+
+    expect(first.items).toEqual([1, 2]);
+    expect(second.items).toEqual([3, 4]);
+    expect(last).toEqual({ items: [5], total: 5, nextCursor: undefined });
+  });
+
+  it('rejects cursors it did not issue', () => {
+    expect(() => paginate(numbers, { cursor: 'not-a-cursor' })).toThrow(
+      ValidationError,
+    );
+  });
+});
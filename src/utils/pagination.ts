@@ -0,0 +1,87 @@
+/**
+ * pagination.ts
+ * Sorting and cursor-based paging for read results
+ */
+
+import type { SortOrder } from '../types/index.js';
+import { ValidationError } from '../validation/schemas.js';
+import { parseReminderDueDate } from './reminderDateParser.js';
+
+export type SortValue = string | number | undefined;
+
+/**
+ * One page of results; nextCursor is set when more items follow
+ */
+export interface Page<T> {
+  items: T[];
+  total: number;
+  nextCursor?: string;
+}
+
+/**
+ * Converts a date string to a sortable timestamp in local time
+ */
+export const toDateSortValue = (value?: string): number | undefined =>
+  parseReminderDueDate(value)?.getTime();
+
+const compareSortValues = (a: string | number, b: string | number): number =>
+  typeof a === 'string' && typeof b === 'string'
+    ? a.localeCompare(b, undefined, { sensitivity: 'base' })
+    : Number(a) - Number(b);
+
+/**
+ * Sorts items by a key. Items without a value sort last in either order,
+ * and ties keep their original order.
+ */
+export function sortItems<T>(
+  items: T[],
+  getValue: (item: T) => SortValue,
+  order: SortOrder,
+): T[] {
+  const direction = order === 'desc' ? -1 : 1;
+  return items
+    .map((item) => ({ item, value: getValue(item) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return Number(a.value === undefined) - Number(b.value === undefined);
+      }
+      return compareSortValues(a.value, b.value) * direction;
+    })
+    .map(({ item }) => item);
+}
+
+const encodeCursor = (offset: number): string =>
+  Buffer.from(JSON.stringify({ offset })).toString('base64url');
+
+const decodeCursor = (cursor: string): number | undefined => {
+  try {
+    const { offset } = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    return Number.isInteger(offset) && offset >= 0 ? offset : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Returns the page starting at the cursor (or the first page) with at most
+ * limit items; without a limit all remaining items are returned
+ */
+export function paginate<T>(
+  items: T[],
+  options: { limit?: number; cursor?: string },
+): Page<T> {
+  const offset = options.cursor ? decodeCursor(options.cursor) : 0;
+  if (offset === undefined) {
+    throw new ValidationError(
+      'Invalid cursor. Pass the nextCursor value from a previous read unchanged.',
+    );
+  }
+  const end = options.limit ? offset + options.limit : items.length;
+  return {
+    items: items.slice(offset, end),
+    total: items.length,
+    nextCursor: end < items.length ? encodeCursor(end) : undefined,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * recurrence.test.ts
+ * Tests for recurrence rule formatting
+ */
+
+import { formatRecurrenceRule } from './recurrence.js';
+
+describe('formatRecurrenceRule', () => {
+  it.each([
+    [{ frequency: 'daily' as const }, 'Every day'],
+    [{ frequency: 'weekly' as const, interval: 1 }, 'Every week'],
+    [{ frequency: 'monthly' as const, interval: 3 }, 'Every 3 months'],
+    [
+      {
+        frequency: 'weekly' as const,
+        interval: 2,
+        byWeekday: ['monday' as const, 'wednesday' as const],
+      },
+      'Every 2 weeks on Monday, Wednesday',
+    ],
+    [
+      { frequency: 'monthly' as const, byMonthDay: [1, 15, -1] },
+      'Every month on day 1, day 15, last day',
+    ],
+    [
+      { frequency: 'monthly' as const, byMonthDay: [-3] },
+      'Every month on 3 days before month end',
+    ],
+  ])('formats %j as "%s"', (rule, expected) => {
+    expect(formatRecurrenceRule(rule)).toBe(expected);
+  });
+
+  it('describes an occurrence count end', () => {
+    expect(formatRecurrenceRule({ frequency: 'daily', endCount: 1 })).toBe(
+      'Every day for 1 occurrence',
+    );
+    expect(formatRecurrenceRule({ frequency: 'yearly', endCount: 5 })).toBe(
+      'Every year for 5 occurrences',
+    );
+  });
+
+  it('describes an end date', () => {
+    expect(
+      formatRecurrenceRule({ frequency: 'weekly', endDate: '2025-12-31' }),
+    ).toBe('Every week until 2025-12-31');
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * recurrence.ts
+ * Human-readable formatting for reminder and event recurrence rules
+ */
+
+import type { RecurrenceFrequency, RecurrenceRule } from '../types/index.js';
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+const capitalize = (value: string): string =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Formats a day of the month, describing negative values relative to month end
+ */
+const formatMonthDay = (day: number): string => {
+  if (day === -1) return 'last day';
+  if (day < 0) return `${Math.abs(day)} days before month end`;
+  return `day ${day}`;
+};
+
+/**
+ * Formats a recurrence rule as a readable sentence,
+ * e.g. "Every 2 weeks on Monday, Wednesday until 2025-12-31"
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const interval = rule.interval && rule.interval > 1 ? rule.interval : 1;
+  const unit = FREQUENCY_UNITS[rule.frequency];
+  const parts: string[] = [
+    interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`,
+  ];
+
+  if (rule.byWeekday?.length) {
+    parts.push(`on ${rule.byWeekday.map(capitalize).join(', ')}`);
+  }
+  if (rule.byMonthDay?.length) {
+    parts.push(`on ${rule.byMonthDay.map(formatMonthDay).join(', ')}`);
+  }
+
+  if (rule.endCount) {
+    parts.push(
+      `for ${rule.endCount} occurrence${rule.endCount > 1 ? 's' : ''}`,
+    );
+  } else if (rule.endDate) {
+    parts.push(`until ${rule.endDate}`);
+  }
+
+  return parts.join(' ');
+}
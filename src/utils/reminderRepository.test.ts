@@ -8,15 +8,18 @@ import { executeCli } from './cliExecutor.js';
 import type { ReminderFilters } from './dateFiltering.js';
 import { applyReminderFilters } from './dateFiltering.js';
 import { reminderRepository } from './reminderRepository.js';
+import { undoJournal } from './undoJournal.js';
 
 // Mock dependencies
 jest.mock('./cliExecutor.js');
 jest.mock('./dateFiltering.js');
+jest.mock('./undoJournal.js');
 
 const mockExecuteCli = executeCli as jest.MockedFunction<typeof executeCli>;
 const mockApplyReminderFilters = applyReminderFilters as jest.MockedFunction<
   typeof applyReminderFilters
 >;
+const mockUndoJournal = undoJournal as jest.Mocked<typeof undoJournal>;
 
 describe('ReminderRepository', () => {
   const repository = reminderRepository;
@@ -55,6 +58,7 @@ describe('ReminderRepository', () => {
         notes: undefined,
         url: undefined,
         dueDate: undefined,
+        priority: 'none',
       });
     });
 
@@ -143,6 +147,204 @@ describe('ReminderRepository', () => {
 
       expect(result.dueDate).toBe('2025-11-15T08:30:00Z');
     });
+
+    it('should map recurrence from the CLI and drop null rules', async () => {
+      mockExecuteCli.mockResolvedValue({
+        reminders: [
+          {
+            id: '1',
+            title: 'Weekly review',
+            isCompleted: false,
+            list: 'Work',
+            recurrence: { frequency: 'weekly', interval: 1 },
+          },
+          {
+            id: '2',
+            title: 'One-off',
+            isCompleted: false,
+            list: 'Work',
+            recurrence: null,
+          },
+        ],
+        lists: [],
+      });
+
+      const recurring = await repository.findReminderById('1');
+      const single = await repository.findReminderById('2');
+
+      expect(recurring.recurrence).toEqual({
+        frequency: 'weekly',
+        interval: 1,
+      });
+      expect(single.recurrence).toBeUndefined();
+    });
+
+    it.each([
+      [0, 'none'],
+      [1, 'high'],
+      [4, 'high'],
+      [5, 'medium'],
+      [6, 'low'],
+      [9, 'low'],
+    ])('should map EventKit priority %i to %s', async (priority, expected) => {
+      mockExecuteCli.mockResolvedValue({
+        reminders: [
+          {
+            id: '1',
+            title: 'Prioritized',
+            isCompleted: false,
+            list: 'Default',
+            priority,
+          },
+        ],
+        lists: [],
+      });
+
+      const result = await repository.findReminderById('1');
+
+      expect(result.priority).toBe(expected);
+    });
+  });
+
+  describe('subtasks', () => {
+    const family: Partial<Reminder>[] = [
+      { id: 'p', title: 'Plan trip', isCompleted: false, list: 'Travel' },
+      {
+        id: 'c1',
+        title: 'Book flights',
+        isCompleted: true,
+        list: 'Travel',
+        parentId: 'p',
+      },
+      {
+        id: 'c2',
+        title: 'Book hotel',
+        isCompleted: false,
+        list: 'Travel',
+        parentId: 'p',
+      },
+      {
+        id: 'g1',
+        title: 'Compare prices',
+        isCompleted: false,
+        list: 'Travel',
+        parentId: 'c2',
+      },
+      { id: 'x', title: 'Unrelated', isCompleted: false, list: 'Travel' },
+    ];
+
+    it('should attach a nested subtask tree to single reads', async () => {
+      mockExecuteCli.mockResolvedValue({ reminders: family, lists: [] });
+
+      const result = await repository.findReminderById('p');
+
+      expect(result.subtasks?.map((s) => s.id)).toEqual(['c1', 'c2']);
+      expect(result.subtasks?.[1].subtasks?.map((s) => s.id)).toEqual(['g1']);
+      expect(result.subtasks?.[0].subtasks).toBeUndefined();
+    });
+
+    it('should stop at cyclic parent links', async () => {
+      mockExecuteCli.mockResolvedValue({
+        reminders: [
+          { id: 'a', title: 'A', isCompleted: false, list: 'L', parentId: 'b' },
+          { id: 'b', title: 'B', isCompleted: false, list: 'L', parentId: 'a' },
+        ],
+        lists: [],
+      });
+
+      const result = await repository.findReminderById('a');
+
+      expect(result.subtasks?.map((s) => s.id)).toEqual(['b']);
+      expect(result.subtasks?.[0].subtasks).toBeUndefined();
+    });
+
+    it('should list open descendants', async () => {
+      mockExecuteCli.mockResolvedValue({ reminders: family, lists: [] });
+
+      const open = await repository.findOpenSubtasks('p');
+
+      expect(open.map((r) => r.id)).toEqual(['c2', 'g1']);
+    });
+
+    it('should pass parentId on create', async () => {
+      mockExecuteCli.mockResolvedValue({ id: 'c3' });
+
+      await repository.createReminder({ title: 'Pack', parentId: 'p' });
+
+      expect(mockExecuteCli).toHaveBeenCalledWith([
+        '--action',
+        'create',
+        '--title',
+        'Pack',
+        '--parentId',
+        'p',
+      ]);
+    });
+  });
+
+  describe('timestamps', () => {
+    it('should map timestamps and normalize missing ones', async () => {
+      mockExecuteCli.mockResolvedValue({
+        reminders: [
+          {
+            id: '1',
+            title: 'Done',
+            isCompleted: true,
+            list: 'Work',
+            creationDate: '2025-10-01T08:00:00Z',
+            lastModifiedDate: '2025-11-03T17:30:00Z',
+            completionDate: null,
+          },
+        ],
+        lists: [],
+      });
+
+      const result = await repository.findReminderById('1');
+
+      expect(result.creationDate).toBe('2025-10-01T08:00:00Z');
+      expect(result.lastModifiedDate).toBe('2025-11-03T17:30:00Z');
+      expect(result).toHaveProperty('completionDate', undefined);
+    });
+  });
+
+  describe('findAllTags', () => {
+    it('should count tag usage, most used first', async () => {
+      mockExecuteCli.mockResolvedValue({
+        reminders: [
+          { id: '1', tags: ['waiting', 'errand'] },
+          { id: '2', tags: ['errand'] },
+          { id: '3', tags: [] },
+          { id: '4' },
+        ],
+        lists: [],
+      });
+
+      await expect(repository.findAllTags()).resolves.toEqual([
+        { name: 'errand', count: 2 },
+        { name: 'waiting', count: 1 },
+      ]);
+    });
+
+    it('should pass tag changes on update', async () => {
+      mockExecuteCli.mockResolvedValue({ id: '1' });
+
+      await repository.updateReminder({
+        id: '1',
+        addTags: ['errand'],
+        removeTags: ['waiting'],
+      });
+
+      expect(mockExecuteCli).toHaveBeenCalledWith([
+        '--action',
+        'update',
+        '--id',
+        '1',
+        '--addTags',
+        '["errand"]',
+        '--removeTags',
+        '["waiting"]',
+      ]);
+    });
   });
 
   describe('findReminders', () => {
@@ -207,6 +409,7 @@ describe('ReminderRepository', () => {
         notes: 'Notes',
         url: 'https://example.com',
         dueDate: '2024-01-15',
+        priority: 'none',
       });
     });
 
@@ -247,6 +450,31 @@ describe('ReminderRepository', () => {
 
       expect(result[0].dueDate).toBe('2025-11-20T02:00:00Z');
     });
+
+    it('should leave out trashed reminders unless the trash list is read', async () => {
+      mockExecuteCli.mockResolvedValue({
+        reminders: [
+          { id: '1', title: 'Keep', isCompleted: false, list: 'Default' },
+          {
+            id: '2',
+            title: 'Deleted',
+            isCompleted: false,
+            list: 'Trash',
+            tags: ['trashed-from-default', 'trashed-on-2025-03-10'],
+          },
+          { id: '3', title: 'Filed', isCompleted: false, list: 'Trash' },
+        ],
+        lists: [],
+      });
+      mockApplyReminderFilters.mockImplementation((reminders) => reminders);
+
+      const visible = await repository.findReminders();
+      const trashed = await repository.findReminders({ list: 'Trash' });
+
+      // Reminders the user filed in their own "Trash" list stay visible
+      expect(visible.map(({ id }) => id)).toEqual(['1', '3']);
+      expect(trashed.map(({ id }) => id)).toEqual(['1', '2', '3']);
+    });
   });
 
   describe('findAllLists', () => {
@@ -312,7 +540,7 @@ describe('ReminderRepository', () => {
         '--dueDate',
         '2024-01-15',
       ]);
-      expect(result).toBe(mockResult);
+      expect(result).toEqual({ ...mockResult, priority: 'none' });
     });
 
     it('should create reminder with minimal fields', async () => {
@@ -336,7 +564,7 @@ describe('ReminderRepository', () => {
         '--title',
         'Simple Reminder',
       ]);
-      expect(result).toBe(mockResult);
+      expect(result).toEqual({ ...mockResult, priority: 'none' });
     });
 
     it('should handle optional fields correctly', async () => {
@@ -360,6 +588,63 @@ describe('ReminderRepository', () => {
       expect(args).not.toContain('--note');
       expect(args).not.toContain('--url');
       expect(args).not.toContain('--dueDate');
+      expect(args).not.toContain('--priority');
+    });
+
+    it('should pass location trigger as JSON', async () => {
+      mockExecuteCli.mockResolvedValue({ id: '123' });
+
+      await repository.createReminder({
+        title: 'Buy milk',
+        locationTrigger: {
+          title: 'Grocery',
+          latitude: 37.33,
+          longitude: -122.03,
+          proximity: 'enter',
+        },
+      });
+
+      expect(mockExecuteCli).toHaveBeenCalledWith([
+        '--action',
+        'create',
+        '--title',
+        'Buy milk',
+        '--locationTrigger',
+        '{"title":"Grocery","latitude":37.33,"longitude":-122.03,"proximity":"enter"}',
+      ]);
+    });
+
+    it('should pass alarms on create', async () => {
+      mockExecuteCli.mockResolvedValue({ id: '123' });
+
+      await repository.createReminder({
+        title: 'Call',
+        alarms: [{ date: '2025-11-04 09:00:00' }],
+      });
+
+      expect(mockExecuteCli).toHaveBeenCalledWith([
+        '--action',
+        'create',
+        '--title',
+        'Call',
+        '--alarms',
+        '[{"date":"2025-11-04 09:00:00"}]',
+      ]);
+    });
+
+    it('should pass priority as EventKit value', async () => {
+      mockExecuteCli.mockResolvedValue({ id: '123' });
+
+      await repository.createReminder({ title: 'Urgent', priority: 'high' });
+
+      expect(mockExecuteCli).toHaveBeenCalledWith([
+        '--action',
+        'create',
+        '--title',
+        'Urgent',
+        '--priority',
+        '1',
+      ]);
     });
   });
 
@@ -403,7 +688,80 @@ describe('ReminderRepository', () => {
         '--isCompleted',
         'true',
       ]);
-      expect(result).toBe(mockResult);
+      expect(result).toEqual({ ...mockResult, priority: 'none' });
+    });
+
+    it.each([
+      ['none', '0'],
+      ['low', '9'],
+      ['medium', '5'],
+    ] as const)('should pass %s priority as %s', async (priority, expected) => {
+      mockExecuteCli.mockResolvedValue({ id: '123' });
+
+      await repository.updateReminder({ id: '123', priority });
+
+      expect(mockExecuteCli).toHaveBeenCalledWith([
+        '--action',
+        'update',
+        '--id',
+        '123',
+        '--priority',
+        expected,
+      ]);
+    });
+
+    it('should pass recurrence as JSON and clearRecurrence as a flag', async () => {
+      mockExecuteCli.mockResolvedValue({ id: '123' });
+
+      await repository.updateReminder({
+        id: '123',
+        recurrence: { frequency: 'weekly', byWeekday: ['monday'] },
+      });
+      await repository.updateReminder({ id: '123', clearRecurrence: true });
+
+      expect(mockExecuteCli.mock.calls[0][0]).toEqual([
+        '--action',
+        'update',
+        '--id',
+        '123',
+        '--recurrence',
+        '{"frequency":"weekly","byWeekday":["monday"]}',
+      ]);
+      expect(mockExecuteCli.mock.calls[1][0]).toEqual([
+        '--action',
+        'update',
+        '--id',
+        '123',
+        '--clearRecurrence',
+        'true',
+      ]);
+    });
+
+    it('should pass alarm changes as JSON and flags', async () => {
+      mockExecuteCli.mockResolvedValue({ id: '123' });
+
+      await repository.updateReminder({
+        id: '123',
+        addAlarms: [{ relativeOffset: -30 }],
+      });
+      await repository.updateReminder({ id: '123', clearAlarms: true });
+
+      expect(mockExecuteCli.mock.calls[0][0]).toEqual([
+        '--action',
+        'update',
+        '--id',
+        '123',
+        '--addAlarms',
+        '[{"relativeOffset":-30}]',
+      ]);
+      expect(mockExecuteCli.mock.calls[1][0]).toEqual([
+        '--action',
+        'update',
+        '--id',
+        '123',
+        '--clearAlarms',
+        'true',
+      ]);
     });
 
     it('should update reminder with minimal fields', async () => {
@@ -422,7 +780,7 @@ describe('ReminderRepository', () => {
         '--id',
         '123',
       ]);
-      expect(result).toBe(mockResult);
+      expect(result).toEqual({ ...mockResult, priority: 'none' });
     });
 
     it('should handle optional isCompleted field', async () => {
@@ -471,6 +829,224 @@ describe('ReminderRepository', () => {
     });
   });
 
+  describe('undo journal', () => {
+    const before = {
+      id: 'r1',
+      title: 'Call dentist',
+      isCompleted: false,
+      list: 'Personal',
+      notes: null,
+      url: null,
+      dueDate: '2025-03-10 09:00:00',
+      priority: 0,
+    };
+
+    beforeEach(() => {
+      mockUndoJournal.isEnabled.mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      mockUndoJournal.isEnabled.mockReset();
+    });
+
+    it('should journal a deleted reminder with its before-image', async () => {
+      mockExecuteCli
+        .mockResolvedValueOnce([before])
+        .mockResolvedValueOnce(undefined);
+
+      await repository.deleteReminder('r1');
+
+      expect(mockExecuteCli).toHaveBeenNthCalledWith(1, [
+        '--action',
+        'read-by-ids',
+        '--ids',
+        '["r1"]',
+      ]);
+      expect(mockExecuteCli).toHaveBeenLastCalledWith([
+        '--action',
+        'delete',
+        '--id',
+        'r1',
+      ]);
+      expect(mockUndoJournal.record).toHaveBeenCalledWith({
+        type: 'reminder',
+        action: 'delete',
+        itemId: 'r1',
+        title: 'Call dentist',
+        before: expect.objectContaining({
+          id: 'r1',
+          dueDate: '2025-03-10 09:00:00',
+        }),
+      });
+    });
+
+    it('should restore a before-image, clearing fields that were empty', async () => {
+      mockExecuteCli.mockResolvedValue(before);
+
+      await repository.restoreReminder('r1', {
+        id: 'r1',
+        title: 'Call dentist',
+        isCompleted: false,
+        list: 'Personal',
+      });
+
+      const args = mockExecuteCli.mock.calls[0][0];
+      expect(args).toEqual(
+        expect.arrayContaining(['--title', 'Call dentist', '--note', '']),
+      );
+      expect(args[args.indexOf('--dueDate') + 1]).toBe('');
+      expect(args).toContain('--clearRecurrence');
+      expect(args[args.indexOf('--parentId') + 1]).toBe('');
+      expect(mockUndoJournal.record).not.toHaveBeenCalled();
+    });
+
+    it('should restore the parent only while it still exists', async () => {
+      const subtask = {
+        id: 'r1',
+        title: 'Call dentist',
+        isCompleted: false,
+        list: 'Personal',
+        parentId: 'p1',
+      };
+      mockExecuteCli
+        .mockResolvedValueOnce([{ ...before, id: 'p1' }])
+        .mockResolvedValueOnce(before)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce(before);
+
+      await repository.restoreReminder('r1', subtask);
+      await repository.restoreReminder('r1', subtask);
+
+      expect(mockExecuteCli).toHaveBeenNthCalledWith(1, [
+        '--action',
+        'read-by-ids',
+        '--ids',
+        '["p1"]',
+      ]);
+      const [kept, dropped] = [1, 3].map(
+        (call) => mockExecuteCli.mock.calls[call][0],
+      );
+      expect(kept[kept.indexOf('--parentId') + 1]).toBe('p1');
+      expect(dropped[dropped.indexOf('--parentId') + 1]).toBe('');
+    });
+
+    it('should recreate a subtask of a deleted parent as a top-level reminder', async () => {
+      mockExecuteCli
+        .mockResolvedValueOnce([{ id: 'l2', title: 'Personal' }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce({ ...before, id: 'r9' });
+
+      await repository.recreateReminder({
+        id: 'r1',
+        title: 'Call dentist',
+        isCompleted: false,
+        list: 'Personal',
+        parentId: 'p1',
+      });
+
+      expect(mockExecuteCli.mock.calls[2][0]).not.toContain('--parentId');
+    });
+
+    it('should recreate the list of a reminder deleted with it', async () => {
+      mockExecuteCli
+        .mockResolvedValueOnce([{ id: 'l1', title: 'Work' }])
+        .mockResolvedValueOnce({ id: 'l2', title: 'Personal' })
+        .mockResolvedValueOnce({ ...before, id: 'r9' });
+
+      const reminder = await repository.recreateReminder({
+        id: 'r1',
+        title: 'Call dentist',
+        isCompleted: false,
+        list: 'Personal',
+      });
+
+      expect(mockExecuteCli).toHaveBeenNthCalledWith(2, [
+        '--action',
+        'create-list',
+        '--name',
+        'Personal',
+      ]);
+      expect(reminder.id).toBe('r9');
+    });
+  });
+
+  describe('runBatch', () => {
+    it('should send every operation in a single CLI invocation', async () => {
+      mockExecuteCli.mockResolvedValue([]);
+
+      await repository.runBatch(
+        [
+          {
+            action: 'create',
+            data: { title: 'Buy milk', list: 'Inbox', tags: ['errand'] },
+          },
+          { action: 'update', data: { id: 'r1', isCompleted: true } },
+          { action: 'delete', id: 'r2' },
+        ],
+        true,
+      );
+
+      expect(mockExecuteCli).toHaveBeenCalledTimes(1);
+      const args = mockExecuteCli.mock.calls[0][0];
+      expect(args.slice(0, 2)).toEqual(['--action', 'batch']);
+      expect(args.slice(-2)).toEqual(['--stopOnError', 'true']);
+      expect(
+        JSON.parse(args[args.indexOf('--operations') + 1] as string),
+      ).toEqual([
+        {
+          action: 'create',
+          title: 'Buy milk',
+          targetList: 'Inbox',
+          tags: '["errand"]',
+        },
+        { action: 'update', id: 'r1', isCompleted: 'true' },
+        { action: 'delete', id: 'r2' },
+      ]);
+    });
+
+    it('should map batch results to domain reminders', async () => {
+      mockExecuteCli.mockResolvedValue([
+        {
+          index: 0,
+          action: 'create',
+          status: 'success',
+          reminder: {
+            id: 'r1',
+            title: 'Buy milk',
+            isCompleted: false,
+            list: 'Inbox',
+            notes: null,
+            url: null,
+            dueDate: null,
+            priority: 1,
+          },
+          deletedId: null,
+          message: null,
+        },
+      ]);
+
+      const results = await repository.runBatch(
+        [{ action: 'create', data: { title: 'Buy milk' } }],
+        false,
+      );
+
+      expect(results).toEqual([
+        {
+          index: 0,
+          action: 'create',
+          status: 'success',
+          reminder: {
+            id: 'r1',
+            title: 'Buy milk',
+            isCompleted: false,
+            list: 'Inbox',
+            priority: 'high',
+          },
+        },
+      ]);
+    });
+  });
+
   describe('createReminderList', () => {
     it('should create reminder list', async () => {
       const mockResult: ReminderList = { id: '456', title: 'New List' };
@@ -525,5 +1101,41 @@ describe('ReminderRepository', () => {
         'Test List',
       ]);
     });
+
+    it('should journal the reminders deleted with the list', async () => {
+      mockUndoJournal.isEnabled.mockReturnValue(true);
+      mockExecuteCli
+        .mockResolvedValueOnce({
+          reminders: [
+            {
+              id: 'r1',
+              title: 'Buy milk',
+              isCompleted: false,
+              list: 'Errands',
+            },
+          ],
+          lists: [],
+        })
+        .mockResolvedValueOnce(undefined);
+
+      await repository.deleteReminderList('Errands');
+      mockUndoJournal.isEnabled.mockReset();
+
+      expect(mockExecuteCli).toHaveBeenNthCalledWith(1, [
+        '--action',
+        'read',
+        '--showCompleted',
+        'true',
+        '--filterList',
+        'Errands',
+      ]);
+      expect(mockUndoJournal.record).toHaveBeenCalledWith({
+        type: 'reminder',
+        action: 'delete',
+        itemId: 'r1',
+        title: 'Buy milk',
+        before: expect.objectContaining({ id: 'r1', list: 'Errands' }),
+      });
+    });
   });
 });
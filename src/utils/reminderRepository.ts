@@ -3,10 +3,19 @@
  * Repository pattern implementation for reminder data access operations using EventKitCLI.
  */
 
-import type { Reminder, ReminderList } from '../types/index.js';
 import type {
+  BatchItemResult,
+  JournalChange,
+  Reminder,
+  ReminderList,
+  ReminderPriority,
+  TagSummary,
+} from '../types/index.js';
+import type {
+  BatchItemResultJSON,
   CreateReminderData,
   ListJSON,
+  ReminderBatchOperation,
   ReminderJSON,
   ReminderReadResult,
   UpdateReminderData,
@@ -17,16 +26,69 @@ import { applyReminderFilters } from './dateFiltering.js';
 import {
   addOptionalArg,
   addOptionalBooleanArg,
+  addOptionalJsonArg,
   nullToUndefined,
 } from './helpers.js';
+import { getTrashListName, isTrashed } from './trash.js';
+import { undoJournal } from './undoJournal.js';
+
+/**
+ * EventKit priority values written for each priority level
+ */
+const PRIORITY_TO_EVENTKIT: Record<ReminderPriority, number> = {
+  none: 0,
+  high: 1,
+  medium: 5,
+  low: 9,
+};
+
+/**
+ * Maps a raw EventKit priority (0-9) to its priority level.
+ * EventKit treats 1-4 as high, 5 as medium and 6-9 as low.
+ */
+const toPriorityLevel = (priority?: number | null): ReminderPriority => {
+  if (!priority || priority < 1 || priority > 9) return 'none';
+  if (priority < 5) return 'high';
+  if (priority === 5) return 'medium';
+  return 'low';
+};
+
+const addOptionalPriorityArg = (
+  args: string[],
+  priority: ReminderPriority | undefined,
+): void => {
+  if (priority) {
+    args.push('--priority', String(PRIORITY_TO_EVENTKIT[priority]));
+  }
+};
+
+/**
+ * Converts `--key value` CLI args into the key/value map used for batch operations
+ */
+const toArgumentMap = (args: string[]): Record<string, string> => {
+  const values: Record<string, string> = {};
+  for (let i = 0; i < args.length; i += 2) {
+    values[args[i].replace(/^--/, '')] = args[i + 1];
+  }
+  return values;
+};
 
 class ReminderRepository {
   private mapReminder(reminder: ReminderJSON): Reminder {
-    const normalizedReminder = nullToUndefined(reminder, [
-      'notes',
-      'url',
-      'dueDate',
-    ]) as Reminder;
+    const normalizedReminder = {
+      ...nullToUndefined(reminder, [
+        'notes',
+        'url',
+        'dueDate',
+        'recurrence',
+        'locationTrigger',
+        'parentId',
+        'creationDate',
+        'lastModifiedDate',
+        'completionDate',
+      ]),
+      priority: toPriorityLevel(reminder.priority),
+    } as Reminder;
 
     // Pass dueDate as-is from Swift CLI to avoid double timezone conversion
     if (reminder.dueDate) {
@@ -42,6 +104,24 @@ class ReminderRepository {
     return reminders.map((reminder) => this.mapReminder(reminder));
   }
 
+  /**
+   * Attaches nested subtasks to a reminder, skipping already visited
+   * reminders so that cyclic parent links cannot recurse forever
+   */
+  private attachSubtasks(
+    reminder: Reminder,
+    reminders: Reminder[],
+    visited: Set<string> = new Set(),
+  ): Reminder {
+    visited.add(reminder.id);
+    const subtasks = reminders
+      .filter(
+        (child) => child.parentId === reminder.id && !visited.has(child.id),
+      )
+      .map((child) => this.attachSubtasks(child, reminders, visited));
+    return subtasks.length > 0 ? { ...reminder, subtasks } : reminder;
+  }
+
   private async readAll(): Promise<ReminderReadResult> {
     return executeCli<ReminderReadResult>([
       '--action',
@@ -53,35 +133,74 @@ class ReminderRepository {
 
   async findReminderById(id: string): Promise<Reminder> {
     const { reminders } = await this.readAll();
-    const reminder = this.mapReminders(reminders).find((r) => r.id === id);
+    const normalizedReminders = this.mapReminders(reminders);
+    const reminder = normalizedReminders.find((r) => r.id === id);
     if (!reminder) {
       throw new Error(`Reminder with ID '${id}' not found.`);
     }
-    return reminder;
+    return this.attachSubtasks(reminder, normalizedReminders);
+  }
+
+  /**
+   * Returns all incomplete descendants of a reminder, depth first
+   */
+  async findOpenSubtasks(id: string): Promise<Reminder[]> {
+    const collectOpen = (reminder: Reminder): Reminder[] =>
+      (reminder.subtasks ?? []).flatMap((child) => [
+        ...(child.isCompleted ? [] : [child]),
+        ...collectOpen(child),
+      ]);
+    return collectOpen(await this.findReminderById(id));
   }
 
   async findReminders(filters: ReminderFilters = {}): Promise<Reminder[]> {
     const { reminders } = await this.readAll();
-    const normalizedReminders = this.mapReminders(reminders);
+    // Deleted reminders wait in the trash; they only show up when it is asked for
+    const showTrash = filters.list === getTrashListName();
+    const normalizedReminders = this.mapReminders(reminders).filter(
+      (reminder) => showTrash || !isTrashed(reminder),
+    );
     return applyReminderFilters(normalizedReminders, filters);
   }
 
+  /**
+   * Lists every tag in use with its reminder count, most used first
+   */
+  async findAllTags(): Promise<TagSummary[]> {
+    const { reminders } = await this.readAll();
+    const counts = new Map<string, number>();
+    for (const reminder of reminders) {
+      if (isTrashed(reminder)) continue;
+      for (const tag of reminder.tags ?? []) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    return [...counts.entries()]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  }
+
   async findAllLists(): Promise<ReminderList[]> {
     const { lists } = await this.readAll();
     return lists;
   }
 
-  async createReminder(data: CreateReminderData): Promise<ReminderJSON> {
+  private buildCreateArgs(data: CreateReminderData): string[] {
     const args = ['--action', 'create', '--title', data.title];
     addOptionalArg(args, '--targetList', data.list);
     addOptionalArg(args, '--note', data.notes);
     addOptionalArg(args, '--url', data.url);
     addOptionalArg(args, '--dueDate', data.dueDate);
-
-    return executeCli<ReminderJSON>(args);
+    addOptionalPriorityArg(args, data.priority);
+    addOptionalJsonArg(args, '--recurrence', data.recurrence);
+    addOptionalJsonArg(args, '--alarms', data.alarms);
+    addOptionalJsonArg(args, '--locationTrigger', data.locationTrigger);
+    addOptionalArg(args, '--parentId', data.parentId);
+    addOptionalJsonArg(args, '--tags', data.tags);
+    return args;
   }
 
-  async updateReminder(data: UpdateReminderData): Promise<ReminderJSON> {
+  private buildUpdateArgs(data: UpdateReminderData): string[] {
     const args = ['--action', 'update', '--id', data.id];
     addOptionalArg(args, '--title', data.newTitle);
     addOptionalArg(args, '--targetList', data.list);
@@ -89,14 +208,251 @@ class ReminderRepository {
     addOptionalArg(args, '--url', data.url);
     addOptionalArg(args, '--dueDate', data.dueDate);
     addOptionalBooleanArg(args, '--isCompleted', data.isCompleted);
+    addOptionalPriorityArg(args, data.priority);
+    addOptionalJsonArg(args, '--recurrence', data.recurrence);
+    addOptionalBooleanArg(args, '--clearRecurrence', data.clearRecurrence);
+    addOptionalJsonArg(args, '--alarms', data.alarms);
+    addOptionalJsonArg(args, '--addAlarms', data.addAlarms);
+    addOptionalBooleanArg(args, '--clearAlarms', data.clearAlarms);
+    addOptionalJsonArg(args, '--locationTrigger', data.locationTrigger);
+    addOptionalBooleanArg(
+      args,
+      '--clearLocationTrigger',
+      data.clearLocationTrigger,
+    );
+    addOptionalJsonArg(args, '--tags', data.tags);
+    addOptionalJsonArg(args, '--addTags', data.addTags);
+    addOptionalJsonArg(args, '--removeTags', data.removeTags);
+    return args;
+  }
+
+  /**
+   * Reads only the given reminders, without subtasks; unknown IDs are left out
+   */
+  async findRemindersByIds(ids: string[]): Promise<Reminder[]> {
+    return this.mapReminders(
+      await executeCli<ReminderJSON[]>([
+        '--action',
+        'read-by-ids',
+        '--ids',
+        JSON.stringify([...new Set(ids)]),
+      ]),
+    );
+  }
+
+  /**
+   * Looks up reminders as they are before a change, for the undo journal
+   */
+  private async findBeforeImages(
+    ids: string[],
+  ): Promise<Map<string, Reminder>> {
+    if (!undoJournal.isEnabled() || ids.length === 0) return new Map();
+    const reminders = await this.findRemindersByIds(ids);
+    return new Map(reminders.map((reminder) => [reminder.id, reminder]));
+  }
+
+  async createReminder(data: CreateReminderData): Promise<Reminder> {
+    const reminder = this.mapReminder(
+      await executeCli<ReminderJSON>(this.buildCreateArgs(data)),
+    );
+    undoJournal.record({
+      type: 'reminder',
+      action: 'create',
+      itemId: reminder.id,
+      title: reminder.title,
+      after: reminder,
+    });
+    return reminder;
+  }
 
-    return executeCli<ReminderJSON>(args);
+  async updateReminder(data: UpdateReminderData): Promise<Reminder> {
+    const before = await this.findBeforeImages([data.id]);
+    const reminder = this.mapReminder(
+      await executeCli<ReminderJSON>(this.buildUpdateArgs(data)),
+    );
+    undoJournal.record({
+      type: 'reminder',
+      action: 'update',
+      itemId: reminder.id,
+      title: reminder.title,
+      before: before.get(data.id),
+      after: reminder,
+    });
+    return reminder;
   }
 
   async deleteReminder(id: string): Promise<void> {
+    const before = await this.findBeforeImages([id]);
+    await this.discardReminder(id);
+    undoJournal.record({
+      type: 'reminder',
+      action: 'delete',
+      itemId: id,
+      title: before.get(id)?.title,
+      before: before.get(id),
+    });
+  }
+
+  /**
+   * Deletes a reminder without journaling it; undo uses this to remove
+   * reminders it reverts the creation of
+   */
+  async discardReminder(id: string): Promise<void> {
     await executeCli<unknown>(['--action', 'delete', '--id', id]);
   }
 
+  /**
+   * The parent a reminder is written back under, or undefined when that
+   * parent has been deleted since and the reminder becomes a top-level one
+   */
+  private async findRemainingParentId(
+    parentId?: string,
+  ): Promise<string | undefined> {
+    if (!parentId) return undefined;
+    const [parent] = await this.findRemindersByIds([parentId]);
+    return parent?.id;
+  }
+
+  /**
+   * Writes a before-image back onto a reminder, clearing what was empty then.
+   * Used by undo, so it is not journaled.
+   */
+  async restoreReminder(id: string, before: Reminder): Promise<Reminder> {
+    const args = this.buildUpdateArgs({
+      id,
+      newTitle: before.title,
+      list: before.list,
+      url: before.url,
+      isCompleted: before.isCompleted,
+      priority: before.priority ?? 'none',
+      recurrence: before.recurrence,
+      clearRecurrence: !before.recurrence,
+      alarms: before.alarms?.length ? before.alarms : undefined,
+      clearAlarms: !before.alarms?.length,
+      locationTrigger: before.locationTrigger,
+      clearLocationTrigger: !before.locationTrigger,
+      tags: before.tags ?? [],
+    });
+    // Empty values clear the notes, due date and parent
+    args.push(
+      '--note',
+      before.notes ?? '',
+      '--dueDate',
+      before.dueDate ?? '',
+      '--parentId',
+      (await this.findRemainingParentId(before.parentId)) ?? '',
+    );
+    return this.mapReminder(await executeCli<ReminderJSON>(args));
+  }
+
+  /**
+   * Creates a deleted reminder again from its before-image. It gets a new ID.
+   * Used by undo, so it is not journaled.
+   */
+  async recreateReminder(before: Reminder): Promise<Reminder> {
+    // A reminder deleted along with its list needs the list back first
+    const lists = await executeCli<ListJSON[]>(['--action', 'read-lists']);
+    if (!lists.some((list) => list.title === before.list)) {
+      await this.createReminderList(before.list);
+    }
+    const reminder = this.mapReminder(
+      await executeCli<ReminderJSON>(
+        this.buildCreateArgs({
+          title: before.title,
+          list: before.list,
+          notes: before.notes,
+          url: before.url,
+          dueDate: before.dueDate,
+          priority: before.priority,
+          recurrence: before.recurrence,
+          alarms: before.alarms,
+          locationTrigger: before.locationTrigger,
+          parentId: await this.findRemainingParentId(before.parentId),
+          tags: before.tags,
+        }),
+      ),
+    );
+    if (!before.isCompleted) return reminder;
+    return this.mapReminder(
+      await executeCli<ReminderJSON>(
+        this.buildUpdateArgs({ id: reminder.id, isCompleted: true }),
+      ),
+    );
+  }
+
+  /**
+   * Runs create/update/delete operations in order within a single CLI invocation.
+   * Each operation carries the same arguments as its single-item action.
+   */
+  async runBatch(
+    operations: ReminderBatchOperation[],
+    stopOnError: boolean,
+  ): Promise<BatchItemResult[]> {
+    const operationArgs = operations.map((operation) => {
+      if (operation.action === 'create') {
+        return this.buildCreateArgs(operation.data);
+      }
+      if (operation.action === 'update') {
+        return this.buildUpdateArgs(operation.data);
+      }
+      return ['--action', 'delete', '--id', operation.id];
+    });
+    const before = await this.findBeforeImages(
+      operations.flatMap((operation) => {
+        if (operation.action === 'create') return [];
+        return [
+          operation.action === 'update' ? operation.data.id : operation.id,
+        ];
+      }),
+    );
+    const results = (
+      await executeCli<BatchItemResultJSON[]>([
+        '--action',
+        'batch',
+        '--operations',
+        JSON.stringify(operationArgs.map(toArgumentMap)),
+        '--stopOnError',
+        String(stopOnError),
+      ])
+    ).map(({ reminder, ...result }) => ({
+      ...nullToUndefined(result, ['deletedId', 'message']),
+      reminder: reminder ? this.mapReminder(reminder) : undefined,
+    })) as BatchItemResult[];
+
+    undoJournal.record(
+      ...results.flatMap((result): JournalChange[] => {
+        const operation = operations[result.index];
+        if (result.status !== 'success' || !operation) return [];
+        if (operation.action === 'delete') {
+          return [
+            {
+              type: 'reminder',
+              action: 'delete',
+              itemId: operation.id,
+              title: before.get(operation.id)?.title,
+              before: before.get(operation.id),
+            },
+          ];
+        }
+        if (!result.reminder) return [];
+        return [
+          {
+            type: 'reminder',
+            action: operation.action,
+            itemId: result.reminder.id,
+            title: result.reminder.title,
+            before:
+              operation.action === 'update'
+                ? before.get(operation.data.id)
+                : undefined,
+            after: result.reminder,
+          },
+        ];
+      }),
+    );
+    return results;
+  }
+
   async createReminderList(name: string): Promise<ListJSON> {
     return executeCli<ListJSON>(['--action', 'create-list', '--name', name]);
   }
@@ -115,8 +471,38 @@ class ReminderRepository {
     ]);
   }
 
+  /**
+   * Deletes a list and every reminder in it. The reminders are journaled as
+   * deleted so undo can create them again; the list itself is not journaled,
+   * but recreating a reminder creates its list when missing.
+   */
   async deleteReminderList(name: string): Promise<void> {
+    const before = undoJournal.isEnabled()
+      ? this.mapReminders(
+          (
+            await executeCli<ReminderReadResult>([
+              '--action',
+              'read',
+              '--showCompleted',
+              'true',
+              '--filterList',
+              name,
+            ])
+          ).reminders,
+        )
+      : [];
     await executeCli<unknown>(['--action', 'delete-list', '--name', name]);
+    undoJournal.record(
+      ...before.map(
+        (reminder): JournalChange => ({
+          type: 'reminder',
+          action: 'delete',
+          itemId: reminder.id,
+          title: reminder.title,
+          before: reminder,
+        }),
+      ),
+    );
   }
 }
 
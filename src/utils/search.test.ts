@@ -0,0 +1,98 @@
+/**
+ * search.test.ts
+ * Tests for ranked search across reminders and events
+ */
+
+import type { CalendarEvent, Reminder } from '../types/index.js';
+import { searchItems } from './search.js';
+
+const reminder = (overrides: Partial<Reminder>): Reminder => ({
+  id: 'r1',
+  title: 'Reminder',
+  isCompleted: false,
+  list: 'Inbox',
+  ...overrides,
+});
+
+const event = (overrides: Partial<CalendarEvent>): CalendarEvent => ({
+  id: 'e1',
+  title: 'Event',
+  calendar: 'Work',
+  startDate: '2025-03-10 10:00:00',
+  endDate: '2025-03-10 11:00:00',
+  isAllDay: false,
+  ...overrides,
+});
+
+const ids = (results: ReturnType<typeof searchItems>): string[] =>
+  results.map(({ item }) => item.id);
+
+describe('searchItems', () => {
+  it('requires every query word to appear in some field', () => {
+    const results = searchItems(
+      'budget q3',
+      [
+        reminder({ id: 'both', title: 'Budget', notes: 'For Q3' }),
+        reminder({ id: 'one', title: 'Budget' }),
+      ],
+      [],
+    );
+
+    expect(ids(results)).toEqual(['both']);
+    expect(results[0].matchedFields).toEqual(['title', 'notes']);
+  });
+
+  it('searches URLs, locations and tags', () => {
+    const results = searchItems(
+      'acme',
+      [
+        reminder({ id: 'url', url: 'https://acme.example.com' }),
+        reminder({
+          id: 'geofence',
+          locationTrigger: {
+            title: 'ACME HQ',
+            latitude: 0,
+            longitude: 0,
+            proximity: 'enter',
+          },
+        }),
+        reminder({ id: 'tag', tags: ['acme'] }),
+      ],
+      [event({ id: 'location', location: 'Acme Tower' })],
+    );
+
+    expect(ids(results).sort()).toEqual(['geofence', 'location', 'tag', 'url']);
+  });
+
+  it('ranks exact and leading title matches above other fields', () => {
+    const results = searchItems(
+      'Budget',
+      [
+        reminder({ id: 'notes', notes: 'budget numbers' }),
+        reminder({ id: 'contains', title: 'Review budget' }),
+        reminder({ id: 'exact', title: 'budget' }),
+      ],
+      [event({ id: 'prefix', title: 'Budget review' })],
+    );
+
+    expect(ids(results)).toEqual(['exact', 'prefix', 'contains', 'notes']);
+  });
+
+  it('breaks ties by the soonest date, undated items last', () => {
+    const results = searchItems(
+      'sync',
+      [
+        reminder({ id: 'undated', title: 'Team sync' }),
+        reminder({ id: 'later', title: 'Team sync', dueDate: '2025-03-12' }),
+      ],
+      [event({ id: 'sooner', title: 'Team sync' })],
+    );
+
+    expect(ids(results)).toEqual(['sooner', 'later', 'undated']);
+    expect(results.map(({ type }) => type)).toEqual([
+      'event',
+      'reminder',
+      'reminder',
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * search.ts
+ * Ranked text search across reminders and calendar events
+ */
+
+import type { CalendarEvent, Reminder } from '../types/index.js';
+import { toDateSortValue } from './pagination.js';
+
+/**
+ * A searchable field; matches in heavier fields rank higher
+ */
+interface SearchField {
+  name: string;
+  value?: string;
+  weight: number;
+}
+
+export interface SearchMatch {
+  score: number;
+  /** Names of the fields that contain at least one query term */
+  matchedFields: string[];
+}
+
+export type SearchResult =
+  | (SearchMatch & { type: 'reminder'; item: Reminder })
+  | (SearchMatch & { type: 'event'; item: CalendarEvent });
+
+const FIELD_WEIGHTS = {
+  title: 4,
+  location: 2,
+  url: 2,
+  tags: 2,
+  notes: 1,
+} as const;
+
+/** Extra score when the whole query is the title, starts it, or appears verbatim */
+const PHRASE_BONUS = {
+  exactTitle: 8,
+  titlePrefix: 4,
+  anyField: 2,
+} as const;
+
+const getReminderFields = (reminder: Reminder): SearchField[] => [
+  { name: 'title', value: reminder.title, weight: FIELD_WEIGHTS.title },
+  {
+    name: 'location',
+    value: reminder.locationTrigger?.title,
+    weight: FIELD_WEIGHTS.location,
+  },
+  { name: 'url', value: reminder.url, weight: FIELD_WEIGHTS.url },
+  { name: 'tags', value: reminder.tags?.join(' '), weight: FIELD_WEIGHTS.tags },
+  { name: 'notes', value: reminder.notes, weight: FIELD_WEIGHTS.notes },
+];
+
+const getEventFields = (event: CalendarEvent): SearchField[] => [
+  { name: 'title', value: event.title, weight: FIELD_WEIGHTS.title },
+  { name: 'location', value: event.location, weight: FIELD_WEIGHTS.location },
+  { name: 'url', value: event.url, weight: FIELD_WEIGHTS.url },
+  { name: 'notes', value: event.notes, weight: FIELD_WEIGHTS.notes },
+];
+
+/**
+ * Scores fields against a query. Every term must appear in some field;
+ * each term scores the weight of the heaviest field containing it.
+ * Returns undefined when the fields do not match.
+ */
+function scoreMatch(
+  query: string,
+  fields: SearchField[],
+): SearchMatch | undefined {
+  const phrase = query.trim().toLowerCase().replace(/\s+/g, ' ');
+  const terms = phrase.split(' ').filter(Boolean);
+  if (terms.length === 0) return undefined;
+
+  const texts = fields.map((field) => ({
+    ...field,
+    text: field.value?.toLowerCase() ?? '',
+  }));
+  let score = 0;
+  for (const term of terms) {
+    const weights = texts
+      .filter(({ text }) => text.includes(term))
+      .map(({ weight }) => weight);
+    if (weights.length === 0) return undefined;
+    score += Math.max(...weights);
+  }
+
+  const title = texts.find(({ name }) => name === 'title')?.text ?? '';
+  if (title === phrase) {
+    score += PHRASE_BONUS.exactTitle;
+  } else if (title.startsWith(phrase)) {
+    score += PHRASE_BONUS.titlePrefix;
+  } else if (
+    terms.length > 1 &&
+    texts.some(({ text }) => text.includes(phrase))
+  ) {
+    score += PHRASE_BONUS.anyField;
+  }
+
+  return {
+    score,
+    matchedFields: texts
+      .filter(({ text }) => terms.some((term) => text.includes(term)))
+      .map(({ name }) => name),
+  };
+}
+
+const getResultDate = (result: SearchResult): number | undefined =>
+  toDateSortValue(
+    result.type === 'reminder' ? result.item.dueDate : result.item.startDate,
+  );
+
+/**
+ * Orders results by score, then soonest date (undated last), then title
+ */
+const compareResults = (a: SearchResult, b: SearchResult): number => {
+  if (a.score !== b.score) return b.score - a.score;
+  const dateA = getResultDate(a);
+  const dateB = getResultDate(b);
+  if (dateA !== dateB) {
+    if (dateA === undefined) return 1;
+    if (dateB === undefined) return -1;
+    return dateA - dateB;
+  }
+  return a.item.title.localeCompare(b.item.title, undefined, {
+    sensitivity: 'base',
+  });
+};
+
+/**
+ * Matches reminders and events against a query and returns them as one
+ * ranked list, best matches first
+ */
+export function searchItems(
+  query: string,
+  reminders: Reminder[],
+  events: CalendarEvent[],
+): SearchResult[] {
+  const results: SearchResult[] = [];
+  for (const item of reminders) {
+    const match = scoreMatch(query, getReminderFields(item));
+    if (match) results.push({ type: 'reminder', item, ...match });
+  }
+  for (const item of events) {
+    const match = scoreMatch(query, getEventFields(item));
+    if (match) results.push({ type: 'event', item, ...match });
+  }
+  return results.sort(compareResults);
+}
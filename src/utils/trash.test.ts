@@ -0,0 +1,112 @@
+/**
+ * trash.test.ts
+ * Tests for trash list naming and trash tags
+ */
+
+import type { Reminder } from '../types/index.js';
+import {
+  createTrashTags,
+  findOriginalList,
+  getTrashListName,
+  isTrashExpired,
+  isTrashed,
+  readTrashInfo,
+} from './trash.js';
+
+const reminder = (overrides: Partial<Reminder>): Reminder => ({
+  id: 'r1',
+  title: 'Call dentist',
+  isCompleted: false,
+  list: 'Trash',
+  ...overrides,
+});
+
+describe('getTrashListName', () => {
+  const originalTrashList = process.env.TRASH_LIST;
+
+  afterEach(() => {
+    if (originalTrashList === undefined) delete process.env.TRASH_LIST;
+    else process.env.TRASH_LIST = originalTrashList;
+  });
+
+  it('defaults to Trash and honours TRASH_LIST', () => {
+    delete process.env.TRASH_LIST;
+    expect(getTrashListName()).toBe('Trash');
+    process.env.TRASH_LIST = ' Deleted ';
+    expect(getTrashListName()).toBe('Deleted');
+  });
+});
+
+describe('createTrashTags', () => {
+  it('records the list as a valid tag and the local day', () => {
+    expect(
+      createTrashTags('Work / Projects!', new Date(2025, 2, 10, 23, 30)),
+    ).toEqual(['trashed-from-work-projects', 'trashed-on-2025-03-10']);
+  });
+});
+
+describe('readTrashInfo', () => {
+  it('reads the trash tags and ignores the rest', () => {
+    const info = readTrashInfo(
+      reminder({
+        tags: ['health', 'trashed-from-work-projects', 'trashed-on-2025-03-10'],
+      }),
+    );
+
+    expect(info.tags).toEqual([
+      'trashed-from-work-projects',
+      'trashed-on-2025-03-10',
+    ]);
+    expect(info.listKey).toBe('work-projects');
+    expect(info.trashedOn).toEqual(new Date(2025, 2, 10));
+  });
+});
+
+describe('isTrashed', () => {
+  const tags = ['trashed-from-work', 'trashed-on-2025-03-10'];
+
+  it('needs both trash tags and the trash list', () => {
+    expect(isTrashed(reminder({ tags }))).toBe(true);
+    expect(isTrashed(reminder({ tags: [tags[0]] }))).toBe(false);
+    expect(isTrashed(reminder({ tags, list: 'Work' }))).toBe(false);
+  });
+
+  it('leaves reminders the user keeps in a list named Trash alone', () => {
+    expect(isTrashed(reminder({ tags: ['old'] }))).toBe(false);
+    expect(isTrashed(reminder({}))).toBe(false);
+  });
+});
+
+describe('findOriginalList', () => {
+  it('matches lists by their reduced name', () => {
+    const lists = [
+      { id: 'l1', title: 'Personal' },
+      { id: 'l2', title: 'Work Projects' },
+    ];
+
+    expect(findOriginalList(lists, 'work-projects')?.id).toBe('l2');
+    expect(findOriginalList(lists, 'groceries')).toBeUndefined();
+  });
+});
+
+describe('isTrashExpired', () => {
+  const now = new Date(2025, 2, 10, 12);
+
+  it('compares whole days since the reminder was trashed', () => {
+    const trashed = reminder({ tags: ['trashed-on-2025-03-03'] });
+
+    expect(isTrashExpired(trashed, 7, now)).toBe(true);
+    expect(isTrashExpired(trashed, 8, now)).toBe(false);
+  });
+
+  it('never expires reminders without a trash date', () => {
+    expect(
+      isTrashExpired(
+        reminder({ lastModifiedDate: '2024-01-01 08:00:00' }),
+        7,
+        now,
+      ),
+    ).toBe(false);
+    expect(isTrashExpired(reminder({}), 0, now)).toBe(false);
+  });
+});
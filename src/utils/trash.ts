@@ -0,0 +1,102 @@
+/**
+ * trash.ts
+ * Trash list naming and the tags recording where a trashed reminder came from
+ */
+
+import type { Reminder, ReminderList } from '../types/index.js';
+import { TRASH, VALIDATION } from './constants.js';
+import { getDateStart, toLocalDateTimeString } from './dateUtils.js';
+import { parseReminderDueDate } from './reminderDateParser.js';
+
+/**
+ * Tags only allow letters, digits, '_' and '-', so a list name is reduced to
+ * those, e.g. "Work Projects" -> "work-projects"
+ */
+const toListKey = (listName: string): string =>
+  listName
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}_]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, VALIDATION.MAX_TAG_LENGTH - TRASH.LIST_TAG_PREFIX.length);
+
+export function getTrashListName(): string {
+  return process.env.TRASH_LIST?.trim() || TRASH.DEFAULT_LIST;
+}
+
+/**
+ * Tags a reminder gets when it moves to the trash, e.g.
+ * ["trashed-from-work-projects", "trashed-on-2025-03-10"]
+ */
+export function createTrashTags(listName: string, trashedOn: Date): string[] {
+  return [
+    `${TRASH.LIST_TAG_PREFIX}${toListKey(listName)}`,
+    `${TRASH.DATE_TAG_PREFIX}${toLocalDateTimeString(trashedOn).slice(0, 10)}`,
+  ];
+}
+
+/**
+ * What the trash tags of a reminder record
+ */
+export interface TrashInfo {
+  /** The reminder's trash tags, removed again on restore */
+  tags: string[];
+  /** Reduced name of the list the reminder was deleted from */
+  listKey?: string;
+  /** Day the reminder was trashed */
+  trashedOn?: Date;
+}
+
+export function readTrashInfo(reminder: Pick<Reminder, 'tags'>): TrashInfo {
+  const info: TrashInfo = { tags: [] };
+  for (const tag of reminder.tags ?? []) {
+    if (tag.startsWith(TRASH.LIST_TAG_PREFIX)) {
+      info.tags.push(tag);
+      info.listKey = tag.slice(TRASH.LIST_TAG_PREFIX.length);
+    } else if (tag.startsWith(TRASH.DATE_TAG_PREFIX)) {
+      info.tags.push(tag);
+      info.trashedOn = parseReminderDueDate(
+        tag.slice(TRASH.DATE_TAG_PREFIX.length),
+      );
+    }
+  }
+  return info;
+}
+
+/**
+ * Whether delete moved a reminder to the trash. Reminders the user keeps in a
+ * list of the same name lack the trash tags and are left alone.
+ */
+export function isTrashed(reminder: Pick<Reminder, 'list' | 'tags'>): boolean {
+  const { listKey, trashedOn } = readTrashInfo(reminder);
+  return (
+    reminder.list === getTrashListName() &&
+    listKey !== undefined &&
+    trashedOn !== undefined
+  );
+}
+
+/**
+ * Finds the list a trashed reminder came from by its reduced name
+ */
+export function findOriginalList(
+  lists: ReminderList[],
+  listKey: string,
+): ReminderList | undefined {
+  return lists.find((list) => toListKey(list.title) === listKey);
+}
+
+/**
+ * Whether a trashed reminder has been in the trash for at least `days` days.
+ * Reminders without a trash date never expire.
+ */
+export function isTrashExpired(
+  reminder: Reminder,
+  days: number,
+  now = new Date(),
+): boolean {
+  const { trashedOn } = readTrashInfo(reminder);
+  if (!trashedOn) return false;
+  const cutoff = getDateStart(now);
+  cutoff.setDate(cutoff.getDate() - days);
+  return getDateStart(trashedOn) <= cutoff;
+}
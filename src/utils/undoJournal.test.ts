@@ -0,0 +1,105 @@
+/**
+ * undoJournal.test.ts
+ * Tests for the local undo journal
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { JOURNAL } from './constants.js';
+import { undoJournal } from './undoJournal.js';
+
+describe('undoJournal', () => {
+  let dir: string;
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'undo-journal-'));
+    process.env = {
+      ...originalEnv,
+      UNDO_JOURNAL: 'on',
+      UNDO_JOURNAL_PATH: path.join(dir, 'nested', 'journal.json'),
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends entries with IDs and timestamps, oldest first', () => {
+    const [created] = undoJournal.record({
+      type: 'reminder',
+      action: 'create',
+      itemId: 'r1',
+      title: 'Call dentist',
+    });
+    undoJournal.record({ type: 'event', action: 'delete', itemId: 'e1' });
+
+    expect(created.id).toMatch(/^[0-9a-f]{8}$/);
+    expect(Number.isNaN(Date.parse(created.timestamp))).toBe(false);
+    expect(undoJournal.readEntries().map(({ itemId }) => itemId)).toEqual([
+      'r1',
+      'e1',
+    ]);
+  });
+
+  it('keeps only the most recent entries', () => {
+    const changes = Array.from({ length: JOURNAL.MAX_ENTRIES + 5 }, (_, i) => ({
+      type: 'reminder' as const,
+      action: 'update' as const,
+      itemId: `r${i}`,
+    }));
+    undoJournal.record(...changes);
+
+    const entries = undoJournal.readEntries();
+    expect(entries).toHaveLength(JOURNAL.MAX_ENTRIES);
+    expect(entries[0].itemId).toBe('r5');
+  });
+
+  it('marks entries undone and points the old ID at a recreated item', () => {
+    const [update, remove, other] = undoJournal.record(
+      { type: 'reminder', action: 'update', itemId: 'r1' },
+      { type: 'reminder', action: 'delete', itemId: 'r1' },
+      { type: 'event', action: 'update', itemId: 'r1' },
+    );
+
+    undoJournal.markUndone(remove.id, 'r9');
+
+    expect(undoJournal.readEntries()).toEqual([
+      { ...update, itemId: 'r9' },
+      { ...remove, itemId: 'r9', undone: true },
+      other,
+    ]);
+  });
+
+  it('writes under a lock and takes over a stale one', () => {
+    const file = process.env.UNDO_JOURNAL_PATH as string;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(`${file}.lock`, '');
+    const stale = new Date(Date.now() - JOURNAL.LOCK_STALE_MS - 1000);
+    fs.utimesSync(`${file}.lock`, stale, stale);
+
+    undoJournal.record({ type: 'reminder', action: 'create', itemId: 'r1' });
+
+    expect(undoJournal.readEntries()).toHaveLength(1);
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['journal.json']);
+  });
+
+  it('records nothing when disabled', () => {
+    process.env.UNDO_JOURNAL = 'off';
+
+    expect(
+      undoJournal.record({ type: 'reminder', action: 'create', itemId: 'r1' }),
+    ).toEqual([]);
+    expect(undoJournal.isEnabled()).toBe(false);
+    expect(fs.existsSync(undoJournal.getPath())).toBe(false);
+  });
+
+  it('treats an unreadable journal as empty', () => {
+    fs.mkdirSync(path.dirname(undoJournal.getPath()), { recursive: true });
+    fs.writeFileSync(undoJournal.getPath(), 'not json');
+
+    expect(undoJournal.readEntries()).toEqual([]);
+  });
+});
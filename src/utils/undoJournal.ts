@@ -0,0 +1,139 @@
+/**
+ * undoJournal.ts
+ * Local journal of reminder and event changes with their before-images
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { JournalChange, JournalEntry } from '../types/index.js';
+import { JOURNAL } from './constants.js';
+
+class UndoJournal {
+  /**
+   * Journaling is on unless UNDO_JOURNAL is set to 'off'
+   */
+  isEnabled(): boolean {
+    return process.env.UNDO_JOURNAL?.toLowerCase() !== 'off';
+  }
+
+  getPath(): string {
+    return (
+      process.env.UNDO_JOURNAL_PATH ||
+      path.join(os.homedir(), JOURNAL.DEFAULT_PATH)
+    );
+  }
+
+  /**
+   * Returns entries oldest first; a missing or unreadable journal is empty
+   */
+  readEntries(): JournalEntry[] {
+    try {
+      const entries = JSON.parse(fs.readFileSync(this.getPath(), 'utf8'));
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Waits for the lock file, taking over a stale one. Journal calls are
+   * synchronous, so calls within this process never interleave; the lock
+   * covers other server processes sharing the journal.
+   */
+  private acquireLock(lock: string): void {
+    const deadline = Date.now() + JOURNAL.LOCK_TIMEOUT_MS;
+    const pause = new Int32Array(new SharedArrayBuffer(4));
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(lock, 'wx'));
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+      try {
+        if (Date.now() - fs.statSync(lock).mtimeMs > JOURNAL.LOCK_STALE_MS) {
+          fs.rmSync(lock, { force: true });
+          continue;
+        }
+      } catch {
+        // Released between the two calls; try again
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for the undo journal lock');
+      }
+      Atomics.wait(pause, 0, 0, JOURNAL.LOCK_RETRY_MS);
+    }
+  }
+
+  /**
+   * Reads, changes and writes back the journal under a lock. The new journal
+   * is written to a temporary file and renamed over the old one, so readers
+   * never see a partial write.
+   */
+  private updateEntries(
+    change: (entries: JournalEntry[]) => JournalEntry[],
+  ): void {
+    const file = this.getPath();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const lock = `${file}.lock`;
+    this.acquireLock(lock);
+    try {
+      const entries = change(this.readEntries());
+      const temp = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(
+        temp,
+        JSON.stringify(entries.slice(-JOURNAL.MAX_ENTRIES), null, 2),
+        { mode: 0o600 },
+      );
+      fs.renameSync(temp, file);
+    } finally {
+      fs.rmSync(lock, { force: true });
+    }
+  }
+
+  /**
+   * Appends changes that were just made. The changes already happened, so a
+   * journal that cannot be written is reported on stderr instead of failing them.
+   */
+  record(...changes: JournalChange[]): JournalEntry[] {
+    if (!this.isEnabled() || changes.length === 0) return [];
+    const timestamp = new Date().toISOString();
+    const entries: JournalEntry[] = changes.map((change) => ({
+      ...change,
+      id: crypto.randomBytes(4).toString('hex'),
+      timestamp,
+    }));
+    try {
+      this.updateEntries((existing) => [...existing, ...entries]);
+    } catch (error) {
+      console.error(
+        `Failed to write undo journal: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    return entries;
+  }
+
+  /**
+   * Marks a reverted entry so later undos skip it. When reverting recreated a
+   * deleted item, entries for the old ID are pointed at the new one.
+   */
+  markUndone(id: string, recreatedId?: string): void {
+    this.updateEntries((entries) => {
+      const reverted = entries.find((entry) => entry.id === id);
+      if (!reverted) return entries;
+      const { type, itemId } = reverted;
+      for (const entry of entries) {
+        if (entry.id === id) entry.undone = true;
+        if (recreatedId && entry.type === type && entry.itemId === itemId) {
+          entry.itemId = recreatedId;
+        }
+      }
+      return entries;
+    });
+  }
+}
+
+export const undoJournal = new UndoJournal();
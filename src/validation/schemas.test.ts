@@ -5,15 +5,27 @@
 
 import { z } from 'zod/v3';
 import {
+  AlarmSchema,
+  BatchRemindersSchema,
+  BulkUpdateRemindersSchema,
+  CreateCalendarEventSchema,
   CreateReminderListSchema,
   CreateReminderSchema,
+  DeleteCalendarEventSchema,
   DeleteReminderSchema,
+  FindAvailabilitySchema,
+  LocationTriggerSchema,
+  NaturalDateSchema,
+  ReadCalendarEventsSchema,
   ReadRemindersSchema,
+  RecurrenceSchema,
   RequiredListNameSchema,
   SafeDateSchema,
   SafeNoteSchema,
   SafeTextSchema,
   SafeUrlSchema,
+  TagSchema,
+  UpdateCalendarEventSchema,
   UpdateReminderListSchema,
   UpdateReminderSchema,
   ValidationError,
@@ -120,6 +132,45 @@ describe('ValidationSchemas', () => {
       });
     });
 
+    describe('NaturalDateSchema', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date(2025, 2, 12, 10, 30));
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('passes canonical dates through unchanged', () => {
+        expect(NaturalDateSchema.parse('2024-01-15 10:30:00')).toBe(
+          '2024-01-15 10:30:00',
+        );
+        expect(NaturalDateSchema.parse(undefined)).toBeUndefined();
+      });
+
+      it('resolves natural-language dates against the current time', () => {
+        expect(NaturalDateSchema.parse('tomorrow 9am')).toBe(
+          '2025-03-13 09:00:00',
+        );
+        expect(
+          CreateCalendarEventSchema.parse({
+            title: 'Review',
+            startDate: 'friday 2pm',
+            endDate: 'friday 3pm',
+          }),
+        ).toMatchObject({
+          startDate: '2025-03-14 14:00:00',
+          endDate: '2025-03-14 15:00:00',
+        });
+      });
+
+      it('rejects expressions it cannot resolve', () => {
+        expect(() => NaturalDateSchema.parse('01/15/2024')).toThrow();
+        expect(() => NaturalDateSchema.parse('whenever')).toThrow();
+      });
+    });
+
     describe('SafeUrlSchema', () => {
       it('should validate safe URLs', () => {
         expect(() => SafeUrlSchema.parse('https://example.com')).not.toThrow();
@@ -163,6 +214,7 @@ describe('ValidationSchemas', () => {
             note: 'Test note',
             url: 'https://example.com',
             targetList: 'Work',
+            priority: 'high',
           },
           minimalInput: { title: 'Test reminder' },
           requiredFields: ['title'],
@@ -178,6 +230,7 @@ describe('ValidationSchemas', () => {
             url: 'https://example.com',
             completed: false,
             targetList: 'Work',
+            priority: 'none',
           },
           minimalInput: { id: '123' },
           requiredFields: ['id'],
@@ -189,6 +242,28 @@ describe('ValidationSchemas', () => {
           minimalInput: { id: '123' },
           requiredFields: ['id'],
         },
+        {
+          name: 'BatchRemindersSchema',
+          schema: BatchRemindersSchema,
+          validInput: {
+            operations: [{ action: 'delete', id: '123' }],
+            stopOnError: true,
+          },
+          minimalInput: { operations: [{ action: 'delete', id: '123' }] },
+          requiredFields: ['operations'],
+        },
+        {
+          name: 'BulkUpdateRemindersSchema',
+          schema: BulkUpdateRemindersSchema,
+          validInput: {
+            filterList: 'Groceries',
+            patch: { completed: true, addTags: ['done'] },
+            confirm: true,
+            previewToken: 'abc123',
+          },
+          minimalInput: { patch: { targetList: 'Work' } },
+          requiredFields: ['patch'],
+        },
         {
           name: 'CreateReminderListSchema',
           schema: CreateReminderListSchema,
@@ -223,11 +298,337 @@ describe('ValidationSchemas', () => {
           showCompleted: true,
           search: 'meeting',
           dueWithin: 'today',
+          filterPriority: 'medium',
         };
 
         expect(() => ReadRemindersSchema.parse(validInput)).not.toThrow();
         expect(() => ReadRemindersSchema.parse({})).not.toThrow();
       });
+
+      it('should reject unknown priority levels', () => {
+        expect(() =>
+          ReadRemindersSchema.parse({ filterPriority: 'urgent' }),
+        ).toThrow();
+      });
+    });
+
+    describe('BulkUpdateRemindersSchema', () => {
+      it('should require at least one change in the patch', () => {
+        expect(() => BulkUpdateRemindersSchema.parse({ patch: {} })).toThrow(
+          'Patch must contain at least one change',
+        );
+      });
+
+      it('should ignore a single reminder id', () => {
+        expect(
+          BulkUpdateRemindersSchema.parse({
+            id: '1',
+            patch: { completed: true },
+          }),
+        ).not.toHaveProperty('id');
+      });
+    });
+
+    describe('FindAvailabilitySchema', () => {
+      it('should default working hours and slot length', () => {
+        expect(
+          FindAvailabilitySchema.parse({
+            startDate: '2025-03-10',
+            endDate: '2025-03-14',
+          }),
+        ).toEqual(
+          expect.objectContaining({
+            workingHoursStart: 9,
+            workingHoursEnd: 18,
+            minSlotMinutes: 30,
+            bufferBeforeMinutes: 0,
+            bufferAfterMinutes: 0,
+          }),
+        );
+      });
+
+      it('should reject working hours that end before they start', () => {
+        expect(() =>
+          FindAvailabilitySchema.parse({
+            startDate: '2025-03-10',
+            endDate: '2025-03-14',
+            workingHoursStart: 17,
+            workingHoursEnd: 9,
+          }),
+        ).toThrow('workingHoursStart must be before workingHoursEnd');
+      });
+    });
+
+    describe('TagSchema', () => {
+      it('should normalize tags to lowercase without a leading hash', () => {
+        expect(TagSchema.parse('#Waiting')).toBe('waiting');
+        expect(TagSchema.parse(' errand ')).toBe('errand');
+      });
+
+      it.each(['', '#', 'two words', 'a,b'])(
+        'should reject invalid tag "%s"',
+        (tag) => {
+          expect(() => TagSchema.parse(tag)).toThrow();
+        },
+      );
+
+      it('should not combine replacing tags with editing them', () => {
+        expect(() =>
+          UpdateReminderSchema.parse({
+            id: '1',
+            tags: ['a'],
+            addTags: ['b'],
+          }),
+        ).toThrow();
+        expect(
+          UpdateReminderSchema.parse({
+            id: '1',
+            addTags: ['#Errand'],
+            removeTags: ['waiting'],
+          }),
+        ).toMatchObject({ addTags: ['errand'], removeTags: ['waiting'] });
+      });
+
+      it('should accept tag filters on read', () => {
+        expect(
+          ReadRemindersSchema.parse({
+            filterTags: ['errand'],
+            tagMatch: 'all',
+          }),
+        ).toMatchObject({ filterTags: ['errand'], tagMatch: 'all' });
+        expect(() => ReadRemindersSchema.parse({ tagMatch: 'some' })).toThrow();
+      });
+    });
+
+    describe('LocationTriggerSchema', () => {
+      const trigger = {
+        title: 'Office',
+        latitude: 37.3349,
+        longitude: -122.009,
+        radius: 150,
+        proximity: 'leave',
+      };
+
+      it('should accept a geofence on create and update', () => {
+        expect(() =>
+          CreateReminderSchema.parse({
+            title: 'Call home',
+            locationTrigger: trigger,
+          }),
+        ).not.toThrow();
+        expect(() =>
+          UpdateReminderSchema.parse({ id: '1', clearLocationTrigger: true }),
+        ).not.toThrow();
+        expect(() =>
+          ReadRemindersSchema.parse({ hasLocationTrigger: true }),
+        ).not.toThrow();
+      });
+
+      it.each([
+        { ...trigger, latitude: 91 },
+        { ...trigger, longitude: -181 },
+        { ...trigger, radius: 10 },
+        { ...trigger, proximity: 'near' },
+        { ...trigger, title: '' },
+      ])('should reject invalid trigger %j', (invalid) => {
+        expect(() => LocationTriggerSchema.parse(invalid)).toThrow();
+      });
+
+      it('should reject setting and clearing a trigger together', () => {
+        expect(() =>
+          UpdateReminderSchema.parse({
+            id: '1',
+            locationTrigger: trigger,
+            clearLocationTrigger: true,
+          }),
+        ).toThrow();
+      });
+    });
+
+    describe('RecurrenceSchema', () => {
+      it('should accept structured rules', () => {
+        expect(() =>
+          RecurrenceSchema.parse({
+            frequency: 'weekly',
+            interval: 2,
+            byWeekday: ['monday', 'friday'],
+            endDate: '2025-12-31',
+          }),
+        ).not.toThrow();
+        expect(() =>
+          RecurrenceSchema.parse({
+            frequency: 'monthly',
+            byMonthDay: [1, -1],
+            endCount: 6,
+          }),
+        ).not.toThrow();
+      });
+
+      it.each([
+        { frequency: 'hourly' },
+        { frequency: 'daily', interval: 0 },
+        { frequency: 'weekly', byWeekday: ['funday'] },
+        { frequency: 'weekly', byMonthDay: [1] },
+        { frequency: 'monthly', byMonthDay: [0] },
+        { frequency: 'daily', endCount: 3, endDate: '2025-12-31' },
+        { frequency: 'daily', endDate: 'someday' },
+      ])('should reject invalid rule %j', (rule) => {
+        expect(() => RecurrenceSchema.parse(rule)).toThrow();
+      });
+
+      it('should require a due date for a recurring reminder', () => {
+        const result = CreateReminderSchema.safeParse({
+          title: 'Chores',
+          recurrence: { frequency: 'weekly' },
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0]).toMatchObject({
+          path: ['recurrence'],
+          message:
+            'Recurring reminders need a due date: set dueDate or remove recurrence',
+        });
+        expect(() =>
+          CreateReminderSchema.parse({
+            title: 'Chores',
+            dueDate: '2025-03-10',
+            recurrence: { frequency: 'weekly' },
+          }),
+        ).not.toThrow();
+      });
+
+      it('should not allow setting and clearing recurrence together', () => {
+        expect(() =>
+          UpdateReminderSchema.parse({
+            id: '123',
+            recurrence: { frequency: 'daily' },
+            clearRecurrence: true,
+          }),
+        ).toThrow();
+      });
+    });
+
+    describe('AlarmSchema', () => {
+      it('should accept absolute or relative alarms', () => {
+        expect(() =>
+          AlarmSchema.parse({ date: '2025-11-04 09:00:00' }),
+        ).not.toThrow();
+        expect(() => AlarmSchema.parse({ relativeOffset: -30 })).not.toThrow();
+      });
+
+      it.each([
+        {},
+        { date: '2025-11-04 09:00:00', relativeOffset: -30 },
+        { relativeOffset: 1.5 },
+        { date: 'tomorrow' },
+      ])('should reject invalid alarm %j', (alarm) => {
+        expect(() => AlarmSchema.parse(alarm)).toThrow();
+      });
+
+      it('should allow only one alarm change mode per update', () => {
+        expect(() =>
+          UpdateReminderSchema.parse({
+            id: '123',
+            alarms: [{ relativeOffset: -10 }],
+            addAlarms: [{ relativeOffset: -5 }],
+          }),
+        ).toThrow();
+        expect(() =>
+          UpdateCalendarEventSchema.parse({
+            id: 'evt-1',
+            addAlarms: [{ relativeOffset: -5 }],
+            clearAlarms: true,
+          }),
+        ).toThrow();
+        expect(() =>
+          UpdateReminderSchema.parse({ id: '123', clearAlarms: true }),
+        ).not.toThrow();
+      });
+
+      it('should cap the number of alarms', () => {
+        const alarms = Array.from({ length: 11 }, () => ({
+          relativeOffset: -5,
+        }));
+        expect(() =>
+          CreateReminderSchema.parse({ title: 'T', alarms }),
+        ).toThrow();
+      });
+    });
+
+    describe('Event availability and time zone', () => {
+      const event = {
+        title: 'Focus',
+        startDate: '2025-11-15 09:00:00',
+        endDate: '2025-11-15 11:00:00',
+      };
+
+      it('should accept availability and IANA time zones', () => {
+        expect(() =>
+          CreateCalendarEventSchema.parse({
+            ...event,
+            availability: 'free',
+            timeZone: 'Europe/Berlin',
+          }),
+        ).not.toThrow();
+        expect(() =>
+          UpdateCalendarEventSchema.parse({ id: 'evt', timeZone: 'UTC' }),
+        ).not.toThrow();
+      });
+
+      it('should reject unknown time zones and unsettable availability', () => {
+        expect(() =>
+          CreateCalendarEventSchema.parse({ ...event, timeZone: 'Mars/Base' }),
+        ).toThrow();
+        expect(() =>
+          CreateCalendarEventSchema.parse({
+            ...event,
+            availability: 'not-supported',
+          }),
+        ).toThrow();
+      });
+
+      it('should accept exclusion filters on read', () => {
+        expect(
+          ReadCalendarEventsSchema.parse({
+            excludeAvailability: ['free'],
+            excludeStatus: ['cancelled'],
+          }),
+        ).toMatchObject({
+          excludeAvailability: ['free'],
+          excludeStatus: ['cancelled'],
+        });
+        expect(() =>
+          ReadCalendarEventsSchema.parse({ excludeStatus: ['canceled'] }),
+        ).toThrow();
+      });
+    });
+
+    describe('Recurring event targeting', () => {
+      it('should accept span and occurrence date on update and delete', () => {
+        const target = {
+          id: 'evt-1',
+          span: 'future-events',
+          occurrenceDate: '2025-11-11 09:00:00',
+        };
+        expect(() => UpdateCalendarEventSchema.parse(target)).not.toThrow();
+        expect(() => DeleteCalendarEventSchema.parse(target)).not.toThrow();
+      });
+
+      it('should reject unknown spans', () => {
+        expect(() =>
+          DeleteCalendarEventSchema.parse({ id: 'evt-1', span: 'all' }),
+        ).toThrow();
+      });
+
+      it('should not allow setting and clearing event recurrence together', () => {
+        expect(() =>
+          UpdateCalendarEventSchema.parse({
+            id: 'evt-1',
+            recurrence: { frequency: 'weekly' },
+            clearRecurrence: true,
+          }),
+        ).toThrow();
+      });
     });
 
     describe('UpdateReminderListSchema', () => {
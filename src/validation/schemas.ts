@@ -6,7 +6,8 @@
  */
 
 import { z } from 'zod/v3';
-import { VALIDATION } from '../utils/constants.js';
+import { AUDIT, JOURNAL, TIME, TRASH, VALIDATION } from '../utils/constants.js';
+import { resolveNaturalDate } from '../utils/naturalDateParser.js';
 
 // Security patterns – allow printable Unicode text while blocking dangerous control and delimiter chars.
 // Allows standard printable ASCII, extended Latin, CJK, plus newlines/tabs for notes.
@@ -18,6 +19,8 @@ const SAFE_TEXT_PATTERN = /^[\u0020-\u007E\u00A0-\uFFFF\n\r\t]*$/u;
 const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}.*$/;
 // URL validation that blocks internal/private network addresses and localhost
 // Prevents SSRF attacks while allowing legitimate external URLs
+// Tags are single words (letters, digits, '_' or '-') so they stay unambiguous in filters
+const TAG_PATTERN = /^[\p{L}\p{N}_-]+$/u;
 const URL_PATTERN =
   /^https?:\/\/(?!(?:127\.|192\.168\.|10\.|localhost|0\.0\.0\.0))[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*(?:\/[^\s<>"{}|\\^`[\]]*)?$/i;
 
@@ -107,6 +110,41 @@ const createRequiredDateSchema = (fieldName: string) =>
     )
     .min(1, `${fieldName} is required`);
 
+const NATURAL_DATE_FORMATS =
+  "'YYYY-MM-DD', 'YYYY-MM-DD HH:mm:ss', ISO 8601, or an expression such as 'tomorrow 9am', 'next Friday 3pm', 'in 2 hours' or 'end of month'";
+
+/**
+ * Resolves natural-language dates to the canonical local format; canonical dates pass through unchanged
+ */
+const resolveDateInput =
+  (fieldName: string) =>
+  (value: string, ctx: z.RefinementCtx): string => {
+    if (DATE_PATTERN.test(value)) return value;
+    const resolved = resolveNaturalDate(value);
+    if (!resolved) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${fieldName} must be ${NATURAL_DATE_FORMATS}`,
+      });
+      return z.NEVER;
+    }
+    return resolved;
+  };
+
+/**
+ * Due, start and end dates also accept natural-language expressions
+ */
+export const NaturalDateSchema = z
+  .string()
+  .transform(resolveDateInput('Date'))
+  .optional();
+
+const createRequiredNaturalDateSchema = (fieldName: string) =>
+  z
+    .string()
+    .min(1, `${fieldName} is required`)
+    .transform(resolveDateInput(fieldName));
+
 export const SafeUrlSchema = z
   .string()
   .regex(URL_PATTERN, 'URL must be a valid HTTP or HTTPS URL')
@@ -118,7 +156,190 @@ export const SafeUrlSchema = z
 
 // Reusable schemas for common fields
 const DueWithinEnum = z
-  .enum(['today', 'tomorrow', 'this-week', 'overdue', 'no-date'])
+  .enum([
+    'today',
+    'tomorrow',
+    'this-week',
+    'next-week',
+    'this-month',
+    'next-7-days',
+    'overdue',
+    'no-date',
+  ])
+  .optional();
+
+const PriorityEnum = z.enum(['none', 'low', 'medium', 'high']).optional();
+
+const WeekdayEnum = z.enum([
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+]);
+
+/**
+ * Structured recurrence rule shared by reminders and calendar events
+ */
+export const RecurrenceSchema = z
+  .object({
+    frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+    interval: z
+      .number()
+      .int()
+      .min(1, 'Interval must be at least 1')
+      .max(
+        VALIDATION.MAX_RECURRENCE_INTERVAL,
+        `Interval cannot exceed ${VALIDATION.MAX_RECURRENCE_INTERVAL}`,
+      )
+      .optional(),
+    byWeekday: z.array(WeekdayEnum).min(1).max(7).optional(),
+    byMonthDay: z
+      .array(
+        z
+          .number()
+          .int()
+          .min(-31)
+          .max(31)
+          .refine((day) => day !== 0, 'Day of month cannot be 0'),
+      )
+      .min(1)
+      .max(31)
+      .optional(),
+    endCount: z
+      .number()
+      .int()
+      .min(1, 'End count must be at least 1')
+      .optional(),
+    endDate: createRequiredDateSchema('Recurrence end date').optional(),
+  })
+  .refine((rule) => !(rule.endCount && rule.endDate), {
+    message: 'Recurrence can end by count or by date, not both',
+    path: ['endCount'],
+  })
+  .refine(
+    (rule) =>
+      !rule.byMonthDay ||
+      rule.frequency === 'monthly' ||
+      rule.frequency === 'yearly',
+    {
+      message: 'byMonthDay is only supported for monthly or yearly recurrence',
+      path: ['byMonthDay'],
+    },
+  );
+
+/**
+ * Alarm triggering at an absolute date or at a relative offset in minutes
+ */
+export const AlarmSchema = z
+  .object({
+    date: createRequiredDateSchema('Alarm date').optional(),
+    relativeOffset: z
+      .number()
+      .int('Relative offset must be a whole number of minutes')
+      .min(-VALIDATION.MAX_ALARM_OFFSET_MINUTES)
+      .max(VALIDATION.MAX_ALARM_OFFSET_MINUTES)
+      .optional(),
+  })
+  .refine(
+    (alarm) =>
+      (alarm.date === undefined) !== (alarm.relativeOffset === undefined),
+    'Alarm must specify exactly one of date or relativeOffset',
+  );
+
+const AlarmListSchema = z
+  .array(AlarmSchema)
+  .max(
+    VALIDATION.MAX_ALARMS,
+    `Cannot set more than ${VALIDATION.MAX_ALARMS} alarms`,
+  )
+  .optional();
+
+/**
+ * Alarm fields for update operations: replace, append, or clear alarms
+ */
+const AlarmUpdateFields = {
+  alarms: AlarmListSchema,
+  addAlarms: AlarmListSchema,
+  clearAlarms: z.boolean().optional(),
+};
+
+/**
+ * Ensures only one alarm change mode is used per update
+ */
+const hasSingleAlarmMode = (data: {
+  alarms?: unknown;
+  addAlarms?: unknown;
+  clearAlarms?: boolean;
+}): boolean =>
+  [
+    data.alarms !== undefined,
+    data.addAlarms !== undefined,
+    !!data.clearAlarms,
+  ].filter(Boolean).length <= 1;
+
+const SINGLE_ALARM_MODE_ERROR = {
+  message: 'Use only one of alarms, addAlarms, or clearAlarms',
+  path: ['alarms'],
+};
+
+/**
+ * Geofence that triggers a reminder on arrival at or departure from a place
+ */
+export const LocationTriggerSchema = z.object({
+  title: createSafeTextSchema(
+    1,
+    VALIDATION.MAX_LOCATION_LENGTH,
+    'Location title',
+  ),
+  latitude: z
+    .number()
+    .min(-90, 'Latitude must be between -90 and 90')
+    .max(90, 'Latitude must be between -90 and 90'),
+  longitude: z
+    .number()
+    .min(-180, 'Longitude must be between -180 and 180')
+    .max(180, 'Longitude must be between -180 and 180'),
+  radius: z
+    .number()
+    .min(
+      VALIDATION.MIN_GEOFENCE_RADIUS,
+      `Radius must be at least ${VALIDATION.MIN_GEOFENCE_RADIUS} meters`,
+    )
+    .max(
+      VALIDATION.MAX_GEOFENCE_RADIUS,
+      `Radius cannot exceed ${VALIDATION.MAX_GEOFENCE_RADIUS} meters`,
+    )
+    .optional(),
+  proximity: z.enum(['enter', 'leave']),
+});
+
+/**
+ * Reminder tag, normalized to lowercase without a leading '#'
+ */
+export const TagSchema = z
+  .string()
+  .trim()
+  .transform((tag) => tag.replace(/^#/, '').toLowerCase())
+  .pipe(
+    z
+      .string()
+      .min(1, 'Tag cannot be empty')
+      .max(
+        VALIDATION.MAX_TAG_LENGTH,
+        `Tag cannot exceed ${VALIDATION.MAX_TAG_LENGTH} characters`,
+      )
+      .regex(
+        TAG_PATTERN,
+        'Tag may only contain letters, numbers, underscores, and hyphens',
+      ),
+  );
+
+const TagListSchema = z
+  .array(TagSchema)
+  .max(VALIDATION.MAX_TAGS, `Cannot use more than ${VALIDATION.MAX_TAGS} tags`)
   .optional();
 
 /**
@@ -126,18 +347,65 @@ const DueWithinEnum = z
  */
 const BaseReminderFields = {
   title: SafeTextSchema,
-  dueDate: SafeDateSchema,
+  dueDate: NaturalDateSchema,
   note: SafeNoteSchema,
   url: SafeUrlSchema,
   targetList: SafeListNameSchema,
+  priority: PriorityEnum,
+  recurrence: RecurrenceSchema.optional(),
+  alarms: AlarmListSchema,
+  locationTrigger: LocationTriggerSchema.optional(),
+  tags: TagListSchema,
 };
 
 export const SafeIdSchema = z.string().min(1, 'ID cannot be empty');
 
+/**
+ * Reports what a mutating action would change instead of changing it
+ */
+const DryRunFields = {
+  dryRun: z.boolean().optional().default(false),
+};
+
 /**
  * Tool-specific validation schemas
  */
-export const CreateReminderSchema = z.object(BaseReminderFields);
+/**
+ * EventKit repeats a reminder from its due date, so a rule needs one
+ */
+export const RECURRENCE_DUE_DATE_ERROR = {
+  message:
+    'Recurring reminders need a due date: set dueDate or remove recurrence',
+  path: ['recurrence'],
+};
+
+export const CreateReminderSchema = z
+  .object({
+    ...BaseReminderFields,
+    parentId: SafeIdSchema.optional(),
+    ...DryRunFields,
+  })
+  .refine(
+    (data) => !data.recurrence || data.dueDate !== undefined,
+    RECURRENCE_DUE_DATE_ERROR,
+  );
+
+/**
+ * Sort direction and page selection shared by read actions
+ */
+const PaginationFields = {
+  sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(
+      VALIDATION.MAX_PAGE_SIZE,
+      `Limit cannot exceed ${VALIDATION.MAX_PAGE_SIZE} items`,
+    )
+    .optional(),
+  cursor: z.string().min(1).max(100, 'Invalid cursor').optional(),
+};
 
 export const ReadRemindersSchema = z.object({
   id: SafeIdSchema.optional(),
@@ -145,27 +413,215 @@ export const ReadRemindersSchema = z.object({
   showCompleted: z.boolean().optional().default(false),
   search: SafeSearchSchema,
   dueWithin: DueWithinEnum,
+  filterPriority: PriorityEnum,
+  hasLocationTrigger: z.boolean().optional(),
+  filterTags: TagListSchema,
+  tagMatch: z.enum(['any', 'all']).optional(),
+  completedAfter: SafeDateSchema,
+  completedBefore: SafeDateSchema,
+  modifiedSince: SafeDateSchema,
+  dueAfter: NaturalDateSchema,
+  dueBefore: NaturalDateSchema,
+  sortBy: z
+    .enum(['dueDate', 'title', 'list', 'priority', 'created'])
+    .optional(),
+  ...PaginationFields,
 });
 
-export const UpdateReminderSchema = z.object({
+/**
+ * Changes applied by a bulk update; at least one change is required
+ */
+const ReminderPatchSchema = z
+  .object({
+    completed: z.boolean().optional(),
+    targetList: SafeListNameSchema,
+    dueDate: NaturalDateSchema,
+    priority: PriorityEnum,
+    addTags: TagListSchema,
+    removeTags: TagListSchema,
+  })
+  .refine(
+    (patch) => Object.values(patch).some((value) => value !== undefined),
+    'Patch must contain at least one change',
+  );
+
+export const BulkUpdateRemindersSchema = ReadRemindersSchema.omit({
+  id: true,
+  sortBy: true,
+  sortOrder: true,
+  limit: true,
+  cursor: true,
+})
+  .extend({
+    patch: ReminderPatchSchema,
+    confirm: z.boolean().optional().default(false),
+    previewToken: z.string().optional(),
+    ...DryRunFields,
+  })
+  .refine((data) => !data.confirm || data.previewToken, {
+    message:
+      'Confirming a bulk update requires the previewToken from its preview',
+    path: ['previewToken'],
+  });
+
+/**
+ * Duplicate detection settings shared by reminders and events; merge applies
+ * the groups of an earlier find-duplicates call identified by its previewToken
+ */
+const DuplicateDetectionFields = {
+  similarity: z
+    .number()
+    .min(VALIDATION.MIN_DUPLICATE_SIMILARITY)
+    .max(1)
+    .optional()
+    .default(VALIDATION.DEFAULT_DUPLICATE_SIMILARITY),
+  maxDaysApart: z
+    .number()
+    .int()
+    .min(0)
+    .max(VALIDATION.MAX_DUPLICATE_DAYS_APART)
+    .optional()
+    .default(0),
+  merge: z.boolean().optional().default(false),
+  previewToken: z.string().optional(),
+  ...DryRunFields,
+};
+
+const hasMergePreviewToken = (data: {
+  merge: boolean;
+  previewToken?: string;
+}): boolean => !data.merge || Boolean(data.previewToken);
+const MERGE_PREVIEW_TOKEN_ERROR = {
+  message: 'Merging duplicates requires the previewToken from find-duplicates',
+  path: ['previewToken'],
+};
+
+export const FindDuplicateRemindersSchema = ReadRemindersSchema.omit({
+  id: true,
+  sortBy: true,
+  sortOrder: true,
+  limit: true,
+  cursor: true,
+})
+  .extend({
+    ...DuplicateDetectionFields,
+    permanent: z.boolean().optional().default(false),
+  })
+  .refine(hasMergePreviewToken, MERGE_PREVIEW_TOKEN_ERROR);
+
+export const UpdateReminderSchema = z
+  .object({
+    id: SafeIdSchema,
+    title: SafeTextSchema.optional(),
+    dueDate: NaturalDateSchema,
+    note: SafeNoteSchema,
+    url: SafeUrlSchema,
+    completed: z.boolean().optional(),
+    targetList: SafeListNameSchema,
+    priority: PriorityEnum,
+    recurrence: RecurrenceSchema.optional(),
+    clearRecurrence: z.boolean().optional(),
+    ...AlarmUpdateFields,
+    locationTrigger: LocationTriggerSchema.optional(),
+    clearLocationTrigger: z.boolean().optional(),
+    tags: TagListSchema,
+    addTags: TagListSchema,
+    removeTags: TagListSchema,
+    ...DryRunFields,
+  })
+  .refine((data) => !(data.recurrence && data.clearRecurrence), {
+    message: 'Provide either recurrence or clearRecurrence, not both',
+    path: ['clearRecurrence'],
+  })
+  .refine(hasSingleAlarmMode, SINGLE_ALARM_MODE_ERROR)
+  .refine((data) => !(data.locationTrigger && data.clearLocationTrigger), {
+    message: 'Provide either locationTrigger or clearLocationTrigger, not both',
+    path: ['clearLocationTrigger'],
+  })
+  .refine((data) => !(data.tags && (data.addTags || data.removeTags)), {
+    message: 'Use tags to replace all tags, or addTags/removeTags to edit them',
+    path: ['tags'],
+  });
+
+export const DeleteReminderSchema = z.object({
   id: SafeIdSchema,
-  title: SafeTextSchema.optional(),
-  dueDate: SafeDateSchema,
-  note: SafeNoteSchema,
-  url: SafeUrlSchema,
-  completed: z.boolean().optional(),
-  targetList: SafeListNameSchema,
+  permanent: z.boolean().optional().default(false),
+  ...DryRunFields,
 });
 
-export const DeleteReminderSchema = z.object({
+export const RestoreReminderSchema = z.object({
   id: SafeIdSchema,
+  targetList: SafeListNameSchema,
+  ...DryRunFields,
+});
+
+export const PurgeTrashSchema = z.object({
+  olderThanDays: z
+    .number()
+    .int()
+    .min(0)
+    .max(VALIDATION.MAX_TRASH_AGE_DAYS)
+    .optional()
+    .default(TRASH.DEFAULT_PURGE_DAYS),
+  ...DryRunFields,
+});
+
+/**
+ * Batch envelope; each operation's own fields are validated per item by the
+ * matching create/update/delete schema so failures are reported per operation
+ */
+export const BatchRemindersSchema = z.object({
+  operations: z
+    .array(
+      z
+        .object({ action: z.enum(['create', 'update', 'delete']) })
+        .passthrough(),
+    )
+    .min(1, 'Batch must contain at least one operation')
+    .max(
+      VALIDATION.MAX_BATCH_OPERATIONS,
+      `Batch cannot exceed ${VALIDATION.MAX_BATCH_OPERATIONS} operations`,
+    ),
+  stopOnError: z.boolean().optional().default(false),
+  ...DryRunFields,
 });
 
 // Calendar event schemas
+
+/**
+ * IANA time zone identifier, validated against the runtime's time zone database
+ */
+const TimeZoneSchema = z
+  .string()
+  .min(1, 'Time zone cannot be empty')
+  .refine((timeZone) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Time zone must be an IANA identifier such as 'Europe/Berlin'");
+
+const AvailabilityEnum = z.enum(['busy', 'free', 'tentative', 'unavailable']);
+
+const ConflictPolicyEnum = z
+  .enum(['allow', 'warn', 'reject'])
+  .optional()
+  .default('warn');
+
+/**
+ * Fields targeting an occurrence of a recurring event for update/delete
+ */
+const EventOccurrenceFields = {
+  span: z.enum(['this-event', 'future-events']).optional(),
+  occurrenceDate: SafeDateSchema,
+};
+
 export const CreateCalendarEventSchema = z.object({
   title: SafeTextSchema,
-  startDate: createRequiredDateSchema('Start date'),
-  endDate: createRequiredDateSchema('End date'),
+  startDate: createRequiredNaturalDateSchema('Start date'),
+  endDate: createRequiredNaturalDateSchema('End date'),
   note: SafeNoteSchema,
   location: createOptionalSafeTextSchema(
     VALIDATION.MAX_LOCATION_LENGTH,
@@ -173,49 +629,236 @@ export const CreateCalendarEventSchema = z.object({
   ),
   url: SafeUrlSchema,
   isAllDay: z.boolean().optional(),
+  availability: AvailabilityEnum.optional(),
+  timeZone: TimeZoneSchema.optional(),
   targetCalendar: SafeListNameSchema,
+  recurrence: RecurrenceSchema.optional(),
+  alarms: AlarmListSchema,
+  onConflict: ConflictPolicyEnum,
+  ...DryRunFields,
 });
 
 export const ReadCalendarEventsSchema = z.object({
   id: SafeIdSchema.optional(),
   filterCalendar: SafeListNameSchema,
   search: SafeSearchSchema,
-  startDate: SafeDateSchema,
-  endDate: SafeDateSchema,
-});
-
-export const UpdateCalendarEventSchema = z.object({
-  id: SafeIdSchema,
-  title: SafeTextSchema.optional(),
-  startDate: SafeDateSchema,
-  endDate: SafeDateSchema,
-  note: SafeNoteSchema,
-  location: createOptionalSafeTextSchema(
-    VALIDATION.MAX_LOCATION_LENGTH,
-    'Location',
+  attendee: createOptionalSafeTextSchema(
+    VALIDATION.MAX_SEARCH_LENGTH,
+    'Attendee',
   ),
-  url: SafeUrlSchema,
-  isAllDay: z.boolean().optional(),
-  targetCalendar: SafeListNameSchema,
+  excludeAvailability: z
+    .array(
+      z.enum(['not-supported', 'busy', 'free', 'tentative', 'unavailable']),
+    )
+    .optional(),
+  excludeStatus: z
+    .array(z.enum(['none', 'confirmed', 'tentative', 'cancelled']))
+    .optional(),
+  startDate: NaturalDateSchema,
+  endDate: NaturalDateSchema,
+  sortBy: z.enum(['startDate', 'title', 'created']).optional(),
+  ...PaginationFields,
 });
 
+export const FindDuplicateEventsSchema = ReadCalendarEventsSchema.omit({
+  id: true,
+  sortBy: true,
+  sortOrder: true,
+  limit: true,
+  cursor: true,
+})
+  .extend(DuplicateDetectionFields)
+  .refine(hasMergePreviewToken, MERGE_PREVIEW_TOKEN_ERROR);
+
+export const UpdateCalendarEventSchema = z
+  .object({
+    id: SafeIdSchema,
+    title: SafeTextSchema.optional(),
+    startDate: NaturalDateSchema,
+    endDate: NaturalDateSchema,
+    note: SafeNoteSchema,
+    location: createOptionalSafeTextSchema(
+      VALIDATION.MAX_LOCATION_LENGTH,
+      'Location',
+    ),
+    url: SafeUrlSchema,
+    isAllDay: z.boolean().optional(),
+    availability: AvailabilityEnum.optional(),
+    timeZone: TimeZoneSchema.optional(),
+    targetCalendar: SafeListNameSchema,
+    recurrence: RecurrenceSchema.optional(),
+    clearRecurrence: z.boolean().optional(),
+    ...AlarmUpdateFields,
+    ...EventOccurrenceFields,
+    onConflict: ConflictPolicyEnum,
+    ...DryRunFields,
+  })
+  .refine((data) => !(data.recurrence && data.clearRecurrence), {
+    message: 'Provide either recurrence or clearRecurrence, not both',
+    path: ['clearRecurrence'],
+  })
+  .refine(hasSingleAlarmMode, SINGLE_ALARM_MODE_ERROR);
+
 export const DeleteCalendarEventSchema = z.object({
   id: SafeIdSchema,
+  ...EventOccurrenceFields,
+  ...DryRunFields,
 });
 
 export const ReadCalendarsSchema = z.object({});
 
+const BufferMinutesSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(
+    VALIDATION.MAX_BUFFER_MINUTES,
+    `Buffer cannot exceed ${VALIDATION.MAX_BUFFER_MINUTES} minutes`,
+  )
+  .optional()
+  .default(0);
+
+/**
+ * Working day and shortest slot used when looking for free time
+ */
+const FreeTimeFields = {
+  workingHoursStart: z
+    .number()
+    .int()
+    .min(0)
+    .max(23)
+    .optional()
+    .default(TIME.WORKING_HOURS_START),
+  workingHoursEnd: z
+    .number()
+    .int()
+    .min(1)
+    .max(24)
+    .optional()
+    .default(TIME.WORKING_HOURS_END),
+  minSlotMinutes: z
+    .number()
+    .int()
+    .min(5, 'Minimum slot must be at least 5 minutes')
+    .max(1440)
+    .optional()
+    .default(TIME.DEFAULT_MIN_SLOT_MINUTES),
+};
+
+const hasOrderedWorkingHours = (data: {
+  workingHoursStart: number;
+  workingHoursEnd: number;
+}): boolean => data.workingHoursStart < data.workingHoursEnd;
+
+const WORKING_HOURS_ORDER_ERROR = {
+  message: 'workingHoursStart must be before workingHoursEnd',
+  path: ['workingHoursEnd'],
+};
+
+export const FindAvailabilitySchema = z
+  .object({
+    startDate: createRequiredNaturalDateSchema('Start date'),
+    endDate: createRequiredNaturalDateSchema('End date'),
+    ...FreeTimeFields,
+    calendars: z.array(RequiredListNameSchema).optional(),
+    bufferBeforeMinutes: BufferMinutesSchema,
+    bufferAfterMinutes: BufferMinutesSchema,
+  })
+  .refine(hasOrderedWorkingHours, WORKING_HOURS_ORDER_ERROR);
+
+export const ReadAgendaSchema = z
+  .object({
+    date: NaturalDateSchema,
+    period: z.enum(['day', 'week']).optional().default('day'),
+    calendars: z.array(RequiredListNameSchema).optional(),
+    lists: z.array(RequiredListNameSchema).optional(),
+    showCompleted: z.boolean().optional().default(false),
+    ...FreeTimeFields,
+  })
+  .refine(hasOrderedWorkingHours, WORKING_HOURS_ORDER_ERROR);
+
+export const ReadTagsSchema = z.object({});
+
+export const SearchAllSchema = z.object({
+  query: createSafeTextSchema(1, VALIDATION.MAX_SEARCH_LENGTH, 'Query'),
+  types: z
+    .array(z.enum(['reminder', 'event']))
+    .min(1)
+    .optional(),
+  filterList: SafeListNameSchema,
+  filterCalendar: SafeListNameSchema,
+  showCompleted: z.boolean().optional().default(false),
+  startDate: NaturalDateSchema,
+  endDate: NaturalDateSchema,
+  limit: PaginationFields.limit,
+  cursor: PaginationFields.cursor,
+});
+
+export const ReadUndoJournalSchema = z.object({
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(
+      JOURNAL.MAX_ENTRIES,
+      `Limit cannot exceed ${JOURNAL.MAX_ENTRIES} entries`,
+    )
+    .optional()
+    .default(20),
+});
+
+export const RevertOperationsSchema = z
+  .object({
+    count: z
+      .number()
+      .int()
+      .min(1)
+      .max(
+        VALIDATION.MAX_UNDO_OPERATIONS,
+        `Cannot undo more than ${VALIDATION.MAX_UNDO_OPERATIONS} operations at once`,
+      )
+      .optional(),
+    operationId: z
+      .string()
+      .regex(/^[0-9a-f]{8}$/, 'Operation ID must be 8 hexadecimal characters')
+      .optional(),
+  })
+  .refine((data) => !(data.count !== undefined && data.operationId), {
+    message: 'Provide either count or operationId, not both',
+    path: ['operationId'],
+  });
+
+export const ReadAuditLogSchema = z.object({
+  startDate: NaturalDateSchema,
+  endDate: NaturalDateSchema,
+  tool: z.string().min(1, 'Tool cannot be empty').optional(),
+  id: SafeIdSchema.optional(),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(
+      AUDIT.MAX_READ_ENTRIES,
+      `Limit cannot exceed ${AUDIT.MAX_READ_ENTRIES} entries`,
+    )
+    .optional()
+    .default(20),
+});
+
 export const CreateReminderListSchema = z.object({
   name: RequiredListNameSchema,
+  ...DryRunFields,
 });
 
 export const UpdateReminderListSchema = z.object({
   name: RequiredListNameSchema,
   newName: RequiredListNameSchema,
+  ...DryRunFields,
 });
 
 export const DeleteReminderListSchema = z.object({
   name: RequiredListNameSchema,
+  ...DryRunFields,
 });
 
 /**
@@ -244,7 +887,7 @@ export class ValidationError extends Error {
 /**
  * Generic validation function with security error handling and detailed logging
  * @template T - Expected type after validation
- * @param {z.ZodSchema<T>} schema - Zod schema to validate against
+ * @param {z.ZodType<T>} schema - Zod schema to validate against
  * @param {unknown} input - Input data to validate
  * @returns {T} Validated and parsed data
  * @throws {ValidationError} Detailed validation error with field-specific messages
@@ -263,7 +906,10 @@ export class ValidationError extends Error {
  *   }
  * }
  */
-export const validateInput = <T>(schema: z.ZodSchema<T>, input: unknown): T => {
+export const validateInput = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  input: unknown,
+): T => {
   try {
     return schema.parse(input);
   } catch (error) {